@@ -1,13 +1,21 @@
 import { NgModule } from '@angular/core';
 import { RouterModule, Routes } from '@angular/router';
 
+import { DsnDashboardComponent } from './components/dsn-dashboard/dsn-dashboard.component';
+import { PlanetSystemComponent } from './components/planet-system/planet-system.component';
+import { SkyViewComponent } from './components/sky-view/sky-view.component';
 import { SolarSystemComponent } from './components/solar-system/solar-system.component';
 import { VoyagerMapComponent } from './components/voyager-map/voyager-map.component';
 
 const routes: Routes = [
   { path: '', pathMatch: 'full', redirectTo: 'solar' },
   { path: 'solar', component: SolarSystemComponent, data: { anim: 'solar' } },
-  { path: 'voyager/:id', component: VoyagerMapComponent, data: { anim: 'voyager' } },
+  { path: 'solar/:planet', component: PlanetSystemComponent, data: { anim: 'planet-system' } },
+  { path: 'sky', component: SkyViewComponent, data: { anim: 'sky' } },
+  { path: 'dsn', component: DsnDashboardComponent, data: { anim: 'dsn' } },
+  { path: 'spacecraft/:id', component: VoyagerMapComponent, data: { anim: 'spacecraft' } },
+  // Anciennes URL /voyager/voyager1 : conservées pour les favoris.
+  { path: 'voyager/:id', redirectTo: 'spacecraft/:id' },
   { path: '**', redirectTo: 'solar' }
 ];
 
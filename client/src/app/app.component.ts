@@ -1,6 +1,7 @@
 import { Component, ChangeDetectionStrategy } from '@angular/core';
 import { RouterOutlet } from '@angular/router';
 import { animate, query, style, transition, trigger } from '@angular/animations';
+import { DeepLinkService } from './services/deep-link.service';
 
 @Component({
   selector: 'app-root',
@@ -31,6 +32,10 @@ import { animate, query, style, transition, trigger } from '@angular/animations'
   ]
 })
 export class AppComponent {
+  constructor(deepLinks: DeepLinkService) {
+    deepLinks.start();
+  }
+
   prepareRoute(outlet: RouterOutlet) {
     return outlet?.activatedRouteData?.['anim'] ?? 'route';
   }
@@ -7,8 +7,11 @@ import localeFr from '@angular/common/locales/fr';
 
 import { AppComponent } from './app.component';
 import { AppRoutingModule } from './app-routing.module';
+import { DsnDashboardComponent } from './components/dsn-dashboard/dsn-dashboard.component';
 import { NavDockComponent } from './components/nav-dock/nav-dock.component';
 import { PlanetInfoPanelComponent } from './components/planet-info-panel/planet-info-panel.component';
+import { PlanetSystemComponent } from './components/planet-system/planet-system.component';
+import { SkyViewComponent } from './components/sky-view/sky-view.component';
 import { SolarSystemComponent } from './components/solar-system/solar-system.component';
 import { TimeScrubberComponent } from './components/time-scrubber/time-scrubber.component';
 import { VoyagerMapComponent } from './components/voyager-map/voyager-map.component';
@@ -22,7 +25,10 @@ registerLocaleData(localeFr);
     SolarSystemComponent,
     PlanetInfoPanelComponent,
     VoyagerMapComponent,
+    SkyViewComponent,
+    PlanetSystemComponent,
     NavDockComponent,
+    DsnDashboardComponent,
     TimeScrubberComponent,
     TranslatePipe
   ],
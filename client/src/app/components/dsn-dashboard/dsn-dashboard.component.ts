@@ -0,0 +1,202 @@
+import { ChangeDetectorRef, Component, OnDestroy, OnInit } from '@angular/core';
+import { EMPTY, Subscription, catchError, interval, startWith, switchMap } from 'rxjs';
+import { AU_IN_KM } from '@solar-system/shared';
+
+import { DsnDish, DsnSignal, DsnSnapshot, DsnStation } from '../../models/dsn';
+import { DsnService } from '../../services/dsn.service';
+import { I18nService } from '../../services/i18n.service';
+
+/** Liaison antenne ↔ sonde : cible DSN et signaux qui la concernent. */
+interface DsnLink {
+  spacecraft: string;
+  registryId?: string;
+  rtltSeconds: number | null;
+  rangeKm: number | null;
+  down?: DsnSignal;
+  up?: DsnSignal;
+}
+
+interface DishView {
+  dish: DsnDish;
+  links: DsnLink[];
+}
+
+interface StationView {
+  station: DsnStation;
+  dishes: DishView[];
+}
+
+// Ordre ouest → est, comme la page DSN Now.
+const STATION_ORDER = ['gdscc', 'mdscc', 'cdscc'];
+
+@Component({
+  selector: 'app-dsn-dashboard',
+  templateUrl: './dsn-dashboard.component.html',
+  styleUrls: ['./dsn-dashboard.component.css']
+})
+export class DsnDashboardComponent implements OnInit, OnDestroy {
+  // Le serveur cache 5 s ; DSN Now n'est pas publié plus souvent.
+  readonly refreshIntervalMs = 10_000;
+
+  stations: StationView[] = [];
+  snapshot: DsnSnapshot | null = null;
+  loading = true;
+  failed = false;
+
+  private sub?: Subscription;
+  private langSub?: Subscription;
+
+  constructor(
+    private dsn: DsnService,
+    private i18n: I18nService,
+    private cdr: ChangeDetectorRef
+  ) {}
+
+  ngOnInit(): void {
+    this.sub = interval(this.refreshIntervalMs)
+      .pipe(
+        startWith(0),
+        switchMap(() =>
+          this.dsn.getSnapshot().pipe(
+            catchError(() => {
+              this.failed = true;
+              this.loading = false;
+              this.cdr.markForCheck();
+              return EMPTY;
+            })
+          )
+        )
+      )
+      .subscribe((snapshot) => this.applySnapshot(snapshot));
+
+    this.langSub = this.i18n.lang$.subscribe(() => {
+      this.cdr.markForCheck();
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.sub?.unsubscribe();
+    this.sub = undefined;
+    this.langSub?.unsubscribe();
+    this.langSub = undefined;
+  }
+
+  get updatedLabel(): string {
+    const iso = this.snapshot?.timestamp ?? this.snapshot?.metadata.fetchedAt;
+    if (!iso) return '—';
+    const lang = this.i18n.language === 'fr' ? 'fr-FR' : 'en-US';
+    return new Intl.DateTimeFormat(lang, {
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      timeZone: 'UTC',
+      timeZoneName: 'short'
+    }).format(new Date(iso));
+  }
+
+  get stale(): boolean {
+    return this.snapshot?.metadata.cacheStatus === 'STALE';
+  }
+
+  isIdle(view: DishView): boolean {
+    return view.links.length === 0;
+  }
+
+  /** 160 b/s, 40 kb/s, 2,5 Mb/s. */
+  formatDataRate(bps: number | null | undefined): string {
+    if (bps === null || bps === undefined || bps <= 0) return '—';
+    const units = ['b/s', 'kb/s', 'Mb/s', 'Gb/s'];
+    let value = bps;
+    let unit = 0;
+    while (value >= 1000 && unit < units.length - 1) {
+      value /= 1000;
+      unit += 1;
+    }
+    return `${this.formatNumber(value, value < 10 ? 2 : value < 100 ? 1 : 0)} ${units[unit]}`;
+  }
+
+  /** Temps aller-retour : secondes, minutes ou heures selon l'ordre de grandeur. */
+  formatRtlt(seconds: number | null): string {
+    if (seconds === null || seconds < 0) return '—';
+    if (seconds < 60) return `${this.formatNumber(seconds, 1)} s`;
+    const totalMinutes = Math.round(seconds / 60);
+    if (totalMinutes < 60) return `${totalMinutes} min`;
+    const hours = Math.floor(totalMinutes / 60);
+    return `${hours} h ${String(totalMinutes % 60).padStart(2, '0')} min`;
+  }
+
+  formatRange(km: number | null): string {
+    if (km === null) return '—';
+    return km >= 0.01 * AU_IN_KM ? `${this.formatNumber(km / AU_IN_KM, 2)} AU` : `${this.formatNumber(km, 0)} km`;
+  }
+
+  formatDeg(value: number | null): string {
+    return value === null ? '—' : `${value.toFixed(1)}°`;
+  }
+
+  trackByStation(_: number, view: StationView): string {
+    return view.station.id;
+  }
+
+  trackByDish(_: number, view: DishView): string {
+    return view.dish.name;
+  }
+
+  trackByLink(_: number, link: DsnLink): string {
+    return link.spacecraft;
+  }
+
+  private applySnapshot(snapshot: DsnSnapshot): void {
+    this.snapshot = snapshot;
+    this.stations = [...snapshot.stations]
+      .sort((a, b) => this.stationRank(a) - this.stationRank(b))
+      .map((station) => ({
+        station,
+        dishes: station.dishes.map((dish) => ({ dish, links: this.linksOf(dish) }))
+      }));
+    this.loading = false;
+    this.failed = false;
+    this.cdr.markForCheck();
+  }
+
+  private stationRank(station: DsnStation): number {
+    const index = STATION_ORDER.indexOf(station.id);
+    return index === -1 ? STATION_ORDER.length : index;
+  }
+
+  /**
+   * Une liaison par cible ; les signaux actifs sans cible déclarée (DSN Now en
+   * publie pendant les acquisitions) deviennent une liaison sans distance.
+   */
+  private linksOf(dish: DsnDish): DsnLink[] {
+    const signal = (signals: DsnSignal[], name: string) =>
+      signals.find((s) => s.active && s.spacecraft === name) ?? signals.find((s) => s.spacecraft === name);
+
+    const links: DsnLink[] = dish.targets.map((target) => ({
+      spacecraft: target.name,
+      registryId: target.registryId,
+      rtltSeconds: target.rtltSeconds,
+      rangeKm: target.downlegRangeKm ?? target.uplegRangeKm,
+      down: signal(dish.downSignals, target.name),
+      up: signal(dish.upSignals, target.name)
+    }));
+
+    for (const s of [...dish.downSignals, ...dish.upSignals]) {
+      if (!s.active || !s.spacecraft || links.some((l) => l.spacecraft === s.spacecraft)) continue;
+      links.push({
+        spacecraft: s.spacecraft,
+        registryId: s.registryId,
+        rtltSeconds: null,
+        rangeKm: null,
+        down: signal(dish.downSignals, s.spacecraft),
+        up: signal(dish.upSignals, s.spacecraft)
+      });
+    }
+    return links;
+  }
+
+  private formatNumber(value: number, digits: number): string {
+    const lang = this.i18n.language === 'fr' ? 'fr-FR' : 'en-US';
+    return new Intl.NumberFormat(lang, { maximumFractionDigits: digits }).format(value);
+  }
+}
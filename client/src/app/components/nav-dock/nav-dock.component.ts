@@ -1,5 +1,9 @@
 import { Component, ChangeDetectionStrategy } from '@angular/core';
+import { Observable } from 'rxjs';
+
+import { SpacecraftMission } from '../../models/spacecraft';
 import { I18nService } from '../../services/i18n.service';
+import { SpacecraftService } from '../../services/spacecraft.service';
 
 @Component({
   selector: 'app-nav-dock',
@@ -8,12 +12,32 @@ import { I18nService } from '../../services/i18n.service';
   changeDetection: ChangeDetectionStrategy.OnPush
 })
 export class NavDockComponent {
-  constructor(public i18n: I18nService) {}
+  readonly spacecraft$: Observable<SpacecraftMission[]>;
+  spacecraftMenuOpen = false;
+
+  constructor(
+    public i18n: I18nService,
+    spacecraftService: SpacecraftService
+  ) {
+    this.spacecraft$ = spacecraftService.getRegistry();
+  }
 
   toggleLanguage(): void {
     this.i18n.toggleLanguage();
   }
 
+  toggleSpacecraftMenu(): void {
+    this.spacecraftMenuOpen = !this.spacecraftMenuOpen;
+  }
+
+  closeSpacecraftMenu(): void {
+    this.spacecraftMenuOpen = false;
+  }
+
+  trackBySpacecraftId(_: number, craft: SpacecraftMission): string {
+    return craft.id;
+  }
+
   get languageLabel(): string {
     return this.i18n.language.toUpperCase();
   }
@@ -10,8 +10,11 @@ import {
   SimpleChanges,
   ChangeDetectorRef
 } from '@angular/core';
-import { Subscription } from 'rxjs';
+import { Subscription, merge } from 'rxjs';
+import { AU_IN_KM, SECONDS_PER_DAY } from '@solar-system/shared';
+import { EXPORT_FORMATS, ExportFormat, ExportService, bodyExportWindow } from '../../services/export.service';
 import { I18nService } from '../../services/i18n.service';
+import { TimeScrubberService } from '../../services/time-scrubber.service';
 
 interface CatalogBody {
   id?: string;
@@ -76,17 +79,19 @@ export class PlanetInfoPanelComponent implements OnChanges, OnInit, OnDestroy {
 
   @Output() close = new EventEmitter<void>();
 
-  readonly auInKm = 149_597_870.7;
+  readonly exportFormats = EXPORT_FORMATS;
 
   private langSub?: Subscription;
 
   constructor(
     private i18n: I18nService,
+    public time: TimeScrubberService,
+    private exportService: ExportService,
     private cdr: ChangeDetectorRef
   ) {}
 
   ngOnInit(): void {
-    this.langSub = this.i18n.lang$.subscribe(() => {
+    this.langSub = merge(this.i18n.lang$, this.time.state$).subscribe(() => {
       this.cdr.markForCheck();
     });
   }
@@ -135,12 +140,12 @@ export class PlanetInfoPanelComponent implements OnChanges, OnInit, OnDestroy {
     const { x_au, y_au, z_au, vx, vy, vz } = this.ephemeris;
     const distAu = Math.sqrt(x_au * x_au + y_au * y_au + z_au * z_au);
     this.heliocentricDistanceAu = Number.isFinite(distAu) ? distAu : null;
-    this.heliocentricDistanceKm = Number.isFinite(distAu) ? distAu * this.auInKm : null;
+    this.heliocentricDistanceKm = Number.isFinite(distAu) ? distAu * AU_IN_KM : null;
 
     this.rangeAu = this.ephemeris.range_au ?? null;
     this.rangeKm =
       this.ephemeris.range_au !== undefined && this.ephemeris.range_au !== null
-        ? this.ephemeris.range_au * this.auInKm
+        ? this.ephemeris.range_au * AU_IN_KM
         : null;
     this.rangeRateKmS = this.ephemeris.range_rate_km_s ?? null;
 
@@ -153,7 +158,7 @@ export class PlanetInfoPanelComponent implements OnChanges, OnInit, OnDestroy {
     if (vx !== undefined && vy !== undefined && vz !== undefined) {
       const speedAuPerDay = Math.sqrt(vx * vx + vy * vy + vz * vz);
       this.speedAuPerDay = Number.isFinite(speedAuPerDay) ? speedAuPerDay : null;
-      this.speedKmPerS = Number.isFinite(speedAuPerDay) ? (speedAuPerDay * this.auInKm) / 86_400 : null;
+      this.speedKmPerS = Number.isFinite(speedAuPerDay) ? (speedAuPerDay * AU_IN_KM) / SECONDS_PER_DAY : null;
     } else {
       this.speedAuPerDay = null;
       this.speedKmPerS = null;
@@ -164,6 +169,13 @@ export class PlanetInfoPanelComponent implements OnChanges, OnInit, OnDestroy {
     this.close.emit();
   }
 
+  /** Vecteurs d'état à partir de l'instant simulé (voir `bodyExportWindow`). */
+  exportUrl(format: ExportFormat): string | null {
+    const id = this.body?.name || this.body?.id;
+    if (!id) return null;
+    return this.exportService.ephemerisUrl([id], bodyExportWindow(this.kind, this.time.now()), format);
+  }
+
   get displayName(): string {
     const key = this.body?.name || this.body?.id;
     if (key) {
@@ -0,0 +1,602 @@
+import {
+  ChangeDetectorRef,
+  Component,
+  HostListener,
+  Input,
+  OnChanges,
+  OnDestroy,
+  OnInit,
+  SimpleChanges
+} from '@angular/core';
+import {
+  BehaviorSubject,
+  EMPTY,
+  Observable,
+  Subscription,
+  catchError,
+  combineLatest,
+  debounceTime,
+  distinctUntilChanged,
+  forkJoin,
+  from,
+  interval,
+  map,
+  merge,
+  mergeMap,
+  of,
+  startWith,
+  switchMap
+} from 'rxjs';
+import { AU_IN_KM } from '@solar-system/shared';
+
+import { BodyEphemerisBatch } from '../../models/body-ephemeris';
+import { Moon } from '../../models/moon';
+import { EphemerisSnapshot, Planet, PlanetName } from '../../models/planet';
+import { I18nService } from '../../services/i18n.service';
+import { RealEphemerisService } from '../../services/real-ephemeris.service';
+import { SolarSystemCatalogService } from '../../services/solar-system-catalog.service';
+import { SimulationClockState, TimeScrubberService } from '../../services/time-scrubber.service';
+
+type Vec3 = { x: number; y: number; z: number };
+
+export type MoonEvent = 'transit' | 'occultation' | 'shadow' | 'eclipse';
+
+interface RingBand {
+  innerKm: number;
+  outerKm: number;
+  opacity: number;
+}
+
+interface RingSystem {
+  poleRaDeg: number;
+  poleDecDeg: number;
+  bands: RingBand[];
+}
+
+interface SystemState {
+  moons: BodyEphemerisBatch;
+  planets: EphemerisSnapshot | null;
+}
+
+type SystemUpdate = { kind: 'state'; state: SystemState } | { kind: 'orbit'; id: string; points: Vec3[] };
+
+interface MoonView {
+  moon: Moon;
+  /** Position planétocentrique (km, écliptique J2000). */
+  km: Vec3;
+  x: number;
+  y: number;
+  r: number;
+  distanceKm: number;
+  events: MoonEvent[];
+}
+
+interface RingView {
+  back: string;
+  front: string;
+  opacity: number;
+}
+
+const DEG = Math.PI / 180;
+const OBLIQUITY_RAD = 23.4392911 * DEG;
+// Nombre de points par orbite : une requête Horizons de ~120 lignes par lune.
+const ORBIT_SAMPLES = 120;
+const ORBIT_CONCURRENCY = 2;
+
+// Pôles IAU (J2000) et limites des anneaux principaux, en km depuis le centre.
+const RINGS: Partial<Record<PlanetName, RingSystem>> = {
+  jupiter: {
+    poleRaDeg: 268.057,
+    poleDecDeg: 64.495,
+    bands: [
+      { innerKm: 92_000, outerKm: 122_500, opacity: 0.12 },
+      { innerKm: 122_500, outerKm: 129_000, opacity: 0.35 }
+    ]
+  },
+  saturn: {
+    poleRaDeg: 40.589,
+    poleDecDeg: 83.537,
+    bands: [
+      { innerKm: 74_658, outerKm: 92_000, opacity: 0.3 },
+      { innerKm: 92_000, outerKm: 117_580, opacity: 0.75 },
+      { innerKm: 122_170, outerKm: 136_775, opacity: 0.55 }
+    ]
+  },
+  uranus: {
+    poleRaDeg: 257.311,
+    poleDecDeg: -15.175,
+    bands: [{ innerKm: 41_837, outerKm: 51_149, opacity: 0.35 }]
+  },
+  neptune: {
+    poleRaDeg: 299.36,
+    poleDecDeg: 43.46,
+    bands: [
+      { innerKm: 41_000, outerKm: 43_000, opacity: 0.15 },
+      { innerKm: 53_150, outerKm: 53_250, opacity: 0.35 },
+      { innerKm: 62_900, outerKm: 62_950, opacity: 0.45 }
+    ]
+  }
+};
+
+const dot = (a: Vec3, b: Vec3) => a.x * b.x + a.y * b.y + a.z * b.z;
+const cross = (a: Vec3, b: Vec3): Vec3 => ({
+  x: a.y * b.z - a.z * b.y,
+  y: a.z * b.x - a.x * b.z,
+  z: a.x * b.y - a.y * b.x
+});
+const length = (a: Vec3) => Math.hypot(a.x, a.y, a.z);
+
+function normalize(a: Vec3): Vec3 | null {
+  const n = length(a);
+  return n > 0 ? { x: a.x / n, y: a.y / n, z: a.z / n } : null;
+}
+
+function toKm(body: { x_au: number; y_au: number; z_au: number }): Vec3 {
+  return { x: body.x_au * AU_IN_KM, y: body.y_au * AU_IN_KM, z: body.z_au * AU_IN_KM };
+}
+
+/** Pôle (AD / Dec ICRF) -> vecteur unitaire écliptique J2000. */
+function poleEcliptic(raDeg: number, decDeg: number): Vec3 {
+  const ra = raDeg * DEG;
+  const dec = decDeg * DEG;
+  const x = Math.cos(dec) * Math.cos(ra);
+  const y = Math.cos(dec) * Math.sin(ra);
+  const z = Math.sin(dec);
+  return {
+    x,
+    y: y * Math.cos(OBLIQUITY_RAD) + z * Math.sin(OBLIQUITY_RAD),
+    z: -y * Math.sin(OBLIQUITY_RAD) + z * Math.cos(OBLIQUITY_RAD)
+  };
+}
+
+/**
+ * Distance de `m` à l'axe planète -> `direction` (unitaire), et côté de la
+ * planète où se trouve `m` (> 0 : vers `direction`).
+ */
+function offAxis(m: Vec3, direction: Vec3): { along: number; perp: number } {
+  const along = dot(m, direction);
+  return {
+    along,
+    perp: length({ x: m.x - along * direction.x, y: m.y - along * direction.y, z: m.z - along * direction.z })
+  };
+}
+
+/**
+ * Phénomènes d'une lune, ombre de la planète assimilée à un cylindre (l'écart
+ * avec le cône d'ombre est négligeable à ces distances) :
+ * - vue depuis la Terre : transit devant le disque, occultation derrière ;
+ * - vue depuis le Soleil : ombre portée sur la planète, éclipse dans son ombre.
+ */
+export function moonEvents(m: Vec3, sun: Vec3 | null, earth: Vec3 | null, radiusKm: number): MoonEvent[] {
+  const events: MoonEvent[] = [];
+  if (earth) {
+    const { along, perp } = offAxis(m, earth);
+    if (perp < radiusKm) events.push(along > 0 ? 'transit' : 'occultation');
+  }
+  if (sun) {
+    const { along, perp } = offAxis(m, sun);
+    if (perp < radiusKm) events.push(along > 0 ? 'shadow' : 'eclipse');
+  }
+  return events;
+}
+
+/** Point où l'ombre de la lune `m` touche la sphère de rayon `radiusKm`. */
+function shadowPoint(m: Vec3, sun: Vec3, radiusKm: number): Vec3 | null {
+  const along = dot(m, sun);
+  const disc = along * along - dot(m, m) + radiusKm * radiusKm;
+  if (along <= 0 || disc < 0) return null;
+  const t = along - Math.sqrt(disc);
+  return { x: m.x - t * sun.x, y: m.y - t * sun.y, z: m.z - t * sun.z };
+}
+
+/** Valeur "ronde" (1, 2, 5 × 10^n) inférieure ou égale à `value`. */
+function niceLength(value: number): number {
+  const exponent = Math.pow(10, Math.floor(Math.log10(value)));
+  const mantissa = value / exponent;
+  return (mantissa >= 5 ? 5 : mantissa >= 2 ? 2 : 1) * exponent;
+}
+
+@Component({
+  selector: 'app-planet-system',
+  templateUrl: './planet-system.component.html',
+  styleUrls: ['./planet-system.component.css']
+})
+export class PlanetSystemComponent implements OnInit, OnChanges, OnDestroy {
+  /** Paramètre de route `/solar/:planet`. */
+  @Input() planet = '';
+
+  width = 800;
+  height = 800;
+  centerX = 400;
+  centerY = 400;
+  /** Pixels par km : toute la vue est à l'échelle. */
+  scale = 0.001;
+
+  readonly refreshIntervalMs = 30_000;
+  readonly playbackRefreshMs = 5_000;
+
+  config: Planet | null = null;
+  unknownPlanet = false;
+  viewTimeMs = Date.now();
+  loading = true;
+  failed = false;
+
+  planetRadiusPx = 4;
+  moons: MoonView[] = [];
+  backMoons: MoonView[] = [];
+  frontMoons: MoonView[] = [];
+  orbitPaths: { id: string; d: string }[] = [];
+  rings: RingView[] = [];
+  shadowSpots: { id: string; x: number; y: number; r: number }[] = [];
+  nightPath = '';
+  shadowPath = '';
+  sunMarker: { x: number; y: number } | null = null;
+  earthMarker: { x: number; y: number } | null = null;
+  scaleBar = { px: 100, label: '' };
+  selectedId: string | null = null;
+
+  private readonly planet$ = new BehaviorSubject<string>('');
+  private readonly orbits = new Map<string, Vec3[]>();
+  private moonVectors = new Map<string, Vec3>();
+  private sunDirection: Vec3 | null = null;
+  private earthDirection: Vec3 | null = null;
+  private sub?: Subscription;
+  private catalogSub?: Subscription;
+
+  constructor(
+    private ephemeris: RealEphemerisService,
+    private catalog: SolarSystemCatalogService,
+    private time: TimeScrubberService,
+    private i18n: I18nService,
+    private cdr: ChangeDetectorRef
+  ) {}
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['planet']) {
+      this.planet$.next((this.planet ?? '').toLowerCase());
+    }
+  }
+
+  ngOnInit(): void {
+    this.updateDimensionsFromWindow();
+
+    const config$ = combineLatest([
+      this.planet$,
+      this.i18n.lang$.pipe(
+        distinctUntilChanged(),
+        switchMap((lang) => this.catalog.getCatalog(lang))
+      )
+    ]).pipe(map(([name, catalog]) => catalog.planets.find((p) => p.name === name) ?? null));
+
+    // Le catalogue suit la langue (noms affichés) sans relancer les requêtes.
+    this.catalogSub = config$.subscribe((config) => {
+      this.config = config;
+      this.unknownPlanet = !config;
+      this.replot();
+      this.cdr.markForCheck();
+    });
+
+    // Horloge live : système rafraîchi toutes les 30 s (toutes les 5 s en
+    // lecture) ; les orbites sont tracées une fois par planète et par date.
+    this.sub = combineLatest([config$, this.time.state$])
+      .pipe(
+        debounceTime(250),
+        distinctUntilChanged(([a, ca], [b, cb]) => a?.name === b?.name && ca === cb),
+        switchMap(([config, clock]) => (config ? this.watch(config, clock) : EMPTY))
+      )
+      .subscribe((update) => {
+        if (update.kind === 'state') {
+          this.applyState(update.state);
+        } else {
+          this.orbits.set(update.id, update.points);
+          this.replot();
+        }
+        this.cdr.markForCheck();
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.sub?.unsubscribe();
+    this.sub = undefined;
+    this.catalogSub?.unsubscribe();
+    this.catalogSub = undefined;
+  }
+
+  @HostListener('window:resize')
+  onResize(): void {
+    this.updateDimensionsFromWindow();
+    this.replot();
+  }
+
+  select(id: string): void {
+    this.selectedId = this.selectedId === id ? null : id;
+  }
+
+  get viewDateLabel(): string {
+    const lang = this.i18n.language === 'fr' ? 'fr-FR' : 'en-US';
+    return new Intl.DateTimeFormat(lang, {
+      day: 'numeric',
+      month: 'long',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    }).format(new Date(this.viewTimeMs));
+  }
+
+  formatKm(value: number): string {
+    const lang = this.i18n.language === 'fr' ? 'fr-FR' : 'en-US';
+    return `${new Intl.NumberFormat(lang, { maximumFractionDigits: 0 }).format(value)} km`;
+  }
+
+  trackByMoon(_: number, view: MoonView): string {
+    return view.moon.id;
+  }
+
+  trackById(_: number, item: { id: string }): string {
+    return item.id;
+  }
+
+  private watch(config: Planet, clock: SimulationClockState): Observable<SystemUpdate> {
+    this.viewTimeMs = this.time.now();
+    this.loading = true;
+    this.orbits.clear();
+    this.moonVectors.clear();
+    this.selectedId = null;
+
+    const moons = config.moons ?? [];
+    const ticks$ =
+      clock.live || clock.direction !== 0
+        ? interval(clock.live ? this.refreshIntervalMs : this.playbackRefreshMs).pipe(startWith(0))
+        : of(0);
+    const state$ = ticks$.pipe(
+      switchMap(() => {
+        const target = new Date(this.time.now());
+        target.setUTCSeconds(0, 0);
+        this.viewTimeMs = target.getTime();
+        const at = clock.live ? undefined : target.toISOString();
+        return this.fetchState(config, moons, at).pipe(
+          catchError(() => {
+            this.failed = true;
+            this.loading = false;
+            this.cdr.markForCheck();
+            return EMPTY;
+          })
+        );
+      }),
+      map((state): SystemUpdate => ({ kind: 'state', state }))
+    );
+    const orbits$ = from(moons).pipe(
+      mergeMap(
+        (moon) =>
+          this.fetchOrbit(moon, config.name, this.viewTimeMs).pipe(
+            map((points): SystemUpdate => ({ kind: 'orbit', id: moon.id, points })),
+            catchError(() => EMPTY)
+          ),
+        ORBIT_CONCURRENCY
+      )
+    );
+    return merge(state$, orbits$);
+  }
+
+  private fetchState(config: Planet, moons: Moon[], at?: string): Observable<SystemState> {
+    const reference = { center: config.name };
+    return forkJoin({
+      // Le Soleil, centré sur la planète, donne la direction de l'éclairage.
+      moons: this.ephemeris.getBodiesEphemeris([...moons.map((m) => m.id), 'sun'], { at, reference }),
+      planets:
+        config.name === 'earth'
+          ? of(null)
+          : this.ephemeris.getCurrentPlanetPositions({ at, reference }).pipe(catchError(() => of(null)))
+    });
+  }
+
+  /**
+   * Une révolution complète centrée sur la date affichée, en vecteurs
+   * planétocentriques : l'orbite tracée est celle d'Horizons, perturbations
+   * comprises, et non une ellipse képlérienne.
+   */
+  private fetchOrbit(moon: Moon, center: PlanetName, timeMs: number): Observable<Vec3[]> {
+    return this.ephemeris.getOrbitalElements(moon.id, { at: new Date(timeMs).toISOString() }).pipe(
+      switchMap((payload) => {
+        const periodDays = payload.elements.period_days;
+        if (!periodDays || !Number.isFinite(periodDays) || periodDays <= 0) return EMPTY;
+        const halfMs = (periodDays * 86_400_000) / 2;
+        const stepMinutes = Math.max(1, Math.round((periodDays * 1440) / ORBIT_SAMPLES));
+        return this.ephemeris.getBodySeries(
+          moon.id,
+          {
+            start: new Date(timeMs - halfMs).toISOString(),
+            stop: new Date(timeMs + halfMs).toISOString(),
+            step: `${stepMinutes}m`
+          },
+          { center }
+        );
+      }),
+      map((series) => series.samples.map(toKm))
+    );
+  }
+
+  private applyState(state: SystemState): void {
+    const vectors = new Map<string, Vec3>();
+    for (const body of state.moons.bodies) {
+      vectors.set(body.id, toKm(body));
+    }
+    const sun = vectors.get('sun');
+    vectors.delete('sun');
+    this.moonVectors = vectors;
+    this.sunDirection = sun ? normalize(sun) : null;
+
+    const earth = state.planets?.bodies.find((b) => b.name === 'earth');
+    this.earthDirection = earth ? normalize(toKm(earth)) : null;
+
+    this.loading = false;
+    this.failed = false;
+    this.replot();
+  }
+
+  private replot(): void {
+    const config = this.config;
+    if (!config) {
+      this.moons = [];
+      this.backMoons = [];
+      this.frontMoons = [];
+      this.orbitPaths = [];
+      this.rings = [];
+      this.shadowSpots = [];
+      this.nightPath = '';
+      this.shadowPath = '';
+      this.sunMarker = null;
+      this.earthMarker = null;
+      return;
+    }
+
+    const radiusKm = config.radiusKm;
+    const ringSystem = config.hasRings ? RINGS[config.name] : undefined;
+
+    // Échelle : la plus grande orbite (ou distance connue) remplit ~84 % du petit côté.
+    let extentKm = radiusKm * 6;
+    for (const band of ringSystem?.bands ?? []) extentKm = Math.max(extentKm, band.outerKm);
+    for (const v of this.moonVectors.values()) extentKm = Math.max(extentKm, Math.hypot(v.x, v.y));
+    for (const points of this.orbits.values()) {
+      for (const p of points) extentKm = Math.max(extentKm, Math.hypot(p.x, p.y));
+    }
+    this.scale = (0.42 * Math.min(this.width, this.height)) / extentKm;
+    this.planetRadiusPx = Math.max(2, radiusKm * this.scale);
+
+    const bar = niceLength(extentKm / 2.5);
+    this.scaleBar = { px: bar * this.scale, label: this.formatKm(bar) };
+
+    this.orbitPaths = (config.moons ?? [])
+      .filter((m) => this.orbits.has(m.id))
+      .map((m) => ({
+        id: m.id,
+        d: (this.orbits.get(m.id) ?? [])
+          .map((p, i) => `${i ? 'L' : 'M'}${this.sx(p).toFixed(1)} ${this.sy(p).toFixed(1)}`)
+          .join(' ')
+      }));
+
+    this.rings = ringSystem ? this.ringViews(ringSystem) : [];
+
+    const moons: MoonView[] = [];
+    for (const moon of config.moons ?? []) {
+      const km = this.moonVectors.get(moon.id);
+      if (!km) continue;
+      moons.push({
+        moon,
+        km,
+        x: this.sx(km),
+        y: this.sy(km),
+        r: Math.max(2.5, moon.radiusKm * this.scale),
+        distanceKm: length(km),
+        events: moonEvents(km, this.sunDirection, this.earthDirection, radiusKm)
+      });
+    }
+    this.moons = moons;
+    // y écliptique vers le bas de l'écran : la vue est prise depuis le pôle sud
+    // de l'écliptique, les lunes en z > 0 passent derrière la planète.
+    this.backMoons = moons.filter((m) => m.km.z > 0);
+    this.frontMoons = moons.filter((m) => m.km.z <= 0);
+
+    this.shadowSpots = [];
+    const sun = this.sunDirection;
+    if (sun) {
+      for (const m of moons) {
+        if (!m.events.includes('shadow')) continue;
+        const p = shadowPoint(m.km, sun, radiusKm);
+        // Seules les ombres sur l'hémisphère tourné vers nous sont visibles.
+        if (p && p.z <= 0) {
+          this.shadowSpots.push({ id: m.moon.id, x: this.sx(p), y: this.sy(p), r: Math.max(1.5, m.r * 0.8) });
+        }
+      }
+    }
+
+    this.updateLighting();
+  }
+
+  /** Hémisphère nocturne, ombre portée et repères Soleil / Terre. */
+  private updateLighting(): void {
+    const markerDistance = 0.46 * Math.min(this.width, this.height);
+    const marker = (direction: Vec3 | null) => {
+      const flat = direction ? Math.hypot(direction.x, direction.y) : 0;
+      if (!direction || flat < 1e-6) return null;
+      return {
+        x: this.centerX + (direction.x / flat) * markerDistance,
+        y: this.centerY + (direction.y / flat) * markerDistance
+      };
+    };
+    this.sunMarker = marker(this.sunDirection);
+    this.earthMarker = marker(this.earthDirection);
+
+    const sun = this.sunDirection;
+    if (!sun || Math.hypot(sun.x, sun.y) < 1e-6) {
+      this.nightPath = '';
+      this.shadowPath = '';
+      return;
+    }
+    const angle = Math.atan2(sun.y, sun.x);
+    const r = this.planetRadiusPx;
+    const at = (a: number, d: number) => ({
+      x: this.centerX + d * Math.cos(a),
+      y: this.centerY + d * Math.sin(a)
+    });
+    const fmt = (p: { x: number; y: number }) => `${p.x.toFixed(1)} ${p.y.toFixed(1)}`;
+    const start = at(angle + Math.PI / 2, r);
+    const end = at(angle - Math.PI / 2, r);
+    this.nightPath = `M${fmt(start)} A${r.toFixed(1)} ${r.toFixed(1)} 0 0 1 ${fmt(end)} Z`;
+
+    // Bande d'ombre (cylindre de rayon R) jusqu'au bord de la vue.
+    const reach = Math.hypot(this.width, this.height);
+    const ox = -reach * Math.cos(angle);
+    const oy = -reach * Math.sin(angle);
+    const shift = (p: { x: number; y: number }) => ({ x: p.x + ox, y: p.y + oy });
+    this.shadowPath = `M${fmt(start)} L${fmt(shift(start))} L${fmt(shift(end))} L${fmt(end)} Z`;
+  }
+
+  /**
+   * Anneaux projetés sur le plan de l'écliptique, coupés en deux moitiés :
+   * celle qui passe derrière la planète est dessinée avant elle, l'autre après.
+   */
+  private ringViews(ring: RingSystem): RingView[] {
+    const pole = poleEcliptic(ring.poleRaDeg, ring.poleDecDeg);
+    const u = normalize(cross(pole, { x: 0, y: 0, z: 1 })) ?? { x: 1, y: 0, z: 0 };
+    const w = cross(pole, u);
+    // θ ∈ [0, π] : moitié du côté de +w, de même signe en z que w.z ; la
+    // moitié "devant" est celle en z < 0 (vue depuis le pôle sud).
+    const halfPath = (innerKm: number, outerKm: number, front: boolean) => {
+      const offset = (w.z < 0) === front ? 0 : Math.PI;
+      // Au moins 1 px de large, sinon les anneaux fins de Neptune disparaissent.
+      const outer = Math.max(outerKm, innerKm + 1 / this.scale);
+      const point = (radius: number, theta: number) => {
+        const c = Math.cos(theta + offset);
+        const s = Math.sin(theta + offset);
+        const p = { x: radius * (c * u.x + s * w.x), y: radius * (c * u.y + s * w.y), z: 0 };
+        return `${this.sx(p).toFixed(1)} ${this.sy(p).toFixed(1)}`;
+      };
+      const steps = 48;
+      const parts: string[] = [];
+      for (let i = 0; i <= steps; i++) parts.push(`${i ? 'L' : 'M'}${point(outer, (i * Math.PI) / steps)}`);
+      for (let i = steps; i >= 0; i--) parts.push(`L${point(innerKm, (i * Math.PI) / steps)}`);
+      return `${parts.join(' ')} Z`;
+    };
+    return ring.bands.map((band) => ({
+      back: halfPath(band.innerKm, band.outerKm, false),
+      front: halfPath(band.innerKm, band.outerKm, true),
+      opacity: band.opacity
+    }));
+  }
+
+  private sx(p: Vec3): number {
+    return this.centerX + p.x * this.scale;
+  }
+
+  private sy(p: Vec3): number {
+    return this.centerY + p.y * this.scale;
+  }
+
+  private updateDimensionsFromWindow(): void {
+    this.width = Math.max(320, window.innerWidth);
+    this.height = Math.max(320, window.innerHeight);
+    this.centerX = this.width / 2;
+    this.centerY = this.height / 2;
+  }
+}
@@ -0,0 +1,379 @@
+import { ChangeDetectorRef, Component, HostListener, OnDestroy, OnInit } from '@angular/core';
+import {
+  BehaviorSubject,
+  EMPTY,
+  Observable,
+  Subscription,
+  catchError,
+  combineLatest,
+  debounceTime,
+  forkJoin,
+  interval,
+  of,
+  startWith,
+  switchMap
+} from 'rxjs';
+import { OBSERVING_SITES } from '@solar-system/shared';
+
+import { BodyEphemerisPayload } from '../../models/body-ephemeris';
+import { ObserverLocation, ObserverQuery, TopocentricObservation } from '../../models/observer';
+import { EphemerisSnapshot } from '../../models/planet';
+import { I18nService } from '../../services/i18n.service';
+import { PlanetService } from '../../services/planet.service';
+import { RealEphemerisService } from '../../services/real-ephemeris.service';
+import { SimulationClockState, TimeScrubberService } from '../../services/time-scrubber.service';
+
+interface SkyObject {
+  id: string;
+  nameKey: string;
+  color: string;
+  magnitude?: number;
+  topocentric: TopocentricObservation;
+}
+
+interface PlottedSkyObject extends SkyObject {
+  x: number;
+  y: number;
+  r: number;
+}
+
+interface SkyData {
+  planets: EphemerisSnapshot;
+  sun: BodyEphemerisPayload | null;
+  moon: BodyEphemerisPayload | null;
+}
+
+interface SiteOption {
+  id: string;
+  label: string;
+}
+
+const DEG = Math.PI / 180;
+const OBLIQUITY_DEG = 23.4392911;
+const SITE_STORAGE_KEY = 'solar-system-sky-site';
+const GEOLOCATION_SITE = 'here';
+
+/**
+ * Projection stéréographique centrée sur le zénith : l'horizon est un cercle
+ * de rayon `radius`, le Nord en haut et l'Est à gauche (carte tenue au-dessus
+ * de la tête, comme un planisphère).
+ */
+function projectHorizontal(
+  azimuthDeg: number,
+  elevationDeg: number,
+  cx: number,
+  cy: number,
+  radius: number
+): { x: number; y: number } {
+  const r = radius * Math.tan(((90 - elevationDeg) * DEG) / 2);
+  return {
+    x: cx - r * Math.sin(azimuthDeg * DEG),
+    y: cy - r * Math.cos(azimuthDeg * DEG)
+  };
+}
+
+/** Coordonnées équatoriales -> azimut (depuis le Nord, vers l'Est) / élévation. */
+function equatorialToHorizontal(
+  raDeg: number,
+  decDeg: number,
+  site: ObserverLocation,
+  timeMs: number
+): { azimuth: number; elevation: number } {
+  const jd = timeMs / 86_400_000 + 2_440_587.5;
+  const gmstDeg = 280.46061837 + 360.98564736629 * (jd - 2_451_545.0);
+  const h = (gmstDeg + site.lon - raDeg) * DEG;
+  const dec = decDeg * DEG;
+  const lat = site.lat * DEG;
+  const elevation = Math.asin(Math.sin(lat) * Math.sin(dec) + Math.cos(lat) * Math.cos(dec) * Math.cos(h));
+  const azimuth = Math.atan2(
+    -Math.cos(dec) * Math.sin(h),
+    Math.sin(dec) * Math.cos(lat) - Math.cos(dec) * Math.sin(lat) * Math.cos(h)
+  );
+  return { azimuth: (azimuth / DEG + 360) % 360, elevation: elevation / DEG };
+}
+
+@Component({
+  selector: 'app-sky-view',
+  templateUrl: './sky-view.component.html',
+  styleUrls: ['./sky-view.component.css']
+})
+export class SkyViewComponent implements OnInit, OnDestroy {
+  width = 800;
+  height = 800;
+  centerX = 400;
+  centerY = 400;
+  radius = 360;
+
+  readonly refreshIntervalMs = 60_000;
+  readonly playbackRefreshMs = 10_000;
+  readonly altitudeRings = [30, 60];
+  readonly compass = [
+    { key: 'compass.n', az: 0 },
+    { key: 'compass.ne', az: 45 },
+    { key: 'compass.e', az: 90 },
+    { key: 'compass.se', az: 135 },
+    { key: 'compass.s', az: 180 },
+    { key: 'compass.sw', az: 225 },
+    { key: 'compass.w', az: 270 },
+    { key: 'compass.nw', az: 315 }
+  ];
+  readonly sites: SiteOption[] = OBSERVING_SITES.map((s) => ({ id: s.site, label: s.shortName }));
+  readonly geolocationSite = GEOLOCATION_SITE;
+
+  siteId = this.loadSite();
+  observer: ObserverLocation | null = null;
+  viewTimeMs = Date.now();
+  objects: SkyObject[] = [];
+  visibleObjects: PlottedSkyObject[] = [];
+  hiddenObjects: SkyObject[] = [];
+  eclipticPath = '';
+  selected: SkyObject | null = null;
+  loading = true;
+  failed = false;
+  geolocationFailed = false;
+
+  private readonly observer$ = new BehaviorSubject<ObserverQuery>({ site: 'paris' });
+  private sub?: Subscription;
+  private langSub?: Subscription;
+
+  constructor(
+    private ephemeris: RealEphemerisService,
+    private planets: PlanetService,
+    private time: TimeScrubberService,
+    private i18n: I18nService,
+    private cdr: ChangeDetectorRef
+  ) {}
+
+  ngOnInit(): void {
+    this.updateDimensionsFromWindow();
+    this.selectSite(this.siteId);
+
+    // Horloge live : ciel rafraîchi chaque minute ; en lecture, toutes les 10 s
+    // à l'instant simulé courant. Horloge arrêtée : une requête par date.
+    this.sub = combineLatest([this.time.state$, this.observer$])
+      .pipe(
+        debounceTime(250),
+        switchMap(([clock, observer]) =>
+          this.ticks(clock).pipe(
+            switchMap(() =>
+              this.fetch(clock.live, observer).pipe(
+                catchError(() => {
+                  this.failed = true;
+                  this.loading = false;
+                  this.cdr.markForCheck();
+                  return EMPTY;
+                })
+              )
+            )
+          )
+        )
+      )
+      .subscribe((data) => this.applyData(data));
+
+    this.langSub = this.i18n.lang$.subscribe(() => {
+      this.cdr.markForCheck();
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.sub?.unsubscribe();
+    this.sub = undefined;
+    this.langSub?.unsubscribe();
+    this.langSub = undefined;
+  }
+
+  @HostListener('window:resize')
+  onResize(): void {
+    this.updateDimensionsFromWindow();
+    this.replot();
+  }
+
+  selectSite(id: string): void {
+    this.siteId = id;
+    this.geolocationFailed = false;
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(SITE_STORAGE_KEY, id);
+    }
+
+    if (id !== GEOLOCATION_SITE) {
+      this.observer$.next({ site: id });
+      return;
+    }
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      this.geolocationFailed = true;
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        this.observer$.next({
+          lat: Number(position.coords.latitude.toFixed(4)),
+          lon: Number(position.coords.longitude.toFixed(4)),
+          altM: Math.round(position.coords.altitude ?? 0)
+        });
+      },
+      () => {
+        this.geolocationFailed = true;
+        this.cdr.markForCheck();
+      }
+    );
+  }
+
+  select(obj: SkyObject): void {
+    this.selected = this.selected?.id === obj.id ? null : obj;
+  }
+
+  closePanel(): void {
+    this.selected = null;
+  }
+
+  private replot(): void {
+    this.visibleObjects = this.objects
+      .filter((o) => o.topocentric.above_horizon)
+      .map((o) => {
+        const { x, y } = projectHorizontal(
+          o.topocentric.azimuth_deg ?? 0,
+          o.topocentric.elevation_deg ?? 0,
+          this.centerX,
+          this.centerY,
+          this.radius
+        );
+        return { ...o, x, y, r: this.markerRadius(o.magnitude) };
+      })
+      // Les plus brillants en dernier : dessinés au-dessus.
+      .sort((a, b) => a.r - b.r);
+    this.hiddenObjects = this.objects.filter((o) => !o.topocentric.above_horizon);
+    this.eclipticPath = this.computeEclipticPath();
+  }
+
+  /** Écliptique (β = 0) projetée, découpée en tronçons au-dessus de l'horizon. */
+  private computeEclipticPath(): string {
+    if (!this.observer) return '';
+    const eps = OBLIQUITY_DEG * DEG;
+    let d = '';
+    let penDown = false;
+    for (let lambda = 0; lambda <= 360; lambda += 2) {
+      const l = lambda * DEG;
+      const ra = Math.atan2(Math.sin(l) * Math.cos(eps), Math.cos(l)) / DEG;
+      const dec = Math.asin(Math.sin(eps) * Math.sin(l)) / DEG;
+      const { azimuth, elevation } = equatorialToHorizontal(ra, dec, this.observer, this.viewTimeMs);
+      if (elevation < 0) {
+        penDown = false;
+        continue;
+      }
+      const { x, y } = projectHorizontal(azimuth, elevation, this.centerX, this.centerY, this.radius);
+      d += `${penDown ? 'L' : 'M'}${x.toFixed(1)} ${y.toFixed(1)} `;
+      penDown = true;
+    }
+    return d.trim();
+  }
+
+  ringRadius(elevationDeg: number): number {
+    return this.radius * Math.tan(((90 - elevationDeg) * DEG) / 2);
+  }
+
+  compassX(az: number): number {
+    return this.centerX - (this.radius + 18) * Math.sin(az * DEG);
+  }
+
+  compassY(az: number): number {
+    return this.centerY - (this.radius + 18) * Math.cos(az * DEG) + 4;
+  }
+
+  /** Rayon du marqueur : ~1 px par magnitude, borné pour le Soleil et la Lune. */
+  markerRadius(magnitude?: number): number {
+    if (magnitude === undefined || !Number.isFinite(magnitude)) return 3;
+    return Math.max(1.5, Math.min(12, 5 - 0.9 * magnitude));
+  }
+
+  get viewDateLabel(): string {
+    const lang = this.i18n.language === 'fr' ? 'fr-FR' : 'en-US';
+    return new Intl.DateTimeFormat(lang, {
+      day: 'numeric',
+      month: 'long',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    }).format(new Date(this.viewTimeMs));
+  }
+
+  formatTime(iso?: string): string {
+    if (!iso) return '—';
+    const lang = this.i18n.language === 'fr' ? 'fr-FR' : 'en-US';
+    return new Intl.DateTimeFormat(lang, { hour: '2-digit', minute: '2-digit' }).format(new Date(iso));
+  }
+
+  formatDeg(value?: number): string {
+    return value === undefined ? '—' : `${value.toFixed(1)}°`;
+  }
+
+  trackById(_: number, obj: SkyObject): string {
+    return obj.id;
+  }
+
+  private ticks(clock: SimulationClockState): Observable<unknown> {
+    if (clock.live) return interval(this.refreshIntervalMs).pipe(startWith(0));
+    if (clock.direction !== 0) return interval(this.playbackRefreshMs).pipe(startWith(0));
+    return of(0);
+  }
+
+  private fetch(live: boolean, observer: ObserverQuery): Observable<SkyData> {
+    const target = new Date(this.time.now());
+    target.setUTCSeconds(0, 0);
+    const at = live ? undefined : target.toISOString();
+    this.viewTimeMs = target.getTime();
+    this.loading = true;
+
+    const body = (id: string) =>
+      this.ephemeris.getBodyEphemeris(id, { at, observer }).pipe(catchError(() => of(null)));
+    return forkJoin({
+      planets: this.ephemeris.getCurrentPlanetPositions({ fullSnapshot: true, at, observer }),
+      sun: body('sun'),
+      moon: body('moon')
+    });
+  }
+
+  private applyData(data: SkyData): void {
+    const objects: SkyObject[] = [];
+    const colors = new Map(this.planets.getPlanets().map((p) => [p.name, p.color]));
+    const push = (id: string, color: string, magnitude?: number, topocentric?: TopocentricObservation) => {
+      if (topocentric?.azimuth_deg === undefined || topocentric.elevation_deg === undefined) return;
+      objects.push({ id, nameKey: `name.${id}`, color, magnitude, topocentric });
+    };
+
+    push('sun', '#ffcc33', data.sun?.apparent_magnitude, data.sun?.topocentric);
+    push('moon', '#e8e8f0', data.moon?.apparent_magnitude, data.moon?.topocentric);
+    for (const p of data.planets.bodies ?? []) {
+      if (p.name === 'earth') continue;
+      push(p.name, colors.get(p.name) ?? '#ffffff', p.apparent_magnitude, p.topocentric);
+    }
+
+    this.objects = objects;
+    this.observer = data.planets.metadata?.observer ?? objects[0]?.topocentric.site ?? null;
+    if (this.selected) {
+      this.selected = objects.find((o) => o.id === this.selected?.id) ?? null;
+    }
+    this.replot();
+    this.loading = false;
+    this.failed = false;
+    this.cdr.markForCheck();
+  }
+
+  private updateDimensionsFromWindow(): void {
+    this.width = Math.max(320, window.innerWidth);
+    this.height = Math.max(320, window.innerHeight);
+    this.centerX = this.width / 2;
+    this.centerY = this.height / 2;
+    // Marge pour les points cardinaux et le dock de navigation.
+    this.radius = Math.max(120, Math.min(this.width, this.height) / 2 - 90);
+  }
+
+  private loadSite(): string {
+    if (typeof localStorage !== 'undefined') {
+      const stored = localStorage.getItem(SITE_STORAGE_KEY);
+      if (stored && (stored === GEOLOCATION_SITE || this.sites.some((s) => s.id === stored))) {
+        return stored;
+      }
+    }
+    return 'paris';
+  }
+}
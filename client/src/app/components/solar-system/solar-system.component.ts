@@ -1,22 +1,30 @@
-import { Component, HostListener, OnDestroy, OnInit } from '@angular/core';
+import { Component, HostListener, Input, OnChanges, OnDestroy, OnInit, SimpleChanges } from '@angular/core';
+import { ActivatedRoute, Params, Router } from '@angular/router';
 import {
+  EMPTY,
+  Subject,
   Subscription,
   animationFrames,
   catchError,
+  debounceTime,
   distinctUntilChanged,
-  forkJoin,
-  interval,
+  from,
+  map,
+  mergeMap,
   of,
   sampleTime,
-  startWith,
-  switchMap
+  switchMap,
+  timer
 } from 'rxjs';
 
 import { BodyEphemerisPayload } from '../../models/body-ephemeris';
 import { Moon } from '../../models/moon';
+import { OsculatingElements } from '../../models/orbital-elements';
 import { Planet, PlanetPosition, EphemerisSnapshot } from '../../models/planet';
 import { Star } from '../../models/star';
 import { RealEphemerisService } from '../../services/real-ephemeris.service';
+import { EphemerisInterpolationService } from '../../services/ephemeris-interpolation.service';
+import { LiveStreamService } from '../../services/live-stream.service';
 import { SolarSystemCatalogService } from '../../services/solar-system-catalog.service';
 import { TimeScrubberService } from '../../services/time-scrubber.service';
 import { I18nService } from '../../services/i18n.service';
@@ -41,6 +49,13 @@ interface DisplayPlanet {
   isSelected: boolean;
 }
 
+interface DisplayOrbit {
+  name: Planet['name'];
+  /** Ellipse inclinée issue des éléments osculateurs ; `null` = cercle de repli. */
+  path: string | null;
+  radiusPx: number;
+}
+
 interface DisplaySatellite {
   moon: Moon;
   x: number;
@@ -48,19 +63,42 @@ interface DisplaySatellite {
   isSelected: boolean;
 }
 
+/** Échelle des distances au Soleil sur la carte. */
+export type DistanceScale = 'log' | 'sqrt' | 'linear';
+
 type SelectedBody =
   | { kind: 'star'; star: Star }
   | { kind: 'planet'; planet: Planet }
   | { kind: 'moon'; planet: Planet; moon: Moon };
 
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 2_000;
+// Orbite de Mars avec une marge : préréglage "planètes internes".
+const INNER_PLANETS_EXTENT_AU = 1.8;
+const SCALE_BAR_MAX_PX = 140;
+const SCALE_BAR_STEPS_AU = [0.001, 0.002, 0.005, 0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1, 2, 5, 10, 20, 50];
+// En deçà, un appui reste un clic (sélection d'une planète) et non un glisser.
+const DRAG_THRESHOLD_PX = 4;
+
 @Component({
   selector: 'app-solar-system',
   templateUrl: './solar-system.component.html',
   styleUrls: ['./solar-system.component.css']
 })
-export class SolarSystemComponent implements OnInit, OnDestroy {
+export class SolarSystemComponent implements OnInit, OnChanges, OnDestroy {
+  /**
+   * Vue partageable, liée par le routeur aux paramètres d'URL :
+   * `/solar?body=europa&zoom=3&scale=sqrt&pan=0.12,-0.3`. Le panoramique est
+   * exprimé en rayons de carte pour donner le même cadrage sur tout écran.
+   */
+  @Input('body') bodyParam?: string;
+  @Input('zoom') zoomParam?: string;
+  @Input('scale') scaleParam?: string;
+  @Input('pan') panParam?: string;
+
   planets: Planet[] = [];
   displayPlanets: DisplayPlanet[] = [];
+  orbits: DisplayOrbit[] = [];
 
   star: Star | null = null;
   focusedPlanet: Planet | null = null;
@@ -71,22 +109,42 @@ export class SolarSystemComponent implements OnInit, OnDestroy {
 
   width = 800;
   height = 800;
+  /** Position du Soleil à l'écran : centre de la vue, décalé par le panoramique. */
   centerX = 400;
   centerY = 400;
 
+  readonly distanceScales: DistanceScale[] = ['log', 'sqrt', 'linear'];
+  distanceScale: DistanceScale = 'log';
+  zoom = 1;
+  scaleBar = { px: 0, au: 1 };
+
+  private panX = 0;
+  private panY = 0;
+  private readonly pointers = new Map<number, { x: number; y: number }>();
+  private dragging = false;
+  private pinchSpread = 0;
+
   private maxSemiMajorAxisAu = 30.1;
   private lastSnapshot: EphemerisSnapshot | null = null;
+  /** Snapshot Horizons à la date simulée, tant que l'horloge est arrêtée hors live. */
+  private epochSnapshot: EphemerisSnapshot | null = null;
   private sub?: Subscription;
   private catalogSub?: Subscription;
   private sunSub?: Subscription;
   private moonsSub?: Subscription;
-  private timeSub?: Subscription;
+  private epochSub?: Subscription;
   private frameSub?: Subscription;
+  private interpolationSub?: Subscription;
+  private elementsSub?: Subscription;
+  private urlSub?: Subscription;
+  private readonly viewChanged$ = new Subject<void>();
+  private interpolationReady = false;
   private offsetDays = 0;
   private nowMs = Date.now();
   private sunEphemerisRaw: BodyEphemerisPayload | null = null;
 
   private readonly moonEphemerides = new Map<string, BodyEphemerisPayload>();
+  private readonly orbitalElements = new Map<string, OsculatingElements>();
   private readonly planetStyleCache = new Map<
     string,
     { textureUrl: string; lightColor: string; baseColor: string; darkColor: string }
@@ -111,14 +169,22 @@ export class SolarSystemComponent implements OnInit, OnDestroy {
   constructor(
     private catalog: SolarSystemCatalogService,
     private ephemerisService: RealEphemerisService,
+    private interpolation: EphemerisInterpolationService,
+    private liveStream: LiveStreamService,
     private time: TimeScrubberService,
-    private i18n: I18nService
+    private i18n: I18nService,
+    private router: Router,
+    private route: ActivatedRoute
   ) {}
 
   trackByPlanetName(_: number, dp: DisplayPlanet): string {
     return dp.planet.name;
   }
 
+  trackByOrbitName(_: number, o: DisplayOrbit): string {
+    return o.name;
+  }
+
   trackByMoonId(_: number, s: DisplaySatellite): string {
     return s.moon.id;
   }
@@ -173,8 +239,8 @@ export class SolarSystemComponent implements OnInit, OnDestroy {
             this.planets.reduce((max, p) => (p.semiMajorAxisAU > max ? p.semiMajorAxisAU : max), 0) ||
             30.1;
           this.rebuildPlanetStyleCache();
-          this.refreshDisplay();
-          this.refreshSatellitesDisplay();
+          this.onViewChanged();
+          this.applyBodyParam();
         },
         error: () => {
           // Fallback: le composant peut fonctionner sans catalogue.
@@ -182,17 +248,29 @@ export class SolarSystemComponent implements OnInit, OnDestroy {
       });
 
     this.updateDimensionsFromWindow();
+    this.updateScaleBar();
+    this.loadInterpolation();
+    this.loadOrbitalElements();
     this.startPolling();
     this.startAnimationLoop();
 
-    this.timeSub = this.time.offsetDays$.subscribe((days) => {
-      this.offsetDays = days;
-      this.refreshDisplay();
-      this.refreshSelectedEphemeris();
-      this.refreshSatellitesDisplay();
+    this.startEpochSnapshots();
+
+    // Zoom et panoramique changent en continu : l'URL suit sans créer d'entrée d'historique.
+    this.urlSub = this.viewChanged$.pipe(debounceTime(400)).subscribe(() => {
+      this.updateUrl(this.viewParams(), true);
     });
   }
 
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['zoomParam'] || changes['scaleParam'] || changes['panParam']) {
+      this.applyViewParams();
+    }
+    if (changes['bodyParam']) {
+      this.applyBodyParam();
+    }
+  }
+
   ngOnDestroy(): void {
     this.sub?.unsubscribe();
     this.sub = undefined;
@@ -202,39 +280,251 @@ export class SolarSystemComponent implements OnInit, OnDestroy {
     this.sunSub = undefined;
     this.moonsSub?.unsubscribe();
     this.moonsSub = undefined;
-    this.timeSub?.unsubscribe();
-    this.timeSub = undefined;
+    this.epochSub?.unsubscribe();
+    this.epochSub = undefined;
     this.frameSub?.unsubscribe();
     this.frameSub = undefined;
+    this.interpolationSub?.unsubscribe();
+    this.interpolationSub = undefined;
+    this.elementsSub?.unsubscribe();
+    this.elementsSub = undefined;
+    this.urlSub?.unsubscribe();
+    this.urlSub = undefined;
   }
 
   @HostListener('window:resize')
   onResize(): void {
     this.updateDimensionsFromWindow();
-    this.refreshDisplay();
-    this.refreshSatellitesDisplay();
+    this.onViewChanged();
   }
 
   private updateDimensionsFromWindow(): void {
     this.width = Math.max(320, window.innerWidth);
     this.height = Math.max(320, window.innerHeight);
-    this.centerX = this.width / 2;
-    this.centerY = this.height / 2;
+    this.centerX = this.width / 2 + this.panX;
+    this.centerY = this.height / 2 + this.panY;
+  }
+
+  setDistanceScale(mode: DistanceScale): void {
+    this.distanceScale = mode;
+    this.onViewChanged();
+  }
+
+  /** Zoom autour d'un point de l'écran (centre de la vue par défaut). */
+  zoomBy(factor: number, anchorX = this.width / 2, anchorY = this.height / 2): void {
+    const next = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, this.zoom * factor));
+    const ratio = next / this.zoom;
+    // Toutes les distances à l'écran sont proportionnelles au zoom : le point
+    // sous le curseur reste fixe si le Soleil s'en rapproche du même rapport.
+    const sunX = this.width / 2 + this.panX;
+    const sunY = this.height / 2 + this.panY;
+    this.panX = anchorX + (sunX - anchorX) * ratio - this.width / 2;
+    this.panY = anchorY + (sunY - anchorY) * ratio - this.height / 2;
+    this.zoom = next;
+    this.onViewChanged();
+  }
+
+  fitInnerPlanets(): void {
+    this.panX = 0;
+    this.panY = 0;
+    this.zoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, 1 / this.normalizedDistance(INNER_PLANETS_EXTENT_AU)));
+    this.onViewChanged();
+  }
+
+  resetView(): void {
+    this.panX = 0;
+    this.panY = 0;
+    this.zoom = 1;
+    this.onViewChanged();
+  }
+
+  onWheel(event: WheelEvent): void {
+    event.preventDefault();
+    const { x, y } = this.svgPoint(event);
+    this.zoomBy(Math.exp(-event.deltaY * 0.0015), x, y);
+  }
+
+  onPointerDown(event: PointerEvent): void {
+    this.pointers.set(event.pointerId, this.svgPoint(event));
+    this.dragging = false;
+    this.pinchSpread = this.pointers.size === 2 ? this.pointerSpread() : 0;
+  }
+
+  /** Un doigt / la souris : panoramique. Deux doigts : pincement + panoramique. */
+  onPointerMove(event: PointerEvent): void {
+    const previous = this.pointers.get(event.pointerId);
+    if (!previous) return;
+    const point = this.svgPoint(event);
+
+    if (this.pointers.size === 1) {
+      const dx = point.x - previous.x;
+      const dy = point.y - previous.y;
+      if (!this.dragging && Math.hypot(dx, dy) < DRAG_THRESHOLD_PX) return;
+      if (!this.dragging) {
+        this.dragging = true;
+        // Capturé seulement une fois le glisser engagé : le clic qui suit
+        // tombe alors sur le SVG et ne sélectionne pas la planète survolée.
+        (event.currentTarget as Element).setPointerCapture?.(event.pointerId);
+      }
+      this.pointers.set(event.pointerId, point);
+      this.panX += dx;
+      this.panY += dy;
+      this.onViewChanged();
+      return;
+    }
+
+    const before = this.pointerMidpoint();
+    this.pointers.set(event.pointerId, point);
+    const after = this.pointerMidpoint();
+    const spread = this.pointerSpread();
+    this.dragging = true;
+    this.panX += after.x - before.x;
+    this.panY += after.y - before.y;
+    if (this.pinchSpread > 0 && spread > 0) {
+      this.zoomBy(spread / this.pinchSpread, after.x, after.y);
+    } else {
+      this.onViewChanged();
+    }
+    this.pinchSpread = spread;
+  }
+
+  onPointerUp(event: PointerEvent): void {
+    this.pointers.delete(event.pointerId);
+    this.pinchSpread = this.pointers.size === 2 ? this.pointerSpread() : 0;
+  }
+
+  private svgPoint(event: MouseEvent): { x: number; y: number } {
+    const rect = (event.currentTarget as Element).getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  }
+
+  private pointerMidpoint(): { x: number; y: number } {
+    const points = Array.from(this.pointers.values());
+    return {
+      x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+      y: points.reduce((sum, p) => sum + p.y, 0) / points.length
+    };
+  }
+
+  private pointerSpread(): number {
+    const [a, b] = Array.from(this.pointers.values());
+    return a && b ? Math.hypot(a.x - b.x, a.y - b.y) : 0;
+  }
+
+  private onViewChanged(): void {
+    this.centerX = this.width / 2 + this.panX;
+    this.centerY = this.height / 2 + this.panY;
+    this.rebuildOrbits();
+    this.refreshDisplay();
+    this.refreshSatellitesDisplay();
+    this.updateScaleBar();
+    this.viewChanged$.next();
+  }
+
+  private viewParams(): Params {
+    const unit = this.mapRadiusPx;
+    const x = Math.round((this.panX / unit) * 1000) / 1000;
+    const y = Math.round((this.panY / unit) * 1000) / 1000;
+    return {
+      zoom: this.zoom === 1 ? null : String(Number(this.zoom.toPrecision(4))),
+      scale: this.distanceScale === 'log' ? null : this.distanceScale,
+      pan: x === 0 && y === 0 ? null : `${x},${y}`
+    };
+  }
+
+  /** Valeurs absentes ou illisibles : vue par défaut. */
+  private applyViewParams(): void {
+    const current = this.viewParams();
+    if (
+      current['zoom'] === (this.zoomParam ?? null) &&
+      current['scale'] === (this.scaleParam ?? null) &&
+      current['pan'] === (this.panParam ?? null)
+    ) {
+      return;
+    }
+
+    // Appelé avant ngOnInit au chargement : le rayon de carte dépend de la fenêtre.
+    this.updateDimensionsFromWindow();
+    const zoom = Number.parseFloat(this.zoomParam ?? '');
+    this.zoom = Number.isFinite(zoom) ? Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom)) : 1;
+    const scale = this.distanceScales.find((mode) => mode === this.scaleParam);
+    this.distanceScale = scale ?? 'log';
+    const [x, y] = (this.panParam ?? '').split(',').map((v) => Number.parseFloat(v));
+    const unit = this.mapRadiusPx;
+    this.panX = Number.isFinite(x) && Number.isFinite(y) ? x * unit : 0;
+    this.panY = Number.isFinite(x) && Number.isFinite(y) ? y * unit : 0;
+    this.onViewChanged();
+  }
+
+  /** Identifiant du corps sélectionné tel qu'il apparaît dans `?body=`. */
+  private get selectedBodyId(): string | null {
+    const selected = this.selected;
+    if (!selected) return null;
+    if (selected.kind === 'star') return selected.star.id;
+    if (selected.kind === 'planet') return selected.planet.name;
+    return selected.moon.id;
+  }
+
+  /** Sans effet tant que le catalogue n'est pas chargé : réappliqué à son arrivée. */
+  private applyBodyParam(): void {
+    const id = this.bodyParam?.toLowerCase() || null;
+    if (id === this.selectedBodyId) return;
+    if (!id) {
+      this.clearSelection();
+      return;
+    }
+    if (this.star && id === this.star.id) {
+      this.selectStar();
+      return;
+    }
+    const planet = this.planets.find((p) => p.name === id);
+    if (planet) {
+      this.selectPlanet(planet);
+      return;
+    }
+    const parent = this.planets.find((p) => p.moons?.some((m) => m.id === id));
+    const moon = parent?.moons?.find((m) => m.id === id);
+    if (parent && moon) {
+      this.selectPlanet(parent);
+      this.selectMoon(moon);
+    }
+  }
+
+  private updateUrl(params: Params, replaceUrl: boolean): void {
+    void this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: params,
+      queryParamsHandling: 'merge',
+      replaceUrl
+    });
+  }
+
+  /**
+   * Plus grande longueur "ronde" tenant dans la barre d'échelle. Mesurée depuis
+   * le Soleil : hors échelle linéaire, la même distance n'a pas la même
+   * longueur à l'écran partout.
+   */
+  private updateScaleBar(): void {
+    let au = SCALE_BAR_STEPS_AU[0];
+    for (const step of SCALE_BAR_STEPS_AU) {
+      if (this.distanceToPixels(step) <= SCALE_BAR_MAX_PX) au = step;
+    }
+    this.scaleBar = { px: this.distanceToPixels(au), au };
   }
 
   private startPolling(): void {
     this.sub?.unsubscribe();
-    this.sub = interval(this.refreshIntervalMs)
-      .pipe(
-        startWith(0),
-        switchMap(() =>
-          this.ephemerisService
-            .getCurrentPlanetPositions({ fullSnapshot: true, forceRefresh: true })
-            .pipe(catchError(() => of(null)))
-        )
+    this.sub = this.liveStream
+      .watch<EphemerisSnapshot>(
+        'planets:full',
+        () => this.ephemerisService.getCurrentPlanetPositions({ fullSnapshot: true }),
+        this.refreshIntervalMs
       )
       .subscribe({
         next: (snapshot) => {
+          if (!this.interpolationReady || this.interpolation.isStale()) {
+            this.loadInterpolation();
+          }
           if (!snapshot) return;
           this.lastSnapshot = snapshot;
           this.refreshDisplay();
@@ -247,19 +537,156 @@ export class SolarSystemComponent implements OnInit, OnDestroy {
       });
   }
 
+  /**
+   * Coefficients Chebyshev du serveur : remplacent l'extrapolation képlérienne
+   * des planètes sur la fenêtre couverte (~1 an). Réessayé à chaque poll si KO,
+   * rechargé quand la fenêtre arrive à son terme.
+   */
+  private loadInterpolation(): void {
+    this.interpolationSub?.unsubscribe();
+    this.interpolationSub = this.interpolation.load().subscribe((payload) => {
+      this.interpolationReady = !!payload;
+      if (payload) {
+        this.refreshDisplay();
+        this.refreshSatellitesDisplay();
+      }
+    });
+  }
+
+  /**
+   * Éléments osculateurs héliocentriques de chaque planète : les orbites sont
+   * tracées en ellipses inclinées. Une planète sans éléments garde son cercle.
+   */
+  private loadOrbitalElements(): void {
+    this.elementsSub?.unsubscribe();
+    const names = Object.keys(this.textureByPlanet) as Planet['name'][];
+    this.elementsSub = from(names)
+      .pipe(
+        mergeMap(
+          (name) => this.ephemerisService.getOrbitalElements(name).pipe(catchError(() => EMPTY)),
+          3
+        )
+      )
+      .subscribe((payload) => {
+        this.orbitalElements.set(payload.id, payload.elements);
+        this.rebuildOrbits();
+      });
+  }
+
+  private rebuildOrbits(): void {
+    this.orbits = this.planets.map((planet) => {
+      const elements = this.orbitalElements.get(planet.name);
+      return {
+        name: planet.name,
+        path: elements ? this.orbitPathFromElements(elements) : null,
+        radiusPx: this.getOrbitRadiusPx(planet)
+      };
+    });
+  }
+
+  /**
+   * Échantillonne l'ellipse (anomalie excentrique) dans le plan orbital, la
+   * tourne par ω, i, Ω vers l'écliptique J2000, puis la projette comme les
+   * planètes (direction dans le plan XY, distance 3D en échelle log).
+   */
+  private orbitPathFromElements(el: OsculatingElements): string | null {
+    const a = el.semi_major_axis_au;
+    const e = el.eccentricity;
+    if (!(a > 0) || !(e >= 0 && e < 1)) return null;
+
+    const deg = Math.PI / 180;
+    const cw = Math.cos(el.argument_of_periapsis_deg * deg);
+    const sw = Math.sin(el.argument_of_periapsis_deg * deg);
+    const cO = Math.cos(el.ascending_node_deg * deg);
+    const sO = Math.sin(el.ascending_node_deg * deg);
+    const ci = Math.cos(el.inclination_deg * deg);
+    const si = Math.sin(el.inclination_deg * deg);
+    const b = a * Math.sqrt(1 - e * e);
+
+    const steps = 180;
+    let d = '';
+    for (let k = 0; k <= steps; k += 1) {
+      const E = (k / steps) * 2 * Math.PI;
+      const xp = a * (Math.cos(E) - e);
+      const yp = b * Math.sin(E);
+      const x = (cw * cO - sw * sO * ci) * xp + (-sw * cO - cw * sO * ci) * yp;
+      const y = (cw * sO + sw * cO * ci) * xp + (-sw * sO + cw * cO * ci) * yp;
+      const z = sw * si * xp + cw * si * yp;
+
+      const rPx = this.distanceToPixels(Math.sqrt(x * x + y * y + z * z));
+      const angle = Math.atan2(y, x);
+      const sx = this.centerX + rPx * Math.cos(angle);
+      const sy = this.centerY + rPx * Math.sin(angle);
+      d += `${k === 0 ? 'M' : 'L'}${sx.toFixed(1)} ${sy.toFixed(1)} `;
+    }
+    return `${d.trim()} Z`;
+  }
+
+  /**
+   * Horloge arrêtée sur une date : positions Horizons réelles à cette date (les
+   * coefficients Chebyshev ne couvrent qu'un an). En lecture, les planètes sont
+   * extrapolées depuis le dernier snapshot ; retour au live : flux temps réel.
+   */
+  private startEpochSnapshots(): void {
+    this.epochSub?.unsubscribe();
+    this.epochSub = this.time.state$
+      .pipe(
+        debounceTime(400),
+        switchMap((clock) => {
+          if (clock.live) return of(null);
+          if (clock.direction !== 0) return EMPTY;
+          const at = new Date(this.time.now()).toISOString();
+          return this.ephemerisService
+            .getCurrentPlanetPositions({ fullSnapshot: true, at })
+            .pipe(catchError(() => EMPTY));
+        })
+      )
+      .subscribe((snapshot) => {
+        this.epochSnapshot = snapshot;
+      });
+  }
+
+  private get snapshot(): EphemerisSnapshot | null {
+    return this.epochSnapshot ?? this.lastSnapshot;
+  }
+
   private startAnimationLoop(): void {
     this.frameSub?.unsubscribe();
     this.frameSub = animationFrames()
       .pipe(sampleTime(33))
       .subscribe(() => {
         this.nowMs = Date.now();
+        this.offsetDays = this.time.offsetDays;
         this.refreshDisplay();
         this.refreshSelectedEphemeris();
         this.refreshSatellitesDisplay();
       });
   }
 
+  // Changer de corps crée une entrée d'historique : précédent revient au corps d'avant.
   onSunClick(): void {
+    if (!this.star) return;
+    this.selectStar();
+    this.updateUrl({ body: this.star.id }, false);
+  }
+
+  onPlanetClick(planet: Planet): void {
+    this.selectPlanet(planet);
+    this.updateUrl({ body: planet.name }, false);
+  }
+
+  onMoonClick(moon: Moon): void {
+    if (!this.focusedPlanet) return;
+    this.selectMoon(moon);
+    this.updateUrl({ body: moon.id }, false);
+  }
+
+  onCloseInfo(): void {
+    this.clearSelection();
+    this.updateUrl({ body: null }, false);
+  }
+
+  private selectStar(): void {
     if (!this.star) return;
     this.focusedPlanet = null;
     this.displaySatellites = [];
@@ -274,7 +701,7 @@ export class SolarSystemComponent implements OnInit, OnDestroy {
     this.startSunPolling();
   }
 
-  onPlanetClick(planet: Planet): void {
+  private selectPlanet(planet: Planet): void {
     this.stopSunPolling();
     this.focusedPlanet = planet;
     this.selected = { kind: 'planet', planet };
@@ -288,7 +715,7 @@ export class SolarSystemComponent implements OnInit, OnDestroy {
     }));
   }
 
-  onMoonClick(moon: Moon): void {
+  private selectMoon(moon: Moon): void {
     if (!this.focusedPlanet) return;
     this.stopSunPolling();
     this.selected = { kind: 'moon', planet: this.focusedPlanet, moon };
@@ -296,7 +723,7 @@ export class SolarSystemComponent implements OnInit, OnDestroy {
     this.refreshSatellitesDisplay();
   }
 
-  onCloseInfo(): void {
+  private clearSelection(): void {
     this.selected = null;
     this.selectedEphemeris = null;
     this.focusedPlanet = null;
@@ -351,18 +778,33 @@ export class SolarSystemComponent implements OnInit, OnDestroy {
     return minPx + Math.max(0, Math.min(1, t)) * (maxPx - minPx);
   }
 
+  /** Au zoom 1, l'orbite la plus large touche le bord de la vue (marge de 40 px). */
   private distanceToPixels(distanceAu: number): number {
-    const maxRadiusPx = Math.min(this.width, this.height) / 2 - 40;
-    const clamped = Math.max(0, Math.min(distanceAu, this.maxSemiMajorAxisAu));
-    const normalized =
-      Math.log10(1 + clamped) / Math.log10(1 + Math.max(1e-6, this.maxSemiMajorAxisAu));
-    return normalized * maxRadiusPx;
+    return this.normalizedDistance(Math.max(0, distanceAu)) * this.mapRadiusPx * this.zoom;
+  }
+
+  /** Rayon de la carte au zoom 1. */
+  private get mapRadiusPx(): number {
+    return Math.min(this.width, this.height) / 2 - 40;
+  }
+
+  /** Distance rapportée au plus grand demi-grand axe (1 = orbite extérieure). */
+  private normalizedDistance(distanceAu: number): number {
+    const max = Math.max(1e-6, this.maxSemiMajorAxisAu);
+    switch (this.distanceScale) {
+      case 'linear':
+        return distanceAu / max;
+      case 'sqrt':
+        return Math.sqrt(distanceAu / max);
+      default:
+        return Math.log10(1 + distanceAu) / Math.log10(1 + max);
+    }
   }
 
   private refreshDisplay(): void {
     const positions = new Map<string, PlanetPosition>();
-    if (this.lastSnapshot?.bodies?.length) {
-      for (const b of this.lastSnapshot.bodies) {
+    if (this.snapshot?.bodies?.length) {
+      for (const b of this.snapshot.bodies) {
         positions.set(b.name, b);
       }
     }
@@ -376,7 +818,7 @@ export class SolarSystemComponent implements OnInit, OnDestroy {
       if (pos && this.isFinitePosition(pos)) {
         const advanced = this.advanceStateVector(
           pos,
-          pos.timestamp || this.lastSnapshot?.timestamp,
+          pos.timestamp || this.snapshot?.timestamp,
           planet
         );
         if (this.isFiniteVector(advanced)) {
@@ -435,13 +877,13 @@ export class SolarSystemComponent implements OnInit, OnDestroy {
     }
 
     if (selected.kind === 'planet') {
-      if (!this.lastSnapshot) {
+      if (!this.snapshot) {
         this.selectedEphemeris = null;
         return;
       }
 
       const targetPlanet = selected.planet;
-      const ephem = this.lastSnapshot.bodies.find((b) => b.name === targetPlanet.name) ?? null;
+      const ephem = this.snapshot.bodies.find((b) => b.name === targetPlanet.name) ?? null;
       if (!ephem) {
         this.selectedEphemeris = null;
         return;
@@ -449,12 +891,12 @@ export class SolarSystemComponent implements OnInit, OnDestroy {
 
       const advanced = this.advanceStateVector(
         ephem,
-        ephem.timestamp || this.lastSnapshot.timestamp,
+        ephem.timestamp || this.snapshot.timestamp,
         targetPlanet
       );
-      const baseTs = Date.parse(ephem.timestamp || this.lastSnapshot.timestamp || '');
+      const baseTs = Date.parse(ephem.timestamp || this.snapshot.timestamp || '');
       const ts = Number.isFinite(baseTs)
-        ? new Date(baseTs + this.effectiveDaysFromTimestamp(ephem.timestamp || this.lastSnapshot.timestamp) * 86_400_000).toISOString()
+        ? new Date(baseTs + this.effectiveDaysFromTimestamp(ephem.timestamp || this.snapshot.timestamp) * 86_400_000).toISOString()
         : ephem.timestamp;
 
       this.selectedEphemeris = { ...ephem, x_au: advanced.x, y_au: advanced.y, z_au: advanced.z, timestamp: ts };
@@ -475,18 +917,14 @@ export class SolarSystemComponent implements OnInit, OnDestroy {
 
   private startSunPolling(): void {
     this.stopSunPolling();
-    this.sunSub = interval(this.refreshIntervalMs)
-      .pipe(
-        startWith(0),
-        switchMap(() =>
-          this.ephemerisService
-            .getBodyEphemeris('sun', { forceRefresh: true })
-            .pipe(catchError(() => of(null)))
-        )
+    this.sunSub = this.liveStream
+      .watch<BodyEphemerisPayload>(
+        'body:sun',
+        () => this.ephemerisService.getBodyEphemeris('sun'),
+        this.refreshIntervalMs
       )
       .subscribe({
         next: (payload) => {
-          if (!payload) return;
           if (this.selected?.kind !== 'star') return;
           this.sunEphemerisRaw = payload;
           this.selectedEphemeris = this.adjustBodyEphemeris(payload);
@@ -515,32 +953,36 @@ export class SolarSystemComponent implements OnInit, OnDestroy {
       return;
     }
 
-    this.moonsSub = interval(this.refreshIntervalMs)
+    // Vecteurs centrés sur la planète : en live, sujets `body:<id>@<planète>`
+    // (requête groupée tant que le flux est indisponible). Hors live, vecteurs
+    // à la date simulée : extrapoler une lune sur des mois à partir de sa
+    // vitesse n'aurait pas de sens.
+    const ids = moons.map((m) => m.id);
+    const reference = { center: planet.name };
+    this.moonsSub = this.time.state$
       .pipe(
-        startWith(0),
-        switchMap(() =>
-          forkJoin(
-            moons.map((m) =>
-              this.ephemerisService
-                .getBodyEphemeris(m.id, { forceRefresh: true })
-                .pipe(catchError(() => of(null)))
-            )
-          )
+        switchMap((clock) =>
+          clock.live
+            ? this.liveStream.watchMany<BodyEphemerisPayload>(
+                ids.map((id) => `body:${id}@${planet.name}`),
+                () => this.ephemerisService.getBodiesEphemeris(ids, { reference }).pipe(map((batch) => batch.bodies)),
+                this.refreshIntervalMs
+              )
+            : timer(0, this.refreshIntervalMs).pipe(
+                switchMap(() =>
+                  this.ephemerisService
+                    .getBodiesEphemeris(ids, { reference, at: new Date(this.time.now()).toISOString() })
+                    .pipe(catchError(() => EMPTY)) // Pas bloquant.
+                ),
+                mergeMap((batch) => from(batch.bodies))
+              )
         )
       )
-      .subscribe({
-        next: (results) => {
-          for (const payload of results) {
-            if (!payload) continue;
-            this.moonEphemerides.set(payload.id, payload);
-          }
-          this.refreshSatellitesDisplay();
-          if (this.selected?.kind === 'moon') {
-            this.refreshSelectedEphemeris();
-          }
-        },
-        error: () => {
-          // Pas bloquant.
+      .subscribe((payload) => {
+        this.moonEphemerides.set(payload.id, payload);
+        this.refreshSatellitesDisplay();
+        if (this.selected?.kind === 'moon') {
+          this.refreshSelectedEphemeris();
         }
       });
   }
@@ -564,34 +1006,13 @@ export class SolarSystemComponent implements OnInit, OnDestroy {
       return;
     }
 
-    const planetEphem = this.lastSnapshot?.bodies.find((b) => b.name === planet.name) ?? null;
-    let planetX = 0;
-    let planetY = 0;
-    let planetZ = 0;
-    let canUseEphem = false;
-    if (planetEphem) {
-      const advancedPlanet = this.advanceStateVector(
-        planetEphem,
-        planetEphem.timestamp || this.lastSnapshot?.timestamp,
-        planet
-      );
-      if (this.isFiniteVector(advancedPlanet)) {
-        planetX = advancedPlanet.x;
-        planetY = advancedPlanet.y;
-        planetZ = advancedPlanet.z;
-        canUseEphem = true;
-      }
-    }
-
     this.displaySatellites = moons
       .map((moon, idx) => {
-        if (canUseEphem) {
-          const raw = this.moonEphemerides.get(moon.id);
-          if (raw) {
-            const m = this.adjustBodyEphemeris(raw);
-            const dx = m.x_au - planetX;
-            const dy = m.y_au - planetY;
-            const dz = m.z_au - planetZ;
+        // Vecteurs planétocentriques : la position relative est lue telle quelle.
+        const raw = this.moonEphemerides.get(moon.id);
+        if (raw) {
+          const { x_au: dx, y_au: dy, z_au: dz } = this.adjustBodyEphemeris(raw);
+          if (this.isFiniteVector({ x: dx, y: dy, z: dz })) {
             const dist = Math.sqrt(dx * dx + dy * dy + dz * dz) || 1e-9;
             const angle = Math.atan2(dy, dx);
 
@@ -633,6 +1054,16 @@ export class SolarSystemComponent implements OnInit, OnDestroy {
     timestampIso?: string,
     planet?: Planet | null
   ): { x: number; y: number; z: number } {
+    if (planet) {
+      const interpolated = this.interpolation.stateAt(
+        planet.name,
+        this.nowMs + this.offsetDays * 86_400_000
+      );
+      if (interpolated) {
+        return { x: interpolated.x, y: interpolated.y, z: interpolated.z };
+      }
+    }
+
     const days = this.effectiveDaysFromTimestamp(timestampIso);
     if (
       planet &&
@@ -704,7 +1135,7 @@ export class SolarSystemComponent implements OnInit, OnDestroy {
       Number.isFinite(planet.orbitalPeriodDays) && (planet.orbitalPeriodDays ?? 0) > 0
         ? planet.orbitalPeriodDays!
         : 365.25;
-    const daysSinceEpoch = (this.nowMs - this.orbitEpochMs) / 86_400_000;
+    const daysSinceEpoch = (this.nowMs - this.orbitEpochMs) / 86_400_000 + this.offsetDays;
     const basePhase = (daysSinceEpoch / periodDays) * 2 * Math.PI;
     const offset =
       this.planets.length > 0 ? (index / this.planets.length) * 2 * Math.PI : 0;
@@ -752,7 +1183,7 @@ export class SolarSystemComponent implements OnInit, OnDestroy {
   ): { x: number; y: number } {
     const planetR = this.planetRadiusToPixels(planet);
     const radius = planetR + 14 + index * 4;
-    const daysSinceEpoch = (this.nowMs - this.orbitEpochMs) / 86_400_000;
+    const daysSinceEpoch = (this.nowMs - this.orbitEpochMs) / 86_400_000 + this.offsetDays;
     const speedDays = 7 + index * 3;
     const basePhase = (daysSinceEpoch / speedDays) * 2 * Math.PI;
     const offset = count > 0 ? (index / count) * 2 * Math.PI : 0;
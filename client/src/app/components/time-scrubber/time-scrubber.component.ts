@@ -1,8 +1,20 @@
 import { Component, ChangeDetectionStrategy, OnDestroy, OnInit, ChangeDetectorRef } from '@angular/core';
-import { Subscription } from 'rxjs';
-import { TimeScrubberService } from '../../services/time-scrubber.service';
+import { Subscription, interval, merge, startWith, switchMap } from 'rxjs';
+import {
+  PLAYBACK_RATES,
+  PlaybackRate,
+  SIMULATION_MAX_MS,
+  SIMULATION_MIN_MS,
+  TimeScrubberService
+} from '../../services/time-scrubber.service';
 import { I18nService } from '../../services/i18n.service';
 
+const DAY_MS = 86_400_000;
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
 @Component({
   selector: 'app-time-scrubber',
   templateUrl: './time-scrubber.component.html',
@@ -10,7 +22,13 @@ import { I18nService } from '../../services/i18n.service';
   changeDetection: ChangeDetectionStrategy.OnPush
 })
 export class TimeScrubberComponent implements OnInit, OnDestroy {
-  private langSub?: Subscription;
+  readonly rates = Object.keys(PLAYBACK_RATES) as PlaybackRate[];
+  readonly minDay = SIMULATION_MIN_MS / DAY_MS;
+  readonly maxDay = SIMULATION_MAX_MS / DAY_MS;
+  readonly minInput = this.toInputValue(SIMULATION_MIN_MS);
+  readonly maxInput = this.toInputValue(SIMULATION_MAX_MS);
+
+  private sub?: Subscription;
 
   constructor(
     public time: TimeScrubberService,
@@ -19,41 +37,56 @@ export class TimeScrubberComponent implements OnInit, OnDestroy {
   ) {}
 
   ngOnInit(): void {
-    this.langSub = this.i18n.lang$.subscribe(() => {
+    // L'affichage suit l'horloge : 4 fois par seconde en lecture, sinon toutes les 30 s.
+    const ticks$ = this.time.state$.pipe(
+      switchMap((s) => (s.direction !== 0 ? interval(250) : interval(30_000)).pipe(startWith(0)))
+    );
+    this.sub = merge(ticks$, this.i18n.lang$).subscribe(() => {
       this.cdr.markForCheck();
     });
   }
 
   ngOnDestroy(): void {
-    this.langSub?.unsubscribe();
-    this.langSub = undefined;
+    this.sub?.unsubscribe();
+    this.sub = undefined;
   }
 
-  onInput(raw: string): void {
+  onSlider(raw: string): void {
     const v = Number.parseFloat(raw);
     if (!Number.isFinite(v)) return;
-    this.time.setOffsetDays(v);
+    this.time.setTime(v * DAY_MS);
+  }
+
+  /** `datetime-local` : heure locale du navigateur, à la minute. */
+  onPicker(raw: string): void {
+    if (!raw) return;
+    const ms = new Date(raw).getTime();
+    if (Number.isFinite(ms)) this.time.setTime(ms);
   }
 
-  get monthLabels(): string[] {
-    const months = this.getMonthShortLabels();
-    const current = new Date().getMonth();
-    const ordered: string[] = [];
-    for (let offset = 11; offset >= 0; offset -= 1) {
-      const idx = (current - offset + 1200) % 12;
-      ordered.push(months[idx]);
+  toggle(direction: 1 | -1): void {
+    if (this.time.state.direction === direction) {
+      this.time.pause();
+    } else {
+      this.time.play(direction);
     }
-    return ordered;
   }
 
-  private getMonthShortLabels(): string[] {
-    const raw = this.i18n.t('months.short');
-    const parsed = raw
-      .split(',')
-      .map((v) => v.trim())
-      .filter(Boolean);
-    if (parsed.length === 12) return parsed;
-    return ['J', 'F', 'M', 'A', 'M', 'J', 'J', 'A', 'S', 'O', 'N', 'D'];
+  onRate(raw: string): void {
+    if ((this.rates as string[]).includes(raw)) this.time.setRate(raw as PlaybackRate);
+  }
+
+  get sliderValue(): number {
+    return this.time.now() / DAY_MS;
+  }
+
+  get pickerValue(): string {
+    return this.toInputValue(this.time.now());
+  }
+
+  /** Position du repère "aujourd'hui" sur la réglette (%). */
+  get todayPercent(): number {
+    return ((Date.now() - SIMULATION_MIN_MS) / (SIMULATION_MAX_MS - SIMULATION_MIN_MS)) * 100;
   }
 
   private formatYears(value: number): string {
@@ -62,24 +95,35 @@ export class TimeScrubberComponent implements OnInit, OnDestroy {
   }
 
   get label(): string {
+    if (this.time.live) return this.i18n.t('label.now');
     const days = this.time.offsetDays;
-    if (days === 0) return this.i18n.t('label.now');
-    const years = Math.abs(days) / 365.25;
     const sign = days < 0 ? '-' : '+';
-    const unit = this.i18n.t('unit.yearShort');
-    return `T${sign}${this.formatYears(years)}${unit}`;
+    if (Math.abs(days) < 1) {
+      return `T${sign}${Math.round(Math.abs(days) * 24)}${this.i18n.t('unit.hourShort')}`;
+    }
+    const years = Math.abs(days) / 365.25;
+    if (years < 0.1) {
+      return `T${sign}${Math.round(Math.abs(days))}${this.i18n.t('unit.dayShort')}`;
+    }
+    return `T${sign}${this.formatYears(years)}${this.i18n.t('unit.yearShort')}`;
   }
 
   get selectedDateLabel(): string {
-    const days = this.time.offsetDays;
-    const base = new Date();
-    const target = new Date(base.getFullYear(), base.getMonth(), base.getDate());
-    target.setDate(target.getDate() + Math.round(days));
     const lang = this.i18n.language === 'fr' ? 'fr-FR' : 'en-US';
     return new Intl.DateTimeFormat(lang, {
       day: 'numeric',
       month: 'long',
-      year: 'numeric'
-    }).format(target);
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    }).format(new Date(this.time.now()));
+  }
+
+  private toInputValue(ms: number): string {
+    const d = new Date(ms);
+    return (
+      `${pad(d.getFullYear(), 4)}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}` +
+      `T${pad(d.getHours())}:${pad(d.getMinutes())}`
+    );
   }
 }
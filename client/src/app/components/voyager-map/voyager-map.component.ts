@@ -1,8 +1,24 @@
-import { ChangeDetectorRef, Component, HostListener, Input, OnDestroy, OnInit } from '@angular/core';
-import { Subscription, animationFrames, interval, sampleTime, startWith, switchMap } from 'rxjs';
-
-import { VoyagerData, VoyagerSnapshot } from '../../models/voyager';
-import { VoyagerService } from '../../services/voyager.service';
+import {
+  ChangeDetectorRef,
+  Component,
+  HostListener,
+  Input,
+  OnChanges,
+  OnDestroy,
+  OnInit,
+  SimpleChanges
+} from '@angular/core';
+import { EMPTY, Subscription, animationFrames, catchError, merge, sampleTime, switchMap } from 'rxjs';
+
+import {
+  SpacecraftMission,
+  SpacecraftPayload,
+  SpacecraftTelemetry,
+  SpacecraftTrajectory
+} from '../../models/spacecraft';
+import { SpacecraftService } from '../../services/spacecraft.service';
+import { EXPORT_FORMATS, ExportFormat, ExportService, spacecraftExportWindow } from '../../services/export.service';
+import { LiveStreamService } from '../../services/live-stream.service';
 import { TimeScrubberService } from '../../services/time-scrubber.service';
 import { I18nService } from '../../services/i18n.service';
 
@@ -34,12 +50,11 @@ interface TrailPoint {
   timestamp: string;
 }
 
-interface MissionFacts {
-  launchDate: string;
-  flybys: Array<{ body: string; year: number }>;
-  statusKey: string;
-  instruments: string[];
-  links: { nasa: string; jpl: string; instruments: string };
+interface FlybyMarker {
+  key: string;
+  label: string;
+  x: number;
+  y: number;
 }
 
 interface InstrumentItem {
@@ -53,8 +68,9 @@ interface InstrumentItem {
   templateUrl: './voyager-map.component.html',
   styleUrls: ['./voyager-map.component.css']
 })
-export class VoyagerMapComponent implements OnInit, OnDestroy {
-  @Input() id: 'voyager1' | 'voyager2' | string = 'voyager1';
+export class VoyagerMapComponent implements OnInit, OnChanges, OnDestroy {
+  /** Identifiant du registre (`/spacecraft/:id`). */
+  @Input() id = 'voyager1';
 
   width = 800;
   height = 800;
@@ -67,7 +83,7 @@ export class VoyagerMapComponent implements OnInit, OnDestroy {
   private readonly trailDays = 3650;
   private readonly trailSteps = 36;
   private readonly maxTrailPoints = 140;
-  private readonly trailHistory = new Map<VoyagerData['id'], TrailPoint[]>();
+  private readonly trailHistory = new Map<string, TrailPoint[]>();
   private readonly daysPerYear = 365.25;
   private readonly heliopauseAu = 120;
   private readonly graphWidth = 210;
@@ -78,72 +94,36 @@ export class VoyagerMapComponent implements OnInit, OnDestroy {
   private readonly auPerLightYear = 63_241;
   private readonly scaleYears = 30;
   showComparison = true;
-  private readonly instrumentMeta: Record<string, { code: string; tooltipKey: string }> = {
-    'instrument.magnetometer': { code: 'MAG', tooltipKey: 'instrument.magnetometer.short' },
-    'instrument.plasma': { code: 'PLS', tooltipKey: 'instrument.plasma.short' },
-    'instrument.cosmicRays': { code: 'CRS', tooltipKey: 'instrument.cosmicRays.short' },
-    'instrument.plasmaWaves': { code: 'PWS', tooltipKey: 'instrument.plasmaWaves.short' }
-  };
-  private readonly missionFactsById: Record<'voyager1' | 'voyager2', MissionFacts> = {
-    voyager1: {
-      launchDate: '1977-09-05',
-      flybys: [
-        { body: 'jupiter', year: 1979 },
-        { body: 'saturn', year: 1980 }
-      ],
-      statusKey: 'status.voyager.interstellar',
-      instruments: [
-        'instrument.magnetometer',
-        'instrument.plasma',
-        'instrument.cosmicRays',
-        'instrument.plasmaWaves'
-      ],
-      links: {
-        nasa: 'https://www.nasa.gov/mission_pages/voyager/index.html',
-        jpl: 'https://voyager.jpl.nasa.gov/',
-        instruments: 'https://voyager.jpl.nasa.gov/mission/science/'
-      }
-    },
-    voyager2: {
-      launchDate: '1977-08-20',
-      flybys: [
-        { body: 'jupiter', year: 1979 },
-        { body: 'saturn', year: 1981 },
-        { body: 'uranus', year: 1986 },
-        { body: 'neptune', year: 1989 }
-      ],
-      statusKey: 'status.voyager.interstellar',
-      instruments: [
-        'instrument.magnetometer',
-        'instrument.plasma',
-        'instrument.cosmicRays',
-        'instrument.plasmaWaves'
-      ],
-      links: {
-        nasa: 'https://www.nasa.gov/mission_pages/voyager/index.html',
-        jpl: 'https://voyager.jpl.nasa.gov/',
-        instruments: 'https://voyager.jpl.nasa.gov/mission/science/'
-      }
-    }
+  // Instruments communs aux sondes : libellé traduit, sinon nom fourni par le registre.
+  private readonly instrumentKeyByCode: Record<string, string> = {
+    MAG: 'instrument.magnetometer',
+    PLS: 'instrument.plasma',
+    CRS: 'instrument.cosmicRays',
+    PWS: 'instrument.plasmaWaves'
   };
+  private readonly missions = new Map<string, SpacecraftMission>();
+  private readonly trajectories = new Map<string, SpacecraftTrajectory>();
+  // Chemin SVG de la trajectoire historique : recalculé seulement si l'écran
+  // ou le dernier échantillon visible (curseur temps) change.
+  private readonly trajectoryPathCache = new Map<string, { key: string; path: string }>();
 
-  snapshot: VoyagerSnapshot | null = null;
-  voyagers: VoyagerData[] = [];
-  active: VoyagerData | null = null;
-  other: VoyagerData | null = null;
+  spacecraft: SpacecraftTelemetry[] = [];
+  active: SpacecraftTelemetry | null = null;
+  other: SpacecraftTelemetry | null = null;
 
   // Log scale max distance: ~4.75 ly (300k AU) keeps Voyager visible.
   readonly maxDistanceAu = 300_000;
   private sub?: Subscription;
-  private timeSub?: Subscription;
+  private trajectorySub?: Subscription;
   private frameSub?: Subscription;
   private langSub?: Subscription;
   private offsetDays = 0;
   private nowMs = Date.now();
 
-  selectedPanel: { kind: 'voyager'; voyager: VoyagerData } | { kind: 'node'; node: ContextNode } | null =
+  selectedPanel: { kind: 'craft'; craft: SpacecraftTelemetry } | { kind: 'node'; node: ContextNode } | null =
     null;
   expanded = false;
+  readonly exportFormats = EXPORT_FORMATS;
 
   private readonly baseNodes: ContextNode[] = [
     {
@@ -212,9 +192,11 @@ export class VoyagerMapComponent implements OnInit, OnDestroy {
   ];
 
   constructor(
-    private voyagerService: VoyagerService,
+    private spacecraftService: SpacecraftService,
+    private liveStream: LiveStreamService,
     private time: TimeScrubberService,
     private i18n: I18nService,
+    private exportService: ExportService,
     private cdr: ChangeDetectorRef
   ) {}
 
@@ -223,20 +205,27 @@ export class VoyagerMapComponent implements OnInit, OnDestroy {
     this.startPolling();
     this.startAnimationLoop();
 
-    this.timeSub = this.time.offsetDays$.subscribe((days) => {
-      this.offsetDays = days;
-    });
-
     this.langSub = this.i18n.lang$.subscribe(() => {
       this.cdr.markForCheck();
     });
   }
 
+  ngOnChanges(changes: SimpleChanges): void {
+    // Navigation d'une sonde à l'autre : le composant est réutilisé par le routeur.
+    if (changes['id'] && !changes['id'].firstChange) {
+      this.spacecraft = [];
+      this.active = null;
+      this.other = null;
+      this.selectedPanel = null;
+      this.startPolling();
+    }
+  }
+
   ngOnDestroy(): void {
     this.sub?.unsubscribe();
     this.sub = undefined;
-    this.timeSub?.unsubscribe();
-    this.timeSub = undefined;
+    this.trajectorySub?.unsubscribe();
+    this.trajectorySub = undefined;
     this.frameSub?.unsubscribe();
     this.frameSub = undefined;
     this.langSub?.unsubscribe();
@@ -255,18 +244,55 @@ export class VoyagerMapComponent implements OnInit, OnDestroy {
     this.centerY = this.height / 2;
   }
 
+  /**
+   * Suit la sonde demandée et, si le registre en déclare une, sa jumelle
+   * (comparaison de distance sur la carte et dans le graphe).
+   */
   private startPolling(): void {
     this.sub?.unsubscribe();
-    this.sub = interval(this.refreshIntervalMs)
+    this.trajectorySub?.unsubscribe();
+    const id = this.id;
+    const registry$ = this.spacecraftService.getRegistry();
+    const idsOf = (registry: SpacecraftMission[]) => {
+      const companion = registry.find((m) => m.id === id)?.companion;
+      return companion ? [id, companion] : [id];
+    };
+
+    this.trajectorySub = registry$
       .pipe(
-        startWith(0),
-        switchMap(() => this.voyagerService.getVoyagers({ forceRefresh: true }))
+        switchMap((registry) =>
+          merge(
+            ...idsOf(registry).map((craftId) =>
+              this.spacecraftService.getTrajectory(craftId).pipe(catchError(() => EMPTY))
+            )
+          )
+        )
+      )
+      .subscribe((trajectory) => {
+        this.trajectories.set(trajectory.id, trajectory);
+        this.trajectoryPathCache.delete(trajectory.id);
+      });
+
+    this.sub = registry$
+      .pipe(
+        switchMap((registry) => {
+          const ids = idsOf(registry);
+          return merge(
+            ...ids.map((craftId) =>
+              this.liveStream.watch<SpacecraftPayload>(
+                `spacecraft:${craftId}`,
+                () => this.spacecraftService.getSpacecraft(craftId),
+                this.refreshIntervalMs
+              )
+            )
+          );
+        })
       )
       .subscribe({
-        next: (snapshot) => {
-          this.snapshot = snapshot;
-          this.voyagers = snapshot.voyagers ?? [];
-          this.updateTrailHistory(snapshot);
+        next: (payload) => {
+          this.missions.set(payload.spacecraft.id, payload.spacecraft);
+          this.upsertTelemetry(payload.telemetry);
+          this.updateTrailHistory(payload.telemetry);
           this.pickActive();
         },
         error: () => {
@@ -275,52 +301,53 @@ export class VoyagerMapComponent implements OnInit, OnDestroy {
       });
   }
 
+  private upsertTelemetry(telemetry: SpacecraftTelemetry): void {
+    const index = this.spacecraft.findIndex((c) => c.id === telemetry.id);
+    if (index >= 0) {
+      this.spacecraft = this.spacecraft.map((c, i) => (i === index ? telemetry : c));
+    } else {
+      this.spacecraft = [...this.spacecraft, telemetry];
+    }
+  }
+
   private startAnimationLoop(): void {
     this.frameSub?.unsubscribe();
     this.frameSub = animationFrames()
       .pipe(sampleTime(33))
       .subscribe(() => {
         this.nowMs = Date.now();
+        this.offsetDays = this.time.offsetDays;
       });
   }
 
   private pickActive(): void {
-    const wanted = (this.id === 'voyager2' ? 'voyager2' : 'voyager1') as VoyagerData['id'];
-    const v1 = this.voyagers.find((v) => v.id === 'voyager1') ?? null;
-    const v2 = this.voyagers.find((v) => v.id === 'voyager2') ?? null;
-    this.active = wanted === 'voyager1' ? v1 : v2;
-    this.other = wanted === 'voyager1' ? v2 : v1;
-  }
-
-  private updateTrailHistory(snapshot: VoyagerSnapshot): void {
-    for (const v of snapshot.voyagers ?? []) {
-      const pos = v.positionAu;
-      if (
-        !Number.isFinite(pos?.x) ||
-        !Number.isFinite(pos?.y) ||
-        !Number.isFinite(pos?.z)
-      ) {
-        continue;
-      }
-      const list = this.trailHistory.get(v.id) ?? [];
-      const last = list[list.length - 1];
-      if (last?.timestamp === v.timestamp) {
-        continue;
-      }
-      list.push({
-        x: pos.x as number,
-        y: pos.y as number,
-        z: pos.z as number,
-        vx: this.finiteOrZero(v.velocityAuPerDay?.vx),
-        vy: this.finiteOrZero(v.velocityAuPerDay?.vy),
-        vz: this.finiteOrZero(v.velocityAuPerDay?.vz),
-        timestamp: v.timestamp
-      });
-      if (list.length > this.maxTrailPoints) {
-        list.splice(0, list.length - this.maxTrailPoints);
-      }
-      this.trailHistory.set(v.id, list);
+    this.active = this.spacecraft.find((c) => c.id === this.id) ?? null;
+    this.other = this.spacecraft.find((c) => c.id !== this.id) ?? null;
+  }
+
+  private updateTrailHistory(v: SpacecraftTelemetry): void {
+    const pos = v.positionAu;
+    if (!Number.isFinite(pos?.x) || !Number.isFinite(pos?.y) || !Number.isFinite(pos?.z)) {
+      return;
+    }
+    const list = this.trailHistory.get(v.id) ?? [];
+    const last = list[list.length - 1];
+    if (last?.timestamp === v.timestamp) {
+      return;
+    }
+    list.push({
+      x: pos.x as number,
+      y: pos.y as number,
+      z: pos.z as number,
+      vx: this.finiteOrZero(v.velocityAuPerDay?.vx),
+      vy: this.finiteOrZero(v.velocityAuPerDay?.vy),
+      vz: this.finiteOrZero(v.velocityAuPerDay?.vz),
+      timestamp: v.timestamp
+    });
+    if (list.length > this.maxTrailPoints) {
+      list.splice(0, list.length - this.maxTrailPoints);
     }
+    this.trailHistory.set(v.id, list);
   }
 
   get ringsAu(): number[] {
@@ -335,7 +362,7 @@ export class VoyagerMapComponent implements OnInit, OnDestroy {
     return t * maxRadiusPx;
   }
 
-  miniPoint(v: VoyagerData): { x: number; y: number } {
+  miniPoint(v: SpacecraftTelemetry): { x: number; y: number } {
     const pos = this.projectedPositionAu(v);
     const theta = Math.atan2(pos.y, pos.x);
     const rAu = Math.sqrt(pos.x * pos.x + pos.y * pos.y + pos.z * pos.z) || 0;
@@ -354,15 +381,23 @@ export class VoyagerMapComponent implements OnInit, OnDestroy {
     return t * maxRadiusPx;
   }
 
-  voyagerX(v: VoyagerData): number {
+  craftX(v: SpacecraftTelemetry): number {
     return this.screenPointFromPosition(this.projectedPositionAu(v)).x;
   }
 
-  voyagerY(v: VoyagerData): number {
+  craftY(v: SpacecraftTelemetry): number {
     return this.screenPointFromPosition(this.projectedPositionAu(v)).y;
   }
 
-  voyagerTrailPath(v: VoyagerData): string {
+  trailPath(v: SpacecraftTelemetry): string {
+    const trajectory = this.trajectories.get(v.id);
+    if (trajectory && trajectory.samples.length > 1) {
+      const basePath = this.trajectoryPath(trajectory, this.projectedTimeMs(v));
+      if (basePath) {
+        const livePoint = this.screenPointFromPosition(this.projectedPositionAu(v));
+        return `${basePath} L ${livePoint.x} ${livePoint.y}`;
+      }
+    }
     const history = this.trailHistory.get(v.id);
     if (history && history.length > 1) {
       const basePath = this.trailPathFromHistory(history);
@@ -382,6 +417,58 @@ export class VoyagerMapComponent implements OnInit, OnDestroy {
     return path;
   }
 
+  /**
+   * Trajectoire Horizons depuis le lancement jusqu'à l'instant affiché : les
+   * survols (Jupiter, Saturne...) y apparaissent comme de vrais coudes.
+   */
+  private trajectoryPath(trajectory: SpacecraftTrajectory, untilMs: number): string {
+    const samples = trajectory.samples;
+    let count = samples.length;
+    while (count > 0 && Date.parse(samples[count - 1].timestamp) > untilMs) {
+      count -= 1;
+    }
+    const key = `${this.width}x${this.height}|${count}`;
+    const cached = this.trajectoryPathCache.get(trajectory.id);
+    if (cached?.key === key) return cached.path;
+
+    let path = '';
+    for (let i = 0; i < count; i += 1) {
+      const s = samples[i];
+      const point = this.screenPointFromPosition({ x: s.x_au, y: s.y_au, z: s.z_au });
+      path += i === 0 ? `M ${point.x} ${point.y}` : ` L ${point.x} ${point.y}`;
+    }
+    this.trajectoryPathCache.set(trajectory.id, { key, path });
+    return path;
+  }
+
+  /** Survols déjà passés à l'instant affiché, à leur position réelle sur la trajectoire. */
+  flybyMarkers(v: SpacecraftTelemetry): FlybyMarker[] {
+    const trajectory = this.trajectories.get(v.id);
+    if (!trajectory) return [];
+    const untilMs = this.projectedTimeMs(v);
+    return trajectory.flybys
+      .filter((f) => Date.parse(f.timestamp) <= untilMs)
+      .map((f) => {
+        const point = this.screenPointFromPosition(f.positionAu);
+        return {
+          key: `${f.body}-${f.date}`,
+          label: `${this.i18n.t(`name.${f.body}`)} ${f.date.slice(0, 4)}`,
+          x: point.x,
+          y: point.y
+        };
+      });
+  }
+
+  trackByFlyby(_: number, f: FlybyMarker): string {
+    return f.key;
+  }
+
+  private projectedTimeMs(v: SpacecraftTelemetry): number {
+    const base = Date.parse(v.timestamp || '');
+    const now = Number.isFinite(base) ? base : this.nowMs;
+    return now + this.offsetDays * 86_400_000;
+  }
+
   private trailPathFromHistory(history: TrailPoint[]): string {
     let path = '';
     for (let i = 0; i < history.length; i += 1) {
@@ -401,7 +488,7 @@ export class VoyagerMapComponent implements OnInit, OnDestroy {
     };
   }
 
-  voyagerHeadingDeg(v: VoyagerData): number {
+  headingDeg(v: SpacecraftTelemetry): number {
     const vx = this.finiteOrZero(v.velocityAuPerDay?.vx);
     const vy = this.finiteOrZero(v.velocityAuPerDay?.vy);
     if (vx !== 0 || vy !== 0) {
@@ -411,22 +498,22 @@ export class VoyagerMapComponent implements OnInit, OnDestroy {
     return (Math.atan2(pos.y, pos.x) * 180) / Math.PI;
   }
 
-  probeTransform(v: VoyagerData): string {
+  probeTransform(v: SpacecraftTelemetry): string {
     const pos = this.screenPointFromPosition(this.projectedPositionAu(v));
-    const heading = this.voyagerHeadingDeg(v);
-    const scale = this.isSelectedVoyager(v) ? 1.5 : 1;
+    const heading = this.headingDeg(v);
+    const scale = this.isSelectedCraft(v) ? 1.5 : 1;
     return `translate(${pos.x} ${pos.y}) rotate(${heading}) scale(${scale})`;
   }
 
-  trackByVoyagerId(_: number, v: VoyagerData): string {
+  trackByCraftId(_: number, v: SpacecraftTelemetry): string {
     return v.id;
   }
 
-  private projectedPositionAu(v: VoyagerData): { x: number; y: number; z: number } {
+  private projectedPositionAu(v: SpacecraftTelemetry): { x: number; y: number; z: number } {
     return this.projectedPositionAuAt(v, this.effectiveDaysFromTimestamp(v.timestamp));
   }
 
-  private projectedPositionAuAt(v: VoyagerData, offsetDays: number): { x: number; y: number; z: number } {
+  private projectedPositionAuAt(v: SpacecraftTelemetry, offsetDays: number): { x: number; y: number; z: number } {
     const x0 = this.finiteOrZero(v.positionAu?.x);
     const y0 = this.finiteOrZero(v.positionAu?.y);
     const z0 = this.finiteOrZero(v.positionAu?.z);
@@ -460,27 +547,34 @@ export class VoyagerMapComponent implements OnInit, OnDestroy {
     return Number.isFinite(value) ? (value as number) : 0;
   }
 
-  projectedDistanceFromSunAu(v: VoyagerData): number | null {
+  projectedDistanceFromSunAu(v: SpacecraftTelemetry): number | null {
     const p = this.projectedPositionAu(v);
     const r = Math.sqrt(p.x * p.x + p.y * p.y + p.z * p.z);
     return Number.isFinite(r) ? r : null;
   }
 
-  missionFacts(v: VoyagerData): MissionFacts | null {
-    return this.missionFactsById[v.id] ?? null;
+  mission(v: SpacecraftTelemetry): SpacecraftMission | null {
+    return this.missions.get(v.id) ?? null;
+  }
+
+  displayName(v: SpacecraftTelemetry): string {
+    return this.missions.get(v.id)?.displayName ?? v.name;
   }
 
-  instrumentLabels(facts: MissionFacts): string[] {
-    return facts.instruments.map((key) => this.i18n.t(key));
+  /** Trajectoire depuis le lancement jusqu'à l'instant affiché ; null avant le lancement. */
+  exportUrl(v: SpacecraftTelemetry, format: ExportFormat): string | null {
+    const mission = this.missions.get(v.id);
+    const window = mission ? spacecraftExportWindow(mission, this.projectedTimeMs(v)) : null;
+    return window ? this.exportService.ephemerisUrl([v.id], window, format) : null;
   }
 
-  instrumentItems(facts: MissionFacts): InstrumentItem[] {
-    return facts.instruments.map((key) => {
-      const meta = this.instrumentMeta[key] ?? { code: 'INS', tooltipKey: key };
+  instrumentItems(mission: SpacecraftMission): InstrumentItem[] {
+    return mission.instruments.map((instrument) => {
+      const key = this.instrumentKeyByCode[instrument.code];
       return {
-        code: meta.code,
-        label: this.i18n.t(key),
-        tooltip: this.i18n.t(meta.tooltipKey)
+        code: instrument.code,
+        label: key ? this.i18n.t(key) : instrument.name,
+        tooltip: key ? this.i18n.t(`${key}.short`) : instrument.name
       };
     });
   }
@@ -496,9 +590,10 @@ export class VoyagerMapComponent implements OnInit, OnDestroy {
     }).format(date);
   }
 
-  formatFlybys(facts: MissionFacts): string {
-    return facts.flybys
-      .map((flyby) => `${this.i18n.t(`name.${flyby.body}`)} ${flyby.year}`)
+  formatFlybys(mission: SpacecraftMission): string {
+    if (mission.flybys.length === 0) return '-';
+    return mission.flybys
+      .map((flyby) => `${this.i18n.t(`name.${flyby.body}`)} ${flyby.date.slice(0, 4)}`)
       .join(', ');
   }
 
@@ -514,7 +609,7 @@ export class VoyagerMapComponent implements OnInit, OnDestroy {
     this.showComparison = !this.showComparison;
   }
 
-  heliopauseDeltaLabel(v: VoyagerData): string {
+  heliopauseDeltaLabel(v: SpacecraftTelemetry): string {
     const distAu = this.projectedDistanceFromSunAu(v);
     if (!Number.isFinite(distAu)) return '-';
     const delta = (distAu as number) - this.heliopauseAu;
@@ -524,7 +619,7 @@ export class VoyagerMapComponent implements OnInit, OnDestroy {
     return `${sign}${abs} AU | ${this.i18n.t(statusKey)}`;
   }
 
-  heliopauseProgress(v: VoyagerData): { percent: number; beyond: boolean; distAu: number | null } {
+  heliopauseProgress(v: SpacecraftTelemetry): { percent: number; beyond: boolean; distAu: number | null } {
     const distAu = this.projectedDistanceFromSunAu(v);
     if (!Number.isFinite(distAu)) {
       return { percent: 0, beyond: false, distAu: null };
@@ -533,7 +628,7 @@ export class VoyagerMapComponent implements OnInit, OnDestroy {
     return { percent: Math.min(ratio, 1) * 100, beyond: ratio >= 1, distAu: distAu as number };
   }
 
-  heliopauseLyLabel(v: VoyagerData): string {
+  heliopauseLyLabel(v: SpacecraftTelemetry): string {
     const distAu = this.projectedDistanceFromSunAu(v);
     if (!Number.isFinite(distAu)) return '-';
     const deltaAu = (distAu as number) - this.heliopauseAu;
@@ -542,14 +637,14 @@ export class VoyagerMapComponent implements OnInit, OnDestroy {
     return `${sign}${Math.abs(deltaLy).toFixed(4)} ly`;
   }
 
-  signalDelayText(v: VoyagerData): string | null {
+  signalDelayText(v: SpacecraftTelemetry): string | null {
     const one = v.lightTime?.oneWayMinutes;
     const two = v.lightTime?.twoWayMinutes;
     if (!Number.isFinite(one) || !Number.isFinite(two)) return null;
     return `${(one as number).toFixed(1)} min / ${(two as number).toFixed(1)} min`;
   }
 
-  distanceGraph(v: VoyagerData): {
+  distanceGraph(v: SpacecraftTelemetry): {
     path: string;
     currentX: number;
     currentY: number;
@@ -603,10 +698,10 @@ export class VoyagerMapComponent implements OnInit, OnDestroy {
   }
 
   distanceGraphCompare(
-    v: VoyagerData,
+    v: SpacecraftTelemetry,
     base: { minAu: number; maxAu: number }
   ): { path: string } | null {
-    const other = this.voyagers.find((o) => o.id !== v.id);
+    const other = this.spacecraft.find((o) => o.id !== v.id);
     if (!other) return null;
     const now = Date.now();
     const start = now - 365 * 86_400_000;
@@ -638,7 +733,7 @@ export class VoyagerMapComponent implements OnInit, OnDestroy {
     return { path };
   }
 
-  travelScaleUnits(v: VoyagerData): number | null {
+  travelScaleUnits(v: SpacecraftTelemetry): number | null {
     const distAu = this.projectedDistanceFromSunAu(v);
     const speedAuPerDay = v.speed?.auPerDay ?? null;
     if (!Number.isFinite(distAu) || !Number.isFinite(speedAuPerDay) || speedAuPerDay === 0) {
@@ -649,11 +744,15 @@ export class VoyagerMapComponent implements OnInit, OnDestroy {
     return years / this.scaleYears;
   }
 
-  isSelectedVoyager(v: VoyagerData): boolean {
-    return this.selectedPanel?.kind === 'voyager' && this.selectedPanel.voyager.id === v.id;
+  get clockLive(): boolean {
+    return this.time.live;
   }
 
-  projectedTimestamp(v: VoyagerData): string {
+  isSelectedCraft(v: SpacecraftTelemetry): boolean {
+    return this.selectedPanel?.kind === 'craft' && this.selectedPanel.craft.id === v.id;
+  }
+
+  projectedTimestamp(v: SpacecraftTelemetry): string {
     const base = Date.parse(v.timestamp || '');
     if (!Number.isFinite(base)) return v.timestamp;
     return new Date(base + this.offsetDays * 86_400_000).toISOString();
@@ -673,8 +772,8 @@ export class VoyagerMapComponent implements OnInit, OnDestroy {
     });
   }
 
-  openVoyager(v: VoyagerData): void {
-    this.selectedPanel = { kind: 'voyager', voyager: v };
+  openCraft(v: SpacecraftTelemetry): void {
+    this.selectedPanel = { kind: 'craft', craft: v };
     this.expanded = false;
   }
 
@@ -692,10 +791,6 @@ export class VoyagerMapComponent implements OnInit, OnDestroy {
     this.expanded = !this.expanded;
   }
 
-  get activeTitle(): string {
-    return this.active?.id === 'voyager2' ? 'Voyager 2' : 'Voyager 1';
-  }
-
   formatDistanceLabelAu(au: number | null | undefined): string {
     if (au === null || au === undefined || !Number.isFinite(au)) return '-';
     if (au >= 100_000) return `${(au / 1000).toFixed(0)}k UA`;
@@ -0,0 +1,82 @@
+/**
+ * État du Deep Space Network renvoyé par `/api/dsn` (flux DSN Now parsé
+ * côté serveur). Les valeurs inconnues sont à `null`.
+ */
+export interface DsnSignal {
+  direction: 'up' | 'down';
+  active: boolean;
+  signalType: string | null;
+  dataRateBps: number | null;
+  frequencyHz: number | null;
+  band: string | null;
+  /** Montant : puissance émise (kW) ; descendant : puissance reçue (dBm). */
+  power: number | null;
+  spacecraft: string;
+  spacecraftId: number | null;
+  /** Identifiant du registre des sondes, si la sonde y figure. */
+  registryId?: string;
+}
+
+export interface DsnTarget {
+  name: string;
+  spacecraftId: number | null;
+  registryId?: string;
+  uplegRangeKm: number | null;
+  downlegRangeKm: number | null;
+  rtltSeconds: number | null;
+}
+
+export interface DsnDish {
+  name: string;
+  azimuthDeg: number | null;
+  elevationDeg: number | null;
+  windSpeedKmh: number | null;
+  activity: string | null;
+  isMspa: boolean;
+  isArray: boolean;
+  isDdor: boolean;
+  upSignals: DsnSignal[];
+  downSignals: DsnSignal[];
+  targets: DsnTarget[];
+}
+
+export interface DsnStation {
+  /** `gdscc`, `cdscc`, `mdscc`. */
+  id: string;
+  friendlyName: string;
+  timeUtc: string | null;
+  timeZoneOffsetMs: number | null;
+  dishes: DsnDish[];
+}
+
+export interface DsnSnapshot {
+  timestamp: string | null;
+  requestId?: string;
+  stations: DsnStation[];
+  metadata: {
+    source: 'NASA-DSN-Now';
+    fetchedAt: string;
+    cacheStatus: 'HIT' | 'MISS' | 'STALE';
+    cacheAgeMs: number;
+    responseTimeMs?: number;
+    spacecraft?: string;
+    error?: string;
+  };
+}
+
+/** Contact antenne ↔ sonde, à plat. */
+export interface DsnContact {
+  spacecraft: string;
+  spacecraftId: number | null;
+  registryId?: string;
+  station: string;
+  dish: string;
+  rtltSeconds: number | null;
+  uplegRangeKm: number | null;
+  downlinkRate: number | null;
+  /** Puissance reçue du signal descendant (dBm). */
+  downlinkPowerDbm: number | null;
+  band: string | null;
+  updatedAt: string | null;
+  activity?: string | null;
+}
@@ -0,0 +1,33 @@
+/** Réponse de `/api/ephemeris/interpolation` (segments évalués par `@solar-system/shared`). */
+import type { ChebyshevSegment } from '@solar-system/shared';
+
+export type { ChebyshevSegment } from '@solar-system/shared';
+
+export interface BodyInterpolation {
+  id: string;
+  kind: 'planet' | 'moon' | 'star';
+  step: string;
+  sampleCount: number;
+  /** Écart maximal mesuré entre l'interpolation et les échantillons Horizons. */
+  maxErrorKm: number;
+  segments: ChebyshevSegment[];
+}
+
+export interface EphemerisInterpolation {
+  start: string;
+  stop: string;
+  method: 'chebyshev';
+  timeScale: 'UTC';
+  referenceFrame: string;
+  distanceUnit: 'AU';
+  velocityUnit: 'AU/day';
+  toleranceKm: number;
+  bodies: BodyInterpolation[];
+  metadata: {
+    responseTimeMs?: number;
+    requestId?: string;
+    cacheStatus?: 'HIT' | 'MISS';
+    partial?: boolean;
+    missingBodies?: string[];
+  };
+}
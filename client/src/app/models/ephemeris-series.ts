@@ -0,0 +1,45 @@
+export interface EphemerisSeriesSample {
+  timestamp: string;
+  julian_day_tdb?: number;
+  x_au: number;
+  y_au: number;
+  z_au: number;
+  vx?: number;
+  vy?: number;
+  vz?: number;
+}
+
+interface EphemerisSeriesHeader {
+  start: string;
+  stop: string;
+  step: string;
+  timeScale: 'TDB';
+  referenceFrame: string;
+  center: string;
+  distanceUnit: 'AU';
+  velocityUnit: string;
+  source: string;
+}
+
+export interface BodyEphemerisSeries extends EphemerisSeriesHeader {
+  id: string;
+  name: string;
+  samples: EphemerisSeriesSample[];
+  metadata?: {
+    cacheStatus?: 'HIT' | 'MISS';
+    cacheAgeMs?: number;
+    responseTimeMs?: number;
+    requestId?: string;
+  };
+}
+
+export interface PlanetEphemerisSeries extends EphemerisSeriesHeader {
+  bodies: Array<{ name: string; samples: EphemerisSeriesSample[] }>;
+  metadata: {
+    responseTimeMs?: number;
+    requestId?: string;
+    cacheStatusByBody?: Record<string, 'HIT' | 'MISS'>;
+    partial?: boolean;
+    missingBodies?: string[];
+  };
+}
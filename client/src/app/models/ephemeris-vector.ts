@@ -16,3 +16,12 @@ export interface EphemerisVector {
   apparent_magnitude?: number;
 }
 
+
+/**
+ * Repère demandé au backend (`?center=&frame=`) : origine `ssb` (défaut),
+ * `sun` ou une planète ; plan écliptique J2000 (défaut) ou équatorial ICRF.
+ */
+export interface VectorReferenceQuery {
+  center?: string;
+  frame?: 'ecliptic' | 'equatorial';
+}
@@ -0,0 +1,11 @@
+/**
+ * Lieu d'observation et position topocentrique : types du contrat partagé
+ * avec le backend.
+ */
+export type { ObserverLocation, TopocentricObservation } from '@solar-system/shared';
+
+/**
+ * Lieu demandé au backend : un site nommé, ou des coordonnées
+ * (altitude en mètres, comme le paramètre `alt`).
+ */
+export type ObserverQuery = { site: string } | { lat: number; lon: number; altM?: number };
@@ -0,0 +1,40 @@
+/**
+ * Éléments orbitaux osculateurs renvoyés par `/api/ephemeris/body/:id/elements`
+ * (écliptique J2000, distances en UA, angles en degrés).
+ */
+export interface OsculatingElements {
+  epoch: string;
+  julian_day_tdb: number;
+  eccentricity: number;
+  periapsis_au: number;
+  inclination_deg: number;
+  /** Ω : longitude du nœud ascendant. */
+  ascending_node_deg: number;
+  /** ω : argument du périapse. */
+  argument_of_periapsis_deg: number;
+  time_of_periapsis_jd?: number;
+  mean_motion_deg_per_day?: number;
+  mean_anomaly_deg: number;
+  true_anomaly_deg?: number;
+  /** Négatif pour une trajectoire hyperbolique (sondes). */
+  semi_major_axis_au: number;
+  apoapsis_au?: number;
+  period_days?: number;
+}
+
+export interface OrbitalElementsPayload {
+  id: string;
+  kind: 'planet' | 'moon' | 'spacecraft';
+  /** Corps central : le Soleil, ou la planète mère pour une lune. */
+  center: { id: string; horizonsId: string };
+  referenceFrame: string;
+  source: string;
+  elements: OsculatingElements;
+  metadata?: {
+    responseTimeMs?: number;
+    requestId?: string;
+    epoch?: string;
+    cacheStatus?: 'HIT' | 'MISS';
+    cacheAgeMs?: number;
+  };
+}
@@ -2,18 +2,10 @@
  * Identifiant interne des planètes principales + Pluton.
  * Utilisé pour lier les données physiques, les couleurs et les éphémérides.
  */
+import type { EphemerisBody, PlanetName } from '@solar-system/shared';
 import type { Moon } from './moon';
 
-export type PlanetName =
-  | 'mercury'
-  | 'venus'
-  | 'earth'
-  | 'mars'
-  | 'jupiter'
-  | 'saturn'
-  | 'uranus'
-  | 'neptune'
-  | 'pluto';
+export type { EphemerisSnapshot, PlanetName } from '@solar-system/shared';
 
 /**
  * Classe simple de planète (utile pour les filtres, légendes, styles).
@@ -151,142 +143,9 @@ export interface Planet {
 
 /**
  * Position héliocentrique instantanée d’une planète, telle que renvoyée
- * par le backend d’éphémérides (NASA JPL Horizons ou autre).
+ * par le backend d’éphémérides (contrat partagé `@solar-system/shared`).
  *
- * Les coordonnées sont exprimées en unités astronomiques (UA), dans un
- * repère 3D (généralement J2000, plan de l’écliptique).
+ * Les coordonnées sont exprimées en unités astronomiques (UA), dans le
+ * repère annoncé par `metadata.referenceFrame` du snapshot.
  */
-export interface PlanetPosition {
-  /**
-   * Nom de la planète, qui fait le lien avec le type PlanetName / Planet.
-   */
-  name: PlanetName;
-
-  /**
-   * Coordonnées héliocentriques en UA.
-   */
-  x_au: number;
-  y_au: number;
-  z_au: number;
-
-  // ---------------------------------------------------------------------------
-  // Champs optionnels – si ton backend expose aussi les vitesses / autres infos
-  // ---------------------------------------------------------------------------
-
-  /**
-   * Vitesse dans la direction X (exprimée en UA/jour ou km/s, selon backend).
-   * L’unité exacte dépend de ton implémentation d’API – à documenter côté serveur.
-   */
-  vx?: number;
-
-  /**
-   * Vitesse dans la direction Y.
-   */
-  vy?: number;
-
-  /**
-   * Vitesse dans la direction Z.
-   */
-  vz?: number;
-
-  /**
-   * Unité des vitesses (ex: "AU/d" ou "km/s"), si tu veux être explicite.
-   */
-  velocityUnit?: string;
-
-  /**
-   * Horodatage associé au vecteur d’état (si fourni par le backend).
-   */
-  timestamp?: string;
-
-  /**
-   * Distance géocentrique renvoyée par Horizons (si disponible) en UA.
-   */
-  range_au?: number;
-
-  /**
-   * Vitesse radiale géocentrique en km/s (si demandée).
-   */
-  range_rate_km_s?: number;
-
-  /**
-   * Temps de trajet lumière aller simple (minutes) vers l’observateur.
-   */
-  light_time_minutes?: number;
-
-  /**
-   * Élongation Soleil-Observateur-Objet (degrés).
-   */
-  solar_elongation_deg?: number;
-
-  /**
-   * Angle de phase (Soleil-Objet-Observateur), degrés.
-   */
-  phase_angle_deg?: number;
-
-  /**
-   * Fraction éclairée (0–1).
-   */
-  illumination_fraction?: number;
-
-  /**
-   * Magnitude apparente (si disponible).
-   */
-  apparent_magnitude?: number;
-}
-
-/**
- * Snapshot d’éphémérides : jeu cohérent de positions planétaires à un instant donné.
- */
-export interface EphemerisSnapshot {
-  /**
-   * Timestamp ISO de la date à laquelle les données sont valides.
-   * (ex: "2025-12-02T15:00:00Z")
-   */
-  timestamp: string;
-
-  /**
-   * Liste des vecteurs de position des planètes.
-   * Chaque entrée doit faire correspondre un PlanetName existant.
-   */
-  bodies: PlanetPosition[];
-
-  /**
-   * Métadonnées fournies par le backend (source, repère, unités, latence).
-   */
-  metadata?: {
-    source?: string;
-    referenceFrame?: string;
-    distanceUnit?: string;
-    velocityUnit?: string;
-    responseTimeMs?: number;
-    cacheStatus?: 'HIT' | 'MISS' | 'STALE' | 'FROZEN';
-    cacheBackend?: 'memory' | 'redis';
-    cacheAgeMs?: number;
-    cacheExpiresInMs?: number;
-    cacheStale?: boolean;
-    generatedAt?: string;
-    frozenSnapshot?: boolean;
-    freezeReason?: string;
-    requestId?: string;
-  };
-
-  // ---------------------------------------------------------------------------
-  // Champs optionnels – utiles si tu veux exposer plus de contexte côté backend
-  // ---------------------------------------------------------------------------
-
-  /**
-   * Indique éventuellement la source utilisée (ex: "NASA-JPL-Horizons").
-   */
-  source?: string;
-
-  /**
-   * Système de référence des coordonnées (ex: "J2000-ecliptic").
-   */
-  referenceFrame?: string;
-
-  /**
-   * Unités des distances (par défaut "AU" dans ce projet).
-   */
-  distanceUnit?: string;
-}
+export type PlanetPosition = EphemerisBody;
@@ -0,0 +1,89 @@
+export type SpacecraftStatus = 'active' | 'interstellar' | 'ended';
+
+/** Fiche du registre serveur (`/api/spacecraft`). */
+export interface SpacecraftMission {
+  id: string;
+  displayName: string;
+  shortName: string;
+  horizonsId: string;
+  program: string;
+  launchDate: string;
+  endDate?: string;
+  status: SpacecraftStatus;
+  companion?: string;
+  flybys: Array<{ body: string; date: string }>;
+  instruments: Array<{ code: string; name: string }>;
+  links: { nasa: string; mission?: string; instruments?: string };
+}
+
+export interface SpacecraftPositionVector {
+  x: number | null;
+  y: number | null;
+  z: number | null;
+}
+
+export interface SpacecraftVelocityVector {
+  vx: number | null;
+  vy: number | null;
+  vz: number | null;
+}
+
+export interface SpacecraftTelemetry {
+  id: string;
+  name: string;
+  horizonsId: string;
+  positionAu: SpacecraftPositionVector;
+  positionKm: SpacecraftPositionVector | null;
+  positionMiles: SpacecraftPositionVector | null;
+  velocityAuPerDay: SpacecraftVelocityVector;
+  velocityKmPerS: SpacecraftVelocityVector | null;
+  velocityMilesPerS: SpacecraftVelocityVector | null;
+  distanceFromSun: { au: number | null; km: number | null; miles: number | null };
+  distanceFromEarth?: { au: number | null; km: number | null; miles: number | null };
+  speed: { auPerDay: number | null; kmPerS: number | null; milesPerS: number | null };
+  lightTime?: {
+    oneWaySeconds: number | null;
+    oneWayMinutes: number | null;
+    twoWayMinutes: number | null;
+  };
+  trajectory?: {
+    eclipticLatDeg: number | null;
+    eclipticLonDeg: number | null;
+    velocityAzimuthDeg: number | null;
+    velocityLatDeg: number | null;
+  };
+  timestamp: string;
+  referenceFrame?: string;
+  source?: string;
+  velocityUnit?: string;
+}
+
+export interface SpacecraftPayload {
+  timestamp: string;
+  requestId?: string;
+  spacecraft: SpacecraftMission;
+  telemetry: SpacecraftTelemetry;
+  metadata?: {
+    source?: string;
+    cacheStatus?: 'HIT' | 'MISS';
+    cacheAgeMs?: number;
+  };
+}
+
+/** Trajectoire historique (`/api/spacecraft/:id/trajectory`), échantillonnage adaptatif. */
+export interface SpacecraftTrajectory {
+  id: string;
+  name: string;
+  start: string;
+  stop: string;
+  referenceFrame: string;
+  samples: Array<{ timestamp: string; x_au: number; y_au: number; z_au: number }>;
+  flybys: Array<{
+    body: string;
+    date: string;
+    timestamp: string;
+    positionAu: { x: number; y: number; z: number };
+    distanceFromSunAu: number;
+  }>;
+  metadata?: { generatedAt?: string; cacheStatus?: 'HIT' | 'MISS' };
+}
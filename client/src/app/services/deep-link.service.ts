@@ -0,0 +1,95 @@
+import { Injectable } from '@angular/core';
+import { NavigationEnd, NavigationStart, Params, Router } from '@angular/router';
+import { merge } from 'rxjs';
+import { I18nService } from './i18n.service';
+import { TimeScrubberService } from './time-scrubber.service';
+
+/** `2026-03-01T00:00Z` : à la minute, en UTC. */
+export function formatUrlTime(ms: number): string {
+  return `${new Date(ms).toISOString().slice(0, 16)}Z`;
+}
+
+/** Accepte tout ce que lit `Date.parse` (`2026-03-01` = minuit UTC) ; null si illisible. */
+export function parseUrlTime(raw: string | null): number | null {
+  if (!raw) return null;
+  const ms = Date.parse(raw);
+  return Number.isFinite(ms) ? ms : null;
+}
+
+/**
+ * État global de la vue dans l'URL, quelle que soit la route : date simulée
+ * (`?t=`, absente = live) et langue (`?lang=`). Au chargement et sur
+ * précédent / suivant, l'URL fait foi ; après un lien interne, ce sont
+ * l'horloge et la langue courantes qui sont réécrites dans la nouvelle URL.
+ * Les paramètres propres à une vue (corps sélectionné, zoom...) restent
+ * gérés par le composant concerné.
+ */
+@Injectable({ providedIn: 'root' })
+export class DeepLinkService {
+  private started = false;
+  /** Rien n'est écrit avant la fin de la navigation initiale. */
+  private ready = false;
+
+  constructor(
+    private router: Router,
+    private time: TimeScrubberService,
+    private i18n: I18nService
+  ) {}
+
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    let fromUrl = true;
+    this.router.events.subscribe((event) => {
+      if (event instanceof NavigationStart) {
+        fromUrl = fromUrl || event.navigationTrigger === 'popstate';
+      } else if (event instanceof NavigationEnd) {
+        if (fromUrl) this.restore();
+        fromUrl = false;
+        this.ready = true;
+        this.write();
+      }
+    });
+
+    merge(this.time.state$, this.i18n.lang$).subscribe(() => this.write());
+  }
+
+  private get queryParams() {
+    return this.router.routerState.snapshot.root.queryParamMap;
+  }
+
+  private restore(): void {
+    const params = this.queryParams;
+    const lang = params.get('lang');
+    if (lang === 'fr' || lang === 'en') this.i18n.setLanguage(lang);
+
+    const ms = parseUrlTime(params.get('t'));
+    if (ms === null) {
+      if (!this.time.live) this.time.goLive();
+      return;
+    }
+    const s = this.time.state;
+    if (s.live || s.direction !== 0 || formatUrlTime(s.anchorMs) !== formatUrlTime(ms)) {
+      // Un lien ouvre toujours la vue arrêtée à sa date.
+      this.time.pause();
+      this.time.setTime(ms);
+    }
+  }
+
+  /**
+   * En lecture, `t` garde la date de départ : l'URL ne change qu'aux
+   * actions sur l'horloge, pas à chaque image.
+   */
+  private write(): void {
+    if (!this.ready) return;
+    const current = this.queryParams;
+    const s = this.time.state;
+    const t = s.live ? null : formatUrlTime(s.anchorMs);
+    const patch: Params = {};
+    if (current.get('t') !== t) patch['t'] = t;
+    if (current.get('lang') !== this.i18n.language) patch['lang'] = this.i18n.language;
+    if (!Object.keys(patch).length) return;
+    void this.router.navigate([], { queryParams: patch, queryParamsHandling: 'merge', replaceUrl: true });
+  }
+}
@@ -0,0 +1,102 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, catchError, of, shareReplay, tap } from 'rxjs';
+import { evaluateChebyshevSegment, findChebyshevSegment } from '@solar-system/shared';
+
+import { BodyInterpolation, EphemerisInterpolation } from '../models/ephemeris-interpolation';
+import { environment } from '../../environments/environment';
+
+export interface InterpolatedState {
+  x: number;
+  y: number;
+  z: number;
+  vx: number;
+  vy: number;
+  vz: number;
+  /** Erreur annoncée par le serveur pour ce corps (km). */
+  maxErrorKm: number;
+}
+
+// Refetch un jour avant la fin de la fenêtre : la fenêtre serveur, alignée sur
+// les jours UTC, avance d'un jour chaque nuit.
+const REFRESH_MARGIN_MS = 86_400_000;
+
+interface InterpolationRequest {
+  request$: Observable<EphemerisInterpolation | null>;
+  /** Fin de couverture la plus proche parmi les corps reçus (ms), une fois chargé. */
+  coveredUntilMs?: number;
+}
+
+/**
+ * Charge les coefficients d'interpolation calculés par le serveur et évalue
+ * les positions à n'importe quel instant de la fenêtre couverte.
+ */
+@Injectable({ providedIn: 'root' })
+export class EphemerisInterpolationService {
+  private readonly baseUrl = environment.apiBaseUrl || 'http://localhost:3000/api/ephemeris';
+  private readonly bodies = new Map<string, BodyInterpolation>();
+  // Une requête par jeu d'ids (clé triée, "" pour la sélection par défaut du serveur).
+  private readonly requests = new Map<string, InterpolationRequest>();
+
+  constructor(private http: HttpClient) {}
+
+  /**
+   * Fenêtre par défaut côté serveur : [J-366, J+2], ramenée à [J-60, J+2] dès
+   * qu'une lune est demandée. Le flux est partagé et rejoué par jeu d'ids,
+   * puis refait à l'approche de la fin de la fenêtre (`isStale`) ; en cas
+   * d'erreur on émet `null` et un prochain appel réessaie.
+   */
+  load(ids?: string[]): Observable<EphemerisInterpolation | null> {
+    const key = this.keyFor(ids);
+    const existing = this.requests.get(key);
+    if (existing && !this.isStale(ids)) return existing.request$;
+
+    const params: Record<string, string> = {};
+    if (ids?.length) params['ids'] = ids.join(',');
+
+    const entry: InterpolationRequest = {
+      request$: this.http.get<EphemerisInterpolation>(`${this.baseUrl}/interpolation`, { params }).pipe(
+        tap((payload) => {
+          const ends: number[] = [];
+          for (const body of payload.bodies ?? []) {
+            this.bodies.set(body.id, body);
+            const last = body.segments[body.segments.length - 1];
+            if (last) ends.push(last.stopMs);
+          }
+          entry.coveredUntilMs = ends.length ? Math.min(...ends) : Date.parse(payload.stop);
+        }),
+        catchError(() => {
+          if (this.requests.get(key) === entry) this.requests.delete(key);
+          return of(null);
+        }),
+        shareReplay({ bufferSize: 1, refCount: false })
+      )
+    };
+    this.requests.set(key, entry);
+    return entry.request$;
+  }
+
+  /** Vrai si la fenêtre chargée pour ces ids se termine dans moins d'un jour. */
+  isStale(ids?: string[], nowMs = Date.now()): boolean {
+    const coveredUntilMs = this.requests.get(this.keyFor(ids))?.coveredUntilMs;
+    return coveredUntilMs !== undefined && nowMs >= coveredUntilMs - REFRESH_MARGIN_MS;
+  }
+
+  /**
+   * Position/vitesse barycentriques (UA, UA/j, écliptique J2000) à `timeMs`,
+   * ou `null` si le corps n'est pas chargé ou si l'instant sort de la fenêtre.
+   */
+  stateAt(id: string, timeMs: number): InterpolatedState | null {
+    const body = this.bodies.get(id);
+    if (!body || !Number.isFinite(timeMs)) return null;
+
+    const segment = findChebyshevSegment(body.segments, timeMs);
+    if (!segment) return null;
+
+    return { ...evaluateChebyshevSegment(segment, timeMs), maxErrorKm: body.maxErrorKm };
+  }
+
+  private keyFor(ids?: string[]): string {
+    return ids?.length ? Array.from(new Set(ids)).sort().join(',') : '';
+  }
+}
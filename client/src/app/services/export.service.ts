@@ -0,0 +1,67 @@
+import { Injectable } from '@angular/core';
+
+import { environment } from '../../environments/environment';
+import { formatUrlTime } from './deep-link.service';
+
+export type ExportFormat = 'csv' | 'jsonl' | 'oem';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'jsonl', 'oem'];
+
+export interface ExportWindow {
+  start: number;
+  stop: number;
+  /** Pas Horizons ("1h", "1d", "10d"). */
+  step: string;
+}
+
+const DAY_MS = 86_400_000;
+// Le serveur refuse plus de 2 000 lignes par corps : on reste en dessous.
+const MAX_ROWS = 1_500;
+
+/**
+ * Fenêtre proposée depuis le panneau d'infos, à partir de l'instant simulé :
+ * un an au pas journalier pour le Soleil et les planètes, 30 jours au pas
+ * horaire pour les lunes (une orbite de Lune, plusieurs pour les autres).
+ */
+export function bodyExportWindow(kind: 'planet' | 'moon' | 'star', atMs: number): ExportWindow {
+  return kind === 'moon'
+    ? { start: atMs, stop: atMs + 30 * DAY_MS, step: '1h' }
+    : { start: atMs, stop: atMs + 365 * DAY_MS, step: '1d' };
+}
+
+/**
+ * Trajectoire d'une sonde depuis le lendemain du lancement jusqu'à l'instant
+ * simulé (ou la fin de mission), pas élargi pour rester sous MAX_ROWS.
+ * `null` si l'instant précède le lancement.
+ */
+export function spacecraftExportWindow(
+  mission: { launchDate: string; endDate?: string },
+  atMs: number
+): ExportWindow | null {
+  const start = Date.parse(mission.launchDate) + DAY_MS;
+  const end = mission.endDate ? Date.parse(mission.endDate) : NaN;
+  const stop = Number.isFinite(end) ? Math.min(atMs, end) : atMs;
+  if (!Number.isFinite(start) || stop - start < DAY_MS) return null;
+  const stepDays = Math.max(1, Math.ceil((stop - start) / DAY_MS / MAX_ROWS));
+  return { start, stop, step: `${stepDays}d` };
+}
+
+/** Liens de téléchargement de `/api/export/ephemeris` (CSV, JSON Lines, OEM CCSDS). */
+@Injectable({ providedIn: 'root' })
+export class ExportService {
+  private readonly baseUrl = (() => {
+    const base = environment.apiBaseUrl || 'http://localhost:3000/api/ephemeris';
+    return `${base.replace(/\/ephemeris\/?$/, '')}/export`;
+  })();
+
+  ephemerisUrl(bodies: string[], window: ExportWindow, format: ExportFormat): string {
+    const params = new URLSearchParams({
+      bodies: bodies.join(','),
+      start: formatUrlTime(window.start),
+      stop: formatUrlTime(window.stop),
+      step: window.step,
+      format
+    });
+    return `${this.baseUrl}/ephemeris?${params}`;
+  }
+}
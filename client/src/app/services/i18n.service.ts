@@ -9,25 +9,90 @@ const TRANSLATIONS: Record<Language, Record<string, string>> = {
   fr: {
     'nav.label': 'Navigation',
     'nav.solar': 'Systeme solaire',
-    'nav.voyager1': 'Voyager 1',
-    'nav.voyager2': 'Voyager 2',
+    'nav.spacecraft': 'Sondes spatiales',
+    'nav.spacecraftShort': 'SONDES',
     'nav.toggleLanguage': 'Basculer la langue',
+    'nav.sky': 'Ciel local',
+    'nav.skyShort': 'CIEL',
+    'nav.dsn': 'Deep Space Network',
+    'dsn.updated': 'Mis a jour',
+    'dsn.stale': 'Donnees en cache (NASA injoignable)',
+    'dsn.unavailable': 'DSN Now indisponible',
+    'dsn.noDish': 'Aucune antenne publiee',
+    'dsn.idle': 'Au repos',
+    'dsn.array': 'Reseau',
+    'dsn.downlink': 'Descendant',
+    'dsn.uplink': 'Montant',
+    'dsn.range': 'Distance',
+    'aria.skyMap': 'Carte du ciel (horizon local)',
+    'aria.planetSystem': "Planete et ses lunes, a l'echelle",
+    'name.moon': 'Lune',
+    'compass.n': 'N',
+    'compass.ne': 'NE',
+    'compass.e': 'E',
+    'compass.se': 'SE',
+    'compass.s': 'S',
+    'compass.sw': 'SO',
+    'compass.w': 'O',
+    'compass.nw': 'NO',
+    'sky.site': 'Lieu',
+    'sky.geolocation': 'Ma position',
+    'sky.geolocationFailed': 'Position indisponible',
+    'sky.unavailable': 'Ephemerides indisponibles',
+    'sky.belowHorizon': "Sous l'horizon",
+    'sky.ecliptic': 'Ecliptique',
+    'sky.azimuth': 'Azimut',
+    'sky.elevation': 'Hauteur',
+    'sky.raDec': 'AD / Dec',
+    'sky.airmass': "Masse d'air",
+    'sky.rise': 'Lever',
+    'sky.transit': 'Passage au meridien',
+    'sky.set': 'Coucher',
+    'map.zoomIn': 'Zoom avant',
+    'map.zoomOut': 'Zoom arriere',
+    'map.fitInner': 'Planetes internes',
+    'map.reset': 'Tout voir',
+    'map.distanceScale': 'Echelle des distances',
+    'map.scale.log': 'Log',
+    'map.scale.sqrt': 'Racine',
+    'map.scale.linear': 'Lineaire',
+    'map.au': 'UA',
+    'map.fromSun': 'depuis le Soleil',
+    'system.open': 'Vue du systeme',
+    'system.back': 'Systeme solaire',
+    'system.moons': 'Lunes',
+    'system.noMoons': 'Aucune lune suivie',
+    'system.unknown': 'Planete inconnue',
+    'system.unavailable': 'Ephemerides indisponibles',
+    'system.shadow': 'Ombre de la planete',
+    'system.event.transit': 'Transit',
+    'system.event.occultation': 'Occultation',
+    'system.event.shadow': 'Ombre sur la planete',
+    'system.event.eclipse': 'Eclipsee',
     'nav.language': 'FR',
     'aria.solarMap': 'Carte du systeme solaire (live)',
     'aria.orbits': 'Orbites',
     'aria.planets': 'Planetes',
     'aria.satellites': 'Satellites',
-    'aria.voyagerMap': 'Carte Voyager',
+    'aria.spacecraftMap': 'Carte de la sonde',
     'aria.scale': 'Echelle',
-    'aria.timeScrubber': 'Curseur temps (1 an)',
-    'aria.timeOffset': 'Decalage temporel (annees)',
+    'aria.timeScrubber': 'Machine a temps (1900-2100)',
+    'aria.timeOffset': 'Date simulee',
+    'aria.timePicker': 'Date et heure simulees',
+    'time.play': 'Lecture / pause',
+    'time.reverse': 'Lecture arriere / pause',
+    'time.rate': 'Vitesse de lecture',
+    'time.rate.hour': '1 h/s',
+    'time.rate.day': '1 j/s',
+    'time.rate.month': '1 mois/s',
     'label.now': 'MAINT',
     'label.nowShort': 'NOW',
-    'label.timeRange': '1 AN',
+    'label.timeRange': 'TEMPS',
     'label.syntheticPosition': 'Position synthetique',
     'label.timeScaleYears': 'Echelle (annees)',
     'label.timeScale30Years': 'Echelle (x30 ans)',
     'label.live': 'LIVE',
+    'label.simulated': 'SIMULATION',
     'label.syncShort': 'sync...',
     'label.syncLong': 'Synchronisation des ephemerides...',
     'label.kind.planet': 'Planete',
@@ -55,6 +120,10 @@ const TRANSLATIONS: Record<Language, Record<string, string>> = {
     'label.horizonsId': 'ID Horizons',
     'label.reference': 'Reference',
     'label.source': 'Source',
+    'label.export': 'Exporter',
+    'export.hintBody': "Vecteurs d'etat sur un an (pas journalier) depuis la date affichee",
+    'export.hintMoon': "Vecteurs d'etat sur 30 jours (pas horaire) depuis la date affichee",
+    'export.hintSpacecraft': "Trajectoire depuis le lancement jusqu'a la date affichee",
     'label.referenceFrame': 'Reference',
     'label.distanceHelio': 'Distance heliocentrique',
     'label.distanceEarth': 'Distance a la Terre',
@@ -123,13 +192,15 @@ const TRANSLATIONS: Record<Language, Record<string, string>> = {
     'label.graphLegendOther': 'Pointillee = autre',
     'label.links': 'Liens',
     'label.nasa': 'NASA',
-    'label.jpl': 'JPL',
+    'label.missionSite': 'Site mission',
+    'label.endDate': 'Fin de mission',
     'value.lit': 'eclaire',
     'value.dark': 'nuit',
     'value.yes': 'Oui',
     'value.no': 'Non',
-    'months.short': 'Ja,Fe,Ma,Av,Ma,Jn,Jl,Ao,Se,Oc,No,De',
     'unit.yearShort': 'an',
+    'unit.dayShort': 'j',
+    'unit.hourShort': 'h',
     'unit.thirtyYearsShort': 'x30 ans',
     'name.sun': 'Soleil',
     'name.mercury': 'Mercure',
@@ -141,6 +212,10 @@ const TRANSLATIONS: Record<Language, Record<string, string>> = {
     'name.uranus': 'Uranus',
     'name.neptune': 'Neptune',
     'name.pluto': 'Pluton',
+    'name.io': 'Io',
+    'name.europa': 'Europe',
+    'name.ganymede': 'Ganymede',
+    'name.arrokoth': 'Arrokoth',
     'instrument.magnetometer': 'Magnetometre (MAG)',
     'instrument.plasma': 'Plasma (PLS)',
     'instrument.cosmicRays': 'Rayons cosmiques (CRS)',
@@ -149,7 +224,6 @@ const TRANSLATIONS: Record<Language, Record<string, string>> = {
     'instrument.plasma.short': 'Plasma solaire',
     'instrument.cosmicRays.short': 'Particules energiques',
     'instrument.plasmaWaves.short': 'Ondes radio-plasma',
-    'tick.start': 'T-1an',
     'tick.now': 'Maintenant',
     'context.kuiper.title': 'Ceinture de Kuiper',
     'context.kuiper.short': "Zone d'objets transneptuniens (~30-50 UA).",
@@ -172,31 +246,98 @@ const TRANSLATIONS: Record<Language, Record<string, string>> = {
     'context.andromeda.title': 'Andromede',
     'context.andromeda.short': 'Galaxie voisine (~2.5 M a.l., hors echelle).',
     'context.andromeda.long': "Destination symbolique uniquement : a ces vitesses, une traversee vers une autre galaxie depasserait de tres loin l'echelle humaine.",
-    'voyager.details': 'Voyager reste dans la Voie lactee : la "destination galaxie" est un repere symbolique. Les valeurs proviennent de NASA JPL Horizons.',
-    'status.voyager.interstellar': 'Interstellaire'
+    'spacecraft.details': 'Toutes ces sondes restent dans la Voie lactee : la "destination galaxie" est un repere symbolique. Les valeurs proviennent de NASA JPL Horizons.',
+    'status.spacecraft.interstellar': 'Interstellaire',
+    'status.spacecraft.active': 'En service',
+    'status.spacecraft.ended': 'Mission terminee'
   },
   en: {
     'nav.label': 'Navigation',
     'nav.solar': 'Solar system',
-    'nav.voyager1': 'Voyager 1',
-    'nav.voyager2': 'Voyager 2',
+    'nav.spacecraft': 'Spacecraft',
+    'nav.spacecraftShort': 'PROBES',
     'nav.toggleLanguage': 'Toggle language',
+    'nav.sky': 'Local sky',
+    'nav.skyShort': 'SKY',
+    'nav.dsn': 'Deep Space Network',
+    'dsn.updated': 'Updated',
+    'dsn.stale': 'Cached data (NASA unreachable)',
+    'dsn.unavailable': 'DSN Now unavailable',
+    'dsn.noDish': 'No dish reported',
+    'dsn.idle': 'Idle',
+    'dsn.array': 'Array',
+    'dsn.downlink': 'Downlink',
+    'dsn.uplink': 'Uplink',
+    'dsn.range': 'Range',
+    'aria.skyMap': 'Sky chart (local horizon)',
+    'aria.planetSystem': 'Planet and its moons, to scale',
+    'name.moon': 'Moon',
+    'compass.n': 'N',
+    'compass.ne': 'NE',
+    'compass.e': 'E',
+    'compass.se': 'SE',
+    'compass.s': 'S',
+    'compass.sw': 'SW',
+    'compass.w': 'W',
+    'compass.nw': 'NW',
+    'sky.site': 'Site',
+    'sky.geolocation': 'My location',
+    'sky.geolocationFailed': 'Location unavailable',
+    'sky.unavailable': 'Ephemerides unavailable',
+    'sky.belowHorizon': 'Below horizon',
+    'sky.ecliptic': 'Ecliptic',
+    'sky.azimuth': 'Azimuth',
+    'sky.elevation': 'Altitude',
+    'sky.raDec': 'RA / Dec',
+    'sky.airmass': 'Airmass',
+    'sky.rise': 'Rise',
+    'sky.transit': 'Transit',
+    'sky.set': 'Set',
+    'map.zoomIn': 'Zoom in',
+    'map.zoomOut': 'Zoom out',
+    'map.fitInner': 'Inner planets',
+    'map.reset': 'Show all',
+    'map.distanceScale': 'Distance scale',
+    'map.scale.log': 'Log',
+    'map.scale.sqrt': 'Sqrt',
+    'map.scale.linear': 'Linear',
+    'map.au': 'AU',
+    'map.fromSun': 'from the Sun',
+    'system.open': 'System view',
+    'system.back': 'Solar system',
+    'system.moons': 'Moons',
+    'system.noMoons': 'No tracked moons',
+    'system.unknown': 'Unknown planet',
+    'system.unavailable': 'Ephemerides unavailable',
+    'system.shadow': 'Planet shadow',
+    'system.event.transit': 'Transit',
+    'system.event.occultation': 'Occultation',
+    'system.event.shadow': 'Shadow transit',
+    'system.event.eclipse': 'Eclipsed',
     'nav.language': 'EN',
     'aria.solarMap': 'Solar system map (live)',
     'aria.orbits': 'Orbits',
     'aria.planets': 'Planets',
     'aria.satellites': 'Satellites',
-    'aria.voyagerMap': 'Voyager map',
+    'aria.spacecraftMap': 'Spacecraft map',
     'aria.scale': 'Scale',
-    'aria.timeScrubber': 'Time scrubber (1 year)',
-    'aria.timeOffset': 'Time offset (years)',
+    'aria.timeScrubber': 'Time machine (1900-2100)',
+    'aria.timeOffset': 'Simulated date',
+    'aria.timePicker': 'Simulated date and time',
+    'time.play': 'Play / pause',
+    'time.reverse': 'Reverse / pause',
+    'time.rate': 'Playback rate',
+    'time.rate.hour': '1 h/s',
+    'time.rate.day': '1 d/s',
+    'time.rate.month': '1 month/s',
     'label.now': 'NOW',
     'label.nowShort': 'NOW',
-    'label.timeRange': '1 YR',
+    'label.timeRange': 'TIME',
     'label.syntheticPosition': 'Synthetic position',
     'label.timeScaleYears': 'Time scale (years)',
     'label.timeScale30Years': 'Time scale (x30 yr)',
     'label.live': 'LIVE',
+    'label.simulated': 'SIMULATION',
     'label.syncShort': 'sync...',
     'label.syncLong': 'Synchronizing ephemeris...',
     'label.kind.planet': 'Planet',
@@ -224,6 +365,10 @@ const TRANSLATIONS: Record<Language, Record<string, string>> = {
     'label.horizonsId': 'Horizons ID',
     'label.reference': 'Reference',
     'label.source': 'Source',
+    'label.export': 'Export',
+    'export.hintBody': 'State vectors over one year (daily step) from the displayed date',
+    'export.hintMoon': 'State vectors over 30 days (hourly step) from the displayed date',
+    'export.hintSpacecraft': 'Trajectory from launch to the displayed date',
     'label.referenceFrame': 'Reference',
     'label.distanceHelio': 'Heliocentric distance',
     'label.distanceEarth': 'Distance to Earth',
@@ -292,13 +437,15 @@ const TRANSLATIONS: Record<Language, Record<string, string>> = {
     'label.graphLegendOther': 'Dashed = other',
     'label.links': 'Links',
     'label.nasa': 'NASA',
-    'label.jpl': 'JPL',
+    'label.missionSite': 'Mission site',
+    'label.endDate': 'End of mission',
     'value.lit': 'lit',
     'value.dark': 'dark',
     'value.yes': 'Yes',
     'value.no': 'No',
-    'months.short': 'Ja,Fe,Ma,Ap,My,Jn,Jl,Au,Se,Oc,No,De',
     'unit.yearShort': 'yr',
+    'unit.dayShort': 'd',
+    'unit.hourShort': 'h',
     'unit.thirtyYearsShort': 'x30 yr',
     'name.sun': 'Sun',
     'name.mercury': 'Mercury',
@@ -310,6 +457,10 @@ const TRANSLATIONS: Record<Language, Record<string, string>> = {
     'name.uranus': 'Uranus',
     'name.neptune': 'Neptune',
     'name.pluto': 'Pluto',
+    'name.io': 'Io',
+    'name.europa': 'Europa',
+    'name.ganymede': 'Ganymede',
+    'name.arrokoth': 'Arrokoth',
     'instrument.magnetometer': 'Magnetometer (MAG)',
     'instrument.plasma': 'Plasma (PLS)',
     'instrument.cosmicRays': 'Cosmic rays (CRS)',
@@ -318,7 +469,6 @@ const TRANSLATIONS: Record<Language, Record<string, string>> = {
     'instrument.plasma.short': 'Solar plasma',
     'instrument.cosmicRays.short': 'Energetic particles',
     'instrument.plasmaWaves.short': 'Radio plasma waves',
-    'tick.start': 'T-1yr',
     'tick.now': 'Now',
     'context.kuiper.title': 'Kuiper Belt',
     'context.kuiper.short': 'Trans-Neptunian objects region (~30-50 AU).',
@@ -341,8 +491,10 @@ const TRANSLATIONS: Record<Language, Record<string, string>> = {
     'context.andromeda.title': 'Andromeda',
     'context.andromeda.short': 'Neighbor galaxy (~2.5 M ly, not to scale).',
     'context.andromeda.long': 'Symbolic destination only: at these speeds, a trip to another galaxy is far beyond human timescales.',
-    'voyager.details': 'Voyager remains in the Milky Way: the "galaxy destination" is only symbolic. Values come from NASA JPL Horizons.',
-    'status.voyager.interstellar': 'Interstellar mission'
+    'spacecraft.details': 'All of these probes remain in the Milky Way: the "galaxy destination" is only symbolic. Values come from NASA JPL Horizons.',
+    'status.spacecraft.interstellar': 'Interstellar mission',
+    'status.spacecraft.active': 'Operational',
+    'status.spacecraft.ended': 'Mission ended'
   }
 };
 
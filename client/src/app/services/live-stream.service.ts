@@ -0,0 +1,156 @@
+import { Injectable, OnDestroy } from '@angular/core';
+import {
+  BehaviorSubject,
+  EMPTY,
+  Observable,
+  Subject,
+  catchError,
+  distinctUntilChanged,
+  from,
+  interval,
+  merge,
+  mergeMap,
+  startWith,
+  switchMap
+} from 'rxjs';
+import { environment } from '../../environments/environment';
+
+interface TopicChannel {
+  subject: Subject<unknown>;
+  refs: number;
+}
+
+/**
+ * Flux live `/api/stream` (Server-Sent Events) partagé par toute l'application :
+ * une seule connexion, rouverte quand l'ensemble des sujets suivis change.
+ * Tant que la connexion n'est pas ouverte (navigateur sans EventSource, proxy
+ * qui coupe le flux, serveur redémarré...), chaque sujet retombe sur du polling.
+ */
+@Injectable({ providedIn: 'root' })
+export class LiveStreamService implements OnDestroy {
+  private readonly streamUrl = (() => {
+    const base = environment.apiBaseUrl || 'http://localhost:3000/api/ephemeris';
+    return `${base.replace(/\/ephemeris\/?$/, '')}/stream`;
+  })();
+
+  private readonly channels = new Map<string, TopicChannel>();
+  private readonly connected$ = new BehaviorSubject<boolean>(false);
+  private source?: EventSource;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+
+  /**
+   * Valeurs live du sujet (`planets:full`, `body:sun`, `voyagers`...).
+   * `fallback` est interrogé toutes les `intervalMs` tant que le flux est indisponible.
+   */
+  watch<T>(topic: string, fallback: () => Observable<T>, intervalMs: number): Observable<T> {
+    return new Observable<T>((subscriber) => {
+      const channel = this.retain(topic);
+      const inner = this.connected$
+        .pipe(
+          distinctUntilChanged(),
+          switchMap((live) =>
+            live
+              ? (channel.subject as Observable<T>)
+              : interval(intervalMs).pipe(
+                  startWith(0),
+                  switchMap(() => fallback().pipe(catchError(() => EMPTY)))
+                )
+          )
+        )
+        .subscribe(subscriber);
+
+      return () => {
+        inner.unsubscribe();
+        this.release(topic);
+      };
+    });
+  }
+
+  /**
+   * Plusieurs sujets à la fois : en live, chaque sujet émet séparément ; sans
+   * flux, un seul `fallback` groupé (ex. `/bodies?ids=`) remplace un polling
+   * par sujet et chacune de ses valeurs est réémise.
+   */
+  watchMany<T>(topics: string[], fallback: () => Observable<T[]>, intervalMs: number): Observable<T> {
+    return new Observable<T>((subscriber) => {
+      const channels = topics.map((topic) => this.retain(topic));
+      const inner = this.connected$
+        .pipe(
+          distinctUntilChanged(),
+          switchMap((live) =>
+            live
+              ? merge(...channels.map((channel) => channel.subject as Observable<T>))
+              : interval(intervalMs).pipe(
+                  startWith(0),
+                  switchMap(() => fallback().pipe(catchError(() => EMPTY))),
+                  mergeMap((values) => from(values))
+                )
+          )
+        )
+        .subscribe(subscriber);
+
+      return () => {
+        inner.unsubscribe();
+        topics.forEach((topic) => this.release(topic));
+      };
+    });
+  }
+
+  ngOnDestroy(): void {
+    clearTimeout(this.reconnectTimer);
+    this.source?.close();
+  }
+
+  private retain(topic: string): TopicChannel {
+    let channel = this.channels.get(topic);
+    if (!channel) {
+      channel = { subject: new Subject<unknown>(), refs: 0 };
+      this.channels.set(topic, channel);
+      this.scheduleReconnect();
+    }
+    channel.refs += 1;
+    return channel;
+  }
+
+  private release(topic: string): void {
+    const channel = this.channels.get(topic);
+    if (!channel) return;
+    channel.refs -= 1;
+    if (channel.refs <= 0) {
+      this.channels.delete(topic);
+      this.scheduleReconnect();
+    }
+  }
+
+  // Regroupe les (dés)abonnements d'un même cycle en une seule reconnexion.
+  private scheduleReconnect(): void {
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = setTimeout(() => this.reconnect(), 0);
+  }
+
+  private reconnect(): void {
+    this.source?.close();
+    this.source = undefined;
+
+    const topics = Array.from(this.channels.keys());
+    if (topics.length === 0 || typeof EventSource === 'undefined') {
+      this.connected$.next(false);
+      return;
+    }
+
+    const source = new EventSource(`${this.streamUrl}?topics=${encodeURIComponent(topics.join(','))}`);
+    for (const topic of topics) {
+      source.addEventListener(topic, (event) => {
+        try {
+          this.channels.get(topic)?.subject.next(JSON.parse((event as MessageEvent).data));
+        } catch {
+          // Message tronqué : on attend le suivant.
+        }
+      });
+    }
+    // EventSource se reconnecte seul ; le polling prend le relais entre-temps.
+    source.onopen = () => this.connected$.next(true);
+    source.onerror = () => this.connected$.next(false);
+    this.source = source;
+  }
+}
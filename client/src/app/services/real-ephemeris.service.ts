@@ -3,7 +3,11 @@ import { HttpClient } from '@angular/common/http';
 import { Observable } from 'rxjs';
 
 import { EphemerisSnapshot } from '../models/planet';
-import { BodyEphemerisPayload } from '../models/body-ephemeris';
+import { BodyEphemerisBatch, BodyEphemerisPayload } from '../models/body-ephemeris';
+import { ObserverQuery } from '../models/observer';
+import { VectorReferenceQuery } from '../models/ephemeris-vector';
+import { OrbitalElementsPayload } from '../models/orbital-elements';
+import { BodyEphemerisSeries, PlanetEphemerisSeries } from '../models/ephemeris-series';
 import { environment } from '../../environments/environment';
 
 @Injectable({ providedIn: 'root' })
@@ -12,19 +16,112 @@ export class RealEphemerisService {
 
   constructor(private http: HttpClient) {}
 
+  /**
+   * `at` (ISO-8601) demande les vecteurs Horizons réels à cet instant
+   * au lieu de "maintenant". `observer` ajoute les données topocentriques
+   * (az/el, lever/coucher) ; uniquement avec `fullSnapshot`. `reference`
+   * change l'origine ou le plan des vecteurs (barycentre / écliptique par défaut).
+   */
   getCurrentPlanetPositions(options?: {
     forceRefresh?: boolean;
     fullSnapshot?: boolean;
+    at?: string;
+    observer?: ObserverQuery;
+    reference?: VectorReferenceQuery;
   }): Observable<EphemerisSnapshot> {
     const path = options?.fullSnapshot ? 'planets/full' : 'planets';
     return this.http.get<EphemerisSnapshot>(`${this.baseUrl}/${path}`, {
-      params: options?.forceRefresh ? { refresh: '1' } : undefined
+      params: this.buildParams(options)
     });
   }
 
-  getBodyEphemeris(id: string, options?: { forceRefresh?: boolean }): Observable<BodyEphemerisPayload> {
+  getBodyEphemeris(
+    id: string,
+    options?: { forceRefresh?: boolean; at?: string; observer?: ObserverQuery; reference?: VectorReferenceQuery }
+  ): Observable<BodyEphemerisPayload> {
     return this.http.get<BodyEphemerisPayload>(`${this.baseUrl}/body/${encodeURIComponent(id)}`, {
-      params: options?.forceRefresh ? { refresh: '1' } : undefined
+      params: this.buildParams(options)
     });
   }
+
+  /** Plusieurs corps (ex. les lunes d'une planète) en une seule requête. */
+  getBodiesEphemeris(
+    ids: string[],
+    options?: { forceRefresh?: boolean; at?: string; observer?: ObserverQuery; reference?: VectorReferenceQuery }
+  ): Observable<BodyEphemerisBatch> {
+    return this.http.get<BodyEphemerisBatch>(`${this.baseUrl}/bodies`, {
+      params: { ...this.buildParams(options), ids: ids.join(',') }
+    });
+  }
+
+  /** Éléments orbitaux osculateurs (planète, lune ou sonde) à `at` ou maintenant. */
+  getOrbitalElements(id: string, options?: { at?: string }): Observable<OrbitalElementsPayload> {
+    return this.http.get<OrbitalElementsPayload>(
+      `${this.baseUrl}/body/${encodeURIComponent(id)}/elements`,
+      { params: this.buildParams(options) }
+    );
+  }
+
+  /**
+   * Série de vecteurs d'état entre `start` et `stop` (ISO-8601) au pas `step`
+   * ("6h", "1d"...). Le serveur borne le nombre de lignes renvoyées.
+   */
+  getBodySeries(
+    id: string,
+    window: { start: string; stop: string; step?: string },
+    reference?: VectorReferenceQuery
+  ): Observable<BodyEphemerisSeries> {
+    return this.http.get<BodyEphemerisSeries>(
+      `${this.baseUrl}/body/${encodeURIComponent(id)}/series`,
+      { params: this.buildSeriesParams(window, reference) }
+    );
+  }
+
+  getPlanetSeries(
+    window: { start: string; stop: string; step?: string },
+    names?: string[],
+    reference?: VectorReferenceQuery
+  ): Observable<PlanetEphemerisSeries> {
+    const params = this.buildSeriesParams(window, reference);
+    if (names?.length) params['names'] = names.join(',');
+    return this.http.get<PlanetEphemerisSeries>(`${this.baseUrl}/planets/series`, { params });
+  }
+
+  private buildSeriesParams(
+    window: { start: string; stop: string; step?: string },
+    reference?: VectorReferenceQuery
+  ): Record<string, string> {
+    const params: Record<string, string> = { start: window.start, stop: window.stop };
+    if (window.step) params['step'] = window.step;
+    this.applyReference(params, reference);
+    return params;
+  }
+
+  private applyReference(params: Record<string, string>, reference?: VectorReferenceQuery): void {
+    if (reference?.center) params['center'] = reference.center;
+    if (reference?.frame) params['frame'] = reference.frame;
+  }
+
+  private buildParams(options?: {
+    forceRefresh?: boolean;
+    at?: string;
+    observer?: ObserverQuery;
+    reference?: VectorReferenceQuery;
+  }): Record<string, string> | undefined {
+    const params: Record<string, string> = {};
+    if (options?.forceRefresh) params['refresh'] = '1';
+    if (options?.at) params['at'] = options.at;
+    this.applyReference(params, options?.reference);
+    const observer = options?.observer;
+    if (observer) {
+      if ('site' in observer) {
+        params['site'] = observer.site;
+      } else {
+        params['lat'] = String(observer.lat);
+        params['lon'] = String(observer.lon);
+        if (observer.altM !== undefined) params['alt'] = String(observer.altM);
+      }
+    }
+    return Object.keys(params).length ? params : undefined;
+  }
 }
@@ -0,0 +1,49 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, catchError, map, of, shareReplay } from 'rxjs';
+
+import { SpacecraftMission, SpacecraftPayload, SpacecraftTrajectory } from '../models/spacecraft';
+import { environment } from '../../environments/environment';
+
+/**
+ * Registre des sondes (`/api/spacecraft`), télémétrie par sonde
+ * (`/api/spacecraft/:id`) et trajectoire historique.
+ */
+@Injectable({ providedIn: 'root' })
+export class SpacecraftService {
+  private readonly baseUrl = (() => {
+    const base = environment.apiBaseUrl || 'http://localhost:3000/api/ephemeris';
+    return `${base.replace(/\/ephemeris\/?$/, '')}/spacecraft`;
+  })();
+  private registry$: Observable<SpacecraftMission[]> | null = null;
+
+  constructor(private http: HttpClient) {}
+
+  /**
+   * Registre partagé et rejoué ; en cas d'erreur on émet une liste vide et un
+   * prochain appel réessaie.
+   */
+  getRegistry(): Observable<SpacecraftMission[]> {
+    if (this.registry$) return this.registry$;
+
+    this.registry$ = this.http.get<{ spacecraft: SpacecraftMission[] }>(this.baseUrl).pipe(
+      map((payload) => payload.spacecraft ?? []),
+      catchError(() => {
+        this.registry$ = null;
+        return of([]);
+      }),
+      shareReplay({ bufferSize: 1, refCount: false })
+    );
+    return this.registry$;
+  }
+
+  getSpacecraft(id: string, options?: { forceRefresh?: boolean }): Observable<SpacecraftPayload> {
+    return this.http.get<SpacecraftPayload>(`${this.baseUrl}/${encodeURIComponent(id)}`, {
+      params: options?.forceRefresh ? { refresh: '1' } : undefined
+    });
+  }
+
+  getTrajectory(id: string): Observable<SpacecraftTrajectory> {
+    return this.http.get<SpacecraftTrajectory>(`${this.baseUrl}/${encodeURIComponent(id)}/trajectory`);
+  }
+}
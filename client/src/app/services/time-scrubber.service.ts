@@ -1,19 +1,116 @@
 import { Injectable } from '@angular/core';
 import { BehaviorSubject } from 'rxjs';
+import { SECONDS_PER_DAY } from '@solar-system/shared';
 
+export type PlaybackRate = 'hour' | 'day' | 'month';
+
+/** Secondes simulées par seconde réelle (1 h/s, 1 j/s, 1 mois/s). */
+export const PLAYBACK_RATES: Record<PlaybackRate, number> = {
+  hour: 3_600,
+  day: SECONDS_PER_DAY,
+  month: 30.436875 * SECONDS_PER_DAY
+};
+
+// Bornes de la machine à temps (UTC).
+export const SIMULATION_MIN_MS = Date.UTC(1900, 0, 1);
+export const SIMULATION_MAX_MS = Date.UTC(2100, 11, 31, 23, 59);
+
+export interface SimulationClockState {
+  /** Horloge calée sur le temps réel. */
+  live: boolean;
+  /** Instant simulé (ms epoch) au moment réel `anchorRealMs`. */
+  anchorMs: number;
+  anchorRealMs: number;
+  /** 1 : lecture, -1 : lecture arrière, 0 : pause. */
+  direction: -1 | 0 | 1;
+  rate: PlaybackRate;
+}
+
+function clampToRange(ms: number): number {
+  return Math.max(SIMULATION_MIN_MS, Math.min(SIMULATION_MAX_MS, ms));
+}
+
+/**
+ * Horloge de simulation partagée par toutes les vues : temps réel ("live"),
+ * date figée entre 1900 et 2100, ou lecture avant / arrière à vitesse choisie.
+ * `state$` n'émet qu'aux changements (date choisie, lecture, pause...) ; la
+ * date courante se lit à chaque image avec `now()`.
+ */
 @Injectable({ providedIn: 'root' })
 export class TimeScrubberService {
-  // Range: last 365 days -> now
-  private readonly offsetDaysSubject = new BehaviorSubject<number>(0);
-  readonly offsetDays$ = this.offsetDaysSubject.asObservable();
+  private readonly stateSubject = new BehaviorSubject<SimulationClockState>({
+    live: true,
+    anchorMs: Date.now(),
+    anchorRealMs: Date.now(),
+    direction: 0,
+    rate: 'day'
+  });
+  readonly state$ = this.stateSubject.asObservable();
+
+  private boundTimer?: ReturnType<typeof setTimeout>;
+
+  get state(): SimulationClockState {
+    return this.stateSubject.value;
+  }
+
+  get live(): boolean {
+    return this.state.live;
+  }
+
+  /** Instant simulé (ms epoch). */
+  now(realMs = Date.now()): number {
+    const s = this.state;
+    if (s.live) return realMs;
+    return clampToRange(s.anchorMs + s.direction * PLAYBACK_RATES[s.rate] * (realMs - s.anchorRealMs));
+  }
 
+  /** Écart (jours, fractionnaire) entre l'instant simulé et maintenant ; 0 en live. */
   get offsetDays(): number {
-    return this.offsetDaysSubject.value;
+    if (this.live) return 0;
+    const realMs = Date.now();
+    return (this.now(realMs) - realMs) / 86_400_000;
   }
 
-  setOffsetDays(days: number): void {
-    const clamped = Math.max(-365, Math.min(0, days));
-    const snapped = Math.round(clamped); // 1 day steps
-    this.offsetDaysSubject.next(snapped);
+  /** Fige (ou repositionne, en cours de lecture) l'horloge à `ms`. */
+  setTime(ms: number): void {
+    if (!Number.isFinite(ms)) return;
+    this.update({ live: false, anchorMs: clampToRange(ms) });
+  }
+
+  goLive(): void {
+    this.update({ live: true, direction: 0 });
+  }
+
+  play(direction: 1 | -1 = 1): void {
+    this.update({ live: false, anchorMs: this.now(), direction });
+  }
+
+  pause(): void {
+    if (this.live) return;
+    this.update({ anchorMs: this.now(), direction: 0 });
+  }
+
+  setRate(rate: PlaybackRate): void {
+    this.update({ anchorMs: this.now(), rate });
+  }
+
+  private update(patch: Partial<SimulationClockState>): void {
+    const next: SimulationClockState = { ...this.state, ...patch, anchorRealMs: Date.now() };
+    this.stateSubject.next(next);
+    this.scheduleBoundStop(next);
+  }
+
+  /** En lecture, la pause tombe d'elle-même en atteignant 1900 ou 2100. */
+  private scheduleBoundStop(state: SimulationClockState): void {
+    if (this.boundTimer !== undefined) clearTimeout(this.boundTimer);
+    this.boundTimer = undefined;
+    if (state.live || state.direction === 0) return;
+
+    const bound = state.direction > 0 ? SIMULATION_MAX_MS : SIMULATION_MIN_MS;
+    const remainingRealMs = Math.abs(bound - state.anchorMs) / PLAYBACK_RATES[state.rate];
+    this.boundTimer = setTimeout(() => {
+      this.boundTimer = undefined;
+      this.update({ anchorMs: bound, direction: 0 });
+    }, remainingRealMs);
   }
 }
@@ -1,36 +1,13 @@
+import { BodyEphemerisBatch, BodyEphemerisPayload } from '@solar-system/shared';
 import { BODY_BY_ID, BodyId } from '../config/bodies';
-import { fetchPlanetStateVector } from '../nasa/horizonsClient';
+import { DEFAULT_REFERENCE, referenceFrameLabel, referenceKey, VectorReference } from '../config/frames';
+import { ObserverLocation, observerKey } from '../config/sites';
+import { fetchPlanetStateVector, TopocentricObservation } from '../nasa/horizonsClient';
+import { EPOCH_CACHE_TTL_MS, toEpochKey } from './ephemerisCache';
 import { logError, logInfo, logWarn } from '../observability/logger';
+import { publish } from '../stream/streamEvents';
 
-export interface BodyEphemerisPayload {
-  id: BodyId;
-  timestamp: string;
-  x_au: number;
-  y_au: number;
-  z_au: number;
-  vx?: number;
-  vy?: number;
-  vz?: number;
-  velocityUnit?: string;
-  referenceFrame?: string;
-  source?: string;
-  range_au?: number;
-  range_rate_km_s?: number;
-  light_time_minutes?: number;
-  solar_elongation_deg?: number;
-  phase_angle_deg?: number;
-  illumination_fraction?: number;
-  apparent_magnitude?: number;
-  metadata?: {
-    cacheStatus?: 'HIT' | 'MISS' | 'FROZEN';
-    cacheAgeMs?: number;
-    cacheExpiresInMs?: number;
-    responseTimeMs?: number;
-    requestId?: string;
-    frozenSnapshot?: boolean;
-    freezeReason?: string;
-  };
-}
+export type { BodyEphemerisPayload };
 
 interface CacheEntry {
   payload: BodyEphemerisPayload;
@@ -39,23 +16,38 @@ interface CacheEntry {
 }
 
 export const BODY_CACHE_TTL_MS = Number(process.env.BODY_CACHE_TTL_MS ?? process.env.CACHE_TTL_MS ?? 60_000);
+const BODY_CACHE_MAX_ENTRIES = Number(process.env.BODY_CACHE_MAX_ENTRIES ?? 512);
 
-const cache = new Map<BodyId, CacheEntry>();
-const inflight = new Map<BodyId, Promise<BodyEphemerisPayload>>();
+// Clé = id du corps, suffixée par l'époque (?at=), le lieu d'observation et le
+// repère éventuels.
+const cache = new Map<string, CacheEntry>();
+const inflight = new Map<string, Promise<BodyEphemerisPayload>>();
 
-function getFromCache(id: BodyId): CacheEntry | null {
-  const entry = cache.get(id);
+function cacheKeyFor(id: BodyId, epoch?: string, site?: string, ref?: string): string {
+  const withEpoch = epoch ? `${id}@${epoch}` : id;
+  const withSite = site ? `${withEpoch}#${site}` : withEpoch;
+  return ref ? `${withSite}~${ref}` : withSite;
+}
+
+function getFromCache(key: string): CacheEntry | null {
+  const entry = cache.get(key);
   if (!entry) {
     return null;
   }
   if (Date.now() >= entry.expiresAt) {
-    cache.delete(id);
+    cache.delete(key);
     return null;
   }
   return entry;
 }
 
-async function fetchFresh(id: BodyId, correlationId?: string): Promise<BodyEphemerisPayload> {
+async function fetchFresh(
+  id: BodyId,
+  correlationId?: string,
+  at?: Date,
+  observer?: ObserverLocation,
+  reference: VectorReference = DEFAULT_REFERENCE
+): Promise<BodyEphemerisPayload> {
   const cfg = BODY_BY_ID.get(id);
   if (!cfg) {
     throw new Error(`Corps inconnu: ${id}`);
@@ -64,13 +56,16 @@ async function fetchFresh(id: BodyId, correlationId?: string): Promise<BodyEphem
   const started = Date.now();
   const vec = await fetchPlanetStateVector(cfg.horizonsId, cfg.displayName, {
     correlationId,
-    includeObserver: true
+    includeObserver: true,
+    at,
+    observer,
+    reference
   });
   const responseTimeMs = Date.now() - started;
 
   return {
     id,
-    timestamp: vec.timestamp ?? new Date().toISOString(),
+    timestamp: vec.timestamp ?? (at ?? new Date()).toISOString(),
     x_au: vec.x_au,
     y_au: vec.y_au,
     z_au: vec.z_au,
@@ -78,7 +73,8 @@ async function fetchFresh(id: BodyId, correlationId?: string): Promise<BodyEphem
     vy: vec.vy_au_per_day,
     vz: vec.vz_au_per_day,
     velocityUnit: vec.velocityUnit,
-    referenceFrame: vec.referenceFrame,
+    referenceFrame: vec.referenceFrame ?? referenceFrameLabel(reference),
+    center: reference.center,
     source: vec.source,
     range_au: vec.range_au,
     range_rate_km_s: vec.range_rate_km_s,
@@ -87,9 +83,12 @@ async function fetchFresh(id: BodyId, correlationId?: string): Promise<BodyEphem
     phase_angle_deg: vec.phase_angle_deg,
     illumination_fraction: vec.illumination_fraction,
     apparent_magnitude: vec.apparent_magnitude,
+    topocentric: vec.topocentric,
     metadata: {
       responseTimeMs,
-      requestId: correlationId
+      requestId: correlationId,
+      epoch: at ? toEpochKey(at) : undefined,
+      observer
     }
   };
 }
@@ -98,12 +97,23 @@ export async function getBodyEphemeris(options: {
   id: BodyId;
   forceRefresh?: boolean;
   correlationId?: string;
+  /** Instant demandé ; absent = "maintenant". */
+  at?: Date;
+  /** Lieu d'observation : ajoute les données topocentriques. */
+  observer?: ObserverLocation;
+  /** Origine et plan des vecteurs (défaut : barycentre, écliptique J2000). */
+  reference?: VectorReference;
 }): Promise<BodyEphemerisPayload> {
   const id = options.id;
+  const epoch = options.at ? toEpochKey(options.at) : undefined;
+  const site = options.observer ? observerKey(options.observer) : undefined;
+  const ref = referenceKey(options.reference);
+  const key = cacheKeyFor(id, epoch, site, ref);
+  const ttlMs = epoch ? EPOCH_CACHE_TTL_MS : BODY_CACHE_TTL_MS;
   const now = Date.now();
 
   if (!options.forceRefresh) {
-    const cached = getFromCache(id);
+    const cached = getFromCache(key);
     if (cached) {
       const ageMs = now - cached.cachedAt;
       return {
@@ -119,7 +129,7 @@ export async function getBodyEphemeris(options: {
     }
   }
 
-  const existing = inflight.get(id);
+  const existing = inflight.get(key);
   if (existing) {
     const payload = await existing;
     return {
@@ -128,34 +138,51 @@ export async function getBodyEphemeris(options: {
         ...payload.metadata,
         cacheStatus: 'MISS',
         cacheAgeMs: 0,
-        cacheExpiresInMs: BODY_CACHE_TTL_MS
+        cacheExpiresInMs: ttlMs
       }
     };
   }
 
-  const p = fetchFresh(id, options.correlationId)
+  const p = fetchFresh(id, options.correlationId, options.at, options.observer, options.reference)
     .then((payload) => {
-      cache.set(id, {
+      cache.delete(key);
+      cache.set(key, {
         payload,
         cachedAt: Date.now(),
-        expiresAt: Date.now() + BODY_CACHE_TTL_MS
+        expiresAt: Date.now() + ttlMs
       });
-      logInfo('body_ephemeris_refresh', { id, requestId: options.correlationId });
+      // Les requêtes datées multiplient les clés : on évince les plus anciennes.
+      while (cache.size > BODY_CACHE_MAX_ENTRIES) {
+        const oldest = cache.keys().next().value;
+        if (oldest === undefined) break;
+        cache.delete(oldest);
+      }
+      logInfo('body_ephemeris_refresh', { id, epoch, site, ref, requestId: options.correlationId });
+      // Diffusé en live : `body:<id>`, ou `body:<id>@<centre>` pour un autre centre en écliptique.
+      const center = options.reference?.center ?? DEFAULT_REFERENCE.center;
+      const liveFrame = (options.reference?.frame ?? DEFAULT_REFERENCE.frame) === DEFAULT_REFERENCE.frame;
+      if (!epoch && !site && liveFrame) {
+        publish(ref ? `body:${id}@${center}` : `body:${id}`, {
+          ...payload,
+          metadata: { ...payload.metadata, cacheStatus: 'MISS', cacheAgeMs: 0, cacheExpiresInMs: ttlMs }
+        });
+      }
       return payload;
     })
     .catch((err: any) => {
       logError('body_ephemeris_refresh_failed', {
         id,
+        epoch,
         requestId: options.correlationId,
         error: err?.message ?? String(err)
       });
       throw err;
     })
     .finally(() => {
-      inflight.delete(id);
+      inflight.delete(key);
     });
 
-  inflight.set(id, p);
+  inflight.set(key, p);
 
   try {
     const payload = await p;
@@ -165,11 +192,11 @@ export async function getBodyEphemeris(options: {
         ...payload.metadata,
         cacheStatus: 'MISS',
         cacheAgeMs: 0,
-        cacheExpiresInMs: BODY_CACHE_TTL_MS
+        cacheExpiresInMs: ttlMs
       }
     };
   } catch (err: any) {
-    const cached = cache.get(id);
+    const cached = cache.get(key);
     if (cached) {
       const ageMs = now - cached.cachedAt;
       logWarn('body_ephemeris_frozen', {
@@ -194,3 +221,71 @@ export async function getBodyEphemeris(options: {
     throw err;
   }
 }
+
+// Appels Horizons simultanés au plus par requête groupée.
+const BODY_BATCH_CONCURRENCY = Math.max(1, Number(process.env.BODY_BATCH_CONCURRENCY ?? 3));
+export const BODY_BATCH_MAX_IDS = Number(process.env.BODY_BATCH_MAX_IDS ?? 32);
+
+/** Réponse de `/api/ephemeris/bodies?ids=` (contrat partagé avec le client). */
+export type BodyBatchPayload = BodyEphemerisBatch;
+
+/**
+ * Plusieurs corps en une réponse (les lunes d'une planète, le Soleil...).
+ * Chaque corps passe par `getBodyEphemeris` (cache et coalescence partagés) ;
+ * au plus BODY_BATCH_CONCURRENCY appels Horizons partent en même temps. Un
+ * corps en échec est listé dans `errors` sans faire échouer les autres.
+ */
+export async function getBodiesEphemeris(options: {
+  ids: BodyId[];
+  forceRefresh?: boolean;
+  correlationId?: string;
+  at?: Date;
+  observer?: ObserverLocation;
+  reference?: VectorReference;
+}): Promise<BodyBatchPayload> {
+  const started = Date.now();
+  const ids = Array.from(new Set(options.ids));
+  const results: (BodyEphemerisPayload | { error: string })[] = new Array(ids.length);
+
+  let next = 0;
+  const worker = async () => {
+    while (next < ids.length) {
+      const index = next;
+      next += 1;
+      try {
+        results[index] = await getBodyEphemeris({ ...options, id: ids[index] });
+      } catch (err: any) {
+        results[index] = { error: err?.message ?? String(err) };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(BODY_BATCH_CONCURRENCY, ids.length) }, worker));
+
+  const bodies: BodyEphemerisPayload[] = [];
+  const errors: BodyBatchPayload['errors'] = [];
+  const cacheStatus: BodyBatchPayload['metadata']['cacheStatus'] = {};
+  results.forEach((result, index) => {
+    if ('error' in result) {
+      errors.push({ id: ids[index], error: result.error });
+      return;
+    }
+    bodies.push(result);
+    const status = result.metadata?.cacheStatus ?? 'MISS';
+    cacheStatus[status] = (cacheStatus[status] ?? 0) + 1;
+  });
+
+  return {
+    timestamp: new Date().toISOString(),
+    requestId: options.correlationId,
+    bodies,
+    errors,
+    metadata: {
+      responseTimeMs: Date.now() - started,
+      cacheStatus,
+      epoch: options.at ? toEpochKey(options.at) : undefined,
+      observer: options.observer,
+      referenceFrame: referenceFrameLabel(options.reference),
+      center: (options.reference ?? DEFAULT_REFERENCE).center
+    }
+  };
+}
@@ -1,7 +1,11 @@
+import { EphemerisBody, EphemerisSnapshot } from '@solar-system/shared';
 import { createClient, RedisClientType } from 'redis';
 
+import { DEFAULT_REFERENCE, referenceFrameLabel, referenceKey, VectorReference } from '../config/frames';
 import { PLANETS } from '../config/planets';
-import { fetchPlanetStateVector } from '../nasa/horizonsClient';
+import { ObserverLocation, observerKey } from '../config/sites';
+import { fetchPlanetStateVector, TopocentricObservation } from '../nasa/horizonsClient';
+import { HorizonsLane } from '../nasa/horizonsScheduler';
 import {
   CacheBackend,
   CacheState,
@@ -10,49 +14,10 @@ import {
   recordHorizonsLatency
 } from '../observability/metrics';
 import { logError, logInfo, logWarn } from '../observability/logger';
+import { publish } from '../stream/streamEvents';
+import { archiveSnapshot } from './snapshotArchive';
 
-export interface EphemerisBody {
-  name: string;
-  x_au: number;
-  y_au: number;
-  z_au: number;
-  vx?: number;
-  vy?: number;
-  vz?: number;
-  velocityUnit?: string;
-  timestamp?: string;
-  range_au?: number;
-  range_rate_km_s?: number;
-  light_time_minutes?: number;
-  solar_elongation_deg?: number;
-  phase_angle_deg?: number;
-  illumination_fraction?: number;
-  apparent_magnitude?: number;
-}
-
-export interface EphemerisSnapshot {
-  timestamp: string;
-  metadata: {
-    source?: string;
-    referenceFrame?: string;
-    distanceUnit?: string;
-    velocityUnit?: string;
-    responseTimeMs?: number;
-    cacheStatus?: string;
-    cacheBackend?: CacheBackend;
-    cacheAgeMs?: number;
-    cacheExpiresInMs?: number;
-    cacheStale?: boolean;
-    generatedAt?: string;
-    frozenSnapshot?: boolean;
-    freezeReason?: string;
-    requestId?: string;
-    partial?: boolean;
-    fallbackBodies?: string[];
-    missingBodies?: string[];
-  };
-  bodies: EphemerisBody[];
-}
+export type { EphemerisBody, EphemerisSnapshot };
 
 interface CacheRecord {
   payload: EphemerisSnapshot;
@@ -75,6 +40,9 @@ const CACHE_KEY_BY_MODE: Record<SnapshotMode, string> = {
   full: 'ephemeris:planets:full:v1'
 };
 export const CACHE_TTL_MS = Number(process.env.CACHE_TTL_MS ?? 120_000);
+// Les éphémérides d'une date passée ou future ne bougent pas : TTL long dédié.
+export const EPOCH_CACHE_TTL_MS = Number(process.env.EPOCH_CACHE_TTL_MS ?? 24 * 60 * 60 * 1000);
+const EPOCH_CACHE_MAX_ENTRIES = Number(process.env.EPOCH_CACHE_MAX_ENTRIES ?? 256);
 const STALE_WHILE_REVALIDATE_MS = Number(
   process.env.CACHE_STALE_MS ?? Math.floor(CACHE_TTL_MS * 0.5)
 );
@@ -86,9 +54,29 @@ const PREWARM_INTERVAL_MS = Number(
 let redisClient: RedisClientType | null = null;
 let redisReady: Promise<RedisClientType | null> | null = null;
 
-// Cache mémoire local (fallback ou si Redis désactivé)
-const memoryCache = new Map<SnapshotMode, CacheRecord>();
-const inflightByMode = new Map<SnapshotMode, Promise<SnapshotResult>>();
+// Cache mémoire local (fallback ou si Redis désactivé), indexé par clé de cache
+// (mode + époque, lieu et repère éventuels).
+const memoryCache = new Map<string, CacheRecord>();
+const inflightByKey = new Map<string, Promise<SnapshotResult>>();
+
+/**
+ * Normalise une date demandée à la minute (résolution de START_TIME Horizons),
+ * ex: "2024-03-01T12:30Z". Sert de composante "époque" des clés de cache.
+ */
+export function toEpochKey(at: Date): string {
+  return `${at.toISOString().slice(0, 16)}Z`;
+}
+
+function cacheKeyFor(mode: SnapshotMode, epoch?: string, site?: string, ref?: string): string {
+  const base = CACHE_KEY_BY_MODE[mode];
+  const withEpoch = epoch ? `${base}:at:${epoch}` : base;
+  const withSite = site ? `${withEpoch}:site:${site}` : withEpoch;
+  return ref ? `${withSite}:ref:${ref}` : withSite;
+}
+
+function ttlFor(epoch?: string): number {
+  return epoch ? EPOCH_CACHE_TTL_MS : CACHE_TTL_MS;
+}
 
 function initRedisClient(): void {
   if (!process.env.REDIS_URL) {
@@ -125,28 +113,58 @@ async function getRedisClient(): Promise<RedisClientType | null> {
 }
 
 function setInflight(
-  mode: SnapshotMode,
+  cacheKey: string,
   promise: Promise<SnapshotResult>
 ): Promise<SnapshotResult> {
-  inflightByMode.set(mode, promise);
-  promise.finally(() => {
-    const current = inflightByMode.get(mode);
+  inflightByKey.set(cacheKey, promise);
+  const clear = () => {
+    const current = inflightByKey.get(cacheKey);
     if (current === promise) {
-      inflightByMode.delete(mode);
+      inflightByKey.delete(cacheKey);
     }
+  };
+  // Les rafraîchissements de fond (stale-revalidate, prewarm) n'ont pas d'autre
+  // consommateur : on gère le rejet ici pour ne pas faire tomber le process.
+  promise.then(clear, (err: any) => {
+    clear();
+    logWarn('ephemeris_background_refresh_failed', {
+      cacheKey,
+      error: err?.message ?? String(err)
+    });
   });
   return promise;
 }
 
-async function readCache(mode: SnapshotMode): Promise<CacheRecord | null> {
+function setMemoryRecord(cacheKey: string, record: CacheRecord, scoped: boolean): void {
+  memoryCache.delete(cacheKey);
+  memoryCache.set(cacheKey, record);
+  if (!scoped) {
+    return;
+  }
+
+  // Borne le nombre d'époques / de lieux / de repères gardés en mémoire (les plus anciens sortent).
+  const epochKeys = Array.from(memoryCache.keys()).filter(
+    (key) => key.includes(':at:') || key.includes(':site:') || key.includes(':ref:')
+  );
+  for (const key of epochKeys.slice(0, Math.max(0, epochKeys.length - EPOCH_CACHE_MAX_ENTRIES))) {
+    memoryCache.delete(key);
+  }
+}
+
+async function readCache(
+  mode: SnapshotMode,
+  epoch?: string,
+  site?: string,
+  ref?: string
+): Promise<CacheRecord | null> {
   const client = await getRedisClient();
-  const cacheKey = CACHE_KEY_BY_MODE[mode];
+  const cacheKey = cacheKeyFor(mode, epoch, site, ref);
   if (client) {
     try {
       const raw = await client.get(cacheKey);
       if (raw) {
         const parsed = JSON.parse(raw) as CacheRecord;
-        memoryCache.set(mode, parsed);
+        setMemoryRecord(cacheKey, parsed, Boolean(epoch || site || ref));
         return parsed;
       }
     } catch (err: any) {
@@ -154,20 +172,23 @@ async function readCache(mode: SnapshotMode): Promise<CacheRecord | null> {
     }
   }
 
-  return memoryCache.get(mode) ?? null;
+  return memoryCache.get(cacheKey) ?? null;
 }
 
 async function writeCache(
   record: CacheRecord,
   backend: CacheBackend,
-  mode: SnapshotMode
+  mode: SnapshotMode,
+  epoch?: string,
+  site?: string,
+  ref?: string
 ): Promise<void> {
-  memoryCache.set(mode, record);
+  const cacheKey = cacheKeyFor(mode, epoch, site, ref);
+  setMemoryRecord(cacheKey, record, Boolean(epoch || site || ref));
 
   const client = await getRedisClient();
   if (client && backend === 'redis') {
     try {
-      const cacheKey = CACHE_KEY_BY_MODE[mode];
       await client.set(cacheKey, JSON.stringify(record), {
         PX: record.staleUntil - record.cachedAt
       });
@@ -179,27 +200,37 @@ async function writeCache(
 
 async function buildPlanetSnapshot(
   correlationId?: string,
-  includeObserver = false
+  includeObserver = false,
+  at?: Date,
+  observer?: ObserverLocation,
+  lane: HorizonsLane = 'interactive',
+  reference: VectorReference = DEFAULT_REFERENCE
 ): Promise<EphemerisSnapshot> {
   const started = Date.now();
-  const cached = await readCache(includeObserver ? 'full' : 'state-vectors');
+  const cached = await readCache(
+    includeObserver ? 'full' : 'state-vectors',
+    at ? toEpochKey(at) : undefined,
+    observer ? observerKey(observer) : undefined,
+    referenceKey(reference)
+  );
   const fallbackBodies = new Map<string, EphemerisBody>();
   for (const body of cached?.payload?.bodies ?? []) {
     fallbackBodies.set(body.name, body);
   }
 
-  const results: PromiseSettledResult<Awaited<ReturnType<typeof fetchPlanetStateVector>>>[] = [];
-  for (const cfg of PLANETS) {
-    try {
-      const value = await fetchPlanetStateVector(cfg.horizonsId, cfg.name, {
+  // En parallèle : l'ordonnanceur Horizons borne la concurrence et le débit.
+  const results = await Promise.allSettled(
+    PLANETS.map((cfg) =>
+      fetchPlanetStateVector(cfg.horizonsId, cfg.name, {
         correlationId,
-        includeObserver
-      });
-      results.push({ status: 'fulfilled', value });
-    } catch (err: any) {
-      results.push({ status: 'rejected', reason: err });
-    }
-  }
+        includeObserver,
+        at,
+        observer,
+        lane,
+        reference
+      })
+    )
+  );
   const latencyMs = Date.now() - started;
 
   recordHorizonsLatency(latencyMs);
@@ -209,7 +240,7 @@ async function buildPlanetSnapshot(
   const usedFallback: string[] = [];
   const missing: string[] = [];
   const timestamps: string[] = [];
-  let referenceFrame = cachedMeta?.referenceFrame ?? 'J2000-ECLIPTIC';
+  let referenceFrame = cachedMeta?.referenceFrame ?? referenceFrameLabel(reference);
   let velocityUnit = cachedMeta?.velocityUnit ?? 'AU/day';
 
   results.forEach((result, index) => {
@@ -222,7 +253,7 @@ async function buildPlanetSnapshot(
         timestamps.push(r.timestamp);
       }
       bodies.push({
-        name: r.name,
+        name: cfg.name,
         x_au: r.x_au,
         y_au: r.y_au,
         z_au: r.z_au,
@@ -237,7 +268,8 @@ async function buildPlanetSnapshot(
         solar_elongation_deg: r.solar_elongation_deg,
         phase_angle_deg: r.phase_angle_deg,
         illumination_fraction: r.illumination_fraction,
-        apparent_magnitude: r.apparent_magnitude
+        apparent_magnitude: r.apparent_magnitude,
+        topocentric: r.topocentric
       });
       return;
     }
@@ -265,18 +297,24 @@ async function buildPlanetSnapshot(
     }
   });
 
-  if (bodies.length === 0) {
+  // Aucun corps rafraîchi : ce n'est pas un nouveau snapshot. Sans cet échec, une
+  // panne totale (ou le disjoncteur ouvert) réécrirait l'ancien snapshot en MISS
+  // d'âge nul, et FROZEN ne serait jamais servi tant qu'un snapshot est en cache.
+  if (bodies.length === 0 || usedFallback.length === bodies.length) {
     throw new Error('No Horizons data available');
   }
 
   const timestamp =
-    timestamps[0] ?? cached?.payload?.timestamp ?? new Date().toISOString();
+    timestamps[0] ?? cached?.payload?.timestamp ?? (at ?? new Date()).toISOString();
 
   return {
     timestamp,
     metadata: {
       source: 'NASA-JPL-Horizons',
+      epoch: at ? toEpochKey(at) : undefined,
+      observer,
       referenceFrame,
+      center: reference.center,
       distanceUnit: 'AU',
       velocityUnit,
       responseTimeMs: latencyMs,
@@ -291,20 +329,29 @@ async function buildPlanetSnapshot(
 async function refreshSnapshot(
   reason: string,
   correlationId: string | undefined,
-  mode: SnapshotMode
+  mode: SnapshotMode,
+  at?: Date,
+  observer?: ObserverLocation,
+  reference?: VectorReference
 ): Promise<SnapshotResult> {
   const backend: CacheBackend = (await getRedisClient()) ? 'redis' : 'memory';
-  const payload = await buildPlanetSnapshot(correlationId, mode === 'full');
+  const epoch = at ? toEpochKey(at) : undefined;
+  const site = observer ? observerKey(observer) : undefined;
+  const ref = referenceKey(reference);
+  const ttlMs = ttlFor(epoch);
+  // Les rafraîchissements sans demandeur passent après les requêtes utilisateurs.
+  const lane: HorizonsLane = reason === 'background-prewarm' || reason === 'stale-revalidate' ? 'prewarm' : 'interactive';
+  const payload = await buildPlanetSnapshot(correlationId, mode === 'full', at, observer, lane, reference);
   const now = Date.now();
 
   const record: CacheRecord = {
     payload,
     cachedAt: now,
-    expiresAt: now + CACHE_TTL_MS,
-    staleUntil: now + CACHE_TTL_MS + STALE_WHILE_REVALIDATE_MS
+    expiresAt: now + ttlMs,
+    staleUntil: now + ttlMs + STALE_WHILE_REVALIDATE_MS
   };
 
-  await writeCache(record, backend, mode);
+  await writeCache(record, backend, mode, epoch, site, ref);
   recordCacheMiss(backend, `${reason}:${mode}`, payload.metadata.responseTimeMs);
 
   const cacheAgeMs = 0;
@@ -314,7 +361,7 @@ async function refreshSnapshot(
     cacheStatus: 'MISS',
     cacheBackend: backend,
     cacheAgeMs,
-    cacheExpiresInMs: CACHE_TTL_MS,
+    cacheExpiresInMs: ttlMs,
     cacheStale: false,
     generatedAt: new Date(now).toISOString(),
     requestId: correlationId
@@ -325,9 +372,30 @@ async function refreshSnapshot(
     reason,
     responseTimeMs: payload.metadata.responseTimeMs,
     requestId: correlationId,
-    mode
+    mode,
+    epoch,
+    site,
+    ref
   });
 
+  // Sans attendre : l'archive absorbe ses propres erreurs disque.
+  void archiveSnapshot({
+    archivedAt: new Date(now).toISOString(),
+    reason,
+    mode,
+    epoch,
+    site,
+    reference: ref,
+    snapshot: payload
+  });
+
+  // Seuls les snapshots live géocentriques, dans le repère par défaut, sont
+  // diffusés ; une époque, un lieu ou un repère particuliers n'intéressent que
+  // leur demandeur.
+  if (!epoch && !site && !ref) {
+    publish(mode === 'full' ? 'planets:full' : 'planets', payload);
+  }
+
   return {
     payload,
     cacheState: 'MISS',
@@ -341,7 +409,8 @@ function decoratePayloadMetadata(
   cacheState: SnapshotResult['cacheState'],
   backend: CacheBackend,
   cacheAgeMs: number,
-  correlationId?: string
+  correlationId?: string,
+  ttlMs: number = CACHE_TTL_MS
 ): EphemerisSnapshot {
   const baseMetadata = payload.metadata ?? {};
 
@@ -352,7 +421,7 @@ function decoratePayloadMetadata(
       cacheStatus: cacheState,
       cacheBackend: backend,
       cacheAgeMs,
-      cacheExpiresInMs: Math.max(0, CACHE_TTL_MS - cacheAgeMs),
+      cacheExpiresInMs: Math.max(0, ttlMs - cacheAgeMs),
       cacheStale: cacheState === 'STALE',
       requestId: correlationId ?? baseMetadata.requestId,
       generatedAt:
@@ -365,25 +434,39 @@ export async function getSnapshot(options?: {
   forceRefresh?: boolean;
   correlationId?: string;
   includeObserver?: boolean;
+  /** Instant demandé ; absent = "maintenant" (snapshot live). */
+  at?: Date;
+  /** Lieu d'observation (données topocentriques, implique includeObserver). */
+  observer?: ObserverLocation;
+  /** Origine et plan des vecteurs (défaut : barycentre, écliptique J2000). */
+  reference?: VectorReference;
 }): Promise<SnapshotResult> {
-  const mode: SnapshotMode = options?.includeObserver ? 'full' : 'state-vectors';
+  const observer = options?.observer;
+  const reference = options?.reference;
+  const mode: SnapshotMode = options?.includeObserver || observer ? 'full' : 'state-vectors';
+  const at = options?.at;
+  const epoch = at ? toEpochKey(at) : undefined;
+  const site = observer ? observerKey(observer) : undefined;
+  const ref = referenceKey(reference);
+  const cacheKey = cacheKeyFor(mode, epoch, site, ref);
+  const ttlMs = ttlFor(epoch);
   const backend: CacheBackend = (await getRedisClient()) ? 'redis' : 'memory';
   const now = Date.now();
 
   if (!options?.forceRefresh) {
-    const cached = await readCache(mode);
+    const cached = await readCache(mode, epoch, site, ref);
     if (cached) {
       const cacheAgeMs = now - cached.cachedAt;
-      const isFresh = cacheAgeMs < CACHE_TTL_MS;
+      const isFresh = cacheAgeMs < ttlMs;
       const isStaleButAllowed =
-        !isFresh && cacheAgeMs < CACHE_TTL_MS + STALE_WHILE_REVALIDATE_MS;
+        !isFresh && cacheAgeMs < ttlMs + STALE_WHILE_REVALIDATE_MS;
 
       if (isFresh || isStaleButAllowed) {
         const cacheState: SnapshotResult['cacheState'] = isFresh ? 'HIT' : 'STALE';
         recordCacheHit(backend, isFresh ? 'fresh' : 'stale', cacheAgeMs);
 
-        if (isStaleButAllowed && !inflightByMode.get(mode)) {
-          setInflight(mode, refreshSnapshot('stale-revalidate', undefined, mode));
+        if (isStaleButAllowed && !inflightByKey.get(cacheKey)) {
+          setInflight(cacheKey, refreshSnapshot('stale-revalidate', undefined, mode, at, observer, reference));
         }
 
         return {
@@ -392,7 +475,8 @@ export async function getSnapshot(options?: {
             cacheState,
             backend,
             cacheAgeMs,
-            options?.correlationId
+            options?.correlationId,
+            ttlMs
           ),
           cacheState,
           cacheBackend: backend,
@@ -402,14 +486,17 @@ export async function getSnapshot(options?: {
     }
   }
 
-  let inflight = inflightByMode.get(mode);
+  let inflight = inflightByKey.get(cacheKey);
   if (!inflight) {
     inflight = setInflight(
-      mode,
+      cacheKey,
       refreshSnapshot(
         options?.forceRefresh ? 'manual-refresh' : 'miss',
         options?.correlationId,
-        mode
+        mode,
+        at,
+        observer,
+        reference
       )
     );
   }
@@ -421,7 +508,8 @@ export async function getSnapshot(options?: {
       result.cacheState,
       result.cacheBackend,
       result.cacheAgeMs,
-      options?.correlationId ?? result.payload?.metadata?.requestId
+      options?.correlationId ?? result.payload?.metadata?.requestId,
+      ttlMs
     );
 
     return {
@@ -429,7 +517,7 @@ export async function getSnapshot(options?: {
       payload
     };
   } catch (err: any) {
-    const cached = memoryCache.get(mode) ?? (await readCache(mode));
+    const cached = memoryCache.get(cacheKey) ?? (await readCache(mode, epoch, site, ref));
     if (cached) {
       const cacheAgeMs = now - cached.cachedAt;
       const payload = decoratePayloadMetadata(
@@ -437,7 +525,8 @@ export async function getSnapshot(options?: {
         'FROZEN',
         backend,
         cacheAgeMs,
-        options?.correlationId
+        options?.correlationId,
+        ttlMs
       );
 
       payload.metadata = {
@@ -468,7 +557,10 @@ export async function getSnapshot(options?: {
       backend,
       requestId: options?.correlationId,
       error: err?.message ?? String(err),
-      mode
+      mode,
+      epoch,
+      site,
+      ref
     });
 
     throw err;
@@ -483,8 +575,9 @@ if (
 ) {
   setInterval(() => {
     const mode: SnapshotMode = 'state-vectors';
-    if (!inflightByMode.get(mode)) {
-      setInflight(mode, refreshSnapshot('background-prewarm', undefined, mode));
+    const cacheKey = cacheKeyFor(mode);
+    if (!inflightByKey.get(cacheKey)) {
+      setInflight(cacheKey, refreshSnapshot('background-prewarm', undefined, mode));
     }
   }, PREWARM_INTERVAL_MS).unref();
 }
@@ -0,0 +1,280 @@
+import { BODY_BY_ID, BodyId } from '../config/bodies';
+import { DEFAULT_REFERENCE, referenceFrameLabel, referenceKey, VectorReference } from '../config/frames';
+import { PLANETS, PlanetName } from '../config/planets';
+import { fetchStateVectorSeries, StateVectorSeries } from '../nasa/horizonsClient';
+import { stepSizeToMinutes } from '../nasa/horizonsStepSize';
+import { logInfo, logWarn } from '../observability/logger';
+import { toEpochKey } from './ephemerisCache';
+
+export interface SeriesWindow {
+  start: Date;
+  stop: Date;
+  /** Pas Horizons ("30m", "6h", "1d"). */
+  step: string;
+}
+
+export interface SeriesSample {
+  timestamp: string;
+  julian_day_tdb?: number;
+  x_au: number;
+  y_au: number;
+  z_au: number;
+  vx?: number;
+  vy?: number;
+  vz?: number;
+}
+
+interface SeriesHeader {
+  start: string;
+  stop: string;
+  step: string;
+  timeScale: 'TDB';
+  referenceFrame: string;
+  /** Origine des vecteurs (`ssb`, `sun` ou une planète). */
+  center: string;
+  distanceUnit: 'AU';
+  velocityUnit: string;
+  source: string;
+}
+
+export interface BodySeriesPayload extends SeriesHeader {
+  id: string;
+  name: string;
+  samples: SeriesSample[];
+  metadata?: {
+    cacheStatus?: 'HIT' | 'MISS';
+    cacheAgeMs?: number;
+    responseTimeMs?: number;
+    requestId?: string;
+  };
+}
+
+export interface PlanetSeriesPayload extends SeriesHeader {
+  bodies: Array<{ name: PlanetName; samples: SeriesSample[] }>;
+  metadata: {
+    responseTimeMs?: number;
+    requestId?: string;
+    cacheStatusByBody?: Record<string, 'HIT' | 'MISS'>;
+    partial?: boolean;
+    missingBodies?: string[];
+  };
+}
+
+interface CacheEntry {
+  series: StateVectorSeries;
+  cachedAt: number;
+  expiresAt: number;
+}
+
+/** Nombre maximal de lignes Horizons par corps et par requête. */
+export const SERIES_MAX_ROWS = Number(process.env.SERIES_MAX_ROWS ?? 2_000);
+// Une série couvre une fenêtre fixe : elle ne change pas, on la garde longtemps.
+const SERIES_CACHE_TTL_MS = Number(process.env.SERIES_CACHE_TTL_MS ?? 6 * 60 * 60 * 1000);
+const SERIES_CACHE_MAX_ENTRIES = Number(process.env.SERIES_CACHE_MAX_ENTRIES ?? 128);
+
+const cache = new Map<string, CacheEntry>();
+const inflight = new Map<string, Promise<StateVectorSeries>>();
+
+/**
+ * Nombre de lignes que renverrait Horizons pour la fenêtre (bornes incluses),
+ * ou `null` si le pas est invalide ou la fenêtre vide.
+ */
+export function countSeriesRows(window: SeriesWindow): number | null {
+  const stepMinutes = stepSizeToMinutes(window.step);
+  const spanMinutes = (window.stop.getTime() - window.start.getTime()) / 60_000;
+  if (stepMinutes === null || !Number.isFinite(spanMinutes) || spanMinutes <= 0) {
+    return null;
+  }
+  return Math.floor(spanMinutes / stepMinutes) + 1;
+}
+
+function cacheKeyFor(horizonsId: string, window: SeriesWindow, reference?: VectorReference): string {
+  const key = `${horizonsId}|${toEpochKey(window.start)}|${toEpochKey(window.stop)}|${window.step}`;
+  const ref = referenceKey(reference);
+  return ref ? `${key}|${ref}` : key;
+}
+
+function headerFor(
+  window: SeriesWindow,
+  series?: StateVectorSeries,
+  reference: VectorReference = DEFAULT_REFERENCE
+): SeriesHeader {
+  return {
+    start: toEpochKey(window.start),
+    stop: toEpochKey(window.stop),
+    step: window.step,
+    timeScale: 'TDB',
+    referenceFrame: series?.referenceFrame ?? referenceFrameLabel(reference),
+    center: reference.center,
+    distanceUnit: 'AU',
+    velocityUnit: series?.velocityUnit ?? 'AU/day',
+    source: series?.source ?? 'NASA-JPL-Horizons'
+  };
+}
+
+function toSamples(series: StateVectorSeries): SeriesSample[] {
+  return series.samples.map((s) => ({
+    timestamp: s.timestamp,
+    julian_day_tdb: s.julian_day_tdb,
+    x_au: s.x_au,
+    y_au: s.y_au,
+    z_au: s.z_au,
+    vx: s.vx_au_per_day,
+    vy: s.vy_au_per_day,
+    vz: s.vz_au_per_day
+  }));
+}
+
+async function getCachedSeries(
+  horizonsId: string,
+  name: string,
+  window: SeriesWindow,
+  options?: { forceRefresh?: boolean; correlationId?: string; reference?: VectorReference }
+): Promise<{ series: StateVectorSeries; cacheStatus: 'HIT' | 'MISS'; cacheAgeMs: number }> {
+  const key = cacheKeyFor(horizonsId, window, options?.reference);
+  const now = Date.now();
+
+  if (!options?.forceRefresh) {
+    const entry = cache.get(key);
+    if (entry && now < entry.expiresAt) {
+      return { series: entry.series, cacheStatus: 'HIT', cacheAgeMs: now - entry.cachedAt };
+    }
+  }
+
+  let pending = inflight.get(key);
+  if (!pending) {
+    pending = fetchStateVectorSeries(horizonsId, name, {
+      start: window.start,
+      stop: window.stop,
+      step: window.step,
+      correlationId: options?.correlationId,
+      reference: options?.reference
+    })
+      .then((series) => {
+        cache.delete(key);
+        cache.set(key, {
+          series,
+          cachedAt: Date.now(),
+          expiresAt: Date.now() + SERIES_CACHE_TTL_MS
+        });
+        while (cache.size > SERIES_CACHE_MAX_ENTRIES) {
+          const oldest = cache.keys().next().value;
+          if (oldest === undefined) break;
+          cache.delete(oldest);
+        }
+        logInfo('series_refresh', { name, rows: series.samples.length, requestId: options?.correlationId });
+        return series;
+      })
+      .finally(() => {
+        inflight.delete(key);
+      });
+    inflight.set(key, pending);
+  }
+
+  const series = await pending;
+  return { series, cacheStatus: 'MISS', cacheAgeMs: 0 };
+}
+
+export async function getBodySeries(options: {
+  id: BodyId;
+  window: SeriesWindow;
+  forceRefresh?: boolean;
+  correlationId?: string;
+  reference?: VectorReference;
+}): Promise<BodySeriesPayload> {
+  const cfg = BODY_BY_ID.get(options.id);
+  if (!cfg) {
+    throw new Error(`Corps inconnu: ${options.id}`);
+  }
+  return getTargetSeries({ ...options, horizonsId: cfg.horizonsId, name: cfg.displayName });
+}
+
+/**
+ * Série d'une cible Horizons quelconque (planète, lune, sonde) au format de
+ * `/body/:id/series` ; partage le cache et la coalescence des autres séries.
+ */
+export async function getTargetSeries(options: {
+  id: string;
+  name: string;
+  horizonsId: string;
+  window: SeriesWindow;
+  forceRefresh?: boolean;
+  correlationId?: string;
+  reference?: VectorReference;
+}): Promise<BodySeriesPayload> {
+  const started = Date.now();
+  const { series, cacheStatus, cacheAgeMs } = await getCachedSeries(
+    options.horizonsId,
+    options.name,
+    options.window,
+    options
+  );
+
+  return {
+    ...headerFor(options.window, series, options.reference),
+    id: options.id,
+    name: options.name,
+    samples: toSamples(series),
+    metadata: {
+      cacheStatus,
+      cacheAgeMs,
+      responseTimeMs: Date.now() - started,
+      requestId: options.correlationId
+    }
+  };
+}
+
+export async function getPlanetSeries(options: {
+  window: SeriesWindow;
+  names?: PlanetName[];
+  forceRefresh?: boolean;
+  correlationId?: string;
+  reference?: VectorReference;
+}): Promise<PlanetSeriesPayload> {
+  const started = Date.now();
+  const wanted = options.names?.length
+    ? PLANETS.filter((p) => options.names?.includes(p.name))
+    : PLANETS;
+
+  const bodies: PlanetSeriesPayload['bodies'] = [];
+  const missing: string[] = [];
+  const cacheStatusByBody: Record<string, 'HIT' | 'MISS'> = {};
+  let firstSeries: StateVectorSeries | undefined;
+
+  for (const cfg of wanted) {
+    try {
+      const { series, cacheStatus } = await getCachedSeries(
+        cfg.horizonsId,
+        cfg.name,
+        options.window,
+        options
+      );
+      firstSeries = firstSeries ?? series;
+      cacheStatusByBody[cfg.name] = cacheStatus;
+      bodies.push({ name: cfg.name, samples: toSamples(series) });
+    } catch (err: any) {
+      missing.push(cfg.name);
+      logWarn('series_body_missing', {
+        name: cfg.name,
+        requestId: options.correlationId,
+        error: err?.message ?? String(err)
+      });
+    }
+  }
+
+  if (bodies.length === 0) {
+    throw new Error('No Horizons data available');
+  }
+
+  return {
+    ...headerFor(options.window, firstSeries, options.reference),
+    bodies,
+    metadata: {
+      responseTimeMs: Date.now() - started,
+      requestId: options.correlationId,
+      cacheStatusByBody,
+      partial: missing.length > 0,
+      missingBodies: missing.length ? missing : undefined
+    }
+  };
+}
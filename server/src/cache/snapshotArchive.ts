@@ -0,0 +1,151 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import readline from 'readline';
+
+import { logWarn } from '../observability/logger';
+import type { EphemerisSnapshot } from './ephemerisCache';
+
+// Archive en ajout seul : un fichier JSONL par jour UTC d'archivage, une ligne
+// par snapshot construit (live, époque ou lieu).
+const SNAPSHOT_ARCHIVE_DIR =
+  process.env.SNAPSHOT_ARCHIVE_DIR ?? path.join(os.tmpdir(), 'solar-system-real', 'archive');
+const SNAPSHOT_ARCHIVE_ENABLED = process.env.SNAPSHOT_ARCHIVE !== '0';
+export const HISTORY_MAX_ENTRIES = Number(process.env.HISTORY_MAX_ENTRIES ?? 2_000);
+export const HISTORY_MAX_RANGE_MS = Number(process.env.HISTORY_MAX_RANGE_DAYS ?? 31) * 86_400_000;
+
+const DAY_MS = 86_400_000;
+const FILE_PATTERN = /^snapshots-(\d{4}-\d{2}-\d{2})\.jsonl$/;
+
+export interface ArchivedSnapshot {
+  /** Instant de construction du snapshot (ce que le tableau de bord affichait alors). */
+  archivedAt: string;
+  reason: string;
+  mode: 'state-vectors' | 'full';
+  /** Époque demandée (`?at=`), absente pour un snapshot live. */
+  epoch?: string;
+  /** Lieu d'observation (clé de cache), absent pour un snapshot géocentrique. */
+  site?: string;
+  /** Repère non standard (ex: "earth/equatorial"), absent pour barycentre / écliptique. */
+  reference?: string;
+  snapshot: EphemerisSnapshot;
+}
+
+export interface HistoryQuery {
+  from: Date;
+  to: Date;
+  /** Ne garde que ce corps dans chaque snapshot. */
+  body?: string;
+  /** Inclut les snapshots d'une époque, d'un lieu ou d'un repère particuliers (défaut : live seuls). */
+  includeScoped?: boolean;
+  limit?: number;
+}
+
+export interface HistoryResult {
+  entries: ArchivedSnapshot[];
+  truncated: boolean;
+}
+
+// Écritures sérialisées : deux refresh concurrents ne doivent pas entrelacer leurs lignes.
+let writeChain: Promise<void> = Promise.resolve();
+
+function dayKey(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+function fileFor(day: string): string {
+  return path.join(SNAPSHOT_ARCHIVE_DIR, `snapshots-${day}.jsonl`);
+}
+
+/**
+ * Ajoute un snapshot à l'archive. Une erreur disque est journalisée mais ne
+ * remonte pas : l'archive ne doit jamais bloquer le service live.
+ */
+export function archiveSnapshot(entry: ArchivedSnapshot): Promise<void> {
+  if (!SNAPSHOT_ARCHIVE_ENABLED) {
+    return Promise.resolve();
+  }
+
+  const line = `${JSON.stringify(entry)}\n`;
+  const target = fileFor(dayKey(Date.parse(entry.archivedAt)));
+  writeChain = writeChain
+    .then(async () => {
+      await fs.promises.mkdir(SNAPSHOT_ARCHIVE_DIR, { recursive: true });
+      await fs.promises.appendFile(target, line, 'utf8');
+    })
+    .catch((err: any) => {
+      logWarn('snapshot_archive_failed', { file: target, error: err?.message ?? String(err) });
+    });
+  return writeChain;
+}
+
+async function archiveDays(from: Date, to: Date): Promise<string[]> {
+  let files: string[];
+  try {
+    files = await fs.promises.readdir(SNAPSHOT_ARCHIVE_DIR);
+  } catch (err: any) {
+    if (err?.code === 'ENOENT') return [];
+    throw err;
+  }
+  const first = dayKey(from.getTime());
+  const last = dayKey(to.getTime());
+  return files
+    .map((f) => FILE_PATTERN.exec(f)?.[1])
+    .filter((day): day is string => !!day && day >= first && day <= last)
+    .sort();
+}
+
+function withBody(entry: ArchivedSnapshot, body: string): ArchivedSnapshot | null {
+  const bodies = entry.snapshot.bodies.filter((b) => b.name === body);
+  if (!bodies.length) return null;
+  return { ...entry, snapshot: { ...entry.snapshot, bodies } };
+}
+
+/**
+ * Relit l'archive sur [from, to] (instants d'archivage), dans l'ordre
+ * chronologique. Les lignes illisibles (écriture interrompue) sont ignorées.
+ */
+export async function readHistory(query: HistoryQuery): Promise<HistoryResult> {
+  const limit = Math.min(query.limit ?? HISTORY_MAX_ENTRIES, HISTORY_MAX_ENTRIES);
+  const fromMs = query.from.getTime();
+  const toMs = query.to.getTime();
+  const entries: ArchivedSnapshot[] = [];
+  // Les ajouts encore en file doivent être visibles.
+  await writeChain;
+
+  for (const day of await archiveDays(query.from, query.to)) {
+    const stream = fs.createReadStream(fileFor(day), { encoding: 'utf8' });
+    const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+    try {
+      for await (const line of lines) {
+        if (!line.trim()) continue;
+        let entry: ArchivedSnapshot;
+        try {
+          entry = JSON.parse(line);
+        } catch {
+          continue;
+        }
+        const at = Date.parse(entry.archivedAt);
+        if (!(at >= fromMs && at <= toMs)) continue;
+        if (!query.includeScoped && (entry.epoch || entry.site || entry.reference)) continue;
+
+        const selected = query.body ? withBody(entry, query.body) : entry;
+        if (!selected) continue;
+        if (entries.length >= limit) {
+          return { entries, truncated: true };
+        }
+        entries.push(selected);
+      }
+    } finally {
+      lines.close();
+      stream.destroy();
+    }
+  }
+
+  return { entries, truncated: false };
+}
+
+/** Fenêtre par défaut : les dernières 24 h. */
+export function defaultHistoryWindow(now = Date.now()): { from: Date; to: Date } {
+  return { from: new Date(now - DAY_MS), to: new Date(now) };
+}
@@ -1,30 +1,8 @@
+import { BodyId } from '@solar-system/shared';
+
 export type BodyKind = 'star' | 'moon';
 
-export type BodyId =
-  | 'sun'
-  | 'moon'
-  | 'phobos'
-  | 'deimos'
-  | 'io'
-  | 'europa'
-  | 'ganymede'
-  | 'callisto'
-  | 'titan'
-  | 'enceladus'
-  | 'rhea'
-  | 'iapetus'
-  | 'miranda'
-  | 'ariel'
-  | 'umbriel'
-  | 'titania'
-  | 'oberon'
-  | 'triton'
-  | 'nereid'
-  | 'charon'
-  | 'styx'
-  | 'nix'
-  | 'kerberos'
-  | 'hydra';
+export type { BodyId };
 
 export interface BodyConfig {
   id: BodyId;
@@ -0,0 +1,58 @@
+import { PLANETS, PlanetName } from './planets';
+
+/** Origine des vecteurs : barycentre du système solaire, Soleil ou centre d'une planète. */
+export type ReferenceCenter = 'ssb' | 'sun' | PlanetName;
+/** Plan de référence : écliptique J2000 ou équateur ICRF (ascension droite / déclinaison). */
+export type ReferencePlane = 'ecliptic' | 'equatorial';
+
+export interface VectorReference {
+  center: ReferenceCenter;
+  frame: ReferencePlane;
+}
+
+/** Repère historique de l'API : barycentrique, écliptique J2000. */
+export const DEFAULT_REFERENCE: VectorReference = { center: 'ssb', frame: 'ecliptic' };
+
+// Codes CENTER Horizons ; "500@" = centre du corps (et non le barycentre du système).
+const CENTER_CODES = new Map<ReferenceCenter, string>([
+  ['ssb', '@0'],
+  ['sun', '500@10'],
+  ...PLANETS.map((p): [ReferenceCenter, string] => [p.name, `500@${p.horizonsId}`])
+]);
+
+export const REFERENCE_CENTERS = Array.from(CENTER_CODES.keys());
+export const REFERENCE_PLANES: ReferencePlane[] = ['ecliptic', 'equatorial'];
+
+export function isReferenceCenter(value: string): value is ReferenceCenter {
+  return CENTER_CODES.has(value as ReferenceCenter);
+}
+
+export function isReferencePlane(value: string): value is ReferencePlane {
+  return (REFERENCE_PLANES as string[]).includes(value);
+}
+
+/** Paramètres CENTER / REF_PLANE / REF_SYSTEM d'une requête VECTORS. */
+export function horizonsFrameParams(reference: VectorReference = DEFAULT_REFERENCE): Record<string, string> {
+  return {
+    CENTER: CENTER_CODES.get(reference.center) ?? '@0',
+    // REF_PLANE=FRAME : plan équatorial du repère REF_SYSTEM.
+    REF_PLANE: reference.frame === 'equatorial' ? 'FRAME' : 'ECLIPTIC',
+    REF_SYSTEM: reference.frame === 'equatorial' ? 'ICRF' : 'J2000'
+  };
+}
+
+/** Valeur de `referenceFrame` dans les réponses, ex: J2000-ECLIPTIC. */
+export function referenceFrameLabel(reference: VectorReference = DEFAULT_REFERENCE): string {
+  return reference.frame === 'equatorial' ? 'ICRF-EQUATORIAL' : 'J2000-ECLIPTIC';
+}
+
+/**
+ * Composante "repère" des clés de cache, ex: "earth/equatorial". `undefined`
+ * pour le repère par défaut : les clés existantes ne changent pas.
+ */
+export function referenceKey(reference?: VectorReference): string | undefined {
+  if (!reference || (reference.center === DEFAULT_REFERENCE.center && reference.frame === DEFAULT_REFERENCE.frame)) {
+    return undefined;
+  }
+  return `${reference.center}/${reference.frame}`;
+}
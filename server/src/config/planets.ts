@@ -1,13 +1,6 @@
-export type PlanetName =
-  | 'mercury'
-  | 'venus'
-  | 'earth'
-  | 'mars'
-  | 'jupiter'
-  | 'saturn'
-  | 'uranus'
-  | 'neptune'
-  | 'pluto';
+import { PlanetName } from '@solar-system/shared';
+
+export type { PlanetName };
 
 export interface PlanetConfig {
   name: PlanetName;
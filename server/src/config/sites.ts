@@ -0,0 +1,17 @@
+import { OBSERVING_SITES, ObserverLocation, ObservingSite } from '@solar-system/shared';
+
+export type { ObserverLocation };
+
+export type SiteConfig = ObservingSite;
+
+export const SITES: SiteConfig[] = OBSERVING_SITES;
+
+export const SITE_BY_ID = new Map<string, SiteConfig>(SITES.map((s) => [s.site, s]));
+
+/**
+ * Clé de cache d'un lieu : arrondi au millième de degré (~100 m) et au mètre,
+ * largement sous la résolution utile pour l'azimut/élévation.
+ */
+export function observerKey(observer: ObserverLocation): string {
+  return `${observer.lat.toFixed(3)},${observer.lon.toFixed(3)},${observer.altKm.toFixed(3)}`;
+}
@@ -0,0 +1,227 @@
+export type SpacecraftStatus = 'active' | 'interstellar' | 'ended';
+
+export interface SpacecraftFlyby {
+  /** Identifiant du corps survolé (clé `name.<body>` côté client). */
+  body: string;
+  /** Date de plus proche approche (UTC, YYYY-MM-DD). */
+  date: string;
+}
+
+export interface SpacecraftInstrument {
+  code: string;
+  name: string;
+}
+
+export interface SpacecraftConfig {
+  id: string;
+  displayName: string;
+  /** Libellé court du dock de navigation. */
+  shortName: string;
+  /** Identifiant NAIF/Horizons (négatif pour les sondes). */
+  horizonsId: string;
+  program: string;
+  launchDate: string;
+  /** Fin de mission ou dernier contact, pour les sondes silencieuses. */
+  endDate?: string;
+  status: SpacecraftStatus;
+  /** Sonde jumelle comparée sur la carte (Voyager 1/2, Pioneer 10/11). */
+  companion?: string;
+  flybys: SpacecraftFlyby[];
+  instruments: SpacecraftInstrument[];
+  links: { nasa: string; mission?: string; instruments?: string };
+}
+
+const VOYAGER_INSTRUMENTS: SpacecraftInstrument[] = [
+  { code: 'MAG', name: 'Magnetometer' },
+  { code: 'PLS', name: 'Plasma Science' },
+  { code: 'CRS', name: 'Cosmic Ray Subsystem' },
+  { code: 'PWS', name: 'Plasma Wave Subsystem' }
+];
+
+const PIONEER_INSTRUMENTS: SpacecraftInstrument[] = [
+  { code: 'HVM', name: 'Helium Vector Magnetometer' },
+  { code: 'PA', name: 'Plasma Analyzer' },
+  { code: 'CPI', name: 'Charged Particle Instrument' },
+  { code: 'CRT', name: 'Cosmic Ray Telescope' },
+  { code: 'IPP', name: 'Imaging Photopolarimeter' }
+];
+
+export const SPACECRAFT: SpacecraftConfig[] = [
+  {
+    id: 'voyager1',
+    displayName: 'Voyager 1',
+    shortName: 'V1',
+    horizonsId: '-31',
+    program: 'Voyager',
+    launchDate: '1977-09-05',
+    status: 'interstellar',
+    companion: 'voyager2',
+    flybys: [
+      { body: 'jupiter', date: '1979-03-05' },
+      { body: 'saturn', date: '1980-11-12' }
+    ],
+    instruments: VOYAGER_INSTRUMENTS,
+    links: {
+      nasa: 'https://www.nasa.gov/mission_pages/voyager/index.html',
+      mission: 'https://voyager.jpl.nasa.gov/',
+      instruments: 'https://voyager.jpl.nasa.gov/mission/science/'
+    }
+  },
+  {
+    id: 'voyager2',
+    displayName: 'Voyager 2',
+    shortName: 'V2',
+    horizonsId: '-32',
+    program: 'Voyager',
+    launchDate: '1977-08-20',
+    status: 'interstellar',
+    companion: 'voyager1',
+    flybys: [
+      { body: 'jupiter', date: '1979-07-09' },
+      { body: 'saturn', date: '1981-08-26' },
+      { body: 'uranus', date: '1986-01-24' },
+      { body: 'neptune', date: '1989-08-25' }
+    ],
+    instruments: VOYAGER_INSTRUMENTS,
+    links: {
+      nasa: 'https://www.nasa.gov/mission_pages/voyager/index.html',
+      mission: 'https://voyager.jpl.nasa.gov/',
+      instruments: 'https://voyager.jpl.nasa.gov/mission/science/'
+    }
+  },
+  {
+    id: 'new-horizons',
+    displayName: 'New Horizons',
+    shortName: 'NH',
+    horizonsId: '-98',
+    program: 'New Frontiers',
+    launchDate: '2006-01-19',
+    status: 'active',
+    flybys: [
+      { body: 'jupiter', date: '2007-02-28' },
+      { body: 'pluto', date: '2015-07-14' },
+      { body: 'arrokoth', date: '2019-01-01' }
+    ],
+    instruments: [
+      { code: 'LORRI', name: 'Long Range Reconnaissance Imager' },
+      { code: 'RALPH', name: 'Ralph (MVIC / LEISA)' },
+      { code: 'ALICE', name: 'Alice UV spectrometer' },
+      { code: 'SWAP', name: 'Solar Wind Around Pluto' },
+      { code: 'PEPSSI', name: 'Pluto Energetic Particle Spectrometer' },
+      { code: 'SDC', name: 'Student Dust Counter' }
+    ],
+    links: {
+      nasa: 'https://science.nasa.gov/mission/new-horizons/',
+      mission: 'https://pluto.jhuapl.edu/'
+    }
+  },
+  {
+    id: 'pioneer10',
+    displayName: 'Pioneer 10',
+    shortName: 'P10',
+    horizonsId: '-23',
+    program: 'Pioneer',
+    launchDate: '1972-03-03',
+    endDate: '2003-01-23',
+    status: 'ended',
+    companion: 'pioneer11',
+    flybys: [{ body: 'jupiter', date: '1973-12-04' }],
+    instruments: PIONEER_INSTRUMENTS,
+    links: { nasa: 'https://science.nasa.gov/mission/pioneer-10/' }
+  },
+  {
+    id: 'pioneer11',
+    displayName: 'Pioneer 11',
+    shortName: 'P11',
+    horizonsId: '-24',
+    program: 'Pioneer',
+    launchDate: '1973-04-06',
+    endDate: '1995-09-30',
+    status: 'ended',
+    companion: 'pioneer10',
+    flybys: [
+      { body: 'jupiter', date: '1974-12-03' },
+      { body: 'saturn', date: '1979-09-01' }
+    ],
+    instruments: PIONEER_INSTRUMENTS,
+    links: { nasa: 'https://science.nasa.gov/mission/pioneer-11/' }
+  },
+  {
+    id: 'parker-solar-probe',
+    displayName: 'Parker Solar Probe',
+    shortName: 'PSP',
+    horizonsId: '-96',
+    program: 'Living With a Star',
+    launchDate: '2018-08-12',
+    status: 'active',
+    flybys: [
+      { body: 'venus', date: '2018-10-03' },
+      { body: 'venus', date: '2019-12-26' },
+      { body: 'venus', date: '2020-07-11' },
+      { body: 'venus', date: '2021-02-20' },
+      { body: 'venus', date: '2021-10-16' },
+      { body: 'venus', date: '2023-08-21' },
+      { body: 'venus', date: '2024-11-06' }
+    ],
+    instruments: [
+      { code: 'FIELDS', name: 'Electromagnetic Fields Investigation' },
+      { code: 'WISPR', name: 'Wide-Field Imager for Solar Probe' },
+      { code: 'SWEAP', name: 'Solar Wind Electrons Alphas and Protons' },
+      { code: 'ISOIS', name: 'Integrated Science Investigation of the Sun' }
+    ],
+    links: {
+      nasa: 'https://science.nasa.gov/mission/parker-solar-probe/',
+      mission: 'https://parkersolarprobe.jhuapl.edu/'
+    }
+  },
+  {
+    id: 'juno',
+    displayName: 'Juno',
+    shortName: 'JUNO',
+    horizonsId: '-61',
+    program: 'New Frontiers',
+    launchDate: '2011-08-05',
+    status: 'active',
+    flybys: [
+      { body: 'earth', date: '2013-10-09' },
+      { body: 'ganymede', date: '2021-06-07' },
+      { body: 'europa', date: '2022-09-29' },
+      { body: 'io', date: '2023-12-30' }
+    ],
+    instruments: [
+      { code: 'MAG', name: 'Magnetometer' },
+      { code: 'MWR', name: 'Microwave Radiometer' },
+      { code: 'JIRAM', name: 'Jovian Infrared Auroral Mapper' },
+      { code: 'UVS', name: 'Ultraviolet Spectrograph' },
+      { code: 'JADE', name: 'Jovian Auroral Distributions Experiment' },
+      { code: 'JEDI', name: 'Jupiter Energetic-particle Detector Instrument' },
+      { code: 'JCAM', name: 'JunoCam' }
+    ],
+    links: {
+      nasa: 'https://science.nasa.gov/mission/juno/',
+      mission: 'https://www.missionjuno.swri.edu/'
+    }
+  },
+  {
+    id: 'jwst',
+    displayName: 'James Webb Space Telescope',
+    shortName: 'JWST',
+    horizonsId: '-170',
+    program: 'JWST',
+    launchDate: '2021-12-25',
+    status: 'active',
+    flybys: [],
+    instruments: [
+      { code: 'NIRCAM', name: 'Near Infrared Camera' },
+      { code: 'NIRSPEC', name: 'Near Infrared Spectrograph' },
+      { code: 'MIRI', name: 'Mid-Infrared Instrument' },
+      { code: 'NIRISS', name: 'Near Infrared Imager and Slitless Spectrograph' }
+    ],
+    links: {
+      nasa: 'https://science.nasa.gov/mission/webb/',
+      mission: 'https://webb.nasa.gov/'
+    }
+  }
+];
+
+export const SPACECRAFT_BY_ID = new Map<string, SpacecraftConfig>(SPACECRAFT.map((s) => [s.id, s]));
@@ -7,8 +7,14 @@ import {
 } from './observability/metrics';
 import { logInfo } from './observability/logger';
 import { applyRequestTracing } from './observability/requestTracing';
+import { buildOpenApiDocument } from './openapi/document';
 import voyagersRouter from './routes/voyagers';
+import spacecraftRouter from './routes/spacecraft';
+import dsnRouter from './routes/dsn';
 import catalogRouter from './routes/catalog';
+import streamRouter from './routes/stream';
+import exportRouter from './routes/export';
+import { attachStreamWebSocket } from './stream/streamWebSocket';
 import path from 'path';
 import fs from 'fs';
 
@@ -23,7 +29,17 @@ app.use(express.json());
 
 app.use('/api/ephemeris', ephemerisRouter);
 app.use('/api/voyagers', voyagersRouter);
+app.use('/api/spacecraft', spacecraftRouter);
+app.use('/api/dsn', dsnRouter);
 app.use('/api/catalog', catalogRouter);
+app.use('/api/stream', streamRouter);
+app.use('/api/export', exportRouter);
+
+// Spécification OpenAPI 3.0 : mêmes déclarations que la validation des paramètres.
+const openApiDocument = buildOpenApiDocument();
+app.get('/api/openapi.json', (_req, res) => {
+  res.json(openApiDocument);
+});
 
 app.get('/', (_req, res) => {
   res.send('Solar System Real – API JPL Horizons');
@@ -49,6 +65,8 @@ if (fs.existsSync(clientDist)) {
   logInfo('client_dist_missing', { clientDist });
 }
 
-app.listen(port, () => {
+const server = app.listen(port, () => {
   logInfo('api_server_started', { port });
 });
+
+attachStreamWebSocket(server);
@@ -0,0 +1,257 @@
+import axios from 'axios';
+
+import { SPACECRAFT } from '../config/spacecraft';
+import { logError, logInfo } from '../observability/logger';
+
+// Flux "DSN Now" : un seul document XML, rafraîchi par la NASA toutes les 5 s.
+const DSN_URL = process.env.DSN_URL ?? 'https://eyes.nasa.gov/dsn/data/dsn.xml';
+const DSN_TIMEOUT_MS = Number(process.env.DSN_TIMEOUT_MS ?? 8_000);
+const DSN_USER_AGENT =
+  process.env.DSN_USER_AGENT ?? process.env.HORIZONS_USER_AGENT ?? 'Solar-System-Live/1.0 (+https://github.com)';
+
+export interface DsnSignal {
+  direction: 'up' | 'down';
+  active: boolean;
+  /** `data`, `carrier`, `none`... */
+  signalType: string | null;
+  dataRateBps: number | null;
+  frequencyHz: number | null;
+  band: string | null;
+  /** Montant : puissance émise (kW) ; descendant : puissance reçue (dBm). */
+  power: number | null;
+  spacecraft: string;
+  /** Identifiant NAIF (négatif pour les sondes). */
+  spacecraftId: number | null;
+  /** Identifiant du registre `/api/spacecraft`, si la sonde y figure. */
+  registryId?: string;
+}
+
+export interface DsnTarget {
+  name: string;
+  spacecraftId: number | null;
+  registryId?: string;
+  uplegRangeKm: number | null;
+  downlegRangeKm: number | null;
+  /** Temps aller-retour de la lumière (s). */
+  rtltSeconds: number | null;
+}
+
+export interface DsnDish {
+  name: string;
+  azimuthDeg: number | null;
+  elevationDeg: number | null;
+  windSpeedKmh: number | null;
+  activity: string | null;
+  isMspa: boolean;
+  isArray: boolean;
+  isDdor: boolean;
+  upSignals: DsnSignal[];
+  downSignals: DsnSignal[];
+  targets: DsnTarget[];
+}
+
+export interface DsnStation {
+  /** `gdscc`, `cdscc`, `mdscc`. */
+  id: string;
+  friendlyName: string;
+  timeUtc: string | null;
+  timeZoneOffsetMs: number | null;
+  dishes: DsnDish[];
+}
+
+export interface DsnDocument {
+  timestamp: string | null;
+  stations: DsnStation[];
+}
+
+interface XmlElement {
+  name: string;
+  attrs: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const REGISTRY_BY_NAIF = new Map<number, string>(SPACECRAFT.map((s) => [Number(s.horizonsId), s.id]));
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, code: string) => {
+    if (code.startsWith('#x') || code.startsWith('#X')) return String.fromCodePoint(parseInt(code.slice(2), 16));
+    if (code.startsWith('#')) return String.fromCodePoint(parseInt(code.slice(1), 10));
+    return ENTITIES[code] ?? match;
+  });
+}
+
+/**
+ * Lecteur XML minimal (éléments, attributs, texte) : suffisant pour le
+ * document DSN Now, sans dépendance. Prologue, commentaires et CDATA ignorés.
+ */
+function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attrs: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  const tagPattern = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<[?!][^>]*>|<(\/?)([A-Za-z_][\w:.-]*)((?:\s+[^\s=>/]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+  const attrPattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(xml)) !== null) {
+    const current = stack[stack.length - 1];
+    current.text += xml.slice(lastIndex, match.index);
+    lastIndex = tagPattern.lastIndex;
+
+    const [, closing, name, rawAttrs, selfClosing] = match;
+    if (!name) continue;
+
+    if (closing) {
+      if (current.name !== name) {
+        throw new Error(`XML DSN mal formé : </${name}> ferme <${current.name}>`);
+      }
+      current.text = decodeEntities(current.text.trim());
+      stack.pop();
+      continue;
+    }
+
+    const attrs: Record<string, string> = {};
+    for (const attr of (rawAttrs ?? '').matchAll(attrPattern)) {
+      attrs[attr[1]] = decodeEntities(attr[2] ?? attr[3] ?? '');
+    }
+    const element: XmlElement = { name, attrs, children: [], text: '' };
+    current.children.push(element);
+    if (!selfClosing) {
+      stack.push(element);
+    }
+  }
+
+  if (stack.length !== 1) {
+    throw new Error(`XML DSN tronqué : <${stack[stack.length - 1].name}> non fermé`);
+  }
+  return root;
+}
+
+/** Les valeurs inconnues sont publiées vides, `-1` ou `none`. */
+function numberAttr(el: XmlElement, name: string): number | null {
+  const raw = el.attrs[name]?.trim();
+  if (!raw || raw === 'none') return null;
+  const value = Number(raw);
+  return Number.isFinite(value) && value !== -1 ? value : null;
+}
+
+function textAttr(el: XmlElement, name: string): string | null {
+  const raw = el.attrs[name]?.trim();
+  return raw && raw !== 'none' ? raw : null;
+}
+
+function boolAttr(el: XmlElement, name: string): boolean {
+  return el.attrs[name]?.trim().toLowerCase() === 'true';
+}
+
+function epochMsToIso(raw: string | undefined): string | null {
+  const ms = Number(raw);
+  return raw && Number.isFinite(ms) ? new Date(ms).toISOString() : null;
+}
+
+function toSignal(el: XmlElement, direction: 'up' | 'down'): DsnSignal {
+  // Les signaux publient l'identifiant NAIF signé (-31), les cibles sa valeur absolue (31).
+  const rawId = numberAttr(el, 'spacecraftID');
+  const spacecraftId = rawId === null ? null : -Math.abs(rawId);
+  const registryId = spacecraftId === null ? undefined : REGISTRY_BY_NAIF.get(spacecraftId);
+  return {
+    direction,
+    active: boolAttr(el, 'active'),
+    signalType: textAttr(el, 'signalType'),
+    dataRateBps: numberAttr(el, 'dataRate'),
+    frequencyHz: numberAttr(el, 'frequency'),
+    band: textAttr(el, 'band'),
+    power: numberAttr(el, 'power'),
+    spacecraft: el.attrs.spacecraft ?? '',
+    spacecraftId,
+    ...(registryId ? { registryId } : {})
+  };
+}
+
+function toTarget(el: XmlElement): DsnTarget {
+  const rawId = numberAttr(el, 'id');
+  const spacecraftId = rawId === null ? null : -Math.abs(rawId);
+  const registryId = spacecraftId === null ? undefined : REGISTRY_BY_NAIF.get(spacecraftId);
+  return {
+    name: el.attrs.name ?? '',
+    spacecraftId,
+    ...(registryId ? { registryId } : {}),
+    uplegRangeKm: numberAttr(el, 'uplegRange'),
+    downlegRangeKm: numberAttr(el, 'downlegRange'),
+    rtltSeconds: numberAttr(el, 'rtlt')
+  };
+}
+
+/**
+ * Document DSN Now → stations, antennes, signaux montants/descendants et
+ * cibles. Dans le XML, chaque `<dish>` suit à plat la `<station>` qui l'abrite.
+ */
+export function parseDsnXml(xml: string): DsnDocument {
+  const root = parseXml(xml).children.find((el) => el.name === 'dsn');
+  if (!root) {
+    throw new Error('Document DSN sans élément <dsn>');
+  }
+
+  const stations: DsnStation[] = [];
+  for (const el of root.children) {
+    if (el.name === 'station') {
+      stations.push({
+        id: el.attrs.name ?? '',
+        friendlyName: el.attrs.friendlyName ?? el.attrs.name ?? '',
+        timeUtc: epochMsToIso(el.attrs.timeUTC),
+        timeZoneOffsetMs: numberAttr(el, 'timeZoneOffset'),
+        dishes: []
+      });
+    } else if (el.name === 'dish') {
+      const station = stations[stations.length - 1];
+      if (!station) continue;
+      station.dishes.push({
+        name: el.attrs.name ?? '',
+        azimuthDeg: numberAttr(el, 'azimuthAngle'),
+        elevationDeg: numberAttr(el, 'elevationAngle'),
+        windSpeedKmh: numberAttr(el, 'windSpeed'),
+        activity: textAttr(el, 'activity'),
+        isMspa: boolAttr(el, 'isMSPA'),
+        isArray: boolAttr(el, 'isArray'),
+        isDdor: boolAttr(el, 'isDDOR'),
+        upSignals: el.children.filter((c) => c.name === 'upSignal').map((c) => toSignal(c, 'up')),
+        downSignals: el.children.filter((c) => c.name === 'downSignal').map((c) => toSignal(c, 'down')),
+        targets: el.children.filter((c) => c.name === 'target').map(toTarget)
+      });
+    }
+  }
+
+  const timestamp = root.children.find((el) => el.name === 'timestamp');
+  return { timestamp: epochMsToIso(timestamp?.text), stations };
+}
+
+export async function fetchDsnDocument(correlationId?: string): Promise<DsnDocument> {
+  const started = Date.now();
+  try {
+    const response = await axios.get<string>(DSN_URL, {
+      // Paramètre anti-cache utilisé par la page DSN Now elle-même.
+      params: { r: Math.floor(started / 5_000) },
+      timeout: DSN_TIMEOUT_MS,
+      responseType: 'text',
+      headers: { 'User-Agent': DSN_USER_AGENT, Accept: 'application/xml, text/xml' }
+    });
+    const document = parseDsnXml(String(response.data ?? ''));
+    logInfo('dsn_fetch', {
+      requestId: correlationId,
+      stations: document.stations.length,
+      latencyMs: Date.now() - started
+    });
+    return document;
+  } catch (err: any) {
+    logError('dsn_fetch_error', {
+      requestId: correlationId,
+      url: DSN_URL,
+      status: err?.response?.status,
+      latencyMs: Date.now() - started,
+      error: err?.message ?? String(err)
+    });
+    throw err;
+  }
+}
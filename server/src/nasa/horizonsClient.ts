@@ -1,6 +1,11 @@
 import axios from 'axios';
+import { AU_IN_KM, SECONDS_PER_DAY, TopocentricObservation } from '@solar-system/shared';
+import { horizonsFrameParams, referenceFrameLabel, VectorReference } from '../config/frames';
 import { PlanetName } from '../config/planets';
+import { ObserverLocation } from '../config/sites';
 import { logError, logInfo, logWarn } from '../observability/logger';
+import { HorizonsLane, HorizonsSchedulerError, horizonsScheduler } from './horizonsScheduler';
+import { stepSizeToMinutes } from './horizonsStepSize';
 
 export interface PlanetStateVector {
   name: PlanetName | string;
@@ -20,15 +25,21 @@ export interface PlanetStateVector {
   phase_angle_deg?: number;
   illumination_fraction?: number;
   apparent_magnitude?: number;
+  /** Présent quand un lieu d'observation est demandé (OBSERVER topocentrique). */
+  topocentric?: TopocentricObservation;
   timestamp: string;
 }
 
-// URLs Horizons (primaire + fallback)
+export type { TopocentricObservation };
+
+// URLs Horizons (primaire + fallback). HORIZONS_OFFLINE=1 retire l'hôte JPL :
+// seul HORIZONS_API_URL (ex: le simulateur local) est alors interrogé.
+const HORIZONS_OFFLINE = process.env.HORIZONS_OFFLINE === '1' || process.env.HORIZONS_OFFLINE === 'true';
 const HORIZONS_URLS = Array.from(
   new Set(
     [
       process.env.HORIZONS_API_URL,
-      'https://ssd.jpl.nasa.gov/api/horizons.api'
+      HORIZONS_OFFLINE ? undefined : 'https://ssd.jpl.nasa.gov/api/horizons.api'
     ].filter((u): u is string => !!u)
   )
 );
@@ -49,9 +60,6 @@ function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-const AU_IN_KM = 149_597_870.7;
-const SECONDS_PER_DAY = 86_400;
-
 function formatUtcDate(d: Date): string {
   const pad = (n: number) => String(n).padStart(2, '0');
   const year = d.getUTCFullYear();
@@ -64,15 +72,296 @@ function formatUtcDate(d: Date): string {
   return `${year}-${month}-${day}T${hour}:${minute}`;
 }
 
+/**
+ * Convertisseurs vers AU / AU/day selon l'en-tête "Output units" de la réponse
+ * (Horizons peut renvoyer KM-S si OUT_UNITS est ignoré).
+ */
+function unitConvertersFor(resultText: string): {
+  toAu: (value: number) => number;
+  toAuPerDay: (value: number) => number;
+} {
+  const rawUnit = /Output units\s*:\s*([^\n]+)/.exec(resultText)?.[1]?.trim();
+  const positionUnit = rawUnit?.toUpperCase().includes('KM') ? 'KM' : 'AU';
+  const velocityUnit = rawUnit?.toUpperCase().includes('KM') ? 'KM/S' : 'AU/D';
+
+  const toAu = (km: number) => (positionUnit === 'KM' ? km / AU_IN_KM : km);
+  const toAuPerDay = (vx: number) => {
+    if (velocityUnit === 'KM/S') {
+      return (vx * SECONDS_PER_DAY) / AU_IN_KM;
+    }
+    return vx; // déjà en AU/day
+  };
+  return { toAu, toAuPerDay };
+}
+
+export function parseVectorFromResult(
+  resultText: string,
+  name: PlanetName | string,
+  epoch: Date
+): PlanetStateVector {
+  const soeIndex = resultText.indexOf('$$SOE');
+  const eoeIndex = resultText.indexOf('$$EOE');
+  if (soeIndex === -1 || eoeIndex === -1 || eoeIndex <= soeIndex) {
+    throw new Error('Réponse Horizons sans bloc $$SOE/$$EOE');
+  }
+
+  const block = resultText.slice(soeIndex, eoeIndex);
+
+  const matchX = block.match(/X\s*=\s*([-+\d.Ee]+)/);
+  const matchY = block.match(/Y\s*=\s*([-+\d.Ee]+)/);
+  const matchZ = block.match(/Z\s*=\s*([-+\d.Ee]+)/);
+  const matchVx = block.match(/VX\s*=\s*([-+\d.Ee]+)/);
+  const matchVy = block.match(/VY\s*=\s*([-+\d.Ee]+)/);
+  const matchVz = block.match(/VZ\s*=\s*([-+\d.Ee]+)/);
+
+  // Nouveaux retours Horizons (CSV) n'ont plus les "X = ...".
+  const csvLine = block
+    .split('\n')
+    .map((l) => l.trim())
+    .filter((l) => l && !l.startsWith('$$'))[0];
+
+  const csvFields = csvLine?.split(',').map((v) => v.trim());
+  const csvX = csvFields && csvFields.length > 2 ? parseFloat(csvFields[2]) : NaN;
+  const csvY = csvFields && csvFields.length > 3 ? parseFloat(csvFields[3]) : NaN;
+  const csvZ = csvFields && csvFields.length > 4 ? parseFloat(csvFields[4]) : NaN;
+  const csvVx = csvFields && csvFields.length > 5 ? parseFloat(csvFields[5]) : NaN;
+  const csvVy = csvFields && csvFields.length > 6 ? parseFloat(csvFields[6]) : NaN;
+  const csvVz = csvFields && csvFields.length > 7 ? parseFloat(csvFields[7]) : NaN;
+
+  if (!matchX && Number.isNaN(csvX)) {
+    throw new Error('Coordonnées X/Y/Z manquantes dans la réponse Horizons');
+  }
+
+  const { toAu, toAuPerDay } = unitConvertersFor(resultText);
+
+  // Première ligne du bloc : "2460370.5 = A.D. 2024-Mar-01 ..." ou "2460370.5, A.D. ...".
+  // On renvoie l'ISO du JD, seul format que le client sait dater.
+  const timestampLine = block
+    .split('\n')
+    .find((line) => line.trim().length && !line.includes('$$SOE'));
+  const jd = parseFloat(timestampLine ?? '');
+
+  return {
+    name,
+    x_au: toAu(matchX ? parseFloat(matchX[1]) : csvX),
+    y_au: toAu(matchY ? parseFloat(matchY[1]) : csvY),
+    z_au: toAu(matchZ ? parseFloat(matchZ[1]) : csvZ),
+    vx_au_per_day: matchVx ? toAuPerDay(parseFloat(matchVx[1])) : Number.isFinite(csvVx) ? toAuPerDay(csvVx) : undefined,
+    vy_au_per_day: matchVy ? toAuPerDay(parseFloat(matchVy[1])) : Number.isFinite(csvVy) ? toAuPerDay(csvVy) : undefined,
+    vz_au_per_day: matchVz ? toAuPerDay(parseFloat(matchVz[1])) : Number.isFinite(csvVz) ? toAuPerDay(csvVz) : undefined,
+    velocityUnit: 'AU/day',
+    referenceFrame: 'J2000-ECLIPTIC',
+    source: 'NASA-JPL-Horizons',
+    timestamp: Number.isFinite(jd) ? julianDayToIso(jd) : epoch.toISOString()
+  };
+}
+
+export function parseObserverFromResult(resultText: string) {
+  const block = resultText.split('$$SOE')[1]?.split('$$EOE')[0];
+  if (!block) {
+    throw new Error('Réponse Horizons OBSERVER sans bloc $$SOE/$$EOE');
+  }
+  const line = block
+    .split('\n')
+    .map((l) => l.trim())
+    .find((l) => l && !l.startsWith('$$'));
+
+  if (!line) {
+    throw new Error('Ligne OBSERVER introuvable');
+  }
+
+  const fields = line.split(',').map((v) => v.trim());
+
+  // Indices basés sur l'ordre CSV Horizons quand QUANTITIES='1,9,10,20,21,23,24'
+  const apMag = parseFloat(fields[5] ?? '');
+  const illumPercent = parseFloat(fields[7] ?? '');
+  const rangeAu = parseFloat(fields[8] ?? '');
+  const rangeRateKmS = parseFloat(fields[9] ?? '');
+  const lightTimeMinutes = parseFloat(fields[10] ?? '');
+  const solarElongationDeg = parseFloat(fields[11] ?? '');
+  const phaseAngleDeg = parseFloat(fields[13] ?? '');
+
+  return {
+    apparent_magnitude: Number.isFinite(apMag) ? apMag : undefined,
+    illumination_fraction: Number.isFinite(illumPercent) ? illumPercent / 100 : undefined,
+    range_au: Number.isFinite(rangeAu) ? rangeAu : undefined,
+    range_rate_km_s: Number.isFinite(rangeRateKmS) ? rangeRateKmS : undefined,
+    light_time_minutes: Number.isFinite(lightTimeMinutes) ? lightTimeMinutes : undefined,
+    solar_elongation_deg: Number.isFinite(solarElongationDeg) ? solarElongationDeg : undefined,
+    phase_angle_deg: Number.isFinite(phaseAngleDeg) ? phaseAngleDeg : undefined
+  };
+}
+
+const CALENDAR_MONTHS: Record<string, string> = {
+  Jan: '01', Feb: '02', Mar: '03', Apr: '04', May: '05', Jun: '06',
+  Jul: '07', Aug: '08', Sep: '09', Oct: '10', Nov: '11', Dec: '12'
+};
+
+/** "2024-Mar-01 06:12" (UT, colonne Date__(UT)__HR:MN) -> ISO-8601. */
+function horizonsCalendarToIso(value: string): string | undefined {
+  const match = /(\d{4})-([A-Za-z]{3})-(\d{2})\s+(\d{2}):(\d{2})(?::(\d{2}))?/.exec(value);
+  const month = match ? CALENDAR_MONTHS[match[2]] : undefined;
+  if (!match || !month) {
+    return undefined;
+  }
+  return `${match[1]}-${month}-${match[3]}T${match[4]}:${match[5]}:${match[6] ?? '00'}Z`;
+}
+
+function observerCsvLines(resultText: string): string[][] {
+  const block = resultText.split('$$SOE')[1]?.split('$$EOE')[0];
+  if (!block) {
+    throw new Error('Réponse Horizons OBSERVER sans bloc $$SOE/$$EOE');
+  }
+  return block
+    .split('\n')
+    .map((l) => l.trim())
+    .filter((l) => l && !l.startsWith('$$'))
+    .map((l) => l.split(',').map((v) => v.trim()));
+}
+
+function finiteOrUndefined(raw: string | undefined): number | undefined {
+  const value = parseFloat(raw ?? '');
+  return Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * OBSERVER topocentrique, QUANTITIES='1,4,8,9,10,20,21,23,24' et ANG_FORMAT=DEG :
+ * les colonnes az/el (4) et masse d'air (8) s'intercalent avant celles du mode
+ * géocentrique, d'où un décalage de 4 par rapport à parseObserverFromResult.
+ */
+export function parseTopocentricFromResult(resultText: string) {
+  const fields = observerCsvLines(resultText)[0];
+  if (!fields) {
+    throw new Error('Ligne OBSERVER introuvable');
+  }
+
+  const elevation = finiteOrUndefined(fields[6]);
+  const illumPercent = finiteOrUndefined(fields[11]);
+
+  return {
+    apparent_magnitude: finiteOrUndefined(fields[9]),
+    illumination_fraction: illumPercent !== undefined ? illumPercent / 100 : undefined,
+    range_au: finiteOrUndefined(fields[12]),
+    range_rate_km_s: finiteOrUndefined(fields[13]),
+    light_time_minutes: finiteOrUndefined(fields[14]),
+    solar_elongation_deg: finiteOrUndefined(fields[15]),
+    phase_angle_deg: finiteOrUndefined(fields[17]),
+    topocentric: {
+      ra_deg: finiteOrUndefined(fields[3]),
+      dec_deg: finiteOrUndefined(fields[4]),
+      azimuth_deg: finiteOrUndefined(fields[5]),
+      elevation_deg: elevation,
+      airmass: finiteOrUndefined(fields[7]),
+      above_horizon: elevation !== undefined ? elevation > 0 : undefined
+    }
+  };
+}
+
+/**
+ * Sortie R_T_S_ONLY : une ligne par évènement, marqué r (lever), t (transit)
+ * ou s (coucher) dans les colonnes de drapeaux. On garde le premier de chaque.
+ */
+export function parseRiseTransitSet(resultText: string): { rise?: string; transit?: string; set?: string } {
+  const events: { rise?: string; transit?: string; set?: string } = {};
+  for (const fields of observerCsvLines(resultText)) {
+    const flags = `${fields[1] ?? ''}${fields[2] ?? ''}`;
+    const at = horizonsCalendarToIso(fields[0] ?? '');
+    if (!at) continue;
+    if (flags.includes('r') && !events.rise) events.rise = at;
+    if (flags.includes('t') && !events.transit) events.transit = at;
+    if (flags.includes('s') && !events.set) events.set = at;
+  }
+  return events;
+}
+
+function resultTextOf(response: any): string | undefined {
+  return typeof response?.data?.result === 'string'
+    ? response.data.result
+    : typeof response?.data === 'string'
+    ? response.data
+    : undefined;
+}
+
+async function requestWithFallback(
+  params: Record<string, string>,
+  label: string,
+  context: { name: PlanetName | string; horizonsId: string; correlationId?: string; lane?: HorizonsLane }
+) {
+  let lastError: any = null;
+  for (const url of HORIZONS_URLS) {
+    for (let attempt = 0; attempt <= HORIZONS_RETRIES; attempt += 1) {
+      try {
+        // Chaque tentative passe par l'ordonnanceur (concurrence, débit, disjoncteur).
+        return await horizonsScheduler.schedule(
+          () =>
+            axios.get(url, {
+              params,
+              timeout: HORIZONS_TIMEOUT_MS,
+              headers: {
+                'User-Agent': HORIZONS_USER_AGENT,
+                Accept: 'application/json'
+              }
+            }),
+          context.lane
+        );
+      } catch (err: any) {
+        lastError = err;
+        // Refus local : ni retry ni URL de secours, Horizons ne doit pas être sollicité.
+        if (err instanceof HorizonsSchedulerError) {
+          logWarn('horizons_request_rejected', {
+            name: context.name,
+            horizonsId: context.horizonsId,
+            label,
+            requestId: context.correlationId,
+            reason: err.reason
+          });
+          throw err;
+        }
+        logWarn('horizons_endpoint_failed', {
+          name: context.name,
+          horizonsId: context.horizonsId,
+          label,
+          url,
+          requestId: context.correlationId,
+          status: err?.response?.status,
+          attempt,
+          retries: HORIZONS_RETRIES,
+          error: err?.message ?? String(err)
+        });
+
+        if (attempt < HORIZONS_RETRIES && shouldRetry(err)) {
+          const delay = HORIZONS_RETRY_BASE_MS * Math.pow(2, attempt);
+          await sleep(delay);
+          continue;
+        }
+        break;
+      }
+    }
+  }
+  throw lastError ?? new Error('All Horizons endpoints failed');
+}
+
 export async function fetchPlanetStateVector(
   horizonsId: string,
   name: PlanetName | string,
-  options?: { correlationId?: string; includeObserver?: boolean }
+  options?: {
+    correlationId?: string;
+    includeObserver?: boolean;
+    at?: Date;
+    /** Lieu terrestre : OBSERVER topocentrique (az/el, masse d'air, lever/coucher). */
+    observer?: ObserverLocation;
+    /** File de l'ordonnanceur : `prewarm` pour les rafraîchissements de fond. */
+    lane?: HorizonsLane;
+    /** Origine et plan des vecteurs (défaut : barycentre, écliptique J2000). */
+    reference?: VectorReference;
+  }
 ): Promise<PlanetStateVector> {
   const requestStarted = Date.now();
-  const now = new Date();
-  const start = formatUtcDate(now);
-  const stopDate = new Date(now.getTime() + 60 * 60 * 1000);
+  // Instant demandé (par défaut "maintenant") : Horizons renvoie la première
+  // ligne à START_TIME, la fenêtre d'une heure ne sert qu'à satisfaire STOP_TIME.
+  const epoch = options?.at ?? new Date();
+  const start = formatUtcDate(epoch);
+  const stopDate = new Date(epoch.getTime() + 60 * 60 * 1000);
   const stop = formatUtcDate(stopDate);
 
   const params: Record<string, string> = {
@@ -81,9 +370,7 @@ export async function fetchPlanetStateVector(
     format: 'json',
     COMMAND: horizonsId,
     EPHEM_TYPE: 'VECTORS',
-    CENTER: '@0',
-    REF_PLANE: 'ECLIPTIC',
-    REF_SYSTEM: 'J2000',
+    ...horizonsFrameParams(options?.reference),
     START_TIME: start,
     STOP_TIME: stop,
     STEP_SIZE: '1d', // nouvelle API tolère "1d" ("1 d" provoque une erreur)
@@ -93,167 +380,63 @@ export async function fetchPlanetStateVector(
     CSV_FORMAT: 'YES'
   };
 
-  const observerParams: Record<string, string> = {
-    format: 'json',
-    COMMAND: horizonsId,
-    EPHEM_TYPE: 'OBSERVER',
-    CENTER: '500@399', // géocentrique
-    START_TIME: start,
-    STOP_TIME: stop,
-    STEP_SIZE: '1d',
-    QUANTITIES: "'1,9,10,20,21,23,24'",
-    CSV_FORMAT: 'YES'
-  };
-
-  const parseVectorFromResult = (resultText: string): PlanetStateVector => {
-    const soeIndex = resultText.indexOf('$$SOE');
-    const eoeIndex = resultText.indexOf('$$EOE');
-    if (soeIndex === -1 || eoeIndex === -1 || eoeIndex <= soeIndex) {
-      throw new Error('Réponse Horizons sans bloc $$SOE/$$EOE');
-    }
-
-    const block = resultText.slice(soeIndex, eoeIndex);
-
-    const matchX = block.match(/X\s*=\s*([-+\d.Ee]+)/);
-    const matchY = block.match(/Y\s*=\s*([-+\d.Ee]+)/);
-    const matchZ = block.match(/Z\s*=\s*([-+\d.Ee]+)/);
-    const matchVx = block.match(/VX\s*=\s*([-+\d.Ee]+)/);
-    const matchVy = block.match(/VY\s*=\s*([-+\d.Ee]+)/);
-    const matchVz = block.match(/VZ\s*=\s*([-+\d.Ee]+)/);
-
-    // Nouveaux retours Horizons (CSV) n'ont plus les "X = ...".
-    const csvLine = block
-      .split('\n')
-      .map((l) => l.trim())
-      .filter((l) => l && !l.startsWith('$$'))[0];
-
-    const csvFields = csvLine?.split(',').map((v) => v.trim());
-    const csvX = csvFields && csvFields.length > 2 ? parseFloat(csvFields[2]) : NaN;
-    const csvY = csvFields && csvFields.length > 3 ? parseFloat(csvFields[3]) : NaN;
-    const csvZ = csvFields && csvFields.length > 4 ? parseFloat(csvFields[4]) : NaN;
-    const csvVx = csvFields && csvFields.length > 5 ? parseFloat(csvFields[5]) : NaN;
-    const csvVy = csvFields && csvFields.length > 6 ? parseFloat(csvFields[6]) : NaN;
-    const csvVz = csvFields && csvFields.length > 7 ? parseFloat(csvFields[7]) : NaN;
-
-    if (!matchX && Number.isNaN(csvX)) {
-      throw new Error('Coordonnées X/Y/Z manquantes dans la réponse Horizons');
-    }
-
-    const rawUnit = /Output units\s*:\s*([^\n]+)/.exec(resultText)?.[1]?.trim();
-    const positionUnit = rawUnit?.toUpperCase().includes('KM') ? 'KM' : 'AU';
-    const velocityUnit = rawUnit?.toUpperCase().includes('KM') ? 'KM/S' : 'AU/D';
-
-    const toAu = (km: number) => (positionUnit === 'KM' ? km / AU_IN_KM : km);
-    const toAuPerDay = (vx: number) => {
-      if (velocityUnit === 'KM/S') {
-        return (vx * SECONDS_PER_DAY) / AU_IN_KM;
+  const observer = options?.observer;
+  const observerParams: Record<string, string> = observer
+    ? {
+        format: 'json',
+        COMMAND: horizonsId,
+        EPHEM_TYPE: 'OBSERVER',
+        CENTER: 'coord@399', // topocentrique
+        COORD_TYPE: 'GEODETIC',
+        SITE_COORD: `'${observer.lon},${observer.lat},${observer.altKm}'`,
+        START_TIME: start,
+        STOP_TIME: stop,
+        STEP_SIZE: '1d',
+        QUANTITIES: "'1,4,8,9,10,20,21,23,24'",
+        ANG_FORMAT: 'DEG',
+        CSV_FORMAT: 'YES'
       }
-      return vx; // déjà en AU/day
-    };
-
-    const timestampLine = block
-      .split('\n')
-      .find((line) => line.trim().length && !line.includes('$$SOE'));
-
-    return {
-      name,
-      x_au: toAu(matchX ? parseFloat(matchX[1]) : csvX),
-      y_au: toAu(matchY ? parseFloat(matchY[1]) : csvY),
-      z_au: toAu(matchZ ? parseFloat(matchZ[1]) : csvZ),
-      vx_au_per_day: matchVx ? toAuPerDay(parseFloat(matchVx[1])) : Number.isFinite(csvVx) ? toAuPerDay(csvVx) : undefined,
-      vy_au_per_day: matchVy ? toAuPerDay(parseFloat(matchVy[1])) : Number.isFinite(csvVy) ? toAuPerDay(csvVy) : undefined,
-      vz_au_per_day: matchVz ? toAuPerDay(parseFloat(matchVz[1])) : Number.isFinite(csvVz) ? toAuPerDay(csvVz) : undefined,
-      velocityUnit: 'AU/day',
-      referenceFrame: 'J2000-ECLIPTIC',
-      source: 'NASA-JPL-Horizons',
-      timestamp: timestampLine?.trim() || new Date().toISOString()
-    };
-  };
-
-  const parseObserverFromResult = (resultText: string) => {
-    const block = resultText.split('$$SOE')[1]?.split('$$EOE')[0];
-    if (!block) {
-      throw new Error('Réponse Horizons OBSERVER sans bloc $$SOE/$$EOE');
-    }
-    const line = block
-      .split('\n')
-      .map((l) => l.trim())
-      .find((l) => l && !l.startsWith('$$'));
-
-    if (!line) {
-      throw new Error('Ligne OBSERVER introuvable');
-    }
-
-    const fields = line.split(',').map((v) => v.trim());
-
-    // Indices basés sur l'ordre CSV Horizons quand QUANTITIES='1,9,10,20,21,23,24'
-    const apMag = parseFloat(fields[5] ?? '');
-    const illumPercent = parseFloat(fields[7] ?? '');
-    const rangeAu = parseFloat(fields[8] ?? '');
-    const rangeRateKmS = parseFloat(fields[9] ?? '');
-    const lightTimeMinutes = parseFloat(fields[10] ?? '');
-    const solarElongationDeg = parseFloat(fields[11] ?? '');
-    const phaseAngleDeg = parseFloat(fields[13] ?? '');
-
-    return {
-      apparent_magnitude: Number.isFinite(apMag) ? apMag : undefined,
-      illumination_fraction: Number.isFinite(illumPercent) ? illumPercent / 100 : undefined,
-      range_au: Number.isFinite(rangeAu) ? rangeAu : undefined,
-      range_rate_km_s: Number.isFinite(rangeRateKmS) ? rangeRateKmS : undefined,
-      light_time_minutes: Number.isFinite(lightTimeMinutes) ? lightTimeMinutes : undefined,
-      solar_elongation_deg: Number.isFinite(solarElongationDeg) ? solarElongationDeg : undefined,
-      phase_angle_deg: Number.isFinite(phaseAngleDeg) ? phaseAngleDeg : undefined
-    };
-  };
-
-  const requestWithFallback = async (params: Record<string, string>, label: string) => {
-    let lastError: any = null;
-    for (const url of HORIZONS_URLS) {
-      for (let attempt = 0; attempt <= HORIZONS_RETRIES; attempt += 1) {
-        try {
-          return await axios.get(url, {
-            params,
-            timeout: HORIZONS_TIMEOUT_MS,
-            headers: {
-              'User-Agent': HORIZONS_USER_AGENT,
-              Accept: 'application/json'
-            }
-          });
-        } catch (err: any) {
-          lastError = err;
-          logWarn('horizons_endpoint_failed', {
-            name,
-            horizonsId,
-            label,
-            url,
-            requestId: options?.correlationId,
-            status: err?.response?.status,
-            attempt,
-            retries: HORIZONS_RETRIES,
-            error: err?.message ?? String(err)
-          });
+    : {
+        format: 'json',
+        COMMAND: horizonsId,
+        EPHEM_TYPE: 'OBSERVER',
+        CENTER: '500@399', // géocentrique
+        START_TIME: start,
+        STOP_TIME: stop,
+        STEP_SIZE: '1d',
+        QUANTITIES: "'1,9,10,20,21,23,24'",
+        CSV_FORMAT: 'YES'
+      };
 
-          if (attempt < HORIZONS_RETRIES && shouldRetry(err)) {
-            const delay = HORIZONS_RETRY_BASE_MS * Math.pow(2, attempt);
-            await sleep(delay);
-            continue;
-          }
-          break;
-        }
+  // Lever / transit / coucher sur les 24 h suivantes, à la minute près.
+  const riseSetParams: Record<string, string> | null = observer
+    ? {
+        ...observerParams,
+        STOP_TIME: formatUtcDate(new Date(epoch.getTime() + 24 * 60 * 60 * 1000)),
+        STEP_SIZE: '1m',
+        QUANTITIES: "'4'",
+        R_T_S_ONLY: 'TVH'
       }
-    }
-    throw lastError ?? new Error('All Horizons endpoints failed');
-  };
+    : null;
+
+  const context = { name, horizonsId, correlationId: options?.correlationId, lane: options?.lane };
+  // Corps pris pour origine (ex: la Terre avec center=earth) : vecteur nul, sans appel.
+  const isCenterBody = params.CENTER === `500@${horizonsId}`;
 
   try {
     const includeObserver = options?.includeObserver ?? false;
     const observerPromise = includeObserver
-      ? requestWithFallback(observerParams, 'observer')
+      ? requestWithFallback(observerParams, observer ? 'observer-topocentric' : 'observer', context)
       : Promise.resolve(null);
-
-    const [vectorResult, observerResult] = await Promise.allSettled([
-      requestWithFallback(params, 'vector'),
-      observerPromise
+    const riseSetPromise =
+      includeObserver && riseSetParams
+        ? requestWithFallback(riseSetParams, 'rise-transit-set', context)
+        : Promise.resolve(null);
+
+    const [vectorResult, observerResult, riseSetResult] = await Promise.allSettled([
+      isCenterBody ? Promise.resolve(null) : requestWithFallback(params, 'vector', context),
+      observerPromise,
+      riseSetPromise
     ]);
 
     if (vectorResult.status !== 'fulfilled') {
@@ -263,18 +446,18 @@ export async function fetchPlanetStateVector(
     const observerResponse = observerResult.status === 'fulfilled' ? observerResult.value : null;
     const latencyMs = Date.now() - requestStarted;
 
-    const data = vectorResponse.data;
-    let observerExtras;
+    const data = vectorResponse?.data;
+    let observerExtras: Partial<PlanetStateVector> | undefined;
     if (observerResponse) {
-      const observerData =
-        typeof observerResponse?.data?.result === 'string'
-          ? observerResponse.data.result
-          : typeof observerResponse?.data === 'string'
-          ? observerResponse.data
-          : undefined;
+      const observerData = resultTextOf(observerResponse);
       if (observerData) {
         try {
-          observerExtras = parseObserverFromResult(observerData);
+          if (observer) {
+            const { topocentric, ...extras } = parseTopocentricFromResult(observerData);
+            observerExtras = { ...extras, topocentric: { site: observer, ...topocentric } };
+          } else {
+            observerExtras = parseObserverFromResult(observerData);
+          }
         } catch (err: any) {
           logWarn('horizons_observer_parse_failed', {
             name,
@@ -293,6 +476,46 @@ export async function fetchPlanetStateVector(
       });
     }
 
+    if (observerExtras?.topocentric && riseSetResult.status === 'fulfilled' && riseSetResult.value) {
+      const riseSetData = resultTextOf(riseSetResult.value);
+      try {
+        if (riseSetData) {
+          Object.assign(observerExtras.topocentric, parseRiseTransitSet(riseSetData));
+        }
+      } catch (err: any) {
+        logWarn('horizons_rise_set_parse_failed', {
+          name,
+          horizonsId,
+          requestId: options?.correlationId,
+          error: err?.message ?? String(err)
+        });
+      }
+    } else if (riseSetResult.status === 'rejected') {
+      logWarn('horizons_rise_set_error', {
+        name,
+        horizonsId,
+        requestId: options?.correlationId,
+        error: riseSetResult.reason?.message ?? String(riseSetResult.reason)
+      });
+    }
+
+    if (!vectorResponse) {
+      return {
+        name,
+        x_au: 0,
+        y_au: 0,
+        z_au: 0,
+        vx_au_per_day: 0,
+        vy_au_per_day: 0,
+        vz_au_per_day: 0,
+        velocityUnit: 'AU/day',
+        referenceFrame: referenceFrameLabel(options?.reference),
+        source: 'NASA-JPL-Horizons',
+        timestamp: epoch.toISOString(),
+        ...observerExtras
+      };
+    }
+
     // Ancienne structure (si jamais l’API fournit encore un tableau `vectors`).
     if (data && data.result && Array.isArray(data.result.vectors) && data.result.vectors.length > 0) {
       const vec = data.result.vectors[0];
@@ -307,7 +530,7 @@ export async function fetchPlanetStateVector(
         throw new Error('Vecteur Horizons invalide (X, Y, Z)');
       }
 
-      const referenceFrame = `${params.REF_SYSTEM}-${params.REF_PLANE}`; // ex: J2000-ECLIPTIC
+      const referenceFrame = referenceFrameLabel(options?.reference); // ex: J2000-ECLIPTIC
       const velocityUnit = 'AU/day';
 
       logInfo('horizons_fetch', { name, horizonsId, latencyMs, requestId: options?.correlationId });
@@ -323,7 +546,7 @@ export async function fetchPlanetStateVector(
         velocityUnit,
         referenceFrame,
         source: 'NASA-JPL-Horizons',
-        timestamp: vec.calendar_date || now.toISOString(),
+        timestamp: vec.calendar_date || epoch.toISOString(),
         ...observerExtras
       };
     }
@@ -340,7 +563,7 @@ export async function fetchPlanetStateVector(
       throw new Error('Réponse Horizons invalide ou vide');
     }
 
-    const parsed = parseVectorFromResult(resultText);
+    const parsed = parseVectorFromResult(resultText, name, epoch);
 
     logInfo('horizons_fetch', {
       name,
@@ -352,6 +575,7 @@ export async function fetchPlanetStateVector(
 
     return {
       ...parsed,
+      referenceFrame: referenceFrameLabel(options?.reference),
       ...observerExtras
     };
   } catch (error: any) {
@@ -373,3 +597,320 @@ export async function fetchPlanetStateVector(
     throw error;
   }
 }
+
+export interface StateVectorSample {
+  timestamp: string;
+  julian_day_tdb?: number;
+  x_au: number;
+  y_au: number;
+  z_au: number;
+  vx_au_per_day?: number;
+  vy_au_per_day?: number;
+  vz_au_per_day?: number;
+}
+
+export interface StateVectorSeries {
+  name: PlanetName | string;
+  referenceFrame: string;
+  velocityUnit: string;
+  timeScale: 'TDB';
+  source: string;
+  samples: StateVectorSample[];
+}
+
+const JD_UNIX_EPOCH = 2_440_587.5;
+
+function julianDayToIso(jd: number): string {
+  return new Date((jd - JD_UNIX_EPOCH) * SECONDS_PER_DAY * 1000).toISOString();
+}
+
+/**
+ * Lit toutes les lignes CSV du bloc $$SOE/$$EOE d'une réponse VECTORS
+ * (JDTDB, date calendaire, X, Y, Z, VX, VY, VZ, ...).
+ */
+function parseVectorRowsFromResult(resultText: string): StateVectorSample[] {
+  const block = resultText.split('$$SOE')[1]?.split('$$EOE')[0];
+  if (!block) {
+    throw new Error('Réponse Horizons sans bloc $$SOE/$$EOE');
+  }
+
+  const { toAu, toAuPerDay } = unitConvertersFor(resultText);
+  const optional = (raw: string | undefined) => {
+    const value = parseFloat(raw ?? '');
+    return Number.isFinite(value) ? toAuPerDay(value) : undefined;
+  };
+
+  const samples: StateVectorSample[] = [];
+  for (const line of block.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('$$')) continue;
+
+    const fields = trimmed.split(',').map((v) => v.trim());
+    const jd = parseFloat(fields[0] ?? '');
+    const x = parseFloat(fields[2] ?? '');
+    const y = parseFloat(fields[3] ?? '');
+    const z = parseFloat(fields[4] ?? '');
+    if (!Number.isFinite(jd) || !Number.isFinite(x) || !Number.isFinite(y) || !Number.isFinite(z)) {
+      continue;
+    }
+
+    samples.push({
+      timestamp: julianDayToIso(jd),
+      julian_day_tdb: jd,
+      x_au: toAu(x),
+      y_au: toAu(y),
+      z_au: toAu(z),
+      vx_au_per_day: optional(fields[5]),
+      vy_au_per_day: optional(fields[6]),
+      vz_au_per_day: optional(fields[7])
+    });
+  }
+
+  if (samples.length === 0) {
+    throw new Error('Aucune ligne de vecteur exploitable dans la réponse Horizons');
+  }
+  return samples;
+}
+
+/**
+ * Lignes qu'Horizons renverrait pour un corps à l'origine du repère : mêmes
+ * instants (START_TIME lu en TDB puis chaque pas, bornes incluses), vecteurs nuls.
+ */
+function zeroVectorSamples(start: Date, stop: Date, step: string): StateVectorSample[] {
+  const stepMinutes = stepSizeToMinutes(step);
+  if (stepMinutes === null) {
+    throw new Error(`Pas Horizons invalide : ${step}`);
+  }
+  const samples: StateVectorSample[] = [];
+  for (let ms = start.getTime(); ms <= stop.getTime(); ms += stepMinutes * 60_000) {
+    samples.push({
+      timestamp: new Date(ms).toISOString(),
+      julian_day_tdb: ms / (SECONDS_PER_DAY * 1000) + JD_UNIX_EPOCH,
+      x_au: 0,
+      y_au: 0,
+      z_au: 0,
+      vx_au_per_day: 0,
+      vy_au_per_day: 0,
+      vz_au_per_day: 0
+    });
+  }
+  return samples;
+}
+
+/**
+ * Série temporelle de vecteurs d'état (sortie VECTORS multi-lignes) entre
+ * `start` et `stop` au pas `step`. Le nombre de lignes est borné par l'appelant.
+ */
+export async function fetchStateVectorSeries(
+  horizonsId: string,
+  name: PlanetName | string,
+  options: { start: Date; stop: Date; step: string; correlationId?: string; reference?: VectorReference }
+): Promise<StateVectorSeries> {
+  const requestStarted = Date.now();
+  const params: Record<string, string> = {
+    format: 'json',
+    COMMAND: horizonsId,
+    EPHEM_TYPE: 'VECTORS',
+    ...horizonsFrameParams(options.reference),
+    START_TIME: formatUtcDate(options.start),
+    STOP_TIME: formatUtcDate(options.stop),
+    STEP_SIZE: options.step.replace(/\s+/g, ''),
+    OUT_UNITS: 'AU-D',
+    VEC_TABLE: '2',
+    CSV_FORMAT: 'YES'
+  };
+  const context = { name, horizonsId, correlationId: options.correlationId };
+  const series = (samples: StateVectorSample[]): StateVectorSeries => ({
+    name,
+    referenceFrame: referenceFrameLabel(options.reference),
+    velocityUnit: 'AU/day',
+    timeScale: 'TDB',
+    source: 'NASA-JPL-Horizons',
+    samples
+  });
+
+  // Corps pris pour origine : vecteurs nuls à chaque pas, sans appel (comme fetchPlanetStateVector).
+  if (params.CENTER === `500@${horizonsId}`) {
+    return series(zeroVectorSamples(options.start, options.stop, options.step));
+  }
+
+  try {
+    const response = await requestWithFallback(params, 'vector-series', context);
+    const data = response.data;
+    const resultText: string | undefined =
+      typeof data?.result === 'string'
+        ? data.result
+        : typeof data === 'string'
+        ? data
+        : undefined;
+
+    if (!resultText) {
+      throw new Error('Réponse Horizons invalide ou vide');
+    }
+
+    const samples = parseVectorRowsFromResult(resultText);
+
+    logInfo('horizons_fetch_series', {
+      name,
+      horizonsId,
+      rows: samples.length,
+      latencyMs: Date.now() - requestStarted,
+      requestId: options.correlationId
+    });
+
+    return series(samples);
+  } catch (error: any) {
+    logError('horizons_fetch_series_error', {
+      name,
+      horizonsId,
+      latencyMs: Date.now() - requestStarted,
+      status: error?.response?.status,
+      params,
+      requestId: options.correlationId,
+      error: error?.message ?? String(error)
+    });
+    throw error;
+  }
+}
+
+export interface OsculatingElements {
+  /** Instant des éléments (UTC approximé depuis JDTDB). */
+  epoch: string;
+  julian_day_tdb: number;
+  eccentricity: number;
+  periapsis_au: number;
+  inclination_deg: number;
+  /** Ω : longitude du nœud ascendant. */
+  ascending_node_deg: number;
+  /** ω : argument du périapse. */
+  argument_of_periapsis_deg: number;
+  time_of_periapsis_jd?: number;
+  mean_motion_deg_per_day?: number;
+  mean_anomaly_deg: number;
+  true_anomaly_deg?: number;
+  /** Négatif pour une trajectoire hyperbolique (e > 1). */
+  semi_major_axis_au: number;
+  /** Absents (infinis) pour une trajectoire ouverte. */
+  apoapsis_au?: number;
+  period_days?: number;
+}
+
+export interface OsculatingElementsResult {
+  elements: OsculatingElements;
+  /** Corps central (COMMAND Horizons), ex: "10" pour le Soleil. */
+  centerId: string;
+  referenceFrame: string;
+  source: string;
+}
+
+// Horizons remplace les grandeurs infinies (apoapse, période d'une hyperbole) par 9.999E+99.
+function finiteElement(raw: string | undefined): number | undefined {
+  const value = finiteOrUndefined(raw);
+  return value !== undefined && Math.abs(value) < 1e90 ? value : undefined;
+}
+
+/**
+ * Première ligne CSV d'une réponse ELEMENTS :
+ * JDTDB, date, EC, QR, IN, OM, W, Tp, N, MA, TA, A, AD, PR (unités AU-D).
+ */
+export function parseElementsFromResult(resultText: string): OsculatingElements {
+  const block = resultText.split('$$SOE')[1]?.split('$$EOE')[0];
+  if (!block) {
+    throw new Error('Réponse Horizons ELEMENTS sans bloc $$SOE/$$EOE');
+  }
+  const line = block
+    .split('\n')
+    .map((l) => l.trim())
+    .find((l) => l && !l.startsWith('$$'));
+  if (!line) {
+    throw new Error('Ligne ELEMENTS introuvable');
+  }
+
+  const fields = line.split(',').map((v) => v.trim());
+  const jd = parseFloat(fields[0] ?? '');
+  const required = [2, 3, 4, 5, 6, 9, 11].map((i) => finiteOrUndefined(fields[i]));
+  if (!Number.isFinite(jd) || required.some((v) => v === undefined)) {
+    throw new Error('Éléments orbitaux Horizons invalides');
+  }
+  const [ec, qr, inc, om, w, ma, a] = required as number[];
+
+  return {
+    epoch: julianDayToIso(jd),
+    julian_day_tdb: jd,
+    eccentricity: ec,
+    periapsis_au: qr,
+    inclination_deg: inc,
+    ascending_node_deg: om,
+    argument_of_periapsis_deg: w,
+    time_of_periapsis_jd: finiteOrUndefined(fields[7]),
+    mean_motion_deg_per_day: finiteOrUndefined(fields[8]),
+    mean_anomaly_deg: ma,
+    true_anomaly_deg: finiteOrUndefined(fields[10]),
+    semi_major_axis_au: a,
+    apoapsis_au: finiteElement(fields[12]),
+    period_days: finiteElement(fields[13])
+  };
+}
+
+/**
+ * Éléments orbitaux osculateurs (EPHEM_TYPE=ELEMENTS) de `horizonsId` autour
+ * du corps `centerId`, dans l'écliptique J2000, à l'instant `at` (défaut : maintenant).
+ */
+export async function fetchOsculatingElements(
+  horizonsId: string,
+  name: string,
+  options: { centerId: string; at?: Date; correlationId?: string }
+): Promise<OsculatingElementsResult> {
+  const requestStarted = Date.now();
+  const epoch = options.at ?? new Date();
+  const params: Record<string, string> = {
+    format: 'json',
+    COMMAND: horizonsId,
+    EPHEM_TYPE: 'ELEMENTS',
+    CENTER: `500@${options.centerId}`,
+    REF_PLANE: 'ECLIPTIC',
+    REF_SYSTEM: 'J2000',
+    START_TIME: formatUtcDate(epoch),
+    STOP_TIME: formatUtcDate(new Date(epoch.getTime() + 60 * 60 * 1000)),
+    STEP_SIZE: '1d',
+    OUT_UNITS: 'AU-D',
+    CSV_FORMAT: 'YES'
+  };
+  const context = { name, horizonsId, correlationId: options.correlationId };
+
+  try {
+    const response = await requestWithFallback(params, 'elements', context);
+    const resultText = resultTextOf(response);
+    if (!resultText) {
+      throw new Error('Réponse Horizons invalide ou vide');
+    }
+
+    const elements = parseElementsFromResult(resultText);
+
+    logInfo('horizons_fetch_elements', {
+      name,
+      horizonsId,
+      centerId: options.centerId,
+      latencyMs: Date.now() - requestStarted,
+      requestId: options.correlationId
+    });
+
+    return {
+      elements,
+      centerId: options.centerId,
+      referenceFrame: `${params.REF_SYSTEM}-${params.REF_PLANE}`,
+      source: 'NASA-JPL-Horizons'
+    };
+  } catch (error: any) {
+    logError('horizons_fetch_elements_error', {
+      name,
+      horizonsId,
+      centerId: options.centerId,
+      latencyMs: Date.now() - requestStarted,
+      status: error?.response?.status,
+      requestId: options.correlationId,
+      error: error?.message ?? String(error)
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,280 @@
+import { performance } from 'perf_hooks';
+
+import { logInfo, logWarn } from '../observability/logger';
+import {
+  recordCircuitState,
+  recordSchedulerInFlight,
+  recordSchedulerQueue,
+  recordSchedulerRejected,
+  recordSchedulerWait
+} from '../observability/metrics';
+
+/** `interactive` : requête d'un utilisateur ; `prewarm` : rafraîchissement de fond. */
+export type HorizonsLane = 'interactive' | 'prewarm';
+export type CircuitState = 'closed' | 'open' | 'half-open';
+export type SchedulerRejection = 'circuit_open' | 'queue_full' | 'queue_timeout';
+
+export interface HorizonsSchedulerOptions {
+  /** Appels Horizons simultanés, toutes files confondues. */
+  maxConcurrency: number;
+  /** Part de `maxConcurrency` ouverte à la file `prewarm`. */
+  prewarmMaxConcurrency: number;
+  /** Débit moyen autorisé (jetons/s) ; 0 = illimité. */
+  ratePerSecond: number;
+  /** Taille du seau : rafale tolérée après une période calme. */
+  burst: number;
+  /** Échecs consécutifs (5xx, 429, timeout) avant ouverture ; 0 = disjoncteur désactivé. */
+  breakerThreshold: number;
+  breakerCooldownMs: number;
+  queueMax: number;
+  queueTimeoutMs: number;
+  /** Publie l'état sur /metrics (instance partagée uniquement). */
+  reportMetrics: boolean;
+}
+
+export interface HorizonsSchedulerState {
+  circuit: CircuitState;
+  consecutiveFailures: number;
+  inFlight: number;
+  queued: Record<HorizonsLane, number>;
+  tokens: number;
+}
+
+export interface HorizonsScheduler {
+  /** Exécute `task` quand un créneau et un jeton sont disponibles et que le disjoncteur le permet. */
+  schedule<T>(task: () => Promise<T>, lane?: HorizonsLane): Promise<T>;
+  state(): HorizonsSchedulerState;
+}
+
+/** Requête refusée par l'ordonnanceur sans avoir été envoyée à Horizons. */
+export class HorizonsSchedulerError extends Error {
+  constructor(readonly reason: SchedulerRejection, message: string) {
+    super(message);
+    this.name = 'HorizonsSchedulerError';
+  }
+}
+
+/** Même critère que les retries : pas de réponse, 5xx ou 429. */
+export function isUpstreamFailure(error: any): boolean {
+  const status = error?.response?.status;
+  if (!status) return !(error instanceof HorizonsSchedulerError);
+  return status >= 500 || status === 429;
+}
+
+interface QueuedTask {
+  lane: HorizonsLane;
+  enqueuedAt: number;
+  run: () => void;
+  reject: (err: Error) => void;
+}
+
+const CIRCUIT_STATE_VALUE: Record<CircuitState, 0 | 1 | 2> = { closed: 0, 'half-open': 1, open: 2 };
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name] ?? fallback);
+  return Number.isFinite(value) ? value : fallback;
+}
+
+export function schedulerOptionsFromEnv(): HorizonsSchedulerOptions {
+  const maxConcurrency = Math.max(1, envNumber('HORIZONS_MAX_CONCURRENCY', 4));
+  return {
+    maxConcurrency,
+    prewarmMaxConcurrency: Math.max(
+      1,
+      Math.min(maxConcurrency, envNumber('HORIZONS_PREWARM_MAX_CONCURRENCY', Math.floor(maxConcurrency / 2)))
+    ),
+    ratePerSecond: Math.max(0, envNumber('HORIZONS_RATE_PER_SEC', 5)),
+    // Un snapshot planets/full = 16 appels : il passe d'un bloc après une période calme.
+    burst: Math.max(1, envNumber('HORIZONS_RATE_BURST', 20)),
+    breakerThreshold: Math.max(0, envNumber('HORIZONS_BREAKER_THRESHOLD', 5)),
+    breakerCooldownMs: Math.max(0, envNumber('HORIZONS_BREAKER_COOLDOWN_MS', 30_000)),
+    queueMax: Math.max(1, envNumber('HORIZONS_QUEUE_MAX', 500)),
+    queueTimeoutMs: Math.max(0, envNumber('HORIZONS_QUEUE_TIMEOUT_MS', 30_000)),
+    reportMetrics: false
+  };
+}
+
+/**
+ * Ordonnanceur des appels Horizons : plafond de concurrence global, seau à
+ * jetons et disjoncteur. La file `interactive` passe toujours avant `prewarm`,
+ * qui n'a droit qu'à une partie des créneaux. Horloge monotone : les tests qui
+ * figent `Date.now` ne bloquent pas le seau.
+ */
+export function createHorizonsScheduler(overrides?: Partial<HorizonsSchedulerOptions>): HorizonsScheduler {
+  const options: HorizonsSchedulerOptions = { ...schedulerOptionsFromEnv(), ...overrides };
+  const queues: Record<HorizonsLane, QueuedTask[]> = { interactive: [], prewarm: [] };
+  const inFlightByLane: Record<HorizonsLane, number> = { interactive: 0, prewarm: 0 };
+
+  let tokens = options.burst;
+  let lastRefill = performance.now();
+  let refillTimer: ReturnType<typeof setTimeout> | null = null;
+
+  let circuit: CircuitState = 'closed';
+  let consecutiveFailures = 0;
+  let openUntil = 0;
+  let probeInFlight = false;
+
+  const inFlight = () => inFlightByLane.interactive + inFlightByLane.prewarm;
+
+  function reportQueues(): void {
+    if (!options.reportMetrics) return;
+    recordSchedulerQueue('interactive', queues.interactive.length);
+    recordSchedulerQueue('prewarm', queues.prewarm.length);
+    recordSchedulerInFlight(inFlight());
+  }
+
+  function setCircuit(next: CircuitState): void {
+    if (next === circuit) return;
+    circuit = next;
+    if (options.reportMetrics) recordCircuitState(CIRCUIT_STATE_VALUE[next], next);
+    if (next === 'open') {
+      logWarn('horizons_circuit_open', {
+        consecutiveFailures,
+        cooldownMs: options.breakerCooldownMs
+      });
+    } else {
+      logInfo(next === 'closed' ? 'horizons_circuit_closed' : 'horizons_circuit_half_open', {});
+    }
+  }
+
+  function refill(): void {
+    if (options.ratePerSecond <= 0) return;
+    const now = performance.now();
+    tokens = Math.min(options.burst, tokens + ((now - lastRefill) * options.ratePerSecond) / 1000);
+    lastRefill = now;
+  }
+
+  /** Ouvert et refroidi → demi-ouvert : une seule requête sonde passe. */
+  function circuitAllows(): boolean {
+    if (circuit === 'open') {
+      if (performance.now() < openUntil) return false;
+      setCircuit('half-open');
+    }
+    return circuit === 'closed' || !probeInFlight;
+  }
+
+  function reject(task: QueuedTask, reason: SchedulerRejection, message: string): void {
+    if (options.reportMetrics) recordSchedulerRejected(reason);
+    task.reject(new HorizonsSchedulerError(reason, message));
+  }
+
+  function nextLane(): HorizonsLane | null {
+    if (inFlight() >= options.maxConcurrency) return null;
+    if (queues.interactive.length) return 'interactive';
+    if (queues.prewarm.length && inFlightByLane.prewarm < options.prewarmMaxConcurrency) return 'prewarm';
+    return null;
+  }
+
+  function pump(): void {
+    for (let lane = nextLane(); lane; lane = nextLane()) {
+      const head = queues[lane][0];
+      const waitedMs = performance.now() - head.enqueuedAt;
+      if (options.queueTimeoutMs > 0 && waitedMs > options.queueTimeoutMs) {
+        queues[lane].shift();
+        reject(head, 'queue_timeout', `Horizons : attente en file supérieure à ${options.queueTimeoutMs} ms`);
+        continue;
+      }
+      if (!circuitAllows()) {
+        queues[lane].shift();
+        reject(head, 'circuit_open', 'Horizons : disjoncteur ouvert, requête non envoyée');
+        continue;
+      }
+
+      refill();
+      if (options.ratePerSecond > 0 && tokens < 1) {
+        if (!refillTimer) {
+          const delayMs = Math.ceil(((1 - tokens) * 1000) / options.ratePerSecond);
+          refillTimer = setTimeout(() => {
+            refillTimer = null;
+            pump();
+          }, delayMs);
+        }
+        break;
+      }
+
+      queues[lane].shift();
+      if (options.ratePerSecond > 0) tokens -= 1;
+      if (circuit === 'half-open') probeInFlight = true;
+      inFlightByLane[lane] += 1;
+      if (options.reportMetrics) recordSchedulerWait(lane, waitedMs);
+      head.run();
+    }
+    reportQueues();
+  }
+
+  function settle(lane: HorizonsLane, wasProbe: boolean, error?: unknown): void {
+    inFlightByLane[lane] -= 1;
+    if (wasProbe) probeInFlight = false;
+
+    if (error !== undefined && isUpstreamFailure(error)) {
+      consecutiveFailures += 1;
+      const tripped =
+        circuit === 'half-open' ||
+        (options.breakerThreshold > 0 && consecutiveFailures >= options.breakerThreshold);
+      if (tripped) {
+        openUntil = performance.now() + options.breakerCooldownMs;
+        setCircuit('open');
+      }
+    } else {
+      // Toute réponse d'Horizons (même une 400) prouve qu'il tient la charge.
+      consecutiveFailures = 0;
+      setCircuit('closed');
+    }
+    pump();
+  }
+
+  function schedule<T>(task: () => Promise<T>, lane: HorizonsLane = 'interactive'): Promise<T> {
+    return new Promise<T>((resolve, rejectPromise) => {
+      const queued: QueuedTask = {
+        lane,
+        enqueuedAt: performance.now(),
+        reject: rejectPromise,
+        run: () => {
+          const wasProbe = circuit === 'half-open';
+          Promise.resolve()
+            .then(task)
+            .then(
+              (value) => {
+                settle(lane, wasProbe);
+                resolve(value);
+              },
+              (err) => {
+                settle(lane, wasProbe, err ?? new Error('Horizons : échec sans erreur'));
+                rejectPromise(err);
+              }
+            );
+        }
+      };
+
+      if (circuit === 'open' && performance.now() < openUntil) {
+        reject(queued, 'circuit_open', 'Horizons : disjoncteur ouvert, requête non envoyée');
+        return;
+      }
+      if (queues.interactive.length + queues.prewarm.length >= options.queueMax) {
+        reject(queued, 'queue_full', `Horizons : file pleine (${options.queueMax} requêtes)`);
+        return;
+      }
+      queues[lane].push(queued);
+      pump();
+    });
+  }
+
+  if (options.reportMetrics) recordCircuitState(0);
+
+  return {
+    schedule,
+    state: () => {
+      refill();
+      return {
+        circuit,
+        consecutiveFailures,
+        inFlight: inFlight(),
+        queued: { interactive: queues.interactive.length, prewarm: queues.prewarm.length },
+        tokens
+      };
+    }
+  };
+}
+
+/** Instance partagée par tous les appels du client Horizons. */
+export const horizonsScheduler = createHorizonsScheduler({ reportMetrics: true });
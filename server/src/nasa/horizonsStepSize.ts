@@ -0,0 +1,22 @@
+/**
+ * Pas de temps Horizons (`STEP_SIZE`), sans dépendance : importé par le client
+ * Horizons et par le simulateur, que les tests démarrent avant de charger le
+ * client (qui lit HORIZONS_API_URL à l'import).
+ */
+
+const STEP_SIZE_PATTERN = /^(\d+)\s*(m|h|d)$/i;
+const MINUTES_BY_STEP_UNIT: Record<string, number> = { m: 1, h: 60, d: 1440 };
+
+/**
+ * Convertit un pas Horizons ("30m", "6h", "1d") en minutes.
+ * Renvoie `null` pour un format non supporté (mois/années exclus : durée variable).
+ */
+export function stepSizeToMinutes(step: string): number | null {
+  const match = STEP_SIZE_PATTERN.exec(step.trim());
+  if (!match) {
+    return null;
+  }
+  const value = Number(match[1]);
+  const minutes = value * MINUTES_BY_STEP_UNIT[match[2].toLowerCase()];
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : null;
+}
@@ -41,6 +41,68 @@ const horizonsLatency = new Histogram({
   registers: [metricsRegistry]
 });
 
+const streamClients = new Gauge({
+  name: 'stream_clients',
+  help: 'Clients connectés au flux live (par transport).',
+  labelNames: ['transport'],
+  registers: [metricsRegistry]
+});
+
+const dsnRequests = new Counter({
+  name: 'dsn_requests_total',
+  help: 'Requêtes /api/dsn par issue (hit, success, stale, error).',
+  labelNames: ['outcome'],
+  registers: [metricsRegistry]
+});
+
+const dsnLatency = new Histogram({
+  name: 'dsn_fetch_duration_ms',
+  help: 'Latence du téléchargement + parsing du flux DSN Now (ms).',
+  buckets: [50, 100, 200, 400, 800, 1600, 3200, 6400],
+  registers: [metricsRegistry]
+});
+
+const circuitState = new Gauge({
+  name: 'horizons_circuit_state',
+  help: 'Disjoncteur Horizons : 0 fermé, 1 demi-ouvert, 2 ouvert.',
+  registers: [metricsRegistry]
+});
+
+const circuitTransitions = new Counter({
+  name: 'horizons_circuit_transitions_total',
+  help: 'Changements d’état du disjoncteur Horizons (par état atteint).',
+  labelNames: ['state'],
+  registers: [metricsRegistry]
+});
+
+const schedulerQueueDepth = new Gauge({
+  name: 'horizons_scheduler_queue_depth',
+  help: 'Requêtes Horizons en attente dans l’ordonnanceur (par file).',
+  labelNames: ['lane'],
+  registers: [metricsRegistry]
+});
+
+const schedulerInFlight = new Gauge({
+  name: 'horizons_scheduler_in_flight',
+  help: 'Requêtes Horizons en cours.',
+  registers: [metricsRegistry]
+});
+
+const schedulerWait = new Histogram({
+  name: 'horizons_scheduler_wait_ms',
+  help: 'Attente en file avant envoi à Horizons (ms).',
+  labelNames: ['lane'],
+  buckets: [0, 10, 50, 100, 250, 500, 1000, 2500, 5000, 10000],
+  registers: [metricsRegistry]
+});
+
+const schedulerRejected = new Counter({
+  name: 'horizons_scheduler_rejected_total',
+  help: 'Requêtes Horizons refusées sans envoi (circuit_open, queue_full, queue_timeout).',
+  labelNames: ['reason'],
+  registers: [metricsRegistry]
+});
+
 export function recordCacheHit(
   backend: CacheBackend,
   state: CacheState,
@@ -67,6 +129,46 @@ export function recordHorizonsLatency(latencyMs: number): void {
   }
 }
 
+export function recordStreamClient(transport: 'sse' | 'websocket', delta: 1 | -1): void {
+  streamClients.inc({ transport }, delta);
+}
+
+export function recordDsnRequest(
+  outcome: 'hit' | 'success' | 'stale' | 'error',
+  latencyMs?: number
+): void {
+  dsnRequests.inc({ outcome });
+  if (latencyMs !== undefined && Number.isFinite(latencyMs)) {
+    dsnLatency.observe(latencyMs);
+  }
+}
+
+/** `transitionTo` absent : simple initialisation de la jauge. */
+export function recordCircuitState(value: 0 | 1 | 2, transitionTo?: string): void {
+  circuitState.set(value);
+  if (transitionTo) {
+    circuitTransitions.inc({ state: transitionTo });
+  }
+}
+
+export function recordSchedulerQueue(lane: string, depth: number): void {
+  schedulerQueueDepth.set({ lane }, depth);
+}
+
+export function recordSchedulerInFlight(count: number): void {
+  schedulerInFlight.set(count);
+}
+
+export function recordSchedulerWait(lane: string, waitMs: number): void {
+  if (Number.isFinite(waitMs)) {
+    schedulerWait.observe({ lane }, waitMs);
+  }
+}
+
+export function recordSchedulerRejected(reason: string): void {
+  schedulerRejected.inc({ reason });
+}
+
 export function getMetricsSnapshot(): Promise<string> {
   return metricsRegistry.metrics();
 }
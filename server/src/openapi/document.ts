@@ -0,0 +1,876 @@
+import { BODY_IDS, PLANET_NAMES } from '@solar-system/shared';
+import { REFERENCE_CENTERS, REFERENCE_PLANES } from '../config/frames';
+import { SITES } from '../config/sites';
+import { BODY_BATCH_MAX_IDS } from '../cache/bodyEphemerisCache';
+import { HISTORY_MAX_ENTRIES } from '../cache/snapshotArchive';
+import { SERIES_MAX_ROWS } from '../cache/seriesCache';
+import { EXPORT_CONTENT_TYPES, EXPORT_FORMATS, EXPORT_MAX_BODIES, EXPORT_TARGETS } from '../services/exportService';
+import { JsonSchema } from './jsonSchema';
+
+export interface ParameterSpec {
+  name: string;
+  in: 'query' | 'path';
+  required?: boolean;
+  description: string;
+  schema: JsonSchema;
+}
+
+export interface OperationSpec {
+  operationId: string;
+  /** Chemin OpenAPI complet (`/api/ephemeris/body/{id}`). */
+  path: string;
+  summary: string;
+  tag: string;
+  parameters: ParameterSpec[];
+  /** `application/json` par défaut ; plusieurs types quand `format=` choisit la sortie. */
+  response: { description: string; schema: JsonSchema; contentTypes?: string[] };
+  /** Codes d'erreur possibles, tous au format `Error`. */
+  errors: number[];
+}
+
+interface OpenApiResponse {
+  description: string;
+  content: Record<string, { schema: JsonSchema }>;
+}
+
+/** Document servi par `/api/openapi.json` (sous-ensemble d'OpenAPI 3.0 utilisé ici). */
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description: string };
+  paths: Record<
+    string,
+    {
+      get: {
+        operationId: string;
+        summary: string;
+        tags: string[];
+        parameters: Array<Omit<ParameterSpec, 'required'> & { required: boolean; style?: string; explode?: boolean }>;
+        responses: Record<string, OpenApiResponse>;
+      };
+    }
+  >;
+  components: { schemas: Record<string, JsonSchema> };
+}
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+const number: JsonSchema = { type: 'number' };
+const string: JsonSchema = { type: 'string' };
+const dateTime: JsonSchema = { type: 'string', format: 'date-time' };
+// Époque telle que l'écrit Horizons ("2460370.500000000 = A.D. 2024-Mar-01 00:00:00.0000 TDB"), ISO à défaut.
+const horizonsEpoch: JsonSchema = {
+  type: 'string',
+  description: 'Epoch as written by Horizons (Julian day and calendar date, TDB), or ISO-8601.'
+};
+const stringList: JsonSchema = { type: 'array', items: string };
+const cacheStatus = (...values: string[]): JsonSchema => ({ type: 'string', enum: values });
+const vector = (unit: string): JsonSchema => ({
+  type: 'object',
+  nullable: true,
+  description: unit,
+  properties: { x: number, y: number, z: number }
+});
+const velocity = (unit: string): JsonSchema => ({
+  type: 'object',
+  nullable: true,
+  description: unit,
+  properties: {
+    vx: { ...number, nullable: true },
+    vy: { ...number, nullable: true },
+    vz: { ...number, nullable: true }
+  }
+});
+
+// --- Paramètres partagés ----------------------------------------------------
+
+const refresh: ParameterSpec = {
+  name: 'refresh',
+  in: 'query',
+  description: 'Bypass the caches (`1` or `true`). Same as the `X-Refresh-Cache` header.',
+  schema: { type: 'string', enum: ['0', '1', 'true', 'false'] }
+};
+
+const at: ParameterSpec = {
+  name: 'at',
+  in: 'query',
+  description: 'Requested instant (ISO-8601). Defaults to now.',
+  schema: dateTime
+};
+
+const reference: ParameterSpec[] = [
+  {
+    name: 'center',
+    in: 'query',
+    description: 'Origin of the vectors: solar system barycenter, Sun or a planet center.',
+    schema: { type: 'string', enum: REFERENCE_CENTERS, default: 'ssb' }
+  },
+  {
+    name: 'frame',
+    in: 'query',
+    description: 'Reference plane: J2000 ecliptic or ICRF equator.',
+    schema: { type: 'string', enum: REFERENCE_PLANES, default: 'ecliptic' }
+  }
+];
+
+const observer: ParameterSpec[] = [
+  {
+    name: 'site',
+    in: 'query',
+    description: 'Named observing site. Takes precedence over `lat`/`lon`.',
+    schema: { type: 'string', enum: SITES.map((s) => s.site) }
+  },
+  {
+    name: 'lat',
+    in: 'query',
+    description: 'Observer geodetic latitude (decimal degrees). Requires `lon`.',
+    schema: { type: 'number', minimum: -90, maximum: 90 }
+  },
+  {
+    name: 'lon',
+    in: 'query',
+    description: 'Observer longitude (decimal degrees, positive East). Requires `lat`.',
+    schema: { type: 'number', minimum: -180, maximum: 180 }
+  },
+  {
+    name: 'alt',
+    in: 'query',
+    description: 'Observer altitude (meters).',
+    schema: { type: 'number', minimum: -500, maximum: 10_000, default: 0 }
+  }
+];
+
+const seriesWindow: ParameterSpec[] = [
+  { name: 'start', in: 'query', required: true, description: 'Window start (ISO-8601).', schema: dateTime },
+  { name: 'stop', in: 'query', required: true, description: 'Window end (ISO-8601), after `start`.', schema: dateTime },
+  {
+    name: 'step',
+    in: 'query',
+    description: `Horizons step (e.g. \`30m\`, \`6h\`, \`1d\`). At most ${SERIES_MAX_ROWS} rows per request.`,
+    schema: { type: 'string', pattern: '^\\s*\\d+\\s*[A-Za-z]+\\s*$', default: '1d' }
+  }
+];
+
+const bodyIdPath: ParameterSpec = {
+  name: 'id',
+  in: 'path',
+  required: true,
+  description: 'Body id (`sun` or a moon id, e.g. `europa`).',
+  schema: { type: 'string', pattern: '^[A-Za-z0-9_-]+$' }
+};
+
+const spacecraftIdPath: ParameterSpec = {
+  name: 'id',
+  in: 'path',
+  required: true,
+  description: 'Spacecraft id from `/api/spacecraft` (e.g. `voyager1`).',
+  schema: { type: 'string', pattern: '^[A-Za-z0-9_-]+$' }
+};
+
+// --- Schémas des réponses ---------------------------------------------------
+
+/** Champs communs aux corps d'un snapshot et de `/body/:id`. */
+const bodyFields: Record<string, JsonSchema> = {
+  timestamp: horizonsEpoch,
+  x_au: number,
+  y_au: number,
+  z_au: number,
+  vx: number,
+  vy: number,
+  vz: number,
+  velocityUnit: string,
+  range_au: number,
+  range_rate_km_s: number,
+  light_time_minutes: number,
+  solar_elongation_deg: number,
+  phase_angle_deg: number,
+  illumination_fraction: number,
+  apparent_magnitude: number,
+  topocentric: ref('TopocentricObservation')
+};
+
+/** En-tête des séries temporelles (`/planets/series`, `/body/:id/series`). */
+const seriesHeaderFields: Record<string, JsonSchema> = {
+  start: dateTime,
+  stop: dateTime,
+  step: string,
+  timeScale: { type: 'string', enum: ['TDB'] },
+  referenceFrame: string,
+  center: string,
+  distanceUnit: { type: 'string', enum: ['AU'] },
+  velocityUnit: string,
+  source: string
+};
+
+export const COMPONENT_SCHEMAS: Record<string, JsonSchema> = {
+  Error: {
+    type: 'object',
+    required: ['error'],
+    properties: {
+      error: string,
+      requestId: string,
+      details: {
+        type: 'array',
+        description: 'Invalid parameters (400 only).',
+        items: {
+          type: 'object',
+          required: ['in', 'name', 'message'],
+          properties: {
+            in: { type: 'string', enum: ['query', 'path'] },
+            name: string,
+            message: string
+          }
+        }
+      }
+    }
+  },
+  ObserverLocation: {
+    type: 'object',
+    required: ['lat', 'lon', 'altKm'],
+    properties: { lat: number, lon: number, altKm: number, site: string }
+  },
+  TopocentricObservation: {
+    type: 'object',
+    required: ['site'],
+    properties: {
+      site: ref('ObserverLocation'),
+      ra_deg: number,
+      dec_deg: number,
+      azimuth_deg: number,
+      elevation_deg: number,
+      airmass: number,
+      above_horizon: { type: 'boolean' },
+      rise: dateTime,
+      transit: dateTime,
+      set: dateTime
+    }
+  },
+  EphemerisBody: {
+    type: 'object',
+    required: ['name', 'x_au', 'y_au', 'z_au'],
+    properties: { ...bodyFields, name: string }
+  },
+  EphemerisSnapshot: {
+    type: 'object',
+    required: ['timestamp', 'metadata', 'bodies'],
+    properties: {
+      timestamp: horizonsEpoch,
+      metadata: {
+        type: 'object',
+        properties: {
+          source: string,
+          referenceFrame: string,
+          center: string,
+          distanceUnit: string,
+          velocityUnit: string,
+          responseTimeMs: number,
+          cacheStatus: cacheStatus('HIT', 'MISS', 'STALE', 'FROZEN'),
+          cacheBackend: string,
+          cacheAgeMs: number,
+          cacheExpiresInMs: number,
+          cacheStale: { type: 'boolean' },
+          generatedAt: dateTime,
+          epoch: dateTime,
+          observer: ref('ObserverLocation'),
+          frozenSnapshot: { type: 'boolean' },
+          freezeReason: string,
+          requestId: string,
+          partial: { type: 'boolean' },
+          fallbackBodies: stringList,
+          missingBodies: stringList
+        }
+      },
+      bodies: { type: 'array', items: ref('EphemerisBody') }
+    }
+  },
+  BodyEphemeris: {
+    type: 'object',
+    required: ['id', 'timestamp', 'x_au', 'y_au', 'z_au'],
+    properties: {
+      ...bodyFields,
+      id: { type: 'string', enum: BODY_IDS },
+      referenceFrame: string,
+      center: string,
+      source: string,
+      metadata: {
+        type: 'object',
+        properties: {
+          cacheStatus: cacheStatus('HIT', 'MISS', 'FROZEN'),
+          cacheAgeMs: number,
+          cacheExpiresInMs: number,
+          responseTimeMs: number,
+          requestId: string,
+          epoch: dateTime,
+          observer: ref('ObserverLocation'),
+          frozenSnapshot: { type: 'boolean' },
+          freezeReason: string
+        }
+      }
+    }
+  },
+  BodyBatch: {
+    type: 'object',
+    required: ['timestamp', 'bodies', 'errors', 'metadata'],
+    properties: {
+      timestamp: dateTime,
+      requestId: string,
+      bodies: { type: 'array', items: ref('BodyEphemeris') },
+      errors: {
+        type: 'array',
+        items: { type: 'object', required: ['id', 'error'], properties: { id: string, error: string } }
+      },
+      metadata: {
+        type: 'object',
+        required: ['responseTimeMs', 'cacheStatus', 'referenceFrame', 'center'],
+        properties: {
+          responseTimeMs: number,
+          cacheStatus: { type: 'object', additionalProperties: { type: 'integer' } },
+          epoch: dateTime,
+          observer: ref('ObserverLocation'),
+          referenceFrame: string,
+          center: string
+        }
+      }
+    }
+  },
+  SeriesSample: {
+    type: 'object',
+    required: ['timestamp', 'x_au', 'y_au', 'z_au'],
+    properties: {
+      timestamp: string,
+      julian_day_tdb: number,
+      x_au: number,
+      y_au: number,
+      z_au: number,
+      vx: number,
+      vy: number,
+      vz: number
+    }
+  },
+  BodySeries: {
+    type: 'object',
+    required: ['id', 'start', 'stop', 'step', 'referenceFrame', 'center', 'samples'],
+    properties: {
+      ...seriesHeaderFields,
+      id: string,
+      name: string,
+      samples: { type: 'array', items: ref('SeriesSample') },
+      metadata: { type: 'object' }
+    }
+  },
+  PlanetSeries: {
+    type: 'object',
+    required: ['start', 'stop', 'step', 'referenceFrame', 'center', 'bodies', 'metadata'],
+    properties: {
+      ...seriesHeaderFields,
+      bodies: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['name', 'samples'],
+          properties: {
+            name: { type: 'string', enum: PLANET_NAMES },
+            samples: { type: 'array', items: ref('SeriesSample') }
+          }
+        }
+      },
+      metadata: {
+        type: 'object',
+        properties: { partial: { type: 'boolean' }, missingBodies: stringList }
+      }
+    }
+  },
+  CzmlPacket: {
+    type: 'object',
+    description: 'CZML packet; the first one is the `document` packet carrying the clock.',
+    required: ['id'],
+    properties: {
+      id: string,
+      name: string,
+      version: string,
+      availability: string,
+      clock: { type: 'object' },
+      properties: { type: 'object' },
+      position: {
+        type: 'object',
+        properties: {
+          epoch: dateTime,
+          referenceFrame: { type: 'string', enum: ['INERTIAL'] },
+          interpolationAlgorithm: { type: 'string', enum: ['LAGRANGE'] },
+          interpolationDegree: { type: 'integer' },
+          cartesian: { type: 'array', items: number }
+        }
+      },
+      point: { type: 'object' },
+      label: { type: 'object' },
+      path: { type: 'object' },
+      orientation: { type: 'object' }
+    }
+  },
+  History: {
+    type: 'object',
+    required: ['from', 'to', 'count', 'truncated', 'entries'],
+    properties: {
+      from: dateTime,
+      to: dateTime,
+      body: string,
+      count: { type: 'integer' },
+      truncated: { type: 'boolean' },
+      entries: { type: 'array', items: { type: 'object' } },
+      requestId: string
+    }
+  },
+  Interpolation: {
+    type: 'object',
+    required: ['start', 'stop', 'method', 'bodies'],
+    properties: {
+      start: dateTime,
+      stop: dateTime,
+      method: { type: 'string', enum: ['chebyshev'] },
+      timeScale: string,
+      referenceFrame: string,
+      distanceUnit: string,
+      velocityUnit: string,
+      toleranceKm: number,
+      bodies: { type: 'array', items: { type: 'object', description: 'Chebyshev segments of one body.' } },
+      metadata: { type: 'object' }
+    }
+  },
+  OrbitalElements: {
+    type: 'object',
+    required: ['id', 'kind', 'center', 'referenceFrame', 'elements'],
+    properties: {
+      id: string,
+      kind: { type: 'string', enum: ['planet', 'moon', 'spacecraft'] },
+      center: { type: 'object', properties: { id: string, horizonsId: string } },
+      referenceFrame: string,
+      source: string,
+      elements: { type: 'object', description: 'Osculating elements (a, e, i, Ω, ω, M, period...).' },
+      metadata: { type: 'object' }
+    }
+  },
+  SpacecraftTelemetry: {
+    type: 'object',
+    required: ['id', 'name', 'horizonsId', 'positionAu'],
+    properties: {
+      id: string,
+      name: string,
+      horizonsId: string,
+      positionAu: vector('AU'),
+      positionKm: vector('km'),
+      positionMiles: vector('miles'),
+      velocityAuPerDay: velocity('AU/day'),
+      velocityKmPerS: velocity('km/s'),
+      velocityMilesPerS: velocity('miles/s')
+    }
+  },
+  VoyagerSnapshot: {
+    type: 'object',
+    required: ['timestamp', 'metadata', 'voyagers'],
+    properties: {
+      timestamp: dateTime,
+      requestId: string,
+      metadata: {
+        type: 'object',
+        properties: {
+          source: string,
+          unitDistanceBase: string,
+          unitVelocityBase: string,
+          unitDistanceConverted: stringList,
+          unitVelocityConverted: stringList,
+          cacheStatus: cacheStatus('HIT', 'MISS'),
+          cacheAgeMs: number
+        }
+      },
+      voyagers: { type: 'array', items: ref('SpacecraftTelemetry') }
+    }
+  },
+  SpacecraftList: {
+    type: 'object',
+    required: ['spacecraft'],
+    properties: { spacecraft: { type: 'array', items: { type: 'object' } } }
+  },
+  Spacecraft: { type: 'object', description: 'Telemetry of one registered spacecraft.' },
+  Trajectory: { type: 'object', description: 'Trajectory since launch, with flyby markers.' },
+  DsnSnapshot: { type: 'object', description: 'Deep Space Network status (DSN Now).' },
+  Catalog: { type: 'object', description: 'Sun, planets and moons with physical data and descriptions.' }
+};
+
+// --- Opérations -------------------------------------------------------------
+
+const snapshotOperation = (operationId: string, path: string, summary: string, extra: ParameterSpec[] = []): OperationSpec => ({
+  operationId,
+  path,
+  summary,
+  tag: 'ephemeris',
+  parameters: [at, ...extra, ...reference, refresh],
+  response: { description: 'Planet positions.', schema: ref('EphemerisSnapshot') },
+  errors: [400, 500]
+});
+
+export const OPERATIONS: OperationSpec[] = [
+  snapshotOperation('getPlanets', '/api/ephemeris/planets', 'Heliocentric state vectors of the planets'),
+  snapshotOperation('getPlanetStateVectors', '/api/ephemeris/planets/state-vectors', 'Alias of /planets'),
+  snapshotOperation(
+    'getPlanetsFull',
+    '/api/ephemeris/planets/full',
+    'State vectors plus observer quantities (range, elongation, magnitude, topocentric data)',
+    observer
+  ),
+  {
+    operationId: 'getPlanetSeries',
+    path: '/api/ephemeris/planets/series',
+    summary: 'Time series of planet state vectors',
+    tag: 'ephemeris',
+    parameters: [
+      ...seriesWindow,
+      {
+        name: 'names',
+        in: 'query',
+        description: 'Comma-separated planet names. Defaults to all planets.',
+        schema: { type: 'array', items: { type: 'string', enum: PLANET_NAMES } }
+      },
+      ...reference,
+      refresh
+    ],
+    response: { description: 'One sample list per planet.', schema: ref('PlanetSeries') },
+    errors: [400, 500]
+  },
+  {
+    operationId: 'getHistory',
+    path: '/api/ephemeris/history',
+    summary: 'Archived snapshots between two instants',
+    tag: 'ephemeris',
+    parameters: [
+      { name: 'from', in: 'query', description: 'Window start (ISO-8601). Defaults to 24 h before `to`.', schema: dateTime },
+      { name: 'to', in: 'query', description: 'Window end (ISO-8601). Defaults to now.', schema: dateTime },
+      {
+        name: 'body',
+        in: 'query',
+        description: 'Keep a single planet.',
+        schema: { type: 'string', enum: PLANET_NAMES }
+      },
+      {
+        name: 'limit',
+        in: 'query',
+        description: 'Maximum number of entries.',
+        schema: { type: 'integer', minimum: 1, maximum: HISTORY_MAX_ENTRIES, default: HISTORY_MAX_ENTRIES }
+      },
+      {
+        name: 'scope',
+        in: 'query',
+        description: '`all` adds snapshots taken for a given epoch, site or reference frame.',
+        schema: { type: 'string', enum: ['all'] }
+      }
+    ],
+    response: { description: 'Archived snapshots.', schema: ref('History') },
+    errors: [400, 500]
+  },
+  {
+    operationId: 'getInterpolation',
+    path: '/api/ephemeris/interpolation',
+    summary: 'Chebyshev interpolation coefficients fitted on Horizons',
+    tag: 'ephemeris',
+    parameters: [
+      {
+        name: 'ids',
+        in: 'query',
+        description: 'Comma-separated planet, moon or spacecraft ids. Defaults to the planets and the registered spacecraft.',
+        schema: stringList
+      },
+      {
+        name: 'start',
+        in: 'query',
+        description: 'Window start (ISO-8601). Defaults to 366 days ago, 60 days when a moon is requested.',
+        schema: dateTime
+      },
+      { name: 'stop', in: 'query', description: 'Window end (ISO-8601). Defaults to in 2 days.', schema: dateTime },
+      refresh
+    ],
+    response: { description: 'Coefficients per body.', schema: ref('Interpolation') },
+    errors: [400, 500]
+  },
+  {
+    operationId: 'getBodies',
+    path: '/api/ephemeris/bodies',
+    summary: 'Several bodies in one request',
+    tag: 'ephemeris',
+    parameters: [
+      {
+        name: 'ids',
+        in: 'query',
+        required: true,
+        description: 'Comma-separated body ids (e.g. `io,europa,ganymede,callisto`).',
+        schema: {
+          type: 'array',
+          minItems: 1,
+          maxItems: BODY_BATCH_MAX_IDS,
+          items: { type: 'string', enum: BODY_IDS }
+        }
+      },
+      at,
+      ...observer,
+      ...reference,
+      refresh
+    ],
+    response: { description: 'Bodies in the requested order, failures listed in `errors`.', schema: ref('BodyBatch') },
+    errors: [400, 500]
+  },
+  {
+    operationId: 'getBodyElements',
+    path: '/api/ephemeris/body/{id}/elements',
+    summary: 'Osculating orbital elements of a planet, moon or spacecraft',
+    tag: 'ephemeris',
+    parameters: [
+      { ...bodyIdPath, description: 'Planet, moon or spacecraft id.' },
+      at,
+      refresh
+    ],
+    response: { description: 'J2000 ecliptic elements.', schema: ref('OrbitalElements') },
+    errors: [400, 404, 500]
+  },
+  {
+    operationId: 'getBodySeries',
+    path: '/api/ephemeris/body/{id}/series',
+    summary: 'Time series of one body',
+    tag: 'ephemeris',
+    parameters: [bodyIdPath, ...seriesWindow, ...reference, refresh],
+    response: { description: 'State vector samples.', schema: ref('BodySeries') },
+    errors: [400, 404, 500]
+  },
+  {
+    operationId: 'getBody',
+    path: '/api/ephemeris/body/{id}',
+    summary: 'State vector of the Sun or a moon',
+    tag: 'ephemeris',
+    parameters: [bodyIdPath, at, ...observer, ...reference, refresh],
+    response: { description: 'Body ephemeris.', schema: ref('BodyEphemeris') },
+    errors: [400, 404, 500]
+  },
+  {
+    operationId: 'getVoyagers',
+    path: '/api/voyagers',
+    summary: 'Voyager 1 and 2 telemetry',
+    tag: 'spacecraft',
+    parameters: [refresh],
+    response: { description: 'Voyager snapshot.', schema: ref('VoyagerSnapshot') },
+    errors: [400, 500]
+  },
+  {
+    operationId: 'listSpacecraft',
+    path: '/api/spacecraft',
+    summary: 'Spacecraft registry',
+    tag: 'spacecraft',
+    parameters: [],
+    response: { description: 'Registered spacecraft, without telemetry.', schema: ref('SpacecraftList') },
+    errors: []
+  },
+  {
+    operationId: 'getSpacecraft',
+    path: '/api/spacecraft/{id}',
+    summary: 'Telemetry of one spacecraft',
+    tag: 'spacecraft',
+    parameters: [spacecraftIdPath, refresh],
+    response: { description: 'Spacecraft telemetry.', schema: ref('Spacecraft') },
+    errors: [400, 404, 500]
+  },
+  {
+    operationId: 'getSpacecraftTrajectory',
+    path: '/api/spacecraft/{id}/trajectory',
+    summary: 'Trajectory of one spacecraft since launch',
+    tag: 'spacecraft',
+    parameters: [spacecraftIdPath, refresh],
+    response: { description: 'Trajectory and flybys.', schema: ref('Trajectory') },
+    errors: [400, 404, 500]
+  },
+  {
+    operationId: 'getDsn',
+    path: '/api/dsn',
+    summary: 'Deep Space Network status',
+    tag: 'dsn',
+    parameters: [
+      { name: 'spacecraft', in: 'query', description: 'Keep the links of one spacecraft.', schema: string },
+      refresh
+    ],
+    response: { description: 'DSN stations, dishes and links.', schema: ref('DsnSnapshot') },
+    errors: [400, 502]
+  },
+  {
+    operationId: 'getCatalog',
+    path: '/api/catalog',
+    summary: 'Solar system catalog',
+    tag: 'catalog',
+    parameters: [
+      {
+        name: 'lang',
+        in: 'query',
+        description: 'Description language (`fr`, `en`; regional variants accepted).',
+        schema: { type: 'string', pattern: '^[A-Za-z]{2}([-_][A-Za-z]{2})?$' }
+      },
+      refresh
+    ],
+    response: { description: 'Catalog.', schema: ref('Catalog') },
+    errors: [400, 500]
+  },
+  {
+    operationId: 'getStream',
+    path: '/api/stream',
+    summary: 'Live updates (Server-Sent Events)',
+    tag: 'stream',
+    parameters: [
+      {
+        name: 'topics',
+        in: 'query',
+        required: true,
+        description:
+          'Comma-separated topics: `planets`, `planets:full`, `voyagers`, `body:<id>`, `body:<id>@<center>` ' +
+          '(e.g. `body:io@jupiter`, ecliptic J2000), `spacecraft:<id>`.',
+        schema: {
+          type: 'array',
+          minItems: 1,
+          items: { type: 'string', pattern: '^[A-Za-z]+(:[A-Za-z0-9_-]+(@[A-Za-z]+)?)?$' }
+        }
+      }
+    ],
+    response: {
+      description: 'One named event per topic, JSON payload in `data`.',
+      schema: string,
+      contentTypes: ['text/event-stream']
+    },
+    errors: [400]
+  },
+  {
+    operationId: 'exportEphemeris',
+    path: '/api/export/ephemeris',
+    summary: 'State vectors of several bodies over a window, as a CSV, JSON Lines or CCSDS OEM file',
+    tag: 'export',
+    parameters: [
+      {
+        name: 'bodies',
+        in: 'query',
+        required: true,
+        description: 'Planets, `sun`, moons and spacecraft ids (e.g. `earth,europa,voyager1`).',
+        schema: {
+          type: 'array',
+          minItems: 1,
+          maxItems: EXPORT_MAX_BODIES,
+          items: { type: 'string', enum: EXPORT_TARGETS.map((t) => t.id) }
+        }
+      },
+      ...seriesWindow,
+      ...reference,
+      {
+        name: 'format',
+        in: 'query',
+        description:
+          '`csv` (AU, AU/day, `#` header lines), `jsonl` (header line then one sample per line) or ' +
+          '`oem` (CCSDS 502.0-B-2 KVN, km and km/s, one segment per body).',
+        schema: { type: 'string', enum: EXPORT_FORMATS, default: 'csv' }
+      },
+      refresh
+    ],
+    response: {
+      description: 'Attachment; `X-Export-Missing-Bodies` lists bodies Horizons could not provide.',
+      schema: string,
+      contentTypes: Array.from(new Set(Object.values(EXPORT_CONTENT_TYPES).map((type) => type.split(';')[0])))
+    },
+    errors: [400, 500]
+  },
+  {
+    operationId: 'exportCzml',
+    path: '/api/export/czml',
+    summary: 'CZML document of time-tagged positions (Earth-centred ICRF, metres) for Cesium viewers',
+    tag: 'export',
+    parameters: [
+      {
+        name: 'bodies',
+        in: 'query',
+        description: 'Planets, `sun`, moons and spacecraft ids; the Sun and the planets when omitted.',
+        schema: {
+          type: 'array',
+          minItems: 1,
+          maxItems: EXPORT_MAX_BODIES,
+          items: { type: 'string', enum: EXPORT_TARGETS.map((t) => t.id) }
+        }
+      },
+      ...seriesWindow,
+      refresh
+    ],
+    response: {
+      description:
+        'Document packet (clock over the interval) then one packet per body with Lagrange-interpolated ' +
+        'positions and catalog-coloured point, label and path; `X-Export-Missing-Bodies` lists bodies ' +
+        'Horizons could not provide.',
+      schema: { type: 'array', items: ref('CzmlPacket') }
+    },
+    errors: [400, 500]
+  },
+  {
+    operationId: 'getOpenApi',
+    path: '/api/openapi.json',
+    summary: 'This document',
+    tag: 'meta',
+    parameters: [],
+    response: { description: 'OpenAPI 3.0 document.', schema: { type: 'object' } },
+    errors: []
+  }
+];
+
+export const OPERATION_BY_ID = new Map<string, OperationSpec>(OPERATIONS.map((op) => [op.operationId, op]));
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+  400: 'Invalid parameters.',
+  404: 'Unknown resource.',
+  500: 'Upstream (Horizons) failure.',
+  502: 'Upstream (DSN Now) failure.'
+};
+
+/** Document OpenAPI 3.0 servi sur `/api/openapi.json`. */
+export function buildOpenApiDocument(): OpenApiDocument {
+  const paths: OpenApiDocument['paths'] = {};
+  for (const op of OPERATIONS) {
+    const responses: Record<string, OpenApiResponse> = {
+      200: {
+        description: op.response.description,
+        content: Object.fromEntries(
+          (op.response.contentTypes ?? ['application/json']).map((type) => [type, { schema: op.response.schema }])
+        )
+      }
+    };
+    for (const status of op.errors) {
+      responses[status] = {
+        description: ERROR_DESCRIPTIONS[status],
+        content: { 'application/json': { schema: ref('Error') } }
+      };
+    }
+    paths[op.path] = {
+      get: {
+        operationId: op.operationId,
+        summary: op.summary,
+        tags: [op.tag],
+        parameters: op.parameters.map((p) => ({
+          name: p.name,
+          in: p.in,
+          required: p.in === 'path' || !!p.required,
+          description: p.description,
+          schema: p.schema,
+          // Listes : `?ids=io,europa` (forme non éclatée).
+          ...(p.schema.type === 'array' ? { style: 'form', explode: false } : {})
+        })),
+        responses
+      }
+    };
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Solar System Real API',
+      version: '0.1.0',
+      description:
+        'Ephemerides from NASA JPL Horizons (planets, moons, spacecraft), DSN status and catalog. ' +
+        'Distances in AU, vectors in the J2000 ecliptic frame centered on the solar system barycenter unless ' +
+        '`center`/`frame` say otherwise.'
+    },
+    paths,
+    components: { schemas: COMPONENT_SCHEMAS }
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * Sous-ensemble de JSON Schema (dialecte OpenAPI 3.0) utilisé par la
+ * spécification de l'API : assez pour décrire paramètres et réponses, et les
+ * vérifier sans dépendance supplémentaire.
+ */
+export interface JsonSchema {
+  $ref?: string;
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  format?: 'date-time';
+  enum?: readonly (string | number)[];
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+  additionalProperties?: boolean | JsonSchema;
+  nullable?: boolean;
+  description?: string;
+  default?: unknown;
+  example?: unknown;
+}
+
+export interface SchemaIssue {
+  /** Chemin JSON de la valeur fautive (`$.bodies[0].x_au`). */
+  path: string;
+  message: string;
+}
+
+const REF_PREFIX = '#/components/schemas/';
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(type: NonNullable<JsonSchema['type']>, value: unknown): boolean {
+  if (type === 'number') return typeof value === 'number' && Number.isFinite(value);
+  if (type === 'integer') return typeof value === 'number' && Number.isInteger(value);
+  return typeOf(value) === type;
+}
+
+/**
+ * Vérifie `value` contre `schema` ; `components` résout les `$ref`
+ * (`#/components/schemas/<nom>`). Les propriétés non décrites sont acceptées
+ * sauf `additionalProperties: false`.
+ */
+export function validateSchema(
+  schema: JsonSchema,
+  value: unknown,
+  components: Record<string, JsonSchema> = {},
+  path = '$'
+): SchemaIssue[] {
+  if (schema.$ref) {
+    const target = schema.$ref.startsWith(REF_PREFIX) ? components[schema.$ref.slice(REF_PREFIX.length)] : undefined;
+    if (!target) return [{ path, message: `unresolved reference ${schema.$ref}` }];
+    return validateSchema(target, value, components, path);
+  }
+  if (value === null) {
+    return schema.nullable || !schema.type ? [] : [{ path, message: `${schema.type} expected, got null` }];
+  }
+  if (schema.type && !matchesType(schema.type, value)) {
+    return [{ path, message: `${schema.type} expected, got ${typeOf(value)}` }];
+  }
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    return [{ path, message: `expected one of: ${schema.enum.join(', ')}` }];
+  }
+
+  const issues: SchemaIssue[] = [];
+  if (typeof value === 'string') {
+    if (schema.format === 'date-time' && !Number.isFinite(Date.parse(value))) {
+      issues.push({ path, message: 'ISO-8601 date-time expected' });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      issues.push({ path, message: `must match ${schema.pattern}` });
+    }
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+  }
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ path, message: `at least ${schema.minItems} item(s) expected` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({ path, message: `at most ${schema.maxItems} item(s) expected` });
+    }
+    if (schema.items) {
+      const items = schema.items;
+      value.forEach((item, i) => issues.push(...validateSchema(items, item, components, `${path}[${i}]`)));
+    }
+  }
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined) issues.push({ path: `${path}.${key}`, message: 'required property missing' });
+    }
+    for (const [key, child] of Object.entries(record)) {
+      if (child === undefined) continue;
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        issues.push(...validateSchema(propertySchema, child, components, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: `${path}.${key}`, message: 'unexpected property' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        issues.push(...validateSchema(schema.additionalProperties, child, components, `${path}.${key}`));
+      }
+    }
+  }
+  return issues;
+}
@@ -0,0 +1,125 @@
+import { RequestHandler, Response } from 'express';
+import { logWarn } from '../observability/logger';
+// Déclare `req.requestId` (augmentation d'Express.Request).
+import '../observability/requestTracing';
+import { OPERATION_BY_ID, ParameterSpec } from './document';
+import { JsonSchema } from './jsonSchema';
+
+export interface ParameterIssue {
+  in: 'query' | 'path';
+  name: string;
+  message: string;
+}
+
+/**
+ * Réponse 400 commune : `error` résume, `details` liste chaque paramètre
+ * fautif (schéma `Error` de la spécification).
+ */
+export function sendBadRequest(res: Response, requestId: string | undefined, details: ParameterIssue[]): void {
+  res.status(400).json({ error: details.map((d) => d.message).join('; '), requestId, details });
+}
+
+/** Raccourci pour les contrôles propres à une route (bornes croisées, sujets...). */
+export function sendInvalidParameter(
+  res: Response,
+  requestId: string | undefined,
+  name: string,
+  message: string,
+  location: ParameterIssue['in'] = 'query'
+): void {
+  sendBadRequest(res, requestId, [{ in: location, name, message }]);
+}
+
+function expectation(schema: JsonSchema): string {
+  if (schema.enum) return `expected one of: ${schema.enum.join(', ')}`;
+  if (schema.format === 'date-time') return 'ISO-8601 expected';
+  if (schema.type === 'integer' || schema.type === 'number') {
+    const range =
+      schema.minimum !== undefined && schema.maximum !== undefined ? ` in [${schema.minimum}, ${schema.maximum}]` : '';
+    return `${schema.type}${range} expected`;
+  }
+  if (schema.type === 'boolean') return 'true or false expected';
+  if (schema.pattern) return `expected to match ${schema.pattern}`;
+  return 'string expected';
+}
+
+/** Valeur unique lue dans l'URL (texte déjà débarrassé de ses espaces). */
+function checkScalar(schema: JsonSchema, value: string): boolean {
+  if (schema.type === 'integer' || schema.type === 'number') {
+    const n = Number(value);
+    if (!Number.isFinite(n) || (schema.type === 'integer' && !Number.isInteger(n))) return false;
+    if (schema.minimum !== undefined && n < schema.minimum) return false;
+    if (schema.maximum !== undefined && n > schema.maximum) return false;
+    return true;
+  }
+  if (schema.type === 'boolean') return ['true', 'false', '1', '0'].includes(value.toLowerCase());
+  // Les routes normalisent la casse des identifiants (`?center=Earth`).
+  if (schema.enum && !schema.enum.some((v) => String(v).toLowerCase() === value.toLowerCase())) return false;
+  if (schema.format === 'date-time' && !Number.isFinite(Date.parse(value))) return false;
+  if (schema.pattern && !new RegExp(schema.pattern).test(value)) return false;
+  return true;
+}
+
+/**
+ * Contrôle un paramètre d'URL contre sa déclaration ; renvoie le message
+ * d'erreur ou `null`. Une valeur vide vaut absence : la route applique son
+ * défaut. Les listes acceptent `a,b` comme `?x=a&x=b`.
+ */
+export function checkParameter(spec: ParameterSpec, raw: unknown): string | null {
+  const { name, schema } = spec;
+  const invalid = (detail: string) => `Invalid "${name}" parameter (${detail})`;
+  const missing = () =>
+    `Missing "${name}" parameter (${schema.type === 'array' ? 'comma-separated list expected' : expectation(schema)})`;
+
+  if (schema.type === 'array') {
+    const values = Array.isArray(raw) ? raw : raw === undefined ? [] : [raw];
+    if (values.some((v) => typeof v !== 'string')) return invalid('comma-separated list expected');
+    const items = (values as string[])
+      .flatMap((v) => v.split(','))
+      .map((v) => v.trim())
+      .filter(Boolean);
+    if (!items.length) return spec.required ? missing() : null;
+    if (schema.minItems !== undefined && items.length < schema.minItems) {
+      return invalid(`at least ${schema.minItems} value(s) expected`);
+    }
+    if (schema.maxItems !== undefined && items.length > schema.maxItems) {
+      return invalid(`at most ${schema.maxItems} values expected, got ${items.length}`);
+    }
+    const itemSchema = schema.items ?? {};
+    const bad = items.filter((item) => !checkScalar(itemSchema, item));
+    return bad.length ? invalid(`${bad.map((b) => `"${b}"`).join(', ')}: ${expectation(itemSchema)}`) : null;
+  }
+
+  if (raw === undefined) return spec.required ? missing() : null;
+  if (typeof raw !== 'string') return invalid('single value expected');
+  const value = raw.trim();
+  if (!value) return spec.required ? missing() : null;
+  return checkScalar(schema, value) ? null : invalid(expectation(schema));
+}
+
+/**
+ * Middleware de validation des paramètres de chemin et de requête d'une
+ * opération de la spécification OpenAPI (`OPERATIONS`). Les paramètres non
+ * déclarés sont ignorés.
+ */
+export function validateRequest(operationId: string): RequestHandler {
+  const operation = OPERATION_BY_ID.get(operationId);
+  if (!operation) {
+    throw new Error(`Unknown OpenAPI operation "${operationId}"`);
+  }
+
+  return (req, res, next) => {
+    const details: ParameterIssue[] = [];
+    for (const spec of operation.parameters) {
+      const raw = spec.in === 'path' ? req.params?.[spec.name] : req.query?.[spec.name];
+      const message = checkParameter(spec, raw);
+      if (message) details.push({ in: spec.in, name: spec.name, message });
+    }
+    if (!details.length) {
+      next();
+      return;
+    }
+    logWarn('request_validation_failed', { requestId: req.requestId, operationId, details });
+    sendBadRequest(res, req.requestId, details);
+  };
+}
@@ -0,0 +1,36 @@
+import { Router, Request, Response } from 'express';
+import { logError } from '../observability/logger';
+import { validateRequest } from '../openapi/validateRequest';
+import { getDsnSnapshot } from '../services/dsnService';
+import { parseForceRefresh } from './queryParams';
+
+const router = Router();
+
+// État du Deep Space Network (DSN Now), éventuellement restreint à une sonde.
+router.get('/', validateRequest('getDsn'), async (req: Request, res: Response) => {
+  const requestId = req.requestId;
+  const spacecraftParam = req.query.spacecraft;
+  const spacecraft = typeof spacecraftParam === 'string' && spacecraftParam.trim() ? spacecraftParam.trim() : undefined;
+
+  try {
+    const payload = await getDsnSnapshot({
+      spacecraft,
+      correlationId: requestId,
+      forceRefresh: parseForceRefresh(req)
+    });
+    res.setHeader('X-DSN-Cache', payload.metadata.cacheStatus);
+    res.json(payload);
+  } catch (err: any) {
+    logError('dsn_fetch_failed', {
+      requestId,
+      spacecraft,
+      error: err?.message ?? String(err)
+    });
+    res.status(502).json({
+      error: 'Impossible de récupérer l’état du Deep Space Network',
+      requestId
+    });
+  }
+});
+
+export default router;
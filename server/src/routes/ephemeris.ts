@@ -1,30 +1,118 @@
 import { Router, Request, Response } from 'express';
-import { CACHE_TTL_MS, getSnapshot } from '../cache/ephemerisCache';
-import { getBodyEphemeris } from '../cache/bodyEphemerisCache';
+import { CACHE_TTL_MS, EPOCH_CACHE_TTL_MS, getSnapshot } from '../cache/ephemerisCache';
+import { BODY_BATCH_MAX_IDS, getBodiesEphemeris, getBodyEphemeris } from '../cache/bodyEphemerisCache';
+import {
+  defaultHistoryWindow,
+  HISTORY_MAX_ENTRIES,
+  HISTORY_MAX_RANGE_MS,
+  readHistory
+} from '../cache/snapshotArchive';
+import { getBodySeries, getPlanetSeries } from '../cache/seriesCache';
 import { BODY_BY_ID, BodyId } from '../config/bodies';
+import { PLANETS, PlanetName } from '../config/planets';
+import { ObserverLocation, SITE_BY_ID } from '../config/sites';
 import { logError } from '../observability/logger';
+import { sendInvalidParameter, validateRequest } from '../openapi/validateRequest';
+import { getOrbitalElements, resolveElementsTarget } from '../services/elementsService';
+import {
+  defaultInterpolationTargets,
+  defaultInterpolationWindow,
+  getInterpolation,
+  validateInterpolationWindow
+} from '../services/interpolationService';
+import { ParameterError, parseForceRefresh, parseReference, parseSeriesWindow } from './queryParams';
 
 const router = Router();
 
-function parseForceRefresh(req: Request): boolean {
-  const refreshParam = req.query?.refresh;
-  const refreshParamValue =
-    typeof refreshParam === 'string'
-      ? refreshParam
-      : Array.isArray(refreshParam)
-      ? refreshParam.find((v) => v === '1' || v === 'true')
-      : undefined;
-  const refreshHeaderRaw = req.headers['x-refresh-cache'];
-  const refreshHeader = Array.isArray(refreshHeaderRaw)
-    ? refreshHeaderRaw[0]
-    : refreshHeaderRaw;
-
-  return (
-    refreshParamValue === '1' ||
-    refreshParamValue === 'true' ||
-    refreshHeader === '1' ||
-    refreshHeader === 'true'
-  );
+/**
+ * Lit le paramètre `?at=<ISO-8601>` (instant demandé).
+ * Renvoie `undefined` si absent, `null` si la date est invalide.
+ */
+function parseEpoch(req: Request): Date | null | undefined {
+  const raw = req.query?.at;
+  if (raw === undefined) {
+    return undefined;
+  }
+  if (typeof raw !== 'string' || !raw.trim()) {
+    return null;
+  }
+  const parsed = new Date(raw.trim());
+  return Number.isFinite(parsed.getTime()) ? parsed : null;
+}
+
+/**
+ * Lit le lieu d'observation : `?site=<id>` (site nommé) ou `?lat=&lon=[&alt=]`
+ * (degrés, longitude positive vers l'Est, altitude en mètres).
+ * `observer` est absent si aucun lieu n'est demandé.
+ */
+function parseObserver(req: Request): { observer?: ObserverLocation } | ParameterError {
+  const { site, lat: rawLat, lon: rawLon, alt: rawAlt } = req.query ?? {};
+
+  if (site !== undefined) {
+    const known = typeof site === 'string' ? SITE_BY_ID.get(site.trim().toLowerCase()) : undefined;
+    if (!known) {
+      const ids = Array.from(SITE_BY_ID.keys()).join(', ');
+      return { param: 'site', error: `Unknown "site" parameter (expected one of: ${ids})` };
+    }
+    return { observer: { lat: known.lat, lon: known.lon, altKm: known.altKm, site: known.site } };
+  }
+
+  if (rawLat === undefined && rawLon === undefined) {
+    return {};
+  }
+  if (typeof rawLat !== 'string' || typeof rawLon !== 'string') {
+    return { param: rawLat === undefined ? 'lat' : 'lon', error: 'Both "lat" and "lon" parameters are required (decimal degrees)' };
+  }
+
+  const lat = Number(rawLat);
+  const lon = Number(rawLon);
+  const altM = typeof rawAlt === 'string' && rawAlt.trim() ? Number(rawAlt) : 0;
+  if (!rawLat.trim() || !Number.isFinite(lat) || lat < -90 || lat > 90) {
+    return { param: 'lat', error: 'Invalid "lat" parameter (decimal degrees in [-90, 90] expected)' };
+  }
+  if (!rawLon.trim() || !Number.isFinite(lon) || lon < -180 || lon > 180) {
+    return { param: 'lon', error: 'Invalid "lon" parameter (decimal degrees in [-180, 180] expected)' };
+  }
+  if (!Number.isFinite(altM) || altM < -500 || altM > 10_000) {
+    return { param: 'alt', error: 'Invalid "alt" parameter (meters in [-500, 10000] expected)' };
+  }
+
+  return { observer: { lat, lon, altKm: altM / 1000 } };
+}
+
+function formatObserverHeader(observer: ObserverLocation): string {
+  return observer.site ?? `${observer.lat},${observer.lon},${Math.round(observer.altKm * 1000)}m`;
+}
+
+/**
+ * Lit la fenêtre `?from=&to=` de l'historique (ISO-8601, dernières 24 h par
+ * défaut), bornée à HISTORY_MAX_RANGE_MS.
+ */
+function parseHistoryWindow(req: Request): { from: Date; to: Date } | ParameterError {
+  const { from: rawFrom, to: rawTo } = req.query ?? {};
+  if ((rawFrom !== undefined && typeof rawFrom !== 'string') || (rawTo !== undefined && typeof rawTo !== 'string')) {
+    return {
+      param: typeof rawFrom === 'string' || rawFrom === undefined ? 'to' : 'from',
+      error: 'Invalid "from" or "to" parameter (ISO-8601 expected)'
+    };
+  }
+
+  const to = rawTo?.trim() ? new Date(rawTo.trim()) : new Date();
+  const from = rawFrom?.trim() ? new Date(rawFrom.trim()) : defaultHistoryWindow(to.getTime()).from;
+  if (!Number.isFinite(from.getTime()) || !Number.isFinite(to.getTime())) {
+    return {
+      param: Number.isFinite(from.getTime()) ? 'to' : 'from',
+      error: 'Invalid "from" or "to" parameter (ISO-8601 expected)'
+    };
+  }
+  if (to.getTime() < from.getTime()) {
+    return { param: 'to', error: '"to" must not be before "from"' };
+  }
+  if (to.getTime() - from.getTime() > HISTORY_MAX_RANGE_MS) {
+    const days = Math.round(HISTORY_MAX_RANGE_MS / 86_400_000);
+    return { param: 'from', error: `History window too large (max ${days} days)` };
+  }
+  return { from, to };
 }
 
 async function handleSnapshotRequest(
@@ -34,12 +122,33 @@ async function handleSnapshotRequest(
 ): Promise<void> {
   const requestId = req.requestId;
   const forceRefresh = parseForceRefresh(req);
+  const at = parseEpoch(req);
+
+  if (at === null) {
+    sendInvalidParameter(res, requestId, 'at', 'Invalid "at" parameter (ISO-8601 expected)');
+    return;
+  }
+
+  // Le lieu d'observation n'a de sens qu'avec les données observateur (/planets/full).
+  const location = options?.includeObserver ? parseObserver(req) : {};
+  if ('error' in location) {
+    sendInvalidParameter(res, requestId, location.param, location.error);
+    return;
+  }
+  const frame = parseReference(req);
+  if ('error' in frame) {
+    sendInvalidParameter(res, requestId, frame.param, frame.error);
+    return;
+  }
 
   try {
     const { payload, cacheState, cacheBackend, cacheAgeMs } = await getSnapshot({
       forceRefresh,
       correlationId: requestId,
-      includeObserver: options?.includeObserver
+      includeObserver: options?.includeObserver,
+      at,
+      observer: location.observer,
+      reference: frame.reference
     });
 
     if (payload?.metadata?.responseTimeMs !== undefined) {
@@ -49,13 +158,19 @@ async function handleSnapshotRequest(
     res.setHeader('X-Horizons-Cache', cacheState);
     res.setHeader('X-Horizons-Cache-Backend', cacheBackend);
     res.setHeader('X-Horizons-Cache-Age', cacheAgeMs.toString());
-    res.setHeader('X-Horizons-TTL', CACHE_TTL_MS.toString());
+    res.setHeader(
+      'X-Horizons-TTL',
+      (at ? EPOCH_CACHE_TTL_MS : CACHE_TTL_MS).toString()
+    );
     const isStale = cacheState === 'STALE' || cacheState === 'FROZEN';
     res.setHeader('X-Horizons-Cache-Stale', isStale ? '1' : '0');
     res.setHeader(
       'X-Horizons-Frozen',
       payload?.metadata?.frozenSnapshot ? '1' : '0'
     );
+    if (location.observer) {
+      res.setHeader('X-Horizons-Observer', formatObserverHeader(location.observer));
+    }
     if (payload?.metadata?.requestId || requestId) {
       res.setHeader('X-Request-Id', payload?.metadata?.requestId ?? requestId ?? '');
     }
@@ -74,19 +189,354 @@ async function handleSnapshotRequest(
   }
 }
 
-router.get('/planets', (req, res) => handleSnapshotRequest(req, res));
-router.get('/planets/state-vectors', (req, res) => handleSnapshotRequest(req, res));
-router.get('/planets/full', (req, res) =>
+router.get('/planets', validateRequest('getPlanets'), (req, res) => handleSnapshotRequest(req, res));
+router.get('/planets/state-vectors', validateRequest('getPlanetStateVectors'), (req, res) => handleSnapshotRequest(req, res));
+router.get('/planets/full', validateRequest('getPlanetsFull'), (req, res) =>
   handleSnapshotRequest(req, res, { includeObserver: true })
 );
 
-router.get('/body/:id', async (req: Request, res: Response) => {
+router.get('/planets/series', validateRequest('getPlanetSeries'), async (req: Request, res: Response) => {
+  const requestId = req.requestId;
+  const parsed = parseSeriesWindow(req);
+  if ('error' in parsed) {
+    sendInvalidParameter(res, requestId, parsed.param, parsed.error);
+    return;
+  }
+
+  const rawNames = typeof req.query?.names === 'string' ? req.query.names : '';
+  const known = new Set<string>(PLANETS.map((p) => p.name));
+  const names = rawNames
+    .split(',')
+    .map((n) => n.trim().toLowerCase())
+    .filter(Boolean);
+  const unknown = names.filter((n) => !known.has(n));
+  if (unknown.length) {
+    sendInvalidParameter(res, requestId, 'names', `Unknown planet(s): ${unknown.join(', ')}`);
+    return;
+  }
+  const frame = parseReference(req);
+  if ('error' in frame) {
+    sendInvalidParameter(res, requestId, frame.param, frame.error);
+    return;
+  }
+
+  try {
+    const payload = await getPlanetSeries({
+      window: parsed.window,
+      names: names as PlanetName[],
+      forceRefresh: parseForceRefresh(req),
+      correlationId: requestId,
+      reference: frame.reference
+    });
+    if (payload.metadata.responseTimeMs !== undefined) {
+      res.setHeader('X-Horizons-Latency', payload.metadata.responseTimeMs);
+    }
+    res.json(payload);
+  } catch (err: any) {
+    logError('planet_series_fetch_failed', {
+      error: err?.message ?? String(err),
+      requestId,
+      query: req.query
+    });
+    res.status(500).json({ error: 'Erreur lors de la récupération des séries', requestId });
+  }
+});
+
+/**
+ * Snapshots archivés par `refreshSnapshot` entre `from` et `to` : rejoue ce
+ * que le tableau de bord affichait. `?body=` ne garde qu'une planète,
+ * `?scope=all` ajoute les snapshots d'une époque, d'un lieu ou d'un repère particuliers.
+ */
+router.get('/history', validateRequest('getHistory'), async (req: Request, res: Response) => {
+  const requestId = req.requestId;
+  const window = parseHistoryWindow(req);
+  if ('error' in window) {
+    sendInvalidParameter(res, requestId, window.param, window.error);
+    return;
+  }
+
+  const rawBody = req.query?.body;
+  const body = typeof rawBody === 'string' && rawBody.trim() ? rawBody.trim().toLowerCase() : undefined;
+  if (rawBody !== undefined && (!body || !PLANETS.some((p) => p.name === body))) {
+    sendInvalidParameter(res, requestId, 'body', `Unknown planet "${String(rawBody)}"`);
+    return;
+  }
+
+  const rawLimit = req.query?.limit;
+  const limit = rawLimit === undefined ? HISTORY_MAX_ENTRIES : Number(rawLimit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > HISTORY_MAX_ENTRIES) {
+    sendInvalidParameter(
+      res,
+      requestId,
+      'limit',
+      `Invalid "limit" parameter (integer in [1, ${HISTORY_MAX_ENTRIES}] expected)`
+    );
+    return;
+  }
+
+  try {
+    const { entries, truncated } = await readHistory({
+      from: window.from,
+      to: window.to,
+      body,
+      includeScoped: req.query?.scope === 'all',
+      limit
+    });
+    res.json({
+      from: window.from.toISOString(),
+      to: window.to.toISOString(),
+      body,
+      count: entries.length,
+      truncated,
+      entries,
+      requestId
+    });
+  } catch (err: any) {
+    logError('ephemeris_history_failed', {
+      error: err?.message ?? String(err),
+      requestId,
+      query: req.query
+    });
+    res.status(500).json({ error: "Erreur lors de la lecture de l'historique", requestId });
+  }
+});
+
+/**
+ * Coefficients d'interpolation (Chebyshev) ajustés sur Horizons.
+ * Fenêtre par défaut alignée sur les jours UTC, pour que le cache serve
+ * toutes les requêtes d'une même journée : [J-366, J+2], [J-60, J+2] avec
+ * une lune (voir `defaultInterpolationWindow`).
+ */
+router.get('/interpolation', validateRequest('getInterpolation'), async (req: Request, res: Response) => {
+  const requestId = req.requestId;
+  const rawIds = typeof req.query?.ids === 'string' ? req.query.ids : '';
+  const ids = rawIds
+    .split(',')
+    .map((v) => v.trim().toLowerCase())
+    .filter(Boolean);
+  const targets = ids.length ? Array.from(new Set(ids)) : defaultInterpolationTargets();
+
+  const defaults = defaultInterpolationWindow(targets);
+  const start = typeof req.query?.start === 'string' ? new Date(req.query.start) : defaults.start;
+  const stop = typeof req.query?.stop === 'string' ? new Date(req.query.stop) : defaults.stop;
+
+  if (!Number.isFinite(start.getTime()) || !Number.isFinite(stop.getTime())) {
+    sendInvalidParameter(
+      res,
+      requestId,
+      Number.isFinite(start.getTime()) ? 'stop' : 'start',
+      'Invalid "start" or "stop" parameter (ISO-8601 expected)'
+    );
+    return;
+  }
+
+  const invalid = validateInterpolationWindow(targets, start, stop);
+  if (invalid) {
+    sendInvalidParameter(res, requestId, invalid.param, invalid.error);
+    return;
+  }
+
+  try {
+    const payload = await getInterpolation({
+      ids: targets,
+      start,
+      stop,
+      forceRefresh: parseForceRefresh(req),
+      correlationId: requestId
+    });
+    if (payload.metadata.responseTimeMs !== undefined) {
+      res.setHeader('X-Horizons-Latency', payload.metadata.responseTimeMs);
+    }
+    if (payload.metadata.cacheStatus) {
+      res.setHeader('X-Horizons-Cache', payload.metadata.cacheStatus);
+    }
+    res.json(payload);
+  } catch (err: any) {
+    logError('interpolation_fetch_failed', {
+      error: err?.message ?? String(err),
+      requestId,
+      query: req.query
+    });
+    res.status(500).json({ error: "Erreur lors du calcul de l'interpolation", requestId });
+  }
+});
+
+/**
+ * Plusieurs corps en une requête : `?ids=io,europa,ganymede,callisto`.
+ * Accepte `at`, le lieu d'observation et le repère (`center`, `frame`) comme `/body/:id`.
+ */
+router.get('/bodies', validateRequest('getBodies'), async (req: Request, res: Response) => {
+  const requestId = req.requestId;
+  const rawIds = typeof req.query?.ids === 'string' ? req.query.ids : '';
+  const ids = Array.from(
+    new Set(
+      rawIds
+        .split(',')
+        .map((id) => id.trim().toLowerCase())
+        .filter(Boolean)
+    )
+  );
+  if (!ids.length) {
+    sendInvalidParameter(res, requestId, 'ids', 'Missing "ids" parameter (comma-separated body ids)');
+    return;
+  }
+  const unknown = ids.filter((id) => !BODY_BY_ID.has(id as BodyId));
+  if (unknown.length) {
+    sendInvalidParameter(res, requestId, 'ids', `Unknown body id(s): ${unknown.join(', ')}`);
+    return;
+  }
+  if (ids.length > BODY_BATCH_MAX_IDS) {
+    sendInvalidParameter(res, requestId, 'ids', `Too many ids (${ids.length} > ${BODY_BATCH_MAX_IDS})`);
+    return;
+  }
+
+  const at = parseEpoch(req);
+  if (at === null) {
+    sendInvalidParameter(res, requestId, 'at', 'Invalid "at" parameter (ISO-8601 expected)');
+    return;
+  }
+  const location = parseObserver(req);
+  if ('error' in location) {
+    sendInvalidParameter(res, requestId, location.param, location.error);
+    return;
+  }
+  const frame = parseReference(req);
+  if ('error' in frame) {
+    sendInvalidParameter(res, requestId, frame.param, frame.error);
+    return;
+  }
+
+  try {
+    const payload = await getBodiesEphemeris({
+      ids: ids as BodyId[],
+      forceRefresh: parseForceRefresh(req),
+      correlationId: requestId,
+      at,
+      observer: location.observer,
+      reference: frame.reference
+    });
+    if (!payload.bodies.length) {
+      logError('bodies_ephemeris_fetch_failed', { requestId, errors: payload.errors });
+      res.status(500).json({ error: 'Erreur lors de la récupération des éphémérides', errors: payload.errors, requestId });
+      return;
+    }
+    res.setHeader('X-Horizons-Latency', payload.metadata.responseTimeMs);
+    if (location.observer) {
+      res.setHeader('X-Horizons-Observer', formatObserverHeader(location.observer));
+    }
+    res.json(payload);
+  } catch (err: any) {
+    logError('bodies_ephemeris_fetch_failed', {
+      error: err?.message ?? String(err),
+      requestId,
+      query: req.query
+    });
+    res.status(500).json({ error: 'Erreur lors de la récupération des éphémérides', requestId });
+  }
+});
+
+/**
+ * Éléments orbitaux osculateurs (a, e, i, Ω, ω, M) d'une planète, d'une lune
+ * (autour de sa planète) ou d'une sonde, à `?at=` ou maintenant.
+ */
+router.get('/body/:id/elements', validateRequest('getBodyElements'), async (req: Request, res: Response) => {
+  const requestId = req.requestId;
+  const id = (req.params?.id ?? '').toLowerCase();
+  const at = parseEpoch(req);
+
+  if (id === 'sun') {
+    sendInvalidParameter(res, requestId, 'id', 'The Sun has no orbital elements (heliocentric frame)', 'path');
+    return;
+  }
+  const target = resolveElementsTarget(id);
+  if (!target) {
+    res.status(404).json({ error: 'Unknown body id', requestId });
+    return;
+  }
+  if (at === null) {
+    sendInvalidParameter(res, requestId, 'at', 'Invalid "at" parameter (ISO-8601 expected)');
+    return;
+  }
+
+  try {
+    const payload = await getOrbitalElements({
+      target,
+      at,
+      forceRefresh: parseForceRefresh(req),
+      correlationId: requestId
+    });
+    if (payload.metadata.responseTimeMs !== undefined) {
+      res.setHeader('X-Horizons-Latency', payload.metadata.responseTimeMs);
+    }
+    if (payload.metadata.cacheStatus) {
+      res.setHeader('X-Horizons-Cache', payload.metadata.cacheStatus);
+    }
+    res.json(payload);
+  } catch (err: any) {
+    logError('body_elements_fetch_failed', {
+      error: err?.message ?? String(err),
+      requestId,
+      query: req.query,
+      params: req.params
+    });
+    res.status(500).json({ error: 'Erreur lors de la récupération des éléments orbitaux', requestId });
+  }
+});
+
+router.get('/body/:id/series', validateRequest('getBodySeries'), async (req: Request, res: Response) => {
+  const requestId = req.requestId;
+  const id = req.params?.id as BodyId | undefined;
+
+  if (!id || !BODY_BY_ID.has(id)) {
+    res.status(404).json({ error: 'Unknown body id', requestId });
+    return;
+  }
+
+  const parsed = parseSeriesWindow(req);
+  if ('error' in parsed) {
+    sendInvalidParameter(res, requestId, parsed.param, parsed.error);
+    return;
+  }
+  const frame = parseReference(req);
+  if ('error' in frame) {
+    sendInvalidParameter(res, requestId, frame.param, frame.error);
+    return;
+  }
+
+  try {
+    const payload = await getBodySeries({
+      id,
+      window: parsed.window,
+      forceRefresh: parseForceRefresh(req),
+      correlationId: requestId,
+      reference: frame.reference
+    });
+    if (payload.metadata?.responseTimeMs !== undefined) {
+      res.setHeader('X-Horizons-Latency', payload.metadata.responseTimeMs);
+    }
+    if (payload.metadata?.cacheStatus) {
+      res.setHeader('X-Horizons-Cache', payload.metadata.cacheStatus);
+    }
+    res.json(payload);
+  } catch (err: any) {
+    logError('body_series_fetch_failed', {
+      error: err?.message ?? String(err),
+      requestId,
+      query: req.query,
+      params: req.params
+    });
+    res.status(500).json({ error: 'Erreur lors de la récupération des séries', requestId });
+  }
+});
+
+router.get('/body/:id', validateRequest('getBody'), async (req: Request, res: Response) => {
   const requestId = req.requestId;
   const forceRefresh = parseForceRefresh(req);
   const id = req.params?.id as BodyId | undefined;
+  const at = parseEpoch(req);
 
   if (!id) {
-    res.status(400).json({ error: 'Missing body id' });
+    sendInvalidParameter(res, requestId, 'id', 'Missing body id', 'path');
     return;
   }
 
@@ -95,8 +545,31 @@ router.get('/body/:id', async (req: Request, res: Response) => {
     return;
   }
 
+  if (at === null) {
+    sendInvalidParameter(res, requestId, 'at', 'Invalid "at" parameter (ISO-8601 expected)');
+    return;
+  }
+
+  const location = parseObserver(req);
+  if ('error' in location) {
+    sendInvalidParameter(res, requestId, location.param, location.error);
+    return;
+  }
+  const frame = parseReference(req);
+  if ('error' in frame) {
+    sendInvalidParameter(res, requestId, frame.param, frame.error);
+    return;
+  }
+
   try {
-    const payload = await getBodyEphemeris({ id, forceRefresh, correlationId: requestId });
+    const payload = await getBodyEphemeris({
+      id,
+      forceRefresh,
+      correlationId: requestId,
+      at,
+      observer: location.observer,
+      reference: frame.reference
+    });
     if (payload?.metadata?.responseTimeMs !== undefined) {
       res.setHeader('X-Horizons-Latency', payload.metadata.responseTimeMs);
     }
@@ -110,6 +583,9 @@ router.get('/body/:id', async (req: Request, res: Response) => {
       res.setHeader('X-Horizons-TTL', payload.metadata.cacheExpiresInMs.toString());
     }
     res.setHeader('X-Horizons-Frozen', payload?.metadata?.frozenSnapshot ? '1' : '0');
+    if (location.observer) {
+      res.setHeader('X-Horizons-Observer', formatObserverHeader(location.observer));
+    }
     if (payload?.metadata?.requestId || requestId) {
       res.setHeader('X-Request-Id', payload?.metadata?.requestId ?? requestId ?? '');
     }
@@ -0,0 +1,149 @@
+import { Router, Request, Response } from 'express';
+import { logError } from '../observability/logger';
+import { sendInvalidParameter, validateRequest } from '../openapi/validateRequest';
+import { CZML_DEFAULT_TARGETS, czmlFilename, exportCzml } from '../services/czmlService';
+import {
+  collectEphemerisExport,
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  EXPORT_MAX_BODIES,
+  EXPORT_TARGET_BY_ID,
+  ExportFormat,
+  ExportTarget,
+  exportFilename,
+  renderEphemerisExport
+} from '../services/exportService';
+import { ParameterError, parseForceRefresh, parseReference, parseSeriesWindow } from './queryParams';
+
+const router = Router();
+
+/**
+ * Lit `?bodies=earth,voyager1` (ou répété) : cibles dédoublonnées, dans l'ordre
+ * demandé, au plus EXPORT_MAX_BODIES (`fallback` compris). Sans `fallback`, le
+ * paramètre est obligatoire.
+ */
+function parseTargets(req: Request, fallback?: ExportTarget[]): { targets: ExportTarget[] } | ParameterError {
+  const raw = req.query?.bodies;
+  const values = Array.isArray(raw) ? raw : raw === undefined ? [] : [raw];
+  const ids = Array.from(
+    new Set(
+      values
+        .filter((v): v is string => typeof v === 'string')
+        .flatMap((v) => v.split(','))
+        .map((v) => v.trim().toLowerCase())
+        .filter(Boolean)
+    )
+  );
+  if (!ids.length && fallback) {
+    if (fallback.length > EXPORT_MAX_BODIES) {
+      return { param: 'bodies', error: `Too many default bodies (max ${EXPORT_MAX_BODIES}); pass "bodies" explicitly` };
+    }
+    return { targets: fallback };
+  }
+  if (!ids.length) {
+    return { param: 'bodies', error: 'Missing "bodies" parameter (comma-separated list expected)' };
+  }
+  const unknown = ids.filter((id) => !EXPORT_TARGET_BY_ID.has(id));
+  if (unknown.length) {
+    return { param: 'bodies', error: `Unknown body id(s): ${unknown.join(', ')}` };
+  }
+  if (ids.length > EXPORT_MAX_BODIES) {
+    return { param: 'bodies', error: `Too many bodies (max ${EXPORT_MAX_BODIES})` };
+  }
+  return { targets: ids.map((id) => EXPORT_TARGET_BY_ID.get(id) as ExportTarget) };
+}
+
+/**
+ * Vecteurs d'état de plusieurs cibles (planètes, lunes, sondes) sur une
+ * fenêtre, en fichier téléchargeable : CSV, JSON Lines ou OEM CCSDS.
+ */
+router.get('/ephemeris', validateRequest('exportEphemeris'), async (req: Request, res: Response) => {
+  const requestId = req.requestId;
+  const targets = parseTargets(req);
+  if ('error' in targets) {
+    sendInvalidParameter(res, requestId, targets.param, targets.error);
+    return;
+  }
+  const parsed = parseSeriesWindow(req);
+  if ('error' in parsed) {
+    sendInvalidParameter(res, requestId, parsed.param, parsed.error);
+    return;
+  }
+  const frame = parseReference(req);
+  if ('error' in frame) {
+    sendInvalidParameter(res, requestId, frame.param, frame.error);
+    return;
+  }
+  const rawFormat = typeof req.query?.format === 'string' ? req.query.format.trim().toLowerCase() : '';
+  const format = (rawFormat || 'csv') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    const expected = EXPORT_FORMATS.join(', ');
+    sendInvalidParameter(res, requestId, 'format', `Invalid "format" parameter (expected one of: ${expected})`);
+    return;
+  }
+
+  try {
+    const data = await collectEphemerisExport({
+      targets: targets.targets,
+      window: parsed.window,
+      reference: frame.reference,
+      forceRefresh: parseForceRefresh(req),
+      correlationId: requestId
+    });
+    if (data.missingBodies.length) {
+      res.setHeader('X-Export-Missing-Bodies', data.missingBodies.join(','));
+    }
+    res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+    res.setHeader('Content-Disposition', `attachment; filename="${exportFilename(data, format)}"`);
+    res.send(renderEphemerisExport(data, format));
+  } catch (err: any) {
+    logError('ephemeris_export_failed', {
+      error: err?.message ?? String(err),
+      requestId,
+      query: req.query
+    });
+    res.status(500).json({ error: "Erreur lors de l'export des éphémérides", requestId });
+  }
+});
+
+/**
+ * Document CZML pour les viewers Cesium : positions datées (UTC, ICRF
+ * géocentrique, m) avec indications d'interpolation et trajectoires aux
+ * couleurs du catalogue. Le Soleil et les planètes si `bodies` est absent.
+ */
+router.get('/czml', validateRequest('exportCzml'), async (req: Request, res: Response) => {
+  const requestId = req.requestId;
+  const targets = parseTargets(req, CZML_DEFAULT_TARGETS);
+  if ('error' in targets) {
+    sendInvalidParameter(res, requestId, targets.param, targets.error);
+    return;
+  }
+  const parsed = parseSeriesWindow(req);
+  if ('error' in parsed) {
+    sendInvalidParameter(res, requestId, parsed.param, parsed.error);
+    return;
+  }
+
+  try {
+    const { data, czml } = await exportCzml({
+      targets: targets.targets,
+      window: parsed.window,
+      forceRefresh: parseForceRefresh(req),
+      correlationId: requestId
+    });
+    if (data.missingBodies.length) {
+      res.setHeader('X-Export-Missing-Bodies', data.missingBodies.join(','));
+    }
+    res.setHeader('Content-Disposition', `attachment; filename="${czmlFilename(data)}"`);
+    res.json(czml);
+  } catch (err: any) {
+    logError('czml_export_failed', {
+      error: err?.message ?? String(err),
+      requestId,
+      query: req.query
+    });
+    res.status(500).json({ error: "Erreur lors de l'export CZML", requestId });
+  }
+});
+
+export default router;
@@ -0,0 +1,103 @@
+import { Request } from 'express';
+import { countSeriesRows, SERIES_MAX_ROWS, SeriesWindow } from '../cache/seriesCache';
+import {
+  DEFAULT_REFERENCE,
+  isReferenceCenter,
+  isReferencePlane,
+  REFERENCE_CENTERS,
+  REFERENCE_PLANES,
+  VectorReference
+} from '../config/frames';
+
+// Paramètres communs aux routes (rafraîchissement du cache, fenêtre, repère).
+
+/** Erreur de lecture d'un paramètre : réponse 400 structurée (`details`). */
+export interface ParameterError {
+  param: string;
+  error: string;
+}
+
+/** `?refresh=1|true` ou en-tête `X-Refresh-Cache: 1|true` : ignore le cache. */
+export function parseForceRefresh(req: Request): boolean {
+  const refreshParam = req.query?.refresh;
+  const refreshParamValue =
+    typeof refreshParam === 'string'
+      ? refreshParam
+      : Array.isArray(refreshParam)
+      ? refreshParam.find((v) => v === '1' || v === 'true')
+      : undefined;
+  const refreshHeaderRaw = req.headers['x-refresh-cache'];
+  const refreshHeader = Array.isArray(refreshHeaderRaw)
+    ? refreshHeaderRaw[0]
+    : refreshHeaderRaw;
+
+  return (
+    refreshParamValue === '1' ||
+    refreshParamValue === 'true' ||
+    refreshHeader === '1' ||
+    refreshHeader === 'true'
+  );
+}
+
+/**
+ * Lit le repère des vecteurs : `?center=` (ssb, sun ou une planète) et
+ * `?frame=` (ecliptic, equatorial). Barycentre / écliptique J2000 par défaut.
+ */
+export function parseReference(req: Request): { reference: VectorReference } | ParameterError {
+  const { center: rawCenter, frame: rawFrame } = req.query ?? {};
+  const center = typeof rawCenter === 'string' ? rawCenter.trim().toLowerCase() : rawCenter;
+  const frame = typeof rawFrame === 'string' ? rawFrame.trim().toLowerCase() : rawFrame;
+
+  if (center !== undefined && (typeof center !== 'string' || !isReferenceCenter(center))) {
+    return { param: 'center', error: `Invalid "center" parameter (expected one of: ${REFERENCE_CENTERS.join(', ')})` };
+  }
+  if (frame !== undefined && (typeof frame !== 'string' || !isReferencePlane(frame))) {
+    return { param: 'frame', error: `Invalid "frame" parameter (expected one of: ${REFERENCE_PLANES.join(', ')})` };
+  }
+  return {
+    reference: {
+      center: center ?? DEFAULT_REFERENCE.center,
+      frame: frame ?? DEFAULT_REFERENCE.frame
+    }
+  };
+}
+
+/**
+ * Lit et borne la fenêtre `?start=&stop=&step=` d'une série temporelle.
+ * `step` vaut "1d" par défaut et est normalisé ("1 D" → "1d") pour que la clé de
+ * cache soit la même ; le nombre de lignes ne dépasse pas SERIES_MAX_ROWS.
+ */
+export function parseSeriesWindow(req: Request): { window: SeriesWindow } | ParameterError {
+  const { start: rawStart, stop: rawStop, step: rawStep } = req.query ?? {};
+  if (typeof rawStart !== 'string' || typeof rawStop !== 'string') {
+    return {
+      param: typeof rawStart !== 'string' ? 'start' : 'stop',
+      error: 'Missing "start" or "stop" parameter (ISO-8601 expected)'
+    };
+  }
+
+  const start = new Date(rawStart.trim());
+  const stop = new Date(rawStop.trim());
+  if (!Number.isFinite(start.getTime()) || !Number.isFinite(stop.getTime())) {
+    return {
+      param: Number.isFinite(start.getTime()) ? 'stop' : 'start',
+      error: 'Invalid "start" or "stop" parameter (ISO-8601 expected)'
+    };
+  }
+  if (stop.getTime() <= start.getTime()) {
+    return { param: 'stop', error: '"stop" must be after "start"' };
+  }
+
+  const normalizedStep = typeof rawStep === 'string' ? rawStep.replace(/\s+/g, '').toLowerCase() : '';
+  const step = normalizedStep || '1d';
+  const window: SeriesWindow = { start, stop, step };
+  const rows = countSeriesRows(window);
+  if (rows === null) {
+    return { param: 'step', error: 'Invalid "step" parameter (expected e.g. "30m", "6h", "1d")' };
+  }
+  if (rows > SERIES_MAX_ROWS) {
+    return { param: 'step', error: `Too many rows requested (${rows} > ${SERIES_MAX_ROWS}), increase "step"` };
+  }
+
+  return { window };
+}
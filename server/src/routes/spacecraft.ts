@@ -0,0 +1,82 @@
+import { Router, Request, Response } from 'express';
+import { SPACECRAFT, SPACECRAFT_BY_ID } from '../config/spacecraft';
+import { logError } from '../observability/logger';
+import { validateRequest } from '../openapi/validateRequest';
+import { getSpacecraft } from '../services/spacecraftService';
+import { getTrajectory } from '../services/trajectoryService';
+import { parseForceRefresh } from './queryParams';
+
+const router = Router();
+
+// Registre des sondes (sans télémétrie) : alimente la navigation du client.
+router.get('/', validateRequest('listSpacecraft'), (_req: Request, res: Response) => {
+  res.json({ spacecraft: SPACECRAFT });
+});
+
+router.get('/:id', validateRequest('getSpacecraft'), async (req: Request, res: Response) => {
+  const requestId = req.requestId;
+  const spacecraft = SPACECRAFT_BY_ID.get(req.params.id);
+  if (!spacecraft) {
+    res.status(404).json({
+      error: `Unknown spacecraft "${req.params.id}"`,
+      requestId
+    });
+    return;
+  }
+
+  try {
+    const payload = await getSpacecraft({
+      spacecraft,
+      correlationId: requestId,
+      forceRefresh: parseForceRefresh(req)
+    });
+    res.setHeader('X-Horizons-Cache', payload.metadata.cacheStatus ?? 'MISS');
+    res.json(payload);
+  } catch (err: any) {
+    logError('spacecraft_fetch_failed', {
+      requestId,
+      id: spacecraft.id,
+      error: err?.message ?? String(err)
+    });
+    res.status(500).json({
+      error: `Impossible de récupérer les données de ${spacecraft.displayName}`,
+      requestId
+    });
+  }
+});
+
+// Trajectoire historique depuis le lancement, avec la position des survols.
+router.get('/:id/trajectory', validateRequest('getSpacecraftTrajectory'), async (req: Request, res: Response) => {
+  const requestId = req.requestId;
+  const spacecraft = SPACECRAFT_BY_ID.get(req.params.id);
+  if (!spacecraft) {
+    res.status(404).json({
+      error: `Unknown spacecraft "${req.params.id}"`,
+      requestId
+    });
+    return;
+  }
+
+  try {
+    const payload = await getTrajectory({
+      spacecraft,
+      correlationId: requestId,
+      forceRefresh: parseForceRefresh(req)
+    });
+    res.setHeader('X-Horizons-Cache', payload.metadata.cacheStatus ?? 'MISS');
+    res.setHeader('X-Horizons-Cache-Backend', payload.metadata.cacheBackend ?? 'horizons');
+    res.json(payload);
+  } catch (err: any) {
+    logError('spacecraft_trajectory_failed', {
+      requestId,
+      id: spacecraft.id,
+      error: err?.message ?? String(err)
+    });
+    res.status(500).json({
+      error: `Impossible de reconstruire la trajectoire de ${spacecraft.displayName}`,
+      requestId
+    });
+  }
+});
+
+export default router;
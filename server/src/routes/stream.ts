@@ -0,0 +1,74 @@
+import { Router, Request, Response } from 'express';
+import { logInfo } from '../observability/logger';
+import { recordStreamClient } from '../observability/metrics';
+import { sendInvalidParameter, validateRequest } from '../openapi/validateRequest';
+import { parseTopic, subscribe } from '../stream/streamHub';
+import { StreamTopic } from '../stream/streamEvents';
+
+const HEARTBEAT_MS = Number(process.env.STREAM_HEARTBEAT_MS ?? 15_000);
+
+const router = Router();
+
+/**
+ * Lit `?topics=planets:full,body:sun` ; retourne `null` si un sujet est inconnu.
+ */
+export function parseTopics(raw: unknown): StreamTopic[] | null {
+  const values = (Array.isArray(raw) ? raw : [raw])
+    .filter((v): v is string => typeof v === 'string')
+    .flatMap((v) => v.split(','))
+    .filter((v) => v.trim().length > 0);
+  if (values.length === 0) {
+    return null;
+  }
+  const topics: StreamTopic[] = [];
+  for (const value of values) {
+    const topic = parseTopic(value);
+    if (!topic) {
+      return null;
+    }
+    topics.push(topic);
+  }
+  return topics;
+}
+
+// Server-Sent Events : un évènement nommé par sujet, `data` = payload JSON.
+router.get('/', validateRequest('getStream'), (req: Request, res: Response) => {
+  const requestId = req.requestId;
+  const topics = parseTopics(req.query.topics);
+  if (!topics) {
+    sendInvalidParameter(
+      res,
+      requestId,
+      'topics',
+      'Invalid "topics" parameter (planets, planets:full, voyagers, body:<id>[@<center>], spacecraft:<id>)'
+    );
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.write('retry: 5000\n\n');
+
+  const unsubscribe = subscribe(topics, (topic, payload) => {
+    res.write(`event: ${topic}\ndata: ${JSON.stringify(payload)}\n\n`);
+  });
+  const heartbeat = setInterval(() => {
+    res.write(': keep-alive\n\n');
+  }, HEARTBEAT_MS);
+
+  recordStreamClient('sse', 1);
+  logInfo('stream_client_connected', { requestId, transport: 'sse', topics });
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+    recordStreamClient('sse', -1);
+    logInfo('stream_client_disconnected', { requestId, transport: 'sse' });
+  });
+});
+
+export default router;
@@ -1,11 +1,11 @@
 import axios from 'axios';
 import fs from 'fs/promises';
 import path from 'path';
+import { AU_IN_KM } from '@solar-system/shared';
 
 import { PLANETS, PlanetName } from '../config/planets';
 import { logInfo, logWarn } from '../observability/logger';
 
-const AU_IN_KM = 149_597_870.7;
 const CATALOG_FILENAME = 'solar-system-catalog.json';
 const CATALOG_CACHE_TTL_MS = Number(process.env.CATALOG_CACHE_TTL_MS ?? 6 * 60 * 60 * 1000);
 const LE_SYSTEME_BASE_URL = process.env.LE_SYSTEME_SOLAIRE_API_URL ?? 'https://api.le-systeme-solaire.net/rest';
@@ -154,6 +154,32 @@ async function readLocalCatalog(): Promise<CatalogPayload | null> {
   return null;
 }
 
+let colorsPromise: Promise<Map<string, string>> | null = null;
+
+/**
+ * Couleurs du catalogue local par identifiant (Soleil, planètes, lunes), sans
+ * appel réseau. Une lune sans couleur propre prend celle de sa planète.
+ */
+export function getCatalogColors(): Promise<Map<string, string>> {
+  colorsPromise ??= readLocalCatalog().then((catalog) => {
+    const colors = new Map<string, string>();
+    if (!catalog) return colors;
+    const setColor = (id: unknown, color: unknown) => {
+      if (typeof id === 'string' && typeof color === 'string') colors.set(id, color);
+    };
+    setColor(catalog.star?.id ?? 'sun', catalog.star?.color);
+    for (const planet of catalog.planets) {
+      setColor(planet.name, planet.color);
+      const moons = Array.isArray(planet.moons) ? (planet.moons as Record<string, unknown>[]) : [];
+      for (const moon of moons) {
+        setColor(moon.id, moon.color ?? planet.color);
+      }
+    }
+    return colors;
+  });
+  return colorsPromise;
+}
+
 async function fetchLeSystemePlanets(): Promise<{
   planets: Map<string, Record<string, unknown>>;
   star: Record<string, unknown> | null;
@@ -0,0 +1,184 @@
+import { AU_IN_KM } from '@solar-system/shared';
+import { SeriesWindow } from '../cache/seriesCache';
+import { VectorReference } from '../config/frames';
+import { getCatalogColors } from './catalogService';
+import {
+  collectEphemerisExport,
+  EphemerisExport,
+  EXPORT_TARGETS,
+  ExportTarget,
+  ExportTargetKind
+} from './exportService';
+import { tdbJulianDayToUtcMs } from './interpolationService';
+
+/**
+ * Le repère INERTIAL de CZML est l'ICRF centré sur la Terre : les séries sont
+ * demandées géocentriques et équatoriales, puis converties en mètres.
+ */
+export const CZML_REFERENCE: VectorReference = { center: 'earth', frame: 'equatorial' };
+
+/** Cibles exportées sans `bodies` : le Soleil et les planètes (soumises à EXPORT_MAX_BODIES). */
+export const CZML_DEFAULT_TARGETS: ExportTarget[] = EXPORT_TARGETS.filter(
+  (t) => t.kind === 'planet' || t.kind === 'star'
+);
+
+const METERS_PER_AU = AU_IN_KM * 1000;
+
+// Couleurs hors catalogue (sondes, corps absents du fichier local).
+const DEFAULT_COLORS: Record<ExportTargetKind, string> = {
+  star: '#ffcc33',
+  planet: '#ffffff',
+  moon: '#c8c8c8',
+  spacecraft: '#00fff0'
+};
+
+const POINT_SIZES: Record<ExportTargetKind, number> = {
+  star: 12,
+  planet: 8,
+  moon: 4,
+  spacecraft: 5
+};
+
+const PATH_WIDTHS: Record<ExportTargetKind, number> = {
+  star: 1,
+  planet: 2,
+  moon: 1,
+  spacecraft: 2
+};
+
+// Durée de lecture de l'intervalle complet au multiplicateur proposé (s).
+const PLAYBACK_SECONDS = 120;
+
+export type CzmlPacket = { id: string } & Record<string, unknown>;
+
+/** `#rrggbb` vers `[r, g, b, a]` (0-255) ; blanc si la couleur est illisible. */
+function toRgba(hex: string, alpha = 255): [number, number, number, number] {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return [255, 255, 255, alpha];
+  const value = parseInt(match[1], 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff, alpha];
+}
+
+/** Horizons date les vecteurs en TDB ; CZML attend de l'UTC. */
+function sampleUtcMs(sample: { timestamp: string; julian_day_tdb?: number }): number {
+  return sample.julian_day_tdb !== undefined ? tdbJulianDayToUtcMs(sample.julian_day_tdb) : Date.parse(sample.timestamp);
+}
+
+function iso(ms: number): string {
+  return new Date(ms).toISOString();
+}
+
+function stepSeconds(times: number[]): number {
+  return times.length > 1 ? Math.max(1, Math.round((times[1] - times[0]) / 1000)) : 0;
+}
+
+function bodyPacket(target: ExportTarget, times: number[], positions: number[][], color: string): CzmlPacket {
+  const epoch = times[0];
+  const cartesian: number[] = [];
+  times.forEach((t, i) => cartesian.push((t - epoch) / 1000, ...positions[i]));
+  const spanSeconds = (times[times.length - 1] - epoch) / 1000;
+  const rgba = toRgba(color);
+
+  const packet: CzmlPacket = {
+    id: target.id,
+    name: target.name,
+    availability: `${iso(epoch)}/${iso(times[times.length - 1])}`,
+    properties: { kind: target.kind, horizonsId: target.horizonsId },
+    position: {
+      epoch: iso(epoch),
+      referenceFrame: 'INERTIAL',
+      ...(times.length > 1
+        ? { interpolationAlgorithm: 'LAGRANGE', interpolationDegree: Math.min(5, times.length - 1) }
+        : {}),
+      cartesian
+    },
+    point: {
+      pixelSize: POINT_SIZES[target.kind],
+      color: { rgba },
+      outlineWidth: 0
+    },
+    label: {
+      text: target.name,
+      font: '12px sans-serif',
+      fillColor: { rgba },
+      horizontalOrigin: 'LEFT',
+      pixelOffset: { cartesian2: [8, 0] },
+      show: target.kind !== 'moon'
+    },
+    path: {
+      width: PATH_WIDTHS[target.kind],
+      leadTime: 0,
+      trailTime: spanSeconds,
+      resolution: stepSeconds(times) || 60,
+      material: { solidColor: { color: { rgba: toRgba(color, 180) } } }
+    }
+  };
+  // Un modèle glTF ajouté côté viewer s'aligne ainsi sur la vitesse de la sonde.
+  if (target.kind === 'spacecraft') {
+    packet.orientation = { velocityReference: '#position' };
+  }
+  return packet;
+}
+
+/**
+ * Document CZML : un paquet `document` (horloge calée sur l'intervalle), puis
+ * un paquet par cible avec positions échantillonnées (m, ICRF géocentrique),
+ * point, étiquette et trajectoire aux couleurs du catalogue.
+ */
+export function buildCzml(data: EphemerisExport, colors: Map<string, string>): CzmlPacket[] {
+  const tracks = data.tracks
+    .map(({ target, samples }) => ({
+      target,
+      times: samples.map(sampleUtcMs),
+      positions: samples.map((s) => [s.x_au * METERS_PER_AU, s.y_au * METERS_PER_AU, s.z_au * METERS_PER_AU])
+    }))
+    .filter((t) => t.times.length > 0);
+
+  // Sans échantillon, l'horloge couvre la fenêtre demandée.
+  const start = tracks.length ? Math.min(...tracks.map((t) => t.times[0])) : Date.parse(data.start);
+  const stop = tracks.length ? Math.max(...tracks.map((t) => t.times[t.times.length - 1])) : Date.parse(data.stop);
+
+  const document: CzmlPacket = {
+    id: 'document',
+    name: 'Solar System Live',
+    version: '1.0',
+    clock: {
+      interval: `${iso(start)}/${iso(stop)}`,
+      currentTime: iso(start),
+      multiplier: Math.max(1, Math.round((stop - start) / 1000 / PLAYBACK_SECONDS)),
+      range: 'LOOP_STOP',
+      step: 'SYSTEM_CLOCK_MULTIPLIER'
+    },
+    properties: {
+      source: data.source,
+      referenceFrame: data.referenceFrame,
+      center: data.reference.center,
+      generatedAt: data.generatedAt,
+      missingBodies: data.missingBodies
+    }
+  };
+
+  return [
+    document,
+    ...tracks.map((t) =>
+      bodyPacket(t.target, t.times, t.positions, colors.get(t.target.id) ?? DEFAULT_COLORS[t.target.kind])
+    )
+  ];
+}
+
+/** Séries géocentriques des cibles puis document CZML (couleurs du catalogue local). */
+export async function exportCzml(options: {
+  targets: ExportTarget[];
+  window: SeriesWindow;
+  forceRefresh?: boolean;
+  correlationId?: string;
+}): Promise<{ data: EphemerisExport; czml: CzmlPacket[] }> {
+  const data = await collectEphemerisExport({ ...options, reference: CZML_REFERENCE });
+  const colors = await getCatalogColors();
+  return { data, czml: buildCzml(data, colors) };
+}
+
+/** Nom de fichier proposé, ex: `solar-system-20240301.czml`. */
+export function czmlFilename(data: EphemerisExport): string {
+  return `solar-system-${data.start.slice(0, 10).replace(/-/g, '')}.czml`;
+}
@@ -0,0 +1,120 @@
+import { DsnDocument, DsnSignal, DsnTarget, fetchDsnDocument } from '../nasa/dsnClient';
+import { logWarn } from '../observability/logger';
+import { recordDsnRequest } from '../observability/metrics';
+
+// DSN Now est régénéré toutes les 5 s : inutile d'interroger la NASA plus souvent.
+const DSN_CACHE_TTL_MS = Number(process.env.DSN_CACHE_TTL_MS ?? 5_000);
+// Au-delà, une copie périmée n'est plus servie quand la NASA ne répond pas.
+const DSN_STALE_MAX_MS = Number(process.env.DSN_STALE_MAX_MS ?? 10 * 60 * 1000);
+
+export interface DsnPayload extends DsnDocument {
+  requestId?: string;
+  metadata: {
+    source: 'NASA-DSN-Now';
+    fetchedAt: string;
+    cacheStatus: 'HIT' | 'MISS' | 'STALE';
+    cacheAgeMs: number;
+    responseTimeMs?: number;
+    /** Filtre `?spacecraft=` appliqué, le cas échéant. */
+    spacecraft?: string;
+    /** Erreur du dernier rafraîchissement quand une copie périmée est servie. */
+    error?: string;
+  };
+}
+
+let cached: { document: DsnDocument; fetchedAt: number } | null = null;
+let inflight: Promise<DsnDocument> | null = null;
+
+function matches(entry: DsnSignal | DsnTarget, wanted: string): boolean {
+  const name = 'spacecraft' in entry ? entry.spacecraft : entry.name;
+  return entry.registryId === wanted || name.toLowerCase() === wanted;
+}
+
+/**
+ * Ne garde que les antennes en contact avec `spacecraft` (id du registre, ex.
+ * `voyager1`, ou code DSN, ex. `VGR1`), et seulement ses signaux et cibles.
+ * Les trois complexes restent listés, éventuellement sans antenne.
+ */
+export function filterDsnBySpacecraft(document: DsnDocument, spacecraft: string): DsnDocument {
+  const wanted = spacecraft.trim().toLowerCase();
+  return {
+    ...document,
+    stations: document.stations.map((station) => ({
+      ...station,
+      dishes: station.dishes
+        .map((dish) => ({
+          ...dish,
+          upSignals: dish.upSignals.filter((s) => matches(s, wanted)),
+          downSignals: dish.downSignals.filter((s) => matches(s, wanted)),
+          targets: dish.targets.filter((t) => matches(t, wanted))
+        }))
+        .filter((dish) => dish.targets.length + dish.upSignals.length + dish.downSignals.length > 0)
+    }))
+  };
+}
+
+function toPayload(
+  document: DsnDocument,
+  fetchedAt: number,
+  cacheStatus: DsnPayload['metadata']['cacheStatus'],
+  options: { spacecraft?: string; correlationId?: string; started: number; error?: string }
+): DsnPayload {
+  const view = options.spacecraft ? filterDsnBySpacecraft(document, options.spacecraft) : document;
+  return {
+    ...view,
+    requestId: options.correlationId,
+    metadata: {
+      source: 'NASA-DSN-Now',
+      fetchedAt: new Date(fetchedAt).toISOString(),
+      cacheStatus,
+      cacheAgeMs: Date.now() - fetchedAt,
+      responseTimeMs: Date.now() - options.started,
+      ...(options.spacecraft ? { spacecraft: options.spacecraft } : {}),
+      ...(options.error ? { error: options.error } : {})
+    }
+  };
+}
+
+/**
+ * État courant du Deep Space Network, caché `DSN_CACHE_TTL_MS`. Si la NASA ne
+ * répond pas, la dernière copie (moins de `DSN_STALE_MAX_MS`) est servie en STALE.
+ */
+export async function getDsnSnapshot(options?: {
+  spacecraft?: string;
+  forceRefresh?: boolean;
+  correlationId?: string;
+}): Promise<DsnPayload> {
+  const started = Date.now();
+  const context = { spacecraft: options?.spacecraft, correlationId: options?.correlationId, started };
+
+  if (!options?.forceRefresh && cached && started - cached.fetchedAt < DSN_CACHE_TTL_MS) {
+    recordDsnRequest('hit');
+    return toPayload(cached.document, cached.fetchedAt, 'HIT', context);
+  }
+
+  if (!inflight) {
+    inflight = fetchDsnDocument(options?.correlationId)
+      .then((document) => {
+        cached = { document, fetchedAt: Date.now() };
+        return document;
+      })
+      .finally(() => {
+        inflight = null;
+      });
+  }
+
+  try {
+    await inflight;
+    recordDsnRequest('success', Date.now() - started);
+    return toPayload(cached!.document, cached!.fetchedAt, 'MISS', context);
+  } catch (err: any) {
+    const error = err?.message ?? String(err);
+    if (cached && Date.now() - cached.fetchedAt < DSN_STALE_MAX_MS) {
+      recordDsnRequest('stale', Date.now() - started);
+      logWarn('dsn_serving_stale', { requestId: options?.correlationId, error });
+      return toPayload(cached.document, cached.fetchedAt, 'STALE', { ...context, error });
+    }
+    recordDsnRequest('error', Date.now() - started);
+    throw err;
+  }
+}
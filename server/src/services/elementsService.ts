@@ -0,0 +1,149 @@
+import { BODY_BY_ID, BodyId } from '../config/bodies';
+import { PLANETS } from '../config/planets';
+import { SPACECRAFT_BY_ID } from '../config/spacecraft';
+import { toEpochKey } from '../cache/ephemerisCache';
+import { fetchOsculatingElements, OsculatingElements } from '../nasa/horizonsClient';
+
+// Les éléments osculateurs d'une planète dérivent de quelques millièmes par jour :
+// quelques heures de cache suffisent largement pour tracer les orbites.
+const ELEMENTS_CACHE_TTL_MS = Number(process.env.ELEMENTS_CACHE_TTL_MS ?? 6 * 60 * 60 * 1000);
+const ELEMENTS_CACHE_MAX_ENTRIES = Number(process.env.ELEMENTS_CACHE_MAX_ENTRIES ?? 256);
+
+export type ElementsTargetKind = 'planet' | 'moon' | 'spacecraft';
+
+export interface ElementsTarget {
+  id: string;
+  kind: ElementsTargetKind;
+  horizonsId: string;
+  center: { id: string; horizonsId: string };
+}
+
+export interface OrbitalElementsPayload {
+  id: string;
+  kind: ElementsTargetKind;
+  /** Corps autour duquel les éléments sont calculés (Soleil ou planète mère). */
+  center: { id: string; horizonsId: string };
+  referenceFrame: string;
+  source: string;
+  elements: OsculatingElements;
+  metadata: {
+    responseTimeMs?: number;
+    requestId?: string;
+    epoch?: string;
+    cacheStatus?: 'HIT' | 'MISS';
+    cacheAgeMs?: number;
+  };
+}
+
+const SUN_CENTER = { id: 'sun', horizonsId: '10' };
+
+const cache = new Map<string, { payload: OrbitalElementsPayload; cachedAt: number }>();
+const inflight = new Map<string, Promise<OrbitalElementsPayload>>();
+
+/**
+ * Planètes et sondes : éléments héliocentriques ; lunes : autour de leur
+ * planète mère (centre du corps "X99" d'Horizons). Le Soleil n'a pas d'orbite.
+ */
+export function resolveElementsTarget(id: string): ElementsTarget | null {
+  const planet = PLANETS.find((p) => p.name === id);
+  if (planet) {
+    return { id: planet.name, kind: 'planet', horizonsId: planet.horizonsId, center: SUN_CENTER };
+  }
+
+  const spacecraft = SPACECRAFT_BY_ID.get(id);
+  if (spacecraft) {
+    return { id: spacecraft.id, kind: 'spacecraft', horizonsId: spacecraft.horizonsId, center: SUN_CENTER };
+  }
+
+  const body = BODY_BY_ID.get(id as BodyId);
+  if (body?.kind === 'moon') {
+    const parentHorizonsId = `${body.horizonsId.charAt(0)}99`;
+    const parent = PLANETS.find((p) => p.horizonsId === parentHorizonsId);
+    if (parent) {
+      return {
+        id: body.id,
+        kind: 'moon',
+        horizonsId: body.horizonsId,
+        center: { id: parent.name, horizonsId: parent.horizonsId }
+      };
+    }
+  }
+
+  return null;
+}
+
+async function fetchElements(
+  target: ElementsTarget,
+  at: Date | undefined,
+  correlationId?: string
+): Promise<OrbitalElementsPayload> {
+  const started = Date.now();
+  const result = await fetchOsculatingElements(target.horizonsId, target.id, {
+    centerId: target.center.horizonsId,
+    at,
+    correlationId
+  });
+
+  return {
+    id: target.id,
+    kind: target.kind,
+    center: target.center,
+    referenceFrame: result.referenceFrame,
+    source: result.source,
+    elements: result.elements,
+    metadata: {
+      responseTimeMs: Date.now() - started,
+      requestId: correlationId,
+      epoch: at ? toEpochKey(at) : undefined
+    }
+  };
+}
+
+/** Éléments osculateurs d'un corps (résolu au préalable par resolveElementsTarget). */
+export async function getOrbitalElements(options: {
+  target: ElementsTarget;
+  at?: Date;
+  forceRefresh?: boolean;
+  correlationId?: string;
+}): Promise<OrbitalElementsPayload> {
+  const epoch = options.at ? toEpochKey(options.at) : undefined;
+  const key = epoch ? `${options.target.id}@${epoch}` : options.target.id;
+  const now = Date.now();
+
+  if (!options.forceRefresh) {
+    const entry = cache.get(key);
+    if (entry && now - entry.cachedAt < ELEMENTS_CACHE_TTL_MS) {
+      return {
+        ...entry.payload,
+        metadata: {
+          ...entry.payload.metadata,
+          cacheStatus: 'HIT',
+          cacheAgeMs: now - entry.cachedAt,
+          requestId: options.correlationId
+        }
+      };
+    }
+  }
+
+  let pending = inflight.get(key);
+  if (!pending) {
+    pending = fetchElements(options.target, options.at, options.correlationId)
+      .then((payload) => {
+        cache.delete(key);
+        cache.set(key, { payload, cachedAt: Date.now() });
+        while (cache.size > ELEMENTS_CACHE_MAX_ENTRIES) {
+          const oldest = cache.keys().next().value;
+          if (oldest === undefined) break;
+          cache.delete(oldest);
+        }
+        return payload;
+      })
+      .finally(() => {
+        inflight.delete(key);
+      });
+    inflight.set(key, pending);
+  }
+
+  const payload = await pending;
+  return { ...payload, metadata: { ...payload.metadata, cacheStatus: 'MISS', cacheAgeMs: 0 } };
+}
@@ -0,0 +1,287 @@
+import { AU_IN_KM, SECONDS_PER_DAY } from '@solar-system/shared';
+import { getTargetSeries, SeriesSample, SeriesWindow } from '../cache/seriesCache';
+import { toEpochKey } from '../cache/ephemerisCache';
+import { BODIES } from '../config/bodies';
+import { DEFAULT_REFERENCE, referenceFrameLabel, VectorReference } from '../config/frames';
+import { PLANETS } from '../config/planets';
+import { SPACECRAFT } from '../config/spacecraft';
+import { logInfo, logWarn } from '../observability/logger';
+
+export const EXPORT_FORMATS = ['csv', 'jsonl', 'oem'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/** Nombre maximal de cibles par export (une requête Horizons par cible). */
+export const EXPORT_MAX_BODIES = Number(process.env.EXPORT_MAX_BODIES ?? 12);
+
+export type ExportTargetKind = 'planet' | 'star' | 'moon' | 'spacecraft';
+
+export interface ExportTarget {
+  id: string;
+  name: string;
+  kind: ExportTargetKind;
+  horizonsId: string;
+}
+
+/** Tout ce que l'API sait suivre : planètes, Soleil et lunes, sondes du registre. */
+export const EXPORT_TARGETS: ExportTarget[] = [
+  ...PLANETS.map((p): ExportTarget => ({ id: p.name, name: p.displayName, kind: 'planet', horizonsId: p.horizonsId })),
+  ...BODIES.map((b): ExportTarget => ({ id: b.id, name: b.displayName, kind: b.kind, horizonsId: b.horizonsId })),
+  ...SPACECRAFT.map(
+    (c): ExportTarget => ({ id: c.id, name: c.displayName, kind: 'spacecraft', horizonsId: c.horizonsId })
+  )
+];
+
+export const EXPORT_TARGET_BY_ID = new Map<string, ExportTarget>(EXPORT_TARGETS.map((t) => [t.id, t]));
+
+export interface ExportTrack {
+  target: ExportTarget;
+  samples: SeriesSample[];
+}
+
+/** Séries de plusieurs cibles sur une même fenêtre et dans un même repère. */
+export interface EphemerisExport {
+  generatedAt: string;
+  start: string;
+  stop: string;
+  step: string;
+  timeScale: 'TDB';
+  reference: VectorReference;
+  referenceFrame: string;
+  distanceUnit: 'AU';
+  velocityUnit: string;
+  source: string;
+  tracks: ExportTrack[];
+  /** Cibles sans données (échec Horizons) : l'export reste servi sans elles. */
+  missingBodies: string[];
+}
+
+/**
+ * Récupère la série de chaque cible (cache des séries, une requête Horizons
+ * à la fois). Une cible en échec est listée dans `missingBodies` ; l'export
+ * échoue seulement si aucune n'a de données.
+ */
+export async function collectEphemerisExport(options: {
+  targets: ExportTarget[];
+  window: SeriesWindow;
+  reference?: VectorReference;
+  forceRefresh?: boolean;
+  correlationId?: string;
+}): Promise<EphemerisExport> {
+  const reference = options.reference ?? DEFAULT_REFERENCE;
+  const tracks: ExportTrack[] = [];
+  const missing: string[] = [];
+  let header: Pick<EphemerisExport, 'referenceFrame' | 'velocityUnit' | 'source'> | undefined;
+
+  for (const target of options.targets) {
+    try {
+      const series = await getTargetSeries({
+        id: target.id,
+        name: target.name,
+        horizonsId: target.horizonsId,
+        window: options.window,
+        forceRefresh: options.forceRefresh,
+        correlationId: options.correlationId,
+        reference
+      });
+      header = header ?? series;
+      tracks.push({ target, samples: series.samples });
+    } catch (err: any) {
+      missing.push(target.id);
+      logWarn('export_body_missing', {
+        id: target.id,
+        requestId: options.correlationId,
+        error: err?.message ?? String(err)
+      });
+    }
+  }
+
+  if (tracks.length === 0) {
+    throw new Error('No Horizons data available');
+  }
+
+  logInfo('export_collected', {
+    bodies: tracks.map((t) => t.target.id),
+    rows: tracks.reduce((sum, t) => sum + t.samples.length, 0),
+    requestId: options.correlationId
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    start: toEpochKey(options.window.start),
+    stop: toEpochKey(options.window.stop),
+    step: options.window.step,
+    timeScale: 'TDB',
+    reference,
+    referenceFrame: header?.referenceFrame ?? referenceFrameLabel(reference),
+    distanceUnit: 'AU',
+    velocityUnit: header?.velocityUnit ?? 'AU/day',
+    source: header?.source ?? 'NASA-JPL-Horizons',
+    tracks,
+    missingBodies: missing
+  };
+}
+
+// --- CSV ---------------------------------------------------------------------
+
+function csvField(value: string | number | undefined): string {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Une ligne par échantillon, toutes cibles confondues. Les lignes `#` de tête
+ * donnent repère, origine, échelle de temps et unités ; les noms de colonnes
+ * portent aussi l'unité.
+ */
+export function formatCsv(data: EphemerisExport): string {
+  const lines = [
+    `# source: ${data.source}`,
+    `# reference_frame: ${data.referenceFrame}`,
+    `# center: ${data.reference.center}`,
+    `# time_scale: ${data.timeScale}`,
+    `# distance_unit: ${data.distanceUnit}`,
+    `# velocity_unit: ${data.velocityUnit}`,
+    `# window: ${data.start} / ${data.stop} step ${data.step}`,
+    `# generated_at: ${data.generatedAt}`
+  ];
+  if (data.missingBodies.length) {
+    lines.push(`# missing_bodies: ${data.missingBodies.join(' ')}`);
+  }
+  lines.push('body,name,time_tdb,julian_day_tdb,x_au,y_au,z_au,vx_au_per_day,vy_au_per_day,vz_au_per_day');
+
+  for (const { target, samples } of data.tracks) {
+    for (const s of samples) {
+      lines.push(
+        [target.id, target.name, s.timestamp, s.julian_day_tdb, s.x_au, s.y_au, s.z_au, s.vx, s.vy, s.vz]
+          .map(csvField)
+          .join(',')
+      );
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+// --- JSON Lines --------------------------------------------------------------
+
+/** Première ligne `type: "header"` (repère, unités, cibles), puis une ligne `type: "sample"` par échantillon. */
+export function formatJsonl(data: EphemerisExport): string {
+  const lines = [
+    JSON.stringify({
+      type: 'header',
+      source: data.source,
+      referenceFrame: data.referenceFrame,
+      center: data.reference.center,
+      timeScale: data.timeScale,
+      distanceUnit: data.distanceUnit,
+      velocityUnit: data.velocityUnit,
+      start: data.start,
+      stop: data.stop,
+      step: data.step,
+      generatedAt: data.generatedAt,
+      bodies: data.tracks.map(({ target, samples }) => ({ ...target, samples: samples.length })),
+      missingBodies: data.missingBodies.length ? data.missingBodies : undefined
+    })
+  ];
+  for (const { target, samples } of data.tracks) {
+    for (const s of samples) {
+      lines.push(JSON.stringify({ type: 'sample', body: target.id, ...s }));
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+// --- CCSDS OEM ---------------------------------------------------------------
+
+const OEM_CENTER_NAMES: Record<string, string> = {
+  ssb: 'SOLAR SYSTEM BARYCENTER',
+  sun: 'SUN'
+};
+
+// ICRF est un nom de repère CCSDS ; l'écliptique J2000 n'en a pas, on reprend
+// le nom NAIF (à déclarer côté outil, ou exporter avec `frame=equatorial`).
+const OEM_FRAME_NAMES: Record<VectorReference['frame'], string> = {
+  equatorial: 'ICRF',
+  ecliptic: 'ECLIPJ2000'
+};
+
+/** Époque CCSDS (`YYYY-MM-DDThh:mm:ss.sss`, sans suffixe de fuseau). */
+function oemEpoch(iso: string): string {
+  return new Date(iso).toISOString().replace('Z', '');
+}
+
+function oemNumber(value: number): string {
+  return value.toExponential(12);
+}
+
+/**
+ * Orbit Ephemeris Message CCSDS 502.0-B-2 en KVN : un segment par cible,
+ * positions en km et vitesses en km/s (unités imposées par le format),
+ * époques TDB. Les échantillons sans vitesse sont omis.
+ */
+export function formatOem(data: EphemerisExport): string {
+  const kmPerSecond = AU_IN_KM / SECONDS_PER_DAY;
+  const lines = [
+    'CCSDS_OEM_VERS = 2.0',
+    `COMMENT Source: ${data.source}, reference frame ${data.referenceFrame}`,
+    `CREATION_DATE = ${oemEpoch(data.generatedAt)}`,
+    'ORIGINATOR = SOLAR-SYSTEM-LIVE'
+  ];
+  if (data.missingBodies.length) {
+    lines.push(`COMMENT Missing bodies: ${data.missingBodies.join(' ')}`);
+  }
+
+  for (const { target, samples } of data.tracks) {
+    const rows = samples.filter((s) => s.vx !== undefined && s.vy !== undefined && s.vz !== undefined);
+    if (!rows.length) continue;
+
+    lines.push(
+      '',
+      'META_START',
+      `OBJECT_NAME = ${target.id.toUpperCase()}`,
+      `OBJECT_ID = ${target.horizonsId}`,
+      `CENTER_NAME = ${OEM_CENTER_NAMES[data.reference.center] ?? data.reference.center.toUpperCase()}`,
+      `REF_FRAME = ${OEM_FRAME_NAMES[data.reference.frame]}`,
+      `TIME_SYSTEM = ${data.timeScale}`,
+      `START_TIME = ${oemEpoch(rows[0].timestamp)}`,
+      `STOP_TIME = ${oemEpoch(rows[rows.length - 1].timestamp)}`,
+      'META_STOP',
+      '',
+      `COMMENT Horizons target ${target.horizonsId}, position in km, velocity in km/s`
+    );
+    for (const s of rows) {
+      const values = [
+        s.x_au * AU_IN_KM,
+        s.y_au * AU_IN_KM,
+        s.z_au * AU_IN_KM,
+        (s.vx as number) * kmPerSecond,
+        (s.vy as number) * kmPerSecond,
+        (s.vz as number) * kmPerSecond
+      ];
+      lines.push([oemEpoch(s.timestamp), ...values.map(oemNumber)].join(' '));
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  jsonl: 'application/x-ndjson; charset=utf-8',
+  oem: 'text/plain; charset=utf-8'
+};
+
+const FORMATTERS: Record<ExportFormat, (data: EphemerisExport) => string> = {
+  csv: formatCsv,
+  jsonl: formatJsonl,
+  oem: formatOem
+};
+
+export function renderEphemerisExport(data: EphemerisExport, format: ExportFormat): string {
+  return FORMATTERS[format](data);
+}
+
+/** Nom de fichier proposé au téléchargement, ex: `ephemeris-earth-mars-20240301.oem`. */
+export function exportFilename(data: EphemerisExport, format: ExportFormat): string {
+  const day = data.start.slice(0, 10).replace(/-/g, '');
+  return `ephemeris-${data.tracks.map((t) => t.target.id).join('-')}-${day}.${format}`;
+}
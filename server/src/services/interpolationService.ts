@@ -0,0 +1,457 @@
+import { AU_IN_KM, ChebyshevSegment, evaluateChebyshev } from '@solar-system/shared';
+import { BODY_BY_ID, BodyId } from '../config/bodies';
+import { PLANETS, PlanetName } from '../config/planets';
+import { fetchStateVectorSeries, StateVectorSample } from '../nasa/horizonsClient';
+import { logInfo, logWarn } from '../observability/logger';
+import { SERIES_MAX_ROWS, countSeriesRows } from '../cache/seriesCache';
+
+const MS_PER_DAY = 86_400_000;
+const JD_UNIX_EPOCH = 2_440_587.5;
+
+/** Erreur maximale tolérée entre l'interpolation et les échantillons Horizons. */
+export const INTERPOLATION_TOLERANCE_KM = Number(process.env.INTERPOLATION_TOLERANCE_KM ?? 500);
+const INTERPOLATION_CACHE_TTL_MS = Number(
+  process.env.INTERPOLATION_CACHE_TTL_MS ?? 6 * 60 * 60 * 1000
+);
+const INTERPOLATION_CACHE_MAX_ENTRIES = Number(process.env.INTERPOLATION_CACHE_MAX_ENTRIES ?? 32);
+
+type InterpolationKind = 'planet' | 'moon' | 'star';
+
+/**
+ * Échantillonnage Horizons et découpage initial par type de corps :
+ * les lunes tournent en quelques jours, il leur faut un pas horaire, donc
+ * une fenêtre par défaut plus courte pour rester sous SERIES_MAX_ROWS.
+ */
+const FIT_PROFILE: Record<
+  InterpolationKind,
+  { step: string; segmentDays: number; degree: number; defaultDaysBefore: number }
+> = {
+  planet: { step: '1d', segmentDays: 16, degree: 7, defaultDaysBefore: 366 },
+  star: { step: '1d', segmentDays: 16, degree: 7, defaultDaysBefore: 366 },
+  moon: { step: '1h', segmentDays: 1, degree: 7, defaultDaysBefore: 60 }
+};
+
+// Marge après aujourd'hui dans la fenêtre par défaut.
+const DEFAULT_DAYS_AFTER = 2;
+
+export type { ChebyshevSegment } from '@solar-system/shared';
+
+export interface BodyInterpolation {
+  id: string;
+  kind: InterpolationKind;
+  step: string;
+  sampleCount: number;
+  maxErrorKm: number;
+  segments: ChebyshevSegment[];
+}
+
+export interface InterpolationPayload {
+  start: string;
+  stop: string;
+  method: 'chebyshev';
+  timeScale: 'UTC';
+  referenceFrame: string;
+  distanceUnit: 'AU';
+  velocityUnit: 'AU/day';
+  toleranceKm: number;
+  bodies: BodyInterpolation[];
+  metadata: {
+    responseTimeMs?: number;
+    requestId?: string;
+    cacheStatus?: 'HIT' | 'MISS';
+    partial?: boolean;
+    missingBodies?: string[];
+  };
+}
+
+interface Target {
+  id: string;
+  kind: InterpolationKind;
+  horizonsId: string;
+}
+
+const cache = new Map<string, { payload: InterpolationPayload; expiresAt: number }>();
+const inflight = new Map<string, Promise<InterpolationPayload>>();
+
+// Secondes intercalaires (TAI-UTC) depuis 1972 ; TDB-UTC ≈ TAI-UTC + 32.184 s.
+const LEAP_SECONDS: Array<[number, number]> = [
+  [Date.UTC(1972, 0, 1), 10], [Date.UTC(1972, 6, 1), 11], [Date.UTC(1973, 0, 1), 12],
+  [Date.UTC(1974, 0, 1), 13], [Date.UTC(1975, 0, 1), 14], [Date.UTC(1976, 0, 1), 15],
+  [Date.UTC(1977, 0, 1), 16], [Date.UTC(1978, 0, 1), 17], [Date.UTC(1979, 0, 1), 18],
+  [Date.UTC(1980, 0, 1), 19], [Date.UTC(1981, 6, 1), 20], [Date.UTC(1982, 6, 1), 21],
+  [Date.UTC(1983, 6, 1), 22], [Date.UTC(1985, 6, 1), 23], [Date.UTC(1988, 0, 1), 24],
+  [Date.UTC(1990, 0, 1), 25], [Date.UTC(1991, 0, 1), 26], [Date.UTC(1992, 6, 1), 27],
+  [Date.UTC(1993, 6, 1), 28], [Date.UTC(1994, 6, 1), 29], [Date.UTC(1996, 0, 1), 30],
+  [Date.UTC(1997, 6, 1), 31], [Date.UTC(1999, 0, 1), 32], [Date.UTC(2006, 0, 1), 33],
+  [Date.UTC(2009, 0, 1), 34], [Date.UTC(2012, 6, 1), 35], [Date.UTC(2015, 6, 1), 36],
+  [Date.UTC(2017, 0, 1), 37]
+];
+
+export function tdbJulianDayToUtcMs(jd: number): number {
+  const tdbMs = (jd - JD_UNIX_EPOCH) * MS_PER_DAY;
+  let taiMinusUtc = LEAP_SECONDS[0][1];
+  for (const [since, seconds] of LEAP_SECONDS) {
+    if (tdbMs >= since) taiMinusUtc = seconds;
+  }
+  return tdbMs - (taiMinusUtc + 32.184) * 1000;
+}
+
+function resolveTarget(id: string): Target | null {
+  const planet = PLANETS.find((p) => p.name === id);
+  if (planet) {
+    return { id: planet.name, kind: 'planet', horizonsId: planet.horizonsId };
+  }
+  const body = BODY_BY_ID.get(id as BodyId);
+  if (body) {
+    return { id: body.id, kind: body.kind, horizonsId: body.horizonsId };
+  }
+  return null;
+}
+
+export function defaultInterpolationTargets(): PlanetName[] {
+  return PLANETS.map((p) => p.name);
+}
+
+/**
+ * Fenêtre par défaut alignée sur les jours UTC (le cache sert toute la
+ * journée) : [J-366, J+2] pour les planètes et le Soleil, [J-60, J+2] dès
+ * qu'une lune est demandée (pas horaire).
+ */
+export function defaultInterpolationWindow(ids: string[], now = new Date()): { start: Date; stop: Date } {
+  const today = new Date(now);
+  today.setUTCHours(0, 0, 0, 0);
+  const daysBefore = Math.min(
+    ...ids.map((id) => FIT_PROFILE[resolveTarget(id)?.kind ?? 'planet'].defaultDaysBefore)
+  );
+  return {
+    start: new Date(today.getTime() - daysBefore * MS_PER_DAY),
+    stop: new Date(today.getTime() + DEFAULT_DAYS_AFTER * MS_PER_DAY)
+  };
+}
+
+/** Vérifie que chaque cible est connue et tient dans SERIES_MAX_ROWS sur la fenêtre demandée. */
+export function validateInterpolationWindow(
+  ids: string[],
+  start: Date,
+  stop: Date
+): { param: 'ids' | 'start' | 'stop'; error: string } | null {
+  for (const id of ids) {
+    const target = resolveTarget(id);
+    if (!target) {
+      return { param: 'ids', error: `Unknown body id: ${id}` };
+    }
+    const step = FIT_PROFILE[target.kind].step;
+    const rows = countSeriesRows({ start, stop, step });
+    if (rows === null) {
+      return { param: 'stop', error: '"stop" must be after "start"' };
+    }
+    if (rows > SERIES_MAX_ROWS) {
+      return {
+        param: 'start',
+        error: `Window too long for ${id} (${rows} rows at ${step} > ${SERIES_MAX_ROWS}), move "start" closer to "stop"`
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Base de Chebyshev T_n(τ) et dérivées dT_n/dτ jusqu'au degré donné.
+ */
+export function chebyshevBasis(tau: number, degree: number): { values: number[]; derivatives: number[] } {
+  const values = [1, tau];
+  const derivatives = [0, 1];
+  for (let n = 1; n < degree; n += 1) {
+    values.push(2 * tau * values[n] - values[n - 1]);
+    derivatives.push(2 * values[n] + 2 * tau * derivatives[n] - derivatives[n - 1]);
+  }
+  return { values: values.slice(0, degree + 1), derivatives: derivatives.slice(0, degree + 1) };
+}
+
+function solveLinearSystem(matrix: number[][], rhs: number[]): number[] {
+  const n = rhs.length;
+  const a = matrix.map((row, i) => [...row, rhs[i]]);
+  for (let col = 0; col < n; col += 1) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row += 1) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    const div = a[col][col] || 1e-30;
+    for (let row = col + 1; row < n; row += 1) {
+      const factor = a[row][col] / div;
+      for (let k = col; k <= n; k += 1) {
+        a[row][k] -= factor * a[col][k];
+      }
+    }
+  }
+  const solution = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row -= 1) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k += 1) {
+      sum -= a[row][k] * solution[k];
+    }
+    solution[row] = sum / (a[row][row] || 1e-30);
+  }
+  return solution;
+}
+
+/**
+ * Moindres carrés sur positions et vitesses (dérivées ramenées à l'échelle τ),
+ * ce qui contraint la courbe entre deux échantillons (type Hermite).
+ */
+function fitAxis(
+  taus: number[],
+  positions: number[],
+  rates: Array<number | undefined>,
+  degree: number
+): number[] {
+  const size = degree + 1;
+  const normal = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+  const rhs = new Array<number>(size).fill(0);
+  const accumulate = (row: number[], value: number) => {
+    for (let i = 0; i < size; i += 1) {
+      rhs[i] += row[i] * value;
+      for (let j = 0; j < size; j += 1) {
+        normal[i][j] += row[i] * row[j];
+      }
+    }
+  };
+
+  taus.forEach((tau, idx) => {
+    const basis = chebyshevBasis(tau, degree);
+    accumulate(basis.values, positions[idx]);
+    const rate = rates[idx];
+    if (rate !== undefined && Number.isFinite(rate)) {
+      accumulate(basis.derivatives, rate);
+    }
+  });
+
+  return solveLinearSystem(normal, rhs);
+}
+
+export interface TimedSample {
+  tMs: number;
+  sample: StateVectorSample;
+}
+
+function fitSegment(
+  samples: TimedSample[],
+  startMs: number,
+  stopMs: number,
+  maxDegree: number
+): { segment: ChebyshevSegment; maxErrorKm: number } {
+  const mid = (startMs + stopMs) / 2;
+  const halfMs = Math.max(1, (stopMs - startMs) / 2);
+  const halfDays = halfMs / MS_PER_DAY;
+  // Positions + vitesses : 2 équations par échantillon et par axe.
+  const degree = Math.max(1, Math.min(maxDegree, samples.length * 2 - 1));
+  const taus = samples.map((s) => (s.tMs - mid) / halfMs);
+
+  const axis = (pos: (s: StateVectorSample) => number, vel: (s: StateVectorSample) => number | undefined) =>
+    fitAxis(
+      taus,
+      samples.map((s) => pos(s.sample)),
+      samples.map((s) => {
+        const v = vel(s.sample);
+        return v === undefined ? undefined : v * halfDays;
+      }),
+      degree
+    );
+
+  const segment: ChebyshevSegment = {
+    startMs,
+    stopMs,
+    x: axis((s) => s.x_au, (s) => s.vx_au_per_day),
+    y: axis((s) => s.y_au, (s) => s.vy_au_per_day),
+    z: axis((s) => s.z_au, (s) => s.vz_au_per_day)
+  };
+
+  let maxErrorKm = 0;
+  samples.forEach((s, idx) => {
+    const dx = evaluateChebyshev(segment.x, taus[idx]).value - s.sample.x_au;
+    const dy = evaluateChebyshev(segment.y, taus[idx]).value - s.sample.y_au;
+    const dz = evaluateChebyshev(segment.z, taus[idx]).value - s.sample.z_au;
+    maxErrorKm = Math.max(maxErrorKm, Math.sqrt(dx * dx + dy * dy + dz * dz) * AU_IN_KM);
+  });
+
+  return { segment, maxErrorKm };
+}
+
+/**
+ * Ajuste des segments de longueur fixe puis coupe en deux ceux qui dépassent
+ * la tolérance (tant qu'il reste au moins 3 échantillons par moitié).
+ */
+export function fitSegments(
+  samples: TimedSample[],
+  segmentMs: number,
+  degree: number
+): { segments: ChebyshevSegment[]; maxErrorKm: number } {
+  const segments: ChebyshevSegment[] = [];
+  let maxErrorKm = 0;
+
+  const fitRange = (startMs: number, stopMs: number) => {
+    const inRange = samples.filter((s) => s.tMs >= startMs && s.tMs <= stopMs);
+    if (inRange.length < 2) {
+      return;
+    }
+    const fitted = fitSegment(inRange, startMs, stopMs, degree);
+    if (fitted.maxErrorKm > INTERPOLATION_TOLERANCE_KM && inRange.length >= 6) {
+      const mid = inRange[Math.floor(inRange.length / 2)].tMs;
+      fitRange(startMs, mid);
+      fitRange(mid, stopMs);
+      return;
+    }
+    segments.push(fitted.segment);
+    maxErrorKm = Math.max(maxErrorKm, fitted.maxErrorKm);
+  };
+
+  const firstMs = samples[0].tMs;
+  const lastMs = samples[samples.length - 1].tMs;
+  for (let startMs = firstMs; startMs < lastMs; startMs += segmentMs) {
+    fitRange(startMs, Math.min(lastMs, startMs + segmentMs));
+  }
+
+  return { segments, maxErrorKm };
+}
+
+async function buildBodyInterpolation(
+  target: Target,
+  start: Date,
+  stop: Date,
+  correlationId?: string
+): Promise<BodyInterpolation> {
+  const profile = FIT_PROFILE[target.kind];
+  const series = await fetchStateVectorSeries(target.horizonsId, target.id, {
+    start,
+    stop,
+    step: profile.step,
+    correlationId
+  });
+
+  const samples: TimedSample[] = series.samples
+    .filter((s) => s.julian_day_tdb !== undefined)
+    .map((s) => ({ tMs: tdbJulianDayToUtcMs(s.julian_day_tdb as number), sample: s }))
+    .sort((a, b) => a.tMs - b.tMs);
+  if (samples.length < 2) {
+    throw new Error(`Pas assez d'échantillons Horizons pour ${target.id}`);
+  }
+
+  const { segments, maxErrorKm } = fitSegments(samples, profile.segmentDays * MS_PER_DAY, profile.degree);
+
+  return {
+    id: target.id,
+    kind: target.kind,
+    step: profile.step,
+    sampleCount: samples.length,
+    maxErrorKm,
+    segments
+  };
+}
+
+async function buildInterpolation(
+  ids: string[],
+  start: Date,
+  stop: Date,
+  correlationId?: string
+): Promise<InterpolationPayload> {
+  const started = Date.now();
+  const bodies: BodyInterpolation[] = [];
+  const missing: string[] = [];
+
+  for (const id of ids) {
+    const target = resolveTarget(id);
+    if (!target) {
+      missing.push(id);
+      continue;
+    }
+    try {
+      bodies.push(await buildBodyInterpolation(target, start, stop, correlationId));
+    } catch (err: any) {
+      missing.push(id);
+      logWarn('interpolation_body_missing', {
+        id,
+        requestId: correlationId,
+        error: err?.message ?? String(err)
+      });
+    }
+  }
+
+  if (bodies.length === 0) {
+    throw new Error('No Horizons data available');
+  }
+
+  const responseTimeMs = Date.now() - started;
+  logInfo('interpolation_built', {
+    bodies: bodies.length,
+    segments: bodies.reduce((sum, b) => sum + b.segments.length, 0),
+    maxErrorKm: Math.max(...bodies.map((b) => b.maxErrorKm)),
+    responseTimeMs,
+    requestId: correlationId
+  });
+
+  return {
+    start: start.toISOString(),
+    stop: stop.toISOString(),
+    method: 'chebyshev',
+    timeScale: 'UTC',
+    referenceFrame: 'J2000-ECLIPTIC',
+    distanceUnit: 'AU',
+    velocityUnit: 'AU/day',
+    toleranceKm: INTERPOLATION_TOLERANCE_KM,
+    bodies,
+    metadata: {
+      responseTimeMs,
+      requestId: correlationId,
+      partial: missing.length > 0,
+      missingBodies: missing.length ? missing : undefined
+    }
+  };
+}
+
+/**
+ * Coefficients d'interpolation (segments de Chebyshev) ajustés sur les
+ * échantillons Horizons de la fenêtre, pour chaque corps demandé.
+ */
+export async function getInterpolation(options: {
+  ids: string[];
+  start: Date;
+  stop: Date;
+  forceRefresh?: boolean;
+  correlationId?: string;
+}): Promise<InterpolationPayload> {
+  const key = `${[...options.ids].sort().join(',')}|${options.start.toISOString()}|${options.stop.toISOString()}`;
+  const now = Date.now();
+
+  if (!options.forceRefresh) {
+    const entry = cache.get(key);
+    if (entry && now < entry.expiresAt) {
+      return {
+        ...entry.payload,
+        metadata: { ...entry.payload.metadata, cacheStatus: 'HIT', requestId: options.correlationId }
+      };
+    }
+  }
+
+  let pending = inflight.get(key);
+  if (!pending) {
+    pending = buildInterpolation(options.ids, options.start, options.stop, options.correlationId)
+      .then((payload) => {
+        cache.delete(key);
+        cache.set(key, { payload, expiresAt: Date.now() + INTERPOLATION_CACHE_TTL_MS });
+        while (cache.size > INTERPOLATION_CACHE_MAX_ENTRIES) {
+          const oldest = cache.keys().next().value;
+          if (oldest === undefined) break;
+          cache.delete(oldest);
+        }
+        return payload;
+      })
+      .finally(() => {
+        inflight.delete(key);
+      });
+    inflight.set(key, pending);
+  }
+
+  const payload = await pending;
+  return { ...payload, metadata: { ...payload.metadata, cacheStatus: 'MISS' } };
+}
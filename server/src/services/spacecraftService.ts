@@ -0,0 +1,324 @@
+import { AU_IN_KM, KM_TO_MILES, SECONDS_PER_DAY, SPEED_OF_LIGHT_KM_S } from '@solar-system/shared';
+import { SpacecraftConfig } from '../config/spacecraft';
+import { fetchPlanetStateVector } from '../nasa/horizonsClient';
+import { logError, logInfo } from '../observability/logger';
+import { getSnapshot } from '../cache/ephemerisCache';
+import { publish } from '../stream/streamEvents';
+
+// Même logique que pour les Voyager : les sondes bougent peu à l'échelle de la
+// carte, un cache court par sonde évite de relancer Horizons à chaque client.
+const SPACECRAFT_CACHE_TTL_MS = Number(process.env.SPACECRAFT_CACHE_TTL_MS ?? 60_000);
+
+export const SPACECRAFT_UNITS = {
+  source: 'NASA-JPL-Horizons',
+  unitDistanceBase: 'AU',
+  unitVelocityBase: 'AU/day',
+  unitDistanceConverted: ['km', 'miles'],
+  unitVelocityConverted: ['km/s', 'miles/s']
+};
+
+type EarthPosition = { x_au?: number; y_au?: number; z_au?: number } | null;
+
+export type SpacecraftTelemetry = Awaited<ReturnType<typeof computeSpacecraftTelemetry>>;
+
+export interface SpacecraftPayload {
+  timestamp: string;
+  requestId?: string;
+  /** Fiche du registre : lancement, survols, instruments, liens. */
+  spacecraft: SpacecraftConfig;
+  telemetry: SpacecraftTelemetry;
+  metadata: typeof SPACECRAFT_UNITS & {
+    cacheStatus?: 'HIT' | 'MISS';
+    cacheAgeMs?: number;
+  };
+}
+
+const cache = new Map<string, { payload: SpacecraftPayload; cachedAt: number }>();
+const inflight = new Map<string, Promise<SpacecraftPayload>>();
+
+function magnitude(x?: number, y?: number, z?: number): number | null {
+  if (
+    x === undefined ||
+    y === undefined ||
+    z === undefined ||
+    !Number.isFinite(x) ||
+    !Number.isFinite(y) ||
+    !Number.isFinite(z)
+  ) {
+    return null;
+  }
+  return Math.sqrt(x * x + y * y + z * z);
+}
+
+function deltaMagnitude(
+  ax?: number,
+  ay?: number,
+  az?: number,
+  bx?: number,
+  by?: number,
+  bz?: number
+): number | null {
+  if (
+    ax === undefined ||
+    ay === undefined ||
+    az === undefined ||
+    bx === undefined ||
+    by === undefined ||
+    bz === undefined
+  ) {
+    return null;
+  }
+  return magnitude(ax - bx, ay - by, az - bz);
+}
+
+function toDegrees(rad: number): number {
+  return (rad * 180) / Math.PI;
+}
+
+function normalizeAngleDeg(deg: number): number {
+  const wrapped = deg % 360;
+  return wrapped < 0 ? wrapped + 360 : wrapped;
+}
+
+function computeLightTime(distanceKm: number | null): {
+  oneWaySeconds: number | null;
+  oneWayMinutes: number | null;
+  twoWayMinutes: number | null;
+} {
+  if (distanceKm === null || !Number.isFinite(distanceKm)) {
+    return {
+      oneWaySeconds: null,
+      oneWayMinutes: null,
+      twoWayMinutes: null
+    };
+  }
+  const oneWaySeconds = distanceKm / SPEED_OF_LIGHT_KM_S;
+  return {
+    oneWaySeconds,
+    oneWayMinutes: oneWaySeconds / 60,
+    twoWayMinutes: (oneWaySeconds * 2) / 60
+  };
+}
+
+function computeTrajectory(
+  position: { x: number; y: number; z: number },
+  velocity?: { vx?: number; vy?: number; vz?: number }
+): {
+  eclipticLatDeg: number | null;
+  eclipticLonDeg: number | null;
+  velocityAzimuthDeg: number | null;
+  velocityLatDeg: number | null;
+} {
+  const r = magnitude(position.x, position.y, position.z);
+  const eclipticLatDeg = r ? toDegrees(Math.asin(position.z / r)) : null;
+  const eclipticLonDeg = r ? normalizeAngleDeg(toDegrees(Math.atan2(position.y, position.x))) : null;
+
+  const speed = magnitude(velocity?.vx, velocity?.vy, velocity?.vz);
+  const velocityLatDeg =
+    speed && velocity?.vz !== undefined ? toDegrees(Math.asin(velocity.vz / speed)) : null;
+  const velocityAzimuthDeg =
+    speed && velocity?.vx !== undefined && velocity?.vy !== undefined
+      ? normalizeAngleDeg(toDegrees(Math.atan2(velocity.vy, velocity.vx)))
+      : null;
+
+  return {
+    eclipticLatDeg,
+    eclipticLonDeg,
+    velocityAzimuthDeg,
+    velocityLatDeg
+  };
+}
+
+/** Position de la Terre du snapshot planètes courant (distance Terre-sonde, temps lumière). */
+export async function currentEarthPosition(correlationId?: string, forceRefresh?: boolean): Promise<EarthPosition> {
+  const earthSnapshot = await getSnapshot({ correlationId, forceRefresh });
+  return earthSnapshot.payload?.bodies?.find((b) => b.name === 'earth') ?? null;
+}
+
+/**
+ * Télémétrie dérivée du vecteur d'état Horizons d'une sonde : distances au
+ * Soleil et à la Terre, vitesse, temps lumière, direction écliptique.
+ */
+export async function computeSpacecraftTelemetry(
+  cfg: SpacecraftConfig,
+  earth: EarthPosition,
+  correlationId?: string
+) {
+  const vec = await fetchPlanetStateVector(cfg.horizonsId, cfg.displayName, {
+    correlationId,
+    includeObserver: false
+  });
+
+  const distAu = magnitude(vec.x_au, vec.y_au, vec.z_au);
+  const distEarthAu = deltaMagnitude(
+    vec.x_au,
+    vec.y_au,
+    vec.z_au,
+    earth?.x_au,
+    earth?.y_au,
+    earth?.z_au
+  );
+  const velAuPerDay = magnitude(vec.vx_au_per_day, vec.vy_au_per_day, vec.vz_au_per_day);
+
+  const distanceKm = distAu ? distAu * AU_IN_KM : null;
+  const distanceMiles = distanceKm ? distanceKm * KM_TO_MILES : null;
+  const distanceEarthKm = distEarthAu ? distEarthAu * AU_IN_KM : null;
+  const distanceEarthMiles = distanceEarthKm ? distanceEarthKm * KM_TO_MILES : null;
+  const speedKmPerS =
+    velAuPerDay !== null ? (velAuPerDay * AU_IN_KM) / SECONDS_PER_DAY : null;
+  const speedMilesPerS = speedKmPerS !== null ? speedKmPerS * KM_TO_MILES : null;
+  const lightTime = computeLightTime(distanceEarthKm);
+  const trajectory = computeTrajectory(
+    { x: vec.x_au, y: vec.y_au, z: vec.z_au },
+    {
+      vx: vec.vx_au_per_day,
+      vy: vec.vy_au_per_day,
+      vz: vec.vz_au_per_day
+    }
+  );
+
+  return {
+    id: cfg.id,
+    name: vec.name,
+    horizonsId: cfg.horizonsId,
+    positionAu: { x: vec.x_au, y: vec.y_au, z: vec.z_au },
+    positionKm:
+      distAu !== null
+        ? {
+            x: vec.x_au * AU_IN_KM,
+            y: vec.y_au * AU_IN_KM,
+            z: vec.z_au * AU_IN_KM
+          }
+        : null,
+    positionMiles:
+      distAu !== null
+        ? {
+            x: vec.x_au * AU_IN_KM * KM_TO_MILES,
+            y: vec.y_au * AU_IN_KM * KM_TO_MILES,
+            z: vec.z_au * AU_IN_KM * KM_TO_MILES
+          }
+        : null,
+    velocityAuPerDay: {
+      vx: vec.vx_au_per_day ?? null,
+      vy: vec.vy_au_per_day ?? null,
+      vz: vec.vz_au_per_day ?? null
+    },
+    velocityKmPerS:
+      velAuPerDay !== null
+        ? {
+            vx: vec.vx_au_per_day !== undefined
+              ? (vec.vx_au_per_day * AU_IN_KM) / SECONDS_PER_DAY
+              : null,
+            vy: vec.vy_au_per_day !== undefined
+              ? (vec.vy_au_per_day * AU_IN_KM) / SECONDS_PER_DAY
+              : null,
+            vz: vec.vz_au_per_day !== undefined
+              ? (vec.vz_au_per_day * AU_IN_KM) / SECONDS_PER_DAY
+              : null
+          }
+        : null,
+    velocityMilesPerS:
+      velAuPerDay !== null
+        ? {
+            vx:
+              vec.vx_au_per_day !== undefined
+                ? ((vec.vx_au_per_day * AU_IN_KM) / SECONDS_PER_DAY) * KM_TO_MILES
+                : null,
+            vy:
+              vec.vy_au_per_day !== undefined
+                ? ((vec.vy_au_per_day * AU_IN_KM) / SECONDS_PER_DAY) * KM_TO_MILES
+                : null,
+            vz:
+              vec.vz_au_per_day !== undefined
+                ? ((vec.vz_au_per_day * AU_IN_KM) / SECONDS_PER_DAY) * KM_TO_MILES
+                : null
+          }
+      : null,
+    distanceFromSun: {
+      au: distAu,
+      km: distanceKm,
+      miles: distanceMiles
+    },
+    distanceFromEarth: {
+      au: distEarthAu,
+      km: distanceEarthKm,
+      miles: distanceEarthMiles
+    },
+    speed: {
+      auPerDay: velAuPerDay,
+      kmPerS: speedKmPerS,
+      milesPerS: speedMilesPerS
+    },
+    lightTime,
+    trajectory,
+    timestamp: vec.timestamp,
+    referenceFrame: vec.referenceFrame,
+    source: vec.source,
+    velocityUnit: vec.velocityUnit
+  };
+}
+
+async function computeSpacecraft(
+  cfg: SpacecraftConfig,
+  correlationId?: string,
+  forceRefresh?: boolean
+): Promise<SpacecraftPayload> {
+  const earth = await currentEarthPosition(correlationId, forceRefresh);
+  const telemetry = await computeSpacecraftTelemetry(cfg, earth, correlationId);
+  logInfo('spacecraft_fetch', { requestId: correlationId, id: cfg.id });
+
+  return {
+    timestamp: new Date().toISOString(),
+    requestId: correlationId,
+    spacecraft: cfg,
+    telemetry,
+    metadata: { ...SPACECRAFT_UNITS }
+  };
+}
+
+/** Télémétrie d'une sonde du registre, cachée `SPACECRAFT_CACHE_TTL_MS` et publiée sur `spacecraft:<id>`. */
+export async function getSpacecraft(options: {
+  spacecraft: SpacecraftConfig;
+  forceRefresh?: boolean;
+  correlationId?: string;
+}): Promise<SpacecraftPayload> {
+  const id = options.spacecraft.id;
+  const now = Date.now();
+  const entry = cache.get(id);
+  if (!options.forceRefresh && entry && now - entry.cachedAt < SPACECRAFT_CACHE_TTL_MS) {
+    return {
+      ...entry.payload,
+      requestId: options.correlationId ?? entry.payload.requestId,
+      metadata: { ...entry.payload.metadata, cacheStatus: 'HIT', cacheAgeMs: now - entry.cachedAt }
+    };
+  }
+
+  let pending = inflight.get(id);
+  if (!pending) {
+    pending = computeSpacecraft(options.spacecraft, options.correlationId, options.forceRefresh)
+      .then((payload) => {
+        cache.set(id, { payload, cachedAt: Date.now() });
+        const fresh: SpacecraftPayload = {
+          ...payload,
+          metadata: { ...payload.metadata, cacheStatus: 'MISS', cacheAgeMs: 0 }
+        };
+        publish(`spacecraft:${id}`, fresh);
+        return fresh;
+      })
+      .catch((err: any) => {
+        logError('spacecraft_refresh_failed', {
+          requestId: options.correlationId,
+          id,
+          error: err?.message ?? String(err)
+        });
+        throw err;
+      })
+      .finally(() => {
+        inflight.delete(id);
+      });
+    inflight.set(id, pending);
+  }
+
+  const payload = await pending;
+  return { ...payload, requestId: options.correlationId ?? payload.requestId };
+}
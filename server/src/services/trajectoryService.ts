@@ -0,0 +1,384 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+import { SpacecraftConfig, SpacecraftFlyby } from '../config/spacecraft';
+import { fetchStateVectorSeries, StateVectorSample } from '../nasa/horizonsClient';
+import { logInfo, logWarn } from '../observability/logger';
+
+// Une trajectoire passée ne change plus : le fichier sur disque n'est complété
+// (depuis le dernier échantillon) qu'une fois par TRAJECTORY_REFRESH_MS.
+const TRAJECTORY_CACHE_DIR =
+  process.env.TRAJECTORY_CACHE_DIR ?? path.join(os.tmpdir(), 'solar-system-real', 'trajectories');
+const TRAJECTORY_REFRESH_MS = Number(process.env.TRAJECTORY_REFRESH_MS ?? 24 * 60 * 60 * 1000);
+const COARSE_STEP_DAYS = Number(process.env.TRAJECTORY_COARSE_STEP_DAYS ?? 30);
+const FINE_STEP_HOURS = Number(process.env.TRAJECTORY_FINE_STEP_HOURS ?? 12);
+const FLYBY_WINDOW_DAYS = Number(process.env.TRAJECTORY_FLYBY_WINDOW_DAYS ?? 30);
+const LAUNCH_WINDOW_DAYS = 60;
+/** Changement de direction (degrés) entre deux pas grossiers qui déclenche un raffinement. */
+const BEND_THRESHOLD_DEG = Number(process.env.TRAJECTORY_BEND_DEG ?? 8);
+/** Nombre maximal de lignes Horizons par fenêtre raffinée (le pas est élargi au-delà). */
+const MAX_ROWS_PER_WINDOW = Number(process.env.TRAJECTORY_MAX_ROWS_PER_WINDOW ?? 2_000);
+const CACHE_FORMAT_VERSION = 1;
+
+const DAY_MS = 86_400_000;
+
+export interface TrajectorySample {
+  timestamp: string;
+  julian_day_tdb?: number;
+  x_au: number;
+  y_au: number;
+  z_au: number;
+}
+
+export interface TrajectoryFlyby extends SpacecraftFlyby {
+  /** Horodatage de l'échantillon retenu (le plus proche de la date du survol). */
+  timestamp: string;
+  positionAu: { x: number; y: number; z: number };
+  distanceFromSunAu: number;
+}
+
+export interface TrajectoryWindow {
+  start: Date;
+  stop: Date;
+  step: string;
+}
+
+export interface TrajectoryPayload {
+  id: string;
+  name: string;
+  start: string;
+  stop: string;
+  referenceFrame: string;
+  distanceUnit: 'AU';
+  source: string;
+  resolution: {
+    coarseStepDays: number;
+    fineStepHours: number;
+    flybyWindowDays: number;
+    refinedWindows: number;
+  };
+  samples: TrajectorySample[];
+  flybys: TrajectoryFlyby[];
+  metadata: {
+    generatedAt: string;
+    cacheStatus?: 'HIT' | 'MISS';
+    cacheBackend?: 'memory' | 'disk' | 'horizons';
+    cacheAgeMs?: number;
+    responseTimeMs?: number;
+    requestId?: string;
+  };
+}
+
+interface CacheFile {
+  version: number;
+  horizonsId: string;
+  payload: TrajectoryPayload;
+}
+
+const memory = new Map<string, TrajectoryPayload>();
+const inflight = new Map<string, Promise<TrajectoryPayload>>();
+
+function bendDeg(a: TrajectorySample, b: TrajectorySample, c: TrajectorySample): number {
+  const ux = b.x_au - a.x_au;
+  const uy = b.y_au - a.y_au;
+  const uz = b.z_au - a.z_au;
+  const vx = c.x_au - b.x_au;
+  const vy = c.y_au - b.y_au;
+  const vz = c.z_au - b.z_au;
+  const nu = Math.sqrt(ux * ux + uy * uy + uz * uz);
+  const nv = Math.sqrt(vx * vx + vy * vy + vz * vz);
+  if (!(nu > 0) || !(nv > 0)) return 0;
+  const cos = Math.min(1, Math.max(-1, (ux * vx + uy * vy + uz * vz) / (nu * nv)));
+  return (Math.acos(cos) * 180) / Math.PI;
+}
+
+function fineStepFor(spanMs: number): string {
+  const rows = spanMs / (FINE_STEP_HOURS * 3_600_000);
+  if (rows <= MAX_ROWS_PER_WINDOW) {
+    return `${FINE_STEP_HOURS}h`;
+  }
+  const hours = Math.ceil(spanMs / 3_600_000 / MAX_ROWS_PER_WINDOW);
+  return hours % 24 === 0 ? `${hours / 24}d` : `${hours}h`;
+}
+
+/**
+ * Fenêtres à échantillonner finement à partir d'un premier passage grossier :
+ * départ (sortie de l'orbite terrestre), ±FLYBY_WINDOW_DAYS autour de chaque
+ * survol connu, et tout intervalle où la direction tourne de plus de
+ * BEND_THRESHOLD_DEG (assistance gravitationnelle non listée, orbite serrée).
+ * Les intervalles qui se touchent sont fusionnés.
+ */
+export function planRefinedWindows(
+  coarse: TrajectorySample[],
+  flybys: SpacecraftFlyby[],
+  range: { start: Date; stop: Date; includeLaunch: boolean }
+): TrajectoryWindow[] {
+  const startMs = range.start.getTime();
+  const stopMs = range.stop.getTime();
+  const intervals: Array<[number, number]> = [];
+
+  if (range.includeLaunch) {
+    intervals.push([startMs, startMs + LAUNCH_WINDOW_DAYS * DAY_MS]);
+  }
+  for (const flyby of flybys) {
+    const t = Date.parse(flyby.date);
+    if (Number.isFinite(t)) {
+      intervals.push([t - FLYBY_WINDOW_DAYS * DAY_MS, t + FLYBY_WINDOW_DAYS * DAY_MS]);
+    }
+  }
+  for (let i = 1; i < coarse.length - 1; i += 1) {
+    if (bendDeg(coarse[i - 1], coarse[i], coarse[i + 1]) > BEND_THRESHOLD_DEG) {
+      intervals.push([Date.parse(coarse[i - 1].timestamp), Date.parse(coarse[i + 1].timestamp)]);
+    }
+  }
+
+  const clipped = intervals
+    .map(([a, b]): [number, number] => [Math.max(a, startMs), Math.min(b, stopMs)])
+    .filter(([a, b]) => b > a)
+    .sort((p, q) => p[0] - q[0]);
+
+  const merged: Array<[number, number]> = [];
+  for (const interval of clipped) {
+    const last = merged[merged.length - 1];
+    if (last && interval[0] <= last[1]) {
+      last[1] = Math.max(last[1], interval[1]);
+    } else {
+      merged.push([interval[0], interval[1]]);
+    }
+  }
+
+  return merged.map(([a, b]) => ({ start: new Date(a), stop: new Date(b), step: fineStepFor(b - a) }));
+}
+
+/** Remplace les échantillons grossiers couverts par une fenêtre fine. */
+export function mergeSamples(
+  coarse: TrajectorySample[],
+  refined: Array<{ window: TrajectoryWindow; samples: TrajectorySample[] }>
+): TrajectorySample[] {
+  const covered = (t: number) =>
+    refined.some(({ window }) => t >= window.start.getTime() && t <= window.stop.getTime());
+  const all = [
+    ...coarse.filter((s) => !covered(Date.parse(s.timestamp))),
+    ...refined.flatMap((r) => r.samples)
+  ];
+  all.sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+  return all.filter((s, i) => i === 0 || s.timestamp !== all[i - 1].timestamp);
+}
+
+/** Position à la date de chaque survol : l'échantillon le plus proche. */
+export function locateFlybys(samples: TrajectorySample[], flybys: SpacecraftFlyby[]): TrajectoryFlyby[] {
+  if (samples.length === 0) return [];
+  return flybys.flatMap((flyby) => {
+    const t = Date.parse(flyby.date);
+    if (!Number.isFinite(t)) return [];
+    let best = samples[0];
+    for (const s of samples) {
+      if (Math.abs(Date.parse(s.timestamp) - t) < Math.abs(Date.parse(best.timestamp) - t)) {
+        best = s;
+      }
+    }
+    // Survol hors de la trajectoire disponible (plus d'une fenêtre fine d'écart).
+    if (Math.abs(Date.parse(best.timestamp) - t) > FLYBY_WINDOW_DAYS * DAY_MS) return [];
+    return [
+      {
+        ...flyby,
+        timestamp: best.timestamp,
+        positionAu: { x: best.x_au, y: best.y_au, z: best.z_au },
+        distanceFromSunAu: Math.sqrt(best.x_au ** 2 + best.y_au ** 2 + best.z_au ** 2)
+      }
+    ];
+  });
+}
+
+function toSample(s: StateVectorSample): TrajectorySample {
+  return { timestamp: s.timestamp, julian_day_tdb: s.julian_day_tdb, x_au: s.x_au, y_au: s.y_au, z_au: s.z_au };
+}
+
+async function fetchWindow(
+  cfg: SpacecraftConfig,
+  window: TrajectoryWindow,
+  correlationId?: string
+): Promise<TrajectorySample[]> {
+  const series = await fetchStateVectorSeries(cfg.horizonsId, cfg.displayName, {
+    start: window.start,
+    stop: window.stop,
+    step: window.step,
+    correlationId
+  });
+  return series.samples.map(toSample);
+}
+
+/** Passage grossier puis fenêtres raffinées sur [start, stop]. */
+async function sampleRange(
+  cfg: SpacecraftConfig,
+  range: { start: Date; stop: Date; includeLaunch: boolean },
+  correlationId?: string
+): Promise<{ samples: TrajectorySample[]; refinedWindows: number }> {
+  const coarse = await fetchWindow(
+    cfg,
+    { start: range.start, stop: range.stop, step: `${COARSE_STEP_DAYS}d` },
+    correlationId
+  );
+  const windows = planRefinedWindows(coarse, cfg.flybys, range);
+
+  const refined: Array<{ window: TrajectoryWindow; samples: TrajectorySample[] }> = [];
+  for (const window of windows) {
+    refined.push({ window, samples: await fetchWindow(cfg, window, correlationId) });
+  }
+  return { samples: mergeSamples(coarse, refined), refinedWindows: windows.length };
+}
+
+function cacheFilePath(id: string): string {
+  return path.join(TRAJECTORY_CACHE_DIR, `${id}.json`);
+}
+
+async function readCacheFile(cfg: SpacecraftConfig): Promise<TrajectoryPayload | null> {
+  try {
+    const raw = await fs.readFile(cacheFilePath(cfg.id), 'utf8');
+    const file = JSON.parse(raw) as CacheFile;
+    if (file.version !== CACHE_FORMAT_VERSION || file.horizonsId !== cfg.horizonsId) {
+      return null;
+    }
+    return file.payload;
+  } catch (err: any) {
+    if (err?.code !== 'ENOENT') {
+      logWarn('trajectory_cache_read_failed', { id: cfg.id, error: err?.message ?? String(err) });
+    }
+    return null;
+  }
+}
+
+async function writeCacheFile(cfg: SpacecraftConfig, payload: TrajectoryPayload): Promise<void> {
+  const file: CacheFile = { version: CACHE_FORMAT_VERSION, horizonsId: cfg.horizonsId, payload };
+  const target = cacheFilePath(cfg.id);
+  try {
+    await fs.mkdir(TRAJECTORY_CACHE_DIR, { recursive: true });
+    // Écriture atomique : un lecteur concurrent ne voit jamais un JSON tronqué.
+    await fs.writeFile(`${target}.tmp`, JSON.stringify(file));
+    await fs.rename(`${target}.tmp`, target);
+  } catch (err: any) {
+    logWarn('trajectory_cache_write_failed', { id: cfg.id, error: err?.message ?? String(err) });
+  }
+}
+
+function buildPayload(
+  cfg: SpacecraftConfig,
+  samples: TrajectorySample[],
+  refinedWindows: number
+): TrajectoryPayload {
+  return {
+    id: cfg.id,
+    name: cfg.displayName,
+    start: samples[0]?.timestamp ?? cfg.launchDate,
+    stop: samples[samples.length - 1]?.timestamp ?? cfg.launchDate,
+    referenceFrame: 'J2000-ECLIPTIC',
+    distanceUnit: 'AU',
+    source: 'NASA-JPL-Horizons',
+    resolution: {
+      coarseStepDays: COARSE_STEP_DAYS,
+      fineStepHours: FINE_STEP_HOURS,
+      flybyWindowDays: FLYBY_WINDOW_DAYS,
+      refinedWindows
+    },
+    samples,
+    flybys: locateFlybys(samples, cfg.flybys),
+    metadata: { generatedAt: new Date().toISOString() }
+  };
+}
+
+/**
+ * Trajectoire complète : reconstruite depuis le lancement, ou complétée depuis
+ * le dernier échantillon du fichier en cache.
+ */
+async function computeTrajectory(
+  cfg: SpacecraftConfig,
+  previous: TrajectoryPayload | null,
+  correlationId?: string
+): Promise<TrajectoryPayload> {
+  const now = new Date();
+  const lastSample = previous?.samples[previous.samples.length - 1];
+
+  if (previous && lastSample) {
+    const start = new Date(lastSample.timestamp);
+    if (now.getTime() - start.getTime() < COARSE_STEP_DAYS * DAY_MS) {
+      return { ...previous, metadata: { generatedAt: now.toISOString() } };
+    }
+    const tail = await sampleRange(cfg, { start, stop: now, includeLaunch: false }, correlationId);
+    const samples = mergeSamples(previous.samples, [
+      { window: { start, stop: now, step: `${COARSE_STEP_DAYS}d` }, samples: tail.samples }
+    ]);
+    logInfo('trajectory_extended', { id: cfg.id, added: tail.samples.length, requestId: correlationId });
+    return buildPayload(cfg, samples, previous.resolution.refinedWindows + tail.refinedWindows);
+  }
+
+  // Les éphémérides de sonde démarrent quelques heures après le lancement.
+  const start = new Date(Date.parse(cfg.launchDate) + DAY_MS);
+  const { samples, refinedWindows } = await sampleRange(
+    cfg,
+    { start, stop: now, includeLaunch: true },
+    correlationId
+  );
+  logInfo('trajectory_built', { id: cfg.id, rows: samples.length, refinedWindows, requestId: correlationId });
+  return buildPayload(cfg, samples, refinedWindows);
+}
+
+/**
+ * Trajectoire historique d'une sonde (lancement → maintenant), cachée en
+ * mémoire et sur disque (`TRAJECTORY_CACHE_DIR`). `forceRefresh` reconstruit
+ * tout depuis Horizons.
+ */
+export async function getTrajectory(options: {
+  spacecraft: SpacecraftConfig;
+  forceRefresh?: boolean;
+  correlationId?: string;
+}): Promise<TrajectoryPayload> {
+  const cfg = options.spacecraft;
+  const started = Date.now();
+  const withMeta = (
+    payload: TrajectoryPayload,
+    cacheStatus: 'HIT' | 'MISS',
+    cacheBackend: 'memory' | 'disk' | 'horizons'
+  ): TrajectoryPayload => ({
+    ...payload,
+    metadata: {
+      ...payload.metadata,
+      cacheStatus,
+      cacheBackend,
+      cacheAgeMs: Date.now() - Date.parse(payload.metadata.generatedAt),
+      responseTimeMs: Date.now() - started,
+      requestId: options.correlationId
+    }
+  });
+  const isFresh = (payload: TrajectoryPayload) =>
+    Date.now() - Date.parse(payload.metadata.generatedAt) < TRAJECTORY_REFRESH_MS;
+
+  let previous: TrajectoryPayload | null = null;
+  if (!options.forceRefresh) {
+    const inMemory = memory.get(cfg.id);
+    if (inMemory && isFresh(inMemory)) {
+      return withMeta(inMemory, 'HIT', 'memory');
+    }
+    previous = inMemory ?? (await readCacheFile(cfg));
+    if (previous && isFresh(previous)) {
+      memory.set(cfg.id, previous);
+      return withMeta(previous, 'HIT', 'disk');
+    }
+  }
+
+  let pending = inflight.get(cfg.id);
+  if (!pending) {
+    pending = computeTrajectory(cfg, previous, options.correlationId)
+      .then(async (payload) => {
+        memory.set(cfg.id, payload);
+        await writeCacheFile(cfg, payload);
+        return payload;
+      })
+      .finally(() => {
+        inflight.delete(cfg.id);
+      });
+    inflight.set(cfg.id, pending);
+  }
+
+  return withMeta(await pending, 'MISS', 'horizons');
+}
@@ -0,0 +1,85 @@
+import { SPACECRAFT } from '../config/spacecraft';
+import { logError, logInfo } from '../observability/logger';
+import {
+  computeSpacecraftTelemetry,
+  currentEarthPosition,
+  SPACECRAFT_UNITS,
+  SpacecraftTelemetry
+} from './spacecraftService';
+import { publish } from '../stream/streamEvents';
+
+// Les sondes se déplacent lentement à l'échelle de l'affichage : un cache court suffit
+// et évite que chaque client (ou le flux live) relance 2 requêtes Horizons.
+const VOYAGER_CACHE_TTL_MS = Number(process.env.VOYAGER_CACHE_TTL_MS ?? 60_000);
+
+// Snapshot historique `/api/voyagers` : les sondes du programme Voyager du registre.
+const VOYAGERS = SPACECRAFT.filter((s) => s.program === 'Voyager');
+
+export interface VoyagerSnapshot {
+  timestamp: string;
+  requestId?: string;
+  metadata: typeof SPACECRAFT_UNITS & {
+    cacheStatus?: 'HIT' | 'MISS';
+    cacheAgeMs?: number;
+  };
+  voyagers: SpacecraftTelemetry[];
+}
+
+let cached: { payload: VoyagerSnapshot; cachedAt: number } | null = null;
+let inflight: Promise<VoyagerSnapshot> | null = null;
+
+async function computeVoyagers(correlationId?: string, forceRefresh?: boolean): Promise<VoyagerSnapshot> {
+  const earth = await currentEarthPosition(correlationId, forceRefresh);
+  const results = await Promise.all(
+    VOYAGERS.map((cfg) => computeSpacecraftTelemetry(cfg, earth, correlationId))
+  );
+
+  logInfo('voyagers_fetch', { requestId: correlationId, count: results.length });
+
+  return {
+    timestamp: new Date().toISOString(),
+    requestId: correlationId,
+    metadata: { ...SPACECRAFT_UNITS },
+    voyagers: results
+  };
+}
+
+export async function getVoyagerSnapshot(options?: {
+  forceRefresh?: boolean;
+  correlationId?: string;
+}): Promise<VoyagerSnapshot> {
+  const now = Date.now();
+  if (!options?.forceRefresh && cached && now - cached.cachedAt < VOYAGER_CACHE_TTL_MS) {
+    return {
+      ...cached.payload,
+      requestId: options?.correlationId ?? cached.payload.requestId,
+      metadata: { ...cached.payload.metadata, cacheStatus: 'HIT', cacheAgeMs: now - cached.cachedAt }
+    };
+  }
+
+  if (!inflight) {
+    inflight = computeVoyagers(options?.correlationId, options?.forceRefresh)
+      .then((payload) => {
+        cached = { payload, cachedAt: Date.now() };
+        const fresh: VoyagerSnapshot = {
+          ...payload,
+          metadata: { ...payload.metadata, cacheStatus: 'MISS', cacheAgeMs: 0 }
+        };
+        publish('voyagers', fresh);
+        return fresh;
+      })
+      .catch((err: any) => {
+        logError('voyagers_refresh_failed', {
+          requestId: options?.correlationId,
+          error: err?.message ?? String(err)
+        });
+        throw err;
+      })
+      .finally(() => {
+        inflight = null;
+      });
+  }
+
+  const payload = await inflight;
+  return { ...payload, requestId: options?.correlationId ?? payload.requestId };
+}
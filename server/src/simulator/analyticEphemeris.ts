@@ -0,0 +1,298 @@
+import { AU_IN_KM } from '@solar-system/shared';
+
+/**
+ * Éphémérides analytiques approchées pour le simulateur Horizons hors-ligne :
+ * éléments képlériens moyens (Standish, JPL 1800–2050) pour les planètes,
+ * orbites circulaires autour de la planète mère pour les lunes (et Juno),
+ * trajectoire rectiligne pour les sondes lointaines, orbite képlérienne pour
+ * Parker Solar Probe, point L2 pour JWST. Précision de l'ordre du degré : suffisant pour
+ * développer et tester sans réseau, pas pour de l'astrométrie.
+ */
+
+export interface AnalyticState {
+  x: number;
+  y: number;
+  z: number;
+  vx: number;
+  vy: number;
+  vz: number;
+}
+
+interface KeplerElements {
+  // Valeurs J2000 puis taux par siècle julien : a (AU), e, I, L, ϖ, Ω (degrés).
+  a: [number, number];
+  e: [number, number];
+  i: [number, number];
+  l: [number, number];
+  peri: [number, number];
+  node: [number, number];
+}
+
+interface CircularMoon {
+  parent: string;
+  radiusKm: number;
+  /** Période sidérale en jours (négative = rétrograde). */
+  periodDays: number;
+}
+
+interface LagrangeFollower {
+  parent: string;
+  /** Facteur appliqué au vecteur héliocentrique du parent (L2 Soleil-Terre ≈ 1,01). */
+  scale: number;
+}
+
+interface LinearProbe {
+  /** Position écliptique J2000 au 2024-01-01 (AU). */
+  position: [number, number, number];
+  /** Vitesse constante (AU/jour). */
+  velocity: [number, number, number];
+}
+
+export const J2000_JD = 2_451_545.0;
+const PROBE_EPOCH_JD = 2_460_310.5; // 2024-01-01 00:00 TDB
+const GAUSS_K = 0.01720209895;
+const DEG = Math.PI / 180;
+
+const PLANET_ELEMENTS: Record<string, KeplerElements> = {
+  '199': {
+    a: [0.38709927, 0.00000037],
+    e: [0.20563593, 0.00001906],
+    i: [7.00497902, -0.00594749],
+    l: [252.2503235, 149472.67411175],
+    peri: [77.45779628, 0.16047689],
+    node: [48.33076593, -0.12534081]
+  },
+  '299': {
+    a: [0.72333566, 0.0000039],
+    e: [0.00677672, -0.00004107],
+    i: [3.39467605, -0.0007889],
+    l: [181.9790995, 58517.81538729],
+    peri: [131.60246718, 0.00268329],
+    node: [76.67984255, -0.27769418]
+  },
+  '399': {
+    a: [1.00000261, 0.00000562],
+    e: [0.01671123, -0.00004392],
+    i: [-0.00001531, -0.01294668],
+    l: [100.46457166, 35999.37244981],
+    peri: [102.93768193, 0.32327364],
+    node: [0, 0]
+  },
+  '499': {
+    a: [1.52371034, 0.00001847],
+    e: [0.0933941, 0.00007882],
+    i: [1.84969142, -0.00813131],
+    l: [-4.55343205, 19140.30268499],
+    peri: [-23.94362959, 0.44441088],
+    node: [49.55953891, -0.29257343]
+  },
+  '599': {
+    a: [5.202887, -0.00011607],
+    e: [0.04838624, -0.00013253],
+    i: [1.30439695, -0.00183714],
+    l: [34.39644051, 3034.74612775],
+    peri: [14.72847983, 0.21252668],
+    node: [100.47390909, 0.20469106]
+  },
+  '699': {
+    a: [9.53667594, -0.0012506],
+    e: [0.05386179, -0.00050991],
+    i: [2.48599187, 0.00193609],
+    l: [49.95424423, 1222.49362201],
+    peri: [92.59887831, -0.41897216],
+    node: [113.66242448, -0.28867794]
+  },
+  '799': {
+    a: [19.18916464, -0.00196176],
+    e: [0.04725744, -0.00004397],
+    i: [0.77263783, -0.00242939],
+    l: [313.23810451, 428.48202785],
+    peri: [170.9542763, 0.40805281],
+    node: [74.01692503, 0.04240589]
+  },
+  '899': {
+    a: [30.06992276, 0.00026291],
+    e: [0.00859048, 0.00005105],
+    i: [1.77004347, 0.00035372],
+    l: [-55.12002969, 218.45945325],
+    peri: [44.96476227, -0.32241464],
+    node: [131.78422574, -0.00508664]
+  },
+  '999': {
+    a: [39.48211675, -0.00031596],
+    e: [0.2488273, 0.0000517],
+    i: [17.14001206, 0.00004818],
+    l: [238.92903833, 145.20780515],
+    peri: [224.06891629, -0.04062942],
+    node: [110.30393684, -0.01183482]
+  }
+};
+
+const MOONS: Record<string, CircularMoon> = {
+  '301': { parent: '399', radiusKm: 384_400, periodDays: 27.321661 },
+  '401': { parent: '499', radiusKm: 9_376, periodDays: 0.31891 },
+  '402': { parent: '499', radiusKm: 23_463, periodDays: 1.26244 },
+  '501': { parent: '599', radiusKm: 421_700, periodDays: 1.769138 },
+  '502': { parent: '599', radiusKm: 671_034, periodDays: 3.551181 },
+  '503': { parent: '599', radiusKm: 1_070_412, periodDays: 7.154553 },
+  '504': { parent: '599', radiusKm: 1_882_709, periodDays: 16.689018 },
+  '602': { parent: '699', radiusKm: 237_948, periodDays: 1.370218 },
+  '605': { parent: '699', radiusKm: 527_108, periodDays: 4.518212 },
+  '606': { parent: '699', radiusKm: 1_221_870, periodDays: 15.945421 },
+  '608': { parent: '699', radiusKm: 3_560_820, periodDays: 79.3215 },
+  '701': { parent: '799', radiusKm: 190_900, periodDays: 2.520379 },
+  '702': { parent: '799', radiusKm: 266_000, periodDays: 4.144177 },
+  '703': { parent: '799', radiusKm: 435_910, periodDays: 8.705872 },
+  '704': { parent: '799', radiusKm: 583_520, periodDays: 13.463239 },
+  '705': { parent: '799', radiusKm: 129_390, periodDays: 1.413479 },
+  '801': { parent: '899', radiusKm: 354_759, periodDays: -5.876854 },
+  '802': { parent: '899', radiusKm: 5_513_818, periodDays: 360.13 },
+  '901': { parent: '999', radiusKm: 19_591, periodDays: 6.3872 },
+  '902': { parent: '999', radiusKm: 48_694, periodDays: 24.85463 },
+  '903': { parent: '999', radiusKm: 64_738, periodDays: 38.20177 },
+  '904': { parent: '999', radiusKm: 57_783, periodDays: 32.16756 },
+  '905': { parent: '999', radiusKm: 42_656, periodDays: 20.16155 }
+};
+
+// Sondes en orbite autour d'une planète, traitées comme des lunes circulaires.
+const PLANET_ORBITERS: Record<string, CircularMoon> = {
+  '-61': { parent: '599', radiusKm: 4_000_000, periodDays: 33 }
+};
+
+const HELIOCENTRIC_PROBES: Record<string, KeplerElements> = {
+  // Parker Solar Probe après la 7e assistance de Vénus (périhélie ~0,046 AU, période 88 j).
+  '-96': {
+    a: [0.388, 0],
+    e: [0.882, 0],
+    i: [3.4, 0],
+    l: [0, 149_427.0],
+    peri: [200, 0],
+    node: [76.7, 0]
+  }
+};
+
+const LAGRANGE_PROBES: Record<string, LagrangeFollower> = {
+  '-170': { parent: '399', scale: 1.01 }
+};
+
+const PROBES: Record<string, LinearProbe> = {
+  '-31': { position: [-31.3, -128.7, 94.5], velocity: [-0.00189, -0.00778, 0.00571] },
+  '-32': { position: [37.8, -99.6, -83.3], velocity: [0.00243, -0.00643, -0.00538] },
+  '-98': { position: [15.0, -56.0, 1.9], velocity: [0.00206, -0.0077, 0.00026] },
+  '-23': { position: [27.8, 130.9, 7.0], velocity: [0.00144, 0.00677, 0.00036] },
+  '-24': { position: [25.3, -107.2, 27.6], velocity: [0.00143, -0.00605, 0.00156] }
+};
+
+export function isKnownTarget(command: string): boolean {
+  return (
+    command === '10' ||
+    command in PLANET_ELEMENTS ||
+    command in MOONS ||
+    command in PLANET_ORBITERS ||
+    command in HELIOCENTRIC_PROBES ||
+    command in LAGRANGE_PROBES ||
+    command in PROBES
+  );
+}
+
+function keplerState(el: KeplerElements, jd: number): AnalyticState {
+  const t = (jd - J2000_JD) / 36_525;
+  const a = el.a[0] + el.a[1] * t;
+  const e = el.e[0] + el.e[1] * t;
+  const i = (el.i[0] + el.i[1] * t) * DEG;
+  const l = (el.l[0] + el.l[1] * t) * DEG;
+  const peri = (el.peri[0] + el.peri[1] * t) * DEG;
+  const node = (el.node[0] + el.node[1] * t) * DEG;
+  const argPeri = peri - node;
+
+  const meanAnomaly = l - peri;
+  let E = meanAnomaly;
+  for (let k = 0; k < 12; k += 1) {
+    E -= (E - e * Math.sin(E) - meanAnomaly) / (1 - e * Math.cos(E));
+  }
+
+  const n = GAUSS_K / Math.pow(a, 1.5);
+  const eDot = n / (1 - e * Math.cos(E));
+  const root = Math.sqrt(1 - e * e);
+  const xp = a * (Math.cos(E) - e);
+  const yp = a * root * Math.sin(E);
+  const vxp = -a * Math.sin(E) * eDot;
+  const vyp = a * root * Math.cos(E) * eDot;
+
+  const cw = Math.cos(argPeri);
+  const sw = Math.sin(argPeri);
+  const cO = Math.cos(node);
+  const sO = Math.sin(node);
+  const ci = Math.cos(i);
+  const si = Math.sin(i);
+  const rotate = (px: number, py: number): [number, number, number] => [
+    (cw * cO - sw * sO * ci) * px + (-sw * cO - cw * sO * ci) * py,
+    (cw * sO + sw * cO * ci) * px + (-sw * sO + cw * cO * ci) * py,
+    sw * si * px + cw * si * py
+  ];
+
+  const [x, y, z] = rotate(xp, yp);
+  const [vx, vy, vz] = rotate(vxp, vyp);
+  return { x, y, z, vx, vy, vz };
+}
+
+// Phase initiale arbitraire mais stable par lune (évite d'aligner tous les satellites).
+function initialPhase(command: string): number {
+  let h = 0;
+  for (const c of command) h = (h * 31 + c.charCodeAt(0)) % 3600;
+  return (h / 10) * DEG;
+}
+
+/**
+ * Vecteur d'état barycentrique écliptique J2000 (AU, AU/jour) à la date
+ * julienne TDB `jd`, ou `null` si la cible est inconnue du simulateur.
+ */
+export function analyticStateFor(command: string, jd: number): AnalyticState | null {
+  if (command === '10') {
+    return { x: 0, y: 0, z: 0, vx: 0, vy: 0, vz: 0 };
+  }
+
+  const planet = PLANET_ELEMENTS[command] ?? HELIOCENTRIC_PROBES[command];
+  if (planet) {
+    return keplerState(planet, jd);
+  }
+
+  const moon = MOONS[command] ?? PLANET_ORBITERS[command];
+  if (moon) {
+    const parent = keplerState(PLANET_ELEMENTS[moon.parent], jd);
+    const r = moon.radiusKm / AU_IN_KM;
+    const w = (2 * Math.PI) / moon.periodDays;
+    const theta = initialPhase(command) + w * (jd - J2000_JD);
+    return {
+      x: parent.x + r * Math.cos(theta),
+      y: parent.y + r * Math.sin(theta),
+      z: parent.z,
+      vx: parent.vx - r * w * Math.sin(theta),
+      vy: parent.vy + r * w * Math.cos(theta),
+      vz: parent.vz
+    };
+  }
+
+  const follower = LAGRANGE_PROBES[command];
+  if (follower) {
+    const parent = keplerState(PLANET_ELEMENTS[follower.parent], jd);
+    return {
+      x: parent.x * follower.scale,
+      y: parent.y * follower.scale,
+      z: parent.z * follower.scale,
+      vx: parent.vx * follower.scale,
+      vy: parent.vy * follower.scale,
+      vz: parent.vz * follower.scale
+    };
+  }
+
+  const probe = PROBES[command];
+  if (probe) {
+    const dt = jd - PROBE_EPOCH_JD;
+    const [x0, y0, z0] = probe.position;
+    const [vx, vy, vz] = probe.velocity;
+    return { x: x0 + vx * dt, y: y0 + vy * dt, z: z0 + vz * dt, vx, vy, vz };
+  }
+
+  return null;
+}
@@ -0,0 +1,637 @@
+import express, { Express, Request, Response } from 'express';
+import fs from 'fs';
+import path from 'path';
+import { AU_IN_KM, SECONDS_PER_DAY, SPEED_OF_LIGHT_KM_S } from '@solar-system/shared';
+
+import { stepSizeToMinutes } from '../nasa/horizonsStepSize';
+import { logInfo } from '../observability/logger';
+import { AnalyticState, analyticStateFor, isKnownTarget } from './analyticEphemeris';
+
+/**
+ * Simulateur local de l'API Horizons (`/api/horizons.api`) : sert des réponses
+ * enregistrées (fixtures) ou synthétisées à partir d'orbites analytiques, aux
+ * formats VECTORS, OBSERVER et ELEMENTS (CSV), avec des pannes activables pour tester les
+ * fallbacks, le gel du cache et les snapshots partiels sans réseau.
+ */
+
+export type SimulatorFailureMode = 'none' | 'http500' | 'http429' | 'timeout' | 'malformed';
+
+export interface SimulatorFailure {
+  mode: SimulatorFailureMode;
+  /** COMMAND Horizons visés (ex: ["499"]) ; absent = toutes les cibles. */
+  commands?: string[];
+  /** Limite la panne à un type d'éphéméride. */
+  ephemTypes?: Array<'VECTORS' | 'OBSERVER' | 'ELEMENTS'>;
+  /** Nombre de requêtes encore en échec ; absent = jusqu'à réinitialisation. */
+  remaining?: number;
+}
+
+export interface HorizonsSimulatorOptions {
+  /** Dossier de réponses enregistrées : `<COMMAND>.<EPHEM_TYPE>.txt` (champ `result`). */
+  fixturesDir?: string;
+  failure?: SimulatorFailure;
+  /** Durée pendant laquelle le mode `timeout` garde la connexion ouverte. */
+  timeoutHoldMs?: number;
+}
+
+export interface HorizonsSimulator {
+  app: Express;
+  setFailure(failure: SimulatorFailure): void;
+  clearFailure(): void;
+  /** Nombre de requêtes reçues par COMMAND (pour vérifier les HIT de cache). */
+  requestCounts(): Record<string, number>;
+  resetCounts(): void;
+}
+
+const OBLIQUITY_J2000_RAD = (23.4392911 * Math.PI) / 180;
+const MAX_ROWS = 90_024; // limite documentée de l'API Horizons
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Magnitudes absolues approximatives (planètes) ; 5 par défaut pour les autres cibles.
+const ABSOLUTE_MAGNITUDE: Record<string, number> = {
+  '199': -0.6,
+  '299': -4.4,
+  '301': 0.2,
+  '499': -1.5,
+  '599': -9.4,
+  '699': -8.9,
+  '799': -7.2,
+  '899': -6.9,
+  '999': -1.0
+};
+
+// GM en AU³/jour² : k² pour le Soleil, k² / (M☉/M) pour les planètes.
+const GM_SUN = 0.01720209895 ** 2;
+const SUN_MASS_RATIO: Record<string, number> = {
+  '10': 1,
+  '199': 6_023_600,
+  '299': 408_523.71,
+  '399': 332_946.05,
+  '499': 3_098_708,
+  '599': 1_047.3486,
+  '699': 3_497.898,
+  '799': 22_902.98,
+  '899': 19_412.24,
+  '999': 135_200_000
+};
+
+const VALID_FAILURE_MODES: SimulatorFailureMode[] = ['none', 'http500', 'http429', 'timeout', 'malformed'];
+
+function unquote(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  return value.trim().replace(/^'(.*)'$/, '$1').trim();
+}
+
+function parseHorizonsTime(value: string | undefined): number | null {
+  if (!value) return null;
+  const iso = value.replace(' ', 'T');
+  const ms = Date.parse(/[zZ]|[+-]\d\d:?\d\d$/.test(iso) ? iso : `${iso}Z`);
+  return Number.isFinite(ms) ? ms : null;
+}
+
+function msToJulianDay(ms: number): number {
+  return ms / 86_400_000 + 2_440_587.5;
+}
+
+function calendar(ms: number, withSeconds: boolean): string {
+  const d = new Date(ms);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const date = `${d.getUTCFullYear()}-${MONTHS[d.getUTCMonth()]}-${pad(d.getUTCDate())}`;
+  const time = `${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}`;
+  return withSeconds ? `${date} ${time}:${pad(d.getUTCSeconds())}.0000` : `${date} ${time}`;
+}
+
+function sexagesimal(value: number, width: number): string {
+  const sign = value < 0 ? '-' : '';
+  const abs = Math.abs(value);
+  const whole = Math.floor(abs);
+  const minutes = Math.floor((abs - whole) * 60);
+  const seconds = ((abs - whole) * 60 - minutes) * 60;
+  return `${sign}${String(whole).padStart(width, '0')} ${String(minutes).padStart(2, '0')} ${seconds
+    .toFixed(2)
+    .padStart(5, '0')}`;
+}
+
+function header(command: string, ephemType: string, units: string, equatorial = false): string {
+  return [
+    '*******************************************************************************',
+    'Ephemeris / API_USER (simulateur Horizons hors-ligne)',
+    `Target body name: ${command} (${command})`,
+    `Ephemeris type  : ${ephemType}`,
+    `Output units    : ${units}`,
+    equatorial ? 'Reference frame : ICRF' : 'Reference frame : Ecliptic of J2000.0',
+    '*******************************************************************************'
+  ].join('\n');
+}
+
+function timeGrid(params: Record<string, string | undefined>): number[] | string {
+  const start = parseHorizonsTime(params.START_TIME);
+  const stop = parseHorizonsTime(params.STOP_TIME) ?? start;
+  if (start === null || stop === null) {
+    return 'Cannot interpret date. Type "?!" or try YYYY-MMM-DD {HH:MN} format.';
+  }
+  const stepMinutes = stepSizeToMinutes(params.STEP_SIZE ?? '1d');
+  if (stepMinutes === null) {
+    return `Cannot read step-size: ${params.STEP_SIZE}`;
+  }
+  const times: number[] = [];
+  for (let t = start; t <= stop && times.length < MAX_ROWS; t += stepMinutes * 60_000) {
+    times.push(t);
+  }
+  return times;
+}
+
+/** Écliptique → équateur : rotation d'angle ε autour de l'axe X. */
+function toEquatorial(s: AnalyticState): AnalyticState {
+  const cos = Math.cos(OBLIQUITY_J2000_RAD);
+  const sin = Math.sin(OBLIQUITY_J2000_RAD);
+  return {
+    x: s.x,
+    y: s.y * cos - s.z * sin,
+    z: s.y * sin + s.z * cos,
+    vx: s.vx,
+    vy: s.vy * cos - s.vz * sin,
+    vz: s.vy * sin + s.vz * cos
+  };
+}
+
+function vectorResult(command: string, params: Record<string, string | undefined>): string {
+  const grid = timeGrid(params);
+  if (typeof grid === 'string') return grid;
+
+  // CENTER '@0' (barycentre) ou '500@<id>' ; le Soleil du modèle est au barycentre.
+  const centerId = /@(\d+)$/.exec(params.CENTER ?? '')?.[1] ?? '0';
+  const equatorial = (params.REF_PLANE ?? '').toUpperCase() === 'FRAME';
+
+  const inKm = (params.OUT_UNITS ?? 'KM-S').toUpperCase() === 'KM-S';
+  const pos = (v: number) => (inKm ? v * AU_IN_KM : v);
+  const vel = (v: number) => (inKm ? (v * AU_IN_KM) / SECONDS_PER_DAY : v);
+  const fmt = (v: number) => v.toExponential(15).toUpperCase();
+
+  const rows = grid.map((ms) => {
+    const jd = msToJulianDay(ms);
+    const target = analyticStateFor(command, jd) as AnalyticState;
+    const center = centerId === '0' ? null : analyticStateFor(centerId, jd);
+    const relative = center
+      ? {
+          x: target.x - center.x,
+          y: target.y - center.y,
+          z: target.z - center.z,
+          vx: target.vx - center.vx,
+          vy: target.vy - center.vy,
+          vz: target.vz - center.vz
+        }
+      : target;
+    const s = equatorial ? toEquatorial(relative) : relative;
+    return [
+      jd.toFixed(9),
+      ` A.D. ${calendar(ms, true)}`,
+      ` ${fmt(pos(s.x))}`,
+      ` ${fmt(pos(s.y))}`,
+      ` ${fmt(pos(s.z))}`,
+      ` ${fmt(vel(s.vx))}`,
+      ` ${fmt(vel(s.vy))}`,
+      ` ${fmt(vel(s.vz))}`,
+      ''
+    ].join(',');
+  });
+
+  return [
+    header(command, 'VECTORS', inKm ? 'KM-S' : 'AU-D', equatorial),
+    '            JDTDB,            Calendar Date (TDB),                      X,                      Y,                      Z,                     VX,                     VY,                     VZ,',
+    '$$SOE',
+    ...rows,
+    '$$EOE'
+  ].join('\n');
+}
+
+interface ObserverGeometry {
+  raHours: number;
+  decDeg: number;
+  delta: number;
+  deldot: number;
+  elongation: number;
+  phase: number;
+  illumination: number;
+  apMag: number;
+  /** Position du Soleil vue depuis la cible (/T : en arrière, /L : en avant). */
+  trailing: boolean;
+}
+
+function observerGeometry(command: string, ms: number): ObserverGeometry {
+  const jd = msToJulianDay(ms);
+  const target = analyticStateFor(command, jd) as AnalyticState;
+  const earth = analyticStateFor('399', jd) as AnalyticState;
+
+  const dx = target.x - earth.x;
+  const dy = target.y - earth.y;
+  const dz = target.z - earth.z;
+  const delta = Math.hypot(dx, dy, dz);
+  const r = Math.hypot(target.x, target.y, target.z);
+  const deldot =
+    delta > 0
+      ? (((dx * (target.vx - earth.vx) + dy * (target.vy - earth.vy) + dz * (target.vz - earth.vz)) / delta) *
+          AU_IN_KM) /
+        SECONDS_PER_DAY
+      : 0;
+
+  // Écliptique -> équatorial J2000 pour RA/DEC.
+  const ce = Math.cos(OBLIQUITY_J2000_RAD);
+  const se = Math.sin(OBLIQUITY_J2000_RAD);
+  const ex = dx;
+  const ey = dy * ce - dz * se;
+  const ez = dy * se + dz * ce;
+  const raHours = (((Math.atan2(ey, ex) * 12) / Math.PI) + 24) % 24;
+  const decDeg = delta > 0 ? (Math.asin(ez / delta) * 180) / Math.PI : 0;
+
+  const angle = (ax: number, ay: number, az: number, bx: number, by: number, bz: number) => {
+    const na = Math.hypot(ax, ay, az);
+    const nb = Math.hypot(bx, by, bz);
+    if (na === 0 || nb === 0) return NaN;
+    const c = (ax * bx + ay * by + az * bz) / (na * nb);
+    return (Math.acos(Math.max(-1, Math.min(1, c))) * 180) / Math.PI;
+  };
+  // S-O-T : Soleil-Observateur-Cible ; S-T-O : Soleil-Cible-Observateur.
+  const elongation = angle(-earth.x, -earth.y, -earth.z, dx, dy, dz);
+  const phase = angle(-target.x, -target.y, -target.z, -dx, -dy, -dz);
+  const isSun = command === '10';
+  const illumination = isSun || !Number.isFinite(phase) ? 100 : ((1 + Math.cos((phase * Math.PI) / 180)) / 2) * 100;
+  const apMag = isSun
+    ? -26.74
+    : (ABSOLUTE_MAGNITUDE[command] ?? 5) + 5 * Math.log10(Math.max(r * delta, 1e-9)) + 0.02 * (phase || 0);
+
+  return {
+    raHours,
+    decDeg,
+    delta,
+    deldot,
+    elongation,
+    phase,
+    illumination,
+    apMag,
+    trailing: target.x * dx + target.y * dy >= 0
+  };
+}
+
+/** Colonnes communes aux deux formats : APmag ... S-T-O. */
+function observerTail(command: string, g: ObserverGeometry): string[] {
+  const isSun = command === '10';
+  const na = 'n.a.';
+  return [
+    ` ${g.apMag.toFixed(3)}`,
+    isSun ? na : ` ${(g.apMag + 2.5).toFixed(3)}`,
+    ` ${g.illumination.toFixed(5)}`,
+    ` ${g.delta.toFixed(14)}`,
+    ` ${g.deldot.toFixed(7)}`,
+    ` ${((g.delta * AU_IN_KM) / SPEED_OF_LIGHT_KM_S / 60).toFixed(6)}`,
+    isSun ? na : ` ${g.elongation.toFixed(4)}`,
+    isSun ? na : g.trailing ? '/T' : '/L',
+    isSun ? na : ` ${g.phase.toFixed(4)}`,
+    ''
+  ];
+}
+
+function observerRow(command: string, ms: number): string {
+  const g = observerGeometry(command, ms);
+  return [
+    ` ${calendar(ms, false)}`,
+    command === '10' ? '*' : ' ',
+    ' ',
+    ` ${sexagesimal(g.raHours, 2)}`,
+    `${g.decDeg < 0 ? '' : '+'}${sexagesimal(g.decDeg, 2)}`,
+    ...observerTail(command, g)
+  ].join(',');
+}
+
+interface Site {
+  lonDeg: number;
+  latDeg: number;
+}
+
+/** SITE_COORD='lon,lat,alt' (géodésique, degrés / km). */
+function parseSite(params: Record<string, string | undefined>): Site | null {
+  const [lon, lat] = (params.SITE_COORD ?? '').split(',').map((v) => Number(v));
+  return Number.isFinite(lon) && Number.isFinite(lat) ? { lonDeg: lon, latDeg: lat } : null;
+}
+
+/**
+ * Azimut (depuis le Nord, vers l'Est), élévation et angle horaire via le temps
+ * sidéral moyen de Greenwich. Pas de parallaxe ni de réfraction : cohérent avec
+ * la précision des orbites analytiques.
+ */
+function horizontal(g: ObserverGeometry, site: Site, ms: number) {
+  const jd = msToJulianDay(ms);
+  const gmstDeg = 280.46061837 + 360.98564736629 * (jd - 2_451_545.0);
+  const hourAngle = (((gmstDeg + site.lonDeg - g.raHours * 15) % 360) + 540) % 360 - 180;
+  const deg = Math.PI / 180;
+  const h = hourAngle * deg;
+  const dec = g.decDeg * deg;
+  const lat = site.latDeg * deg;
+  const elevation = Math.asin(Math.sin(lat) * Math.sin(dec) + Math.cos(lat) * Math.cos(dec) * Math.cos(h)) / deg;
+  const azimuth =
+    ((Math.atan2(-Math.cos(dec) * Math.sin(h), Math.sin(dec) * Math.cos(lat) - Math.cos(dec) * Math.sin(lat) * Math.cos(h)) /
+      deg) +
+      360) %
+    360;
+  return { azimuth, elevation, hourAngle };
+}
+
+// QUANTITIES='1,4,8,9,10,20,21,23,24' avec ANG_FORMAT=DEG.
+function topocentricRow(command: string, site: Site, ms: number, marker = ' '): string {
+  const g = observerGeometry(command, ms);
+  const { azimuth, elevation } = horizontal(g, site, ms);
+  const airmass = elevation > 0 ? 1 / Math.sin((elevation * Math.PI) / 180) : NaN;
+  return [
+    ` ${calendar(ms, false)}`,
+    command === '10' ? '*' : ' ',
+    marker,
+    ` ${(g.raHours * 15).toFixed(5)}`,
+    ` ${g.decDeg.toFixed(5)}`,
+    ` ${azimuth.toFixed(6)}`,
+    ` ${elevation.toFixed(6)}`,
+    Number.isFinite(airmass) ? ` ${airmass.toFixed(3)}` : 'n.a.',
+    Number.isFinite(airmass) ? ` ${(0.2 * airmass).toFixed(3)}` : 'n.a.',
+    ...observerTail(command, g)
+  ].join(',');
+}
+
+// R_T_S_ONLY : seules les lignes de lever (r), transit (t) et coucher (s) sont émises.
+function riseTransitSetRows(command: string, site: Site, grid: number[]): string[] {
+  const rows: string[] = [];
+  let previous: { elevation: number; hourAngle: number } | null = null;
+  for (const ms of grid) {
+    const current = horizontal(observerGeometry(command, ms), site, ms);
+    if (previous) {
+      if (previous.elevation <= 0 && current.elevation > 0) rows.push(topocentricRow(command, site, ms, 'r'));
+      if (previous.hourAngle < 0 && current.hourAngle >= 0) rows.push(topocentricRow(command, site, ms, 't'));
+      if (previous.elevation > 0 && current.elevation <= 0) rows.push(topocentricRow(command, site, ms, 's'));
+    }
+    previous = current;
+  }
+  return rows;
+}
+
+const TOPOCENTRIC_COLUMNS =
+  ' Date__(UT)__HR:MN, , , R.A._(ICRF), DEC_(ICRF), Azi_(a-app), Elev_(a-app),  a-mass, mag_ex,  APmag,  S-brt,    Illu%,         delta,      deldot,    1-way_down_LT,    S-O-T,/r,    S-T-O,';
+
+function observerResult(command: string, params: Record<string, string | undefined>): string {
+  const grid = timeGrid(params);
+  if (typeof grid === 'string') return grid;
+
+  if ((params.CENTER ?? '').toLowerCase().startsWith('coord')) {
+    const site = parseSite(params);
+    if (!site) {
+      return 'Cannot interpret SITE_COORD: expected \'E-lon,lat,alt\'';
+    }
+    const rows = params.R_T_S_ONLY
+      ? riseTransitSetRows(command, site, grid)
+      : grid.map((ms) => topocentricRow(command, site, ms));
+    return [
+      header(command, 'OBSERVER', 'KM-S (range AU)'),
+      TOPOCENTRIC_COLUMNS,
+      '$$SOE',
+      ...rows,
+      '$$EOE'
+    ].join('\n');
+  }
+
+  return [
+    header(command, 'OBSERVER', 'KM-S (range AU)'),
+    ' Date__(UT)__HR:MN, , , R.A._____(ICRF), DEC____(ICRF),  APmag,  S-brt,    Illu%,         delta,      deldot,    1-way_down_LT,    S-O-T,/r,    S-T-O,',
+    '$$SOE',
+    ...grid.map((ms) => observerRow(command, ms)),
+    '$$EOE'
+  ].join('\n');
+}
+
+/**
+ * Éléments osculateurs (écliptique J2000) de la cible relativement au centre,
+ * à partir des vecteurs d'état analytiques. Gère les trajectoires hyperboliques
+ * (sondes) comme Horizons : a < 0, apoapse et période à 9.999E+99.
+ */
+function elementsRow(command: string, centerId: string, ms: number): string {
+  const jd = msToJulianDay(ms);
+  const target = analyticStateFor(command, jd) as AnalyticState;
+  const center = analyticStateFor(centerId, jd) as AnalyticState;
+  const mu = GM_SUN / SUN_MASS_RATIO[centerId];
+  const deg = 180 / Math.PI;
+
+  const [x, y, z] = [target.x - center.x, target.y - center.y, target.z - center.z];
+  const [vx, vy, vz] = [target.vx - center.vx, target.vy - center.vy, target.vz - center.vz];
+  const r = Math.hypot(x, y, z);
+  const v2 = vx * vx + vy * vy + vz * vz;
+  const rv = x * vx + y * vy + z * vz;
+
+  const [hx, hy, hz] = [y * vz - z * vy, z * vx - x * vz, x * vy - y * vx];
+  const h = Math.hypot(hx, hy, hz);
+  const [nx, ny] = [-hy, hx];
+  const nNorm = Math.hypot(nx, ny);
+  const ecc = [
+    ((v2 - mu / r) * x - rv * vx) / mu,
+    ((v2 - mu / r) * y - rv * vy) / mu,
+    ((v2 - mu / r) * z - rv * vz) / mu
+  ];
+  const e = Math.hypot(ecc[0], ecc[1], ecc[2]);
+  const a = 1 / (2 / r - v2 / mu);
+
+  const clampCos = (c: number) => Math.max(-1, Math.min(1, c));
+  const inclination = Math.acos(clampCos(hz / h)) * deg;
+  // Orbite quasi équatoriale : nœud indéfini, ω compté depuis l'axe X.
+  const node = nNorm > 1e-12 ? ((Math.atan2(ny, nx) * deg) + 360) % 360 : 0;
+  let argPeri =
+    nNorm > 1e-12
+      ? Math.acos(clampCos((nx * ecc[0] + ny * ecc[1]) / (nNorm * e))) * deg
+      : ((Math.atan2(ecc[1], ecc[0]) * deg) + 360) % 360;
+  if (nNorm > 1e-12 && ecc[2] < 0) argPeri = 360 - argPeri;
+  let trueAnomaly = Math.acos(clampCos((ecc[0] * x + ecc[1] * y + ecc[2] * z) / (e * r))) * deg;
+  if (rv < 0) trueAnomaly = (360 - trueAnomaly) % 360;
+
+  const halfNu = (trueAnomaly / deg) / 2;
+  let meanAnomaly: number;
+  let meanMotion: number;
+  if (e < 1) {
+    const E = 2 * Math.atan(Math.sqrt((1 - e) / (1 + e)) * Math.tan(halfNu));
+    meanAnomaly = ((((E - e * Math.sin(E)) * deg) % 360) + 360) % 360;
+    meanMotion = Math.sqrt(mu / (a * a * a)) * deg;
+  } else {
+    const F = 2 * Math.atanh(Math.sqrt((e - 1) / (e + 1)) * Math.tan(halfNu));
+    meanAnomaly = (e * Math.sinh(F) - F) * deg;
+    meanMotion = Math.sqrt(mu / -(a * a * a)) * deg;
+  }
+  const infinite = 9.999e99;
+  const fmt = (v: number) => v.toExponential(15).toUpperCase();
+
+  return [
+    jd.toFixed(9),
+    ` A.D. ${calendar(ms, true)}`,
+    ` ${fmt(e)}`,
+    ` ${fmt(a * (1 - e))}`,
+    ` ${fmt(inclination)}`,
+    ` ${fmt(node)}`,
+    ` ${fmt(argPeri)}`,
+    ` ${fmt(jd - meanAnomaly / meanMotion)}`,
+    ` ${fmt(meanMotion)}`,
+    ` ${fmt(meanAnomaly)}`,
+    ` ${fmt(trueAnomaly)}`,
+    ` ${fmt(a)}`,
+    ` ${fmt(e < 1 ? a * (1 + e) : infinite)}`,
+    ` ${fmt(e < 1 ? 360 / meanMotion : infinite)}`,
+    ''
+  ].join(',');
+}
+
+function elementsResult(command: string, params: Record<string, string | undefined>): string {
+  const grid = timeGrid(params);
+  if (typeof grid === 'string') return grid;
+  const centerId = /@(\d+)$/.exec(params.CENTER ?? '')?.[1] ?? '10';
+  if (!(centerId in SUN_MASS_RATIO)) {
+    return `Cannot use center body ${centerId} (no GM available)`;
+  }
+  if (centerId === command) {
+    return `${header(command, 'ELEMENTS', 'AU-D')}\n Observer and target are the same body.`;
+  }
+  return [
+    header(command, 'ELEMENTS', 'AU-D'),
+    '            JDTDB,            Calendar Date (TDB),                     EC,                     QR,                     IN,                     OM,                      W,                     Tp,                      N,                     MA,                     TA,                      A,                     AD,                     PR,',
+    '$$SOE',
+    ...grid.map((ms) => elementsRow(command, centerId, ms)),
+    '$$EOE'
+  ].join('\n');
+}
+
+function malformed(result: string): string {
+  // Bloc tronqué : pas de $$EOE et dernière ligne coupée en plein nombre.
+  const cut = result.indexOf('$$EOE');
+  const body = cut >= 0 ? result.slice(0, cut) : result;
+  return body.slice(0, Math.max(body.indexOf('$$SOE') + 20, body.length - 40));
+}
+
+function readFixture(dir: string | undefined, command: string, ephemType: string): string | null {
+  if (!dir) return null;
+  const file = path.join(dir, `${command}.${ephemType}.txt`);
+  return fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : null;
+}
+
+export function parseFailure(body: any): SimulatorFailure | null {
+  const mode = body?.mode;
+  if (!VALID_FAILURE_MODES.includes(mode)) return null;
+  const list = (v: unknown) =>
+    Array.isArray(v) ? v.map(String) : typeof v === 'string' && v ? v.split(',').map((s) => s.trim()) : undefined;
+  const remaining = body?.remaining !== undefined ? Number(body.remaining) : undefined;
+  return {
+    mode,
+    commands: list(body?.commands),
+    ephemTypes: list(body?.ephemTypes)?.map((t) => t.toUpperCase()) as SimulatorFailure['ephemTypes'],
+    remaining: Number.isFinite(remaining) ? remaining : undefined
+  };
+}
+
+export function createHorizonsSimulator(options: HorizonsSimulatorOptions = {}): HorizonsSimulator {
+  const app = express();
+  const timeoutHoldMs = options.timeoutHoldMs ?? 120_000;
+  let failure: SimulatorFailure = options.failure ?? { mode: 'none' };
+  let counts: Record<string, number> = {};
+
+  // Retourne la panne applicable à cette requête (et décompte `remaining`).
+  const activeFailure = (command: string, ephemType: string): SimulatorFailureMode => {
+    if (failure.mode === 'none') return 'none';
+    if (failure.commands?.length && !failure.commands.includes(command)) return 'none';
+    if (failure.ephemTypes?.length && !failure.ephemTypes.includes(ephemType as 'VECTORS')) return 'none';
+    if (failure.remaining !== undefined) {
+      if (failure.remaining <= 0) return 'none';
+      failure.remaining -= 1;
+    }
+    return failure.mode;
+  };
+
+  app.use(express.json());
+
+  app.get('/__simulator', (_req, res) => {
+    res.json({ failure, requestCounts: counts });
+  });
+
+  app.put('/__simulator/failure', (req, res) => {
+    const parsed = parseFailure(req.body);
+    if (!parsed) {
+      res.status(400).json({ error: `mode attendu parmi ${VALID_FAILURE_MODES.join(', ')}` });
+      return;
+    }
+    failure = parsed;
+    logInfo('horizons_simulator_failure_set', { ...parsed });
+    res.json({ failure });
+  });
+
+  app.delete('/__simulator/failure', (_req, res) => {
+    failure = { mode: 'none' };
+    res.json({ failure });
+  });
+
+  app.get(['/', '/api/horizons.api'], (req: Request, res: Response) => {
+    const params: Record<string, string | undefined> = {};
+    for (const [key, value] of Object.entries(req.query)) {
+      params[key.toUpperCase()] = unquote(value);
+    }
+    const command = params.COMMAND ?? '';
+    const ephemType = (params.EPHEM_TYPE ?? 'OBSERVER').toUpperCase();
+    counts[command] = (counts[command] ?? 0) + 1;
+
+    const mode = activeFailure(command, ephemType);
+    if (mode === 'http500') {
+      res.status(500).json({ error: 'Simulated Horizons internal error' });
+      return;
+    }
+    if (mode === 'http429') {
+      res.setHeader('Retry-After', '1');
+      res.status(429).json({ error: 'Simulated Horizons rate limit' });
+      return;
+    }
+    if (mode === 'timeout') {
+      // Ne répond jamais : le client doit abandonner sur son propre timeout.
+      const timer = setTimeout(() => res.destroy(), timeoutHoldMs);
+      res.on('close', () => clearTimeout(timer));
+      return;
+    }
+
+    // Les fixtures VECTORS sont enregistrées dans le repère par défaut (barycentre, écliptique).
+    const recordedFrame =
+      ephemType !== 'VECTORS' ||
+      ((params.CENTER ?? '@0') === '@0' && (params.REF_PLANE ?? 'ECLIPTIC').toUpperCase() === 'ECLIPTIC');
+    let result = recordedFrame ? readFixture(options.fixturesDir, command, ephemType) : null;
+    if (result === null) {
+      if (!isKnownTarget(command)) {
+        result = `${header(command, ephemType, 'AU-D')}\n No matches found.`;
+      } else if (ephemType === 'VECTORS') {
+        result = vectorResult(command, params);
+      } else if (ephemType === 'OBSERVER' && command === '399') {
+        // Observateur géocentrique : Horizons refuse une cible égale au centre.
+        result = `${header(command, ephemType, 'KM-S')}\n Observer and target are the same body.`;
+      } else if (ephemType === 'OBSERVER') {
+        result = observerResult(command, params);
+      } else if (ephemType === 'ELEMENTS') {
+        result = elementsResult(command, params);
+      } else {
+        res.status(400).json({ error: `EPHEM_TYPE non simulé: ${ephemType}` });
+        return;
+      }
+    }
+
+    res.json({
+      signature: { source: 'NASA/JPL Horizons API (simulateur hors-ligne)', version: '1.2' },
+      result: mode === 'malformed' ? malformed(result) : result
+    });
+  });
+
+  return {
+    app,
+    setFailure: (next) => {
+      failure = { ...next };
+    },
+    clearFailure: () => {
+      failure = { mode: 'none' };
+    },
+    requestCounts: () => ({ ...counts }),
+    resetCounts: () => {
+      counts = {};
+    }
+  };
+}
@@ -0,0 +1,31 @@
+import { logInfo, logWarn } from '../observability/logger';
+import { createHorizonsSimulator, parseFailure } from './horizonsSimulator';
+
+// Lancement autonome : `npm run simulator`, puis démarrer l'API avec
+// HORIZONS_OFFLINE=1 HORIZONS_API_URL=http://localhost:4010/api/horizons.api
+const port = Number(process.env.HORIZONS_SIM_PORT ?? 4010);
+
+const failure = process.env.HORIZONS_SIM_FAILURE
+  ? parseFailure({
+      mode: process.env.HORIZONS_SIM_FAILURE,
+      commands: process.env.HORIZONS_SIM_FAILURE_COMMANDS,
+      ephemTypes: process.env.HORIZONS_SIM_FAILURE_EPHEM_TYPES
+    })
+  : null;
+if (process.env.HORIZONS_SIM_FAILURE && !failure) {
+  logWarn('horizons_simulator_failure_ignored', { mode: process.env.HORIZONS_SIM_FAILURE });
+}
+
+const simulator = createHorizonsSimulator({
+  fixturesDir: process.env.HORIZONS_SIM_FIXTURES,
+  failure: failure ?? undefined
+});
+
+simulator.app.listen(port, () => {
+  logInfo('horizons_simulator_started', {
+    port,
+    url: `http://localhost:${port}/api/horizons.api`,
+    fixturesDir: process.env.HORIZONS_SIM_FIXTURES,
+    failure: failure?.mode ?? 'none'
+  });
+});
@@ -0,0 +1,37 @@
+import { EventEmitter } from 'events';
+
+import { BodyId } from '../config/bodies';
+import { ReferenceCenter } from '../config/frames';
+
+/**
+ * Sujets diffusables :
+ * - `planets` / `planets:full` : snapshot live des planètes (sans / avec données observateur) ;
+ * - `body:<id>` : éphéméride live d'un corps du catalogue (Soleil, lunes) ;
+ * - `body:<id>@<centre>` : la même, centrée sur un autre corps (ex. `body:io@jupiter`, écliptique J2000) ;
+ * - `voyagers` : télémétrie calculée des sondes Voyager ;
+ * - `spacecraft:<id>` : télémétrie d'une sonde du registre.
+ */
+export type StreamTopic =
+  | 'planets'
+  | 'planets:full'
+  | 'voyagers'
+  | `body:${BodyId}`
+  | `body:${BodyId}@${ReferenceCenter}`
+  | `spacecraft:${string}`;
+
+export type TopicListener = (topic: StreamTopic, payload: unknown) => void;
+
+// Bus interne : les caches publient ici chaque payload fraîchement calculé.
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+export function publish(topic: StreamTopic, payload: unknown): void {
+  emitter.emit(topic, topic, payload);
+}
+
+export function onTopic(topic: StreamTopic, listener: TopicListener): () => void {
+  emitter.on(topic, listener);
+  return () => {
+    emitter.off(topic, listener);
+  };
+}
@@ -0,0 +1,139 @@
+import { BODY_BY_ID, BodyId } from '../config/bodies';
+import { DEFAULT_REFERENCE, isReferenceCenter, ReferenceCenter, VectorReference } from '../config/frames';
+import { SPACECRAFT_BY_ID } from '../config/spacecraft';
+import { getBodyEphemeris } from '../cache/bodyEphemerisCache';
+import { getSnapshot } from '../cache/ephemerisCache';
+import { logWarn } from '../observability/logger';
+import { getSpacecraft } from '../services/spacecraftService';
+import { getVoyagerSnapshot } from '../services/voyagerService';
+import { onTopic, StreamTopic, TopicListener } from './streamEvents';
+
+// Intervalle de "tick" par sujet suivi : on interroge les caches (pas Horizons
+// directement) ; un payload n'est poussé que lorsqu'un cache se rafraîchit.
+const STREAM_TICK_MS = Number(process.env.STREAM_TICK_MS ?? 5_000);
+
+const subscriberCounts = new Map<StreamTopic, number>();
+const tickers = new Map<StreamTopic, NodeJS.Timeout>();
+
+export function parseTopic(raw: string): StreamTopic | null {
+  const topic = raw.trim().toLowerCase();
+  if (topic === 'planets' || topic === 'planets:full' || topic === 'voyagers') {
+    return topic;
+  }
+  if (topic.startsWith('body:')) {
+    const [id, center] = topic.slice('body:'.length).split('@') as [BodyId, string | undefined];
+    if (!BODY_BY_ID.has(id)) {
+      return null;
+    }
+    if (center === undefined || center === DEFAULT_REFERENCE.center) {
+      return `body:${id}`;
+    }
+    return isReferenceCenter(center) ? `body:${id}@${center}` : null;
+  }
+  if (topic.startsWith('spacecraft:')) {
+    const id = topic.slice('spacecraft:'.length);
+    return SPACECRAFT_BY_ID.has(id) ? `spacecraft:${id}` : null;
+  }
+  return null;
+}
+
+/** Valeur courante d'un sujet, servie par le cache correspondant. */
+async function loadTopic(topic: StreamTopic): Promise<unknown> {
+  if (topic === 'planets' || topic === 'planets:full') {
+    const result = await getSnapshot({ includeObserver: topic === 'planets:full' });
+    return result.payload;
+  }
+  if (topic === 'voyagers') {
+    return getVoyagerSnapshot();
+  }
+  if (topic.startsWith('spacecraft:')) {
+    const spacecraft = SPACECRAFT_BY_ID.get(topic.slice('spacecraft:'.length));
+    if (!spacecraft) {
+      throw new Error(`Sonde inconnue : ${topic}`);
+    }
+    return getSpacecraft({ spacecraft });
+  }
+  const [id, center] = topic.slice('body:'.length).split('@') as [BodyId, ReferenceCenter | undefined];
+  const reference: VectorReference | undefined = center ? { center, frame: 'ecliptic' } : undefined;
+  return getBodyEphemeris({ id, reference });
+}
+
+function cacheStatusOf(payload: unknown): string | undefined {
+  return (payload as { metadata?: { cacheStatus?: string } } | null)?.metadata?.cacheStatus;
+}
+
+function startTicker(topic: StreamTopic): void {
+  if (tickers.has(topic) || !(STREAM_TICK_MS > 0)) {
+    return;
+  }
+  const timer = setInterval(() => {
+    // Un HIT ne publie rien ; un MISS/STALE déclenche un rafraîchissement
+    // du cache, qui publie lui-même le nouveau payload.
+    loadTopic(topic).catch((err: any) => {
+      logWarn('stream_tick_failed', { topic, error: err?.message ?? String(err) });
+    });
+  }, STREAM_TICK_MS);
+  timer.unref();
+  tickers.set(topic, timer);
+}
+
+function stopTicker(topic: StreamTopic): void {
+  const timer = tickers.get(topic);
+  if (timer) {
+    clearInterval(timer);
+    tickers.delete(topic);
+  }
+}
+
+/** Nombre d'abonnements actifs à un sujet (un ticker tourne tant qu'il est > 0). */
+export function subscriberCount(topic: StreamTopic): number {
+  return subscriberCounts.get(topic) ?? 0;
+}
+
+/**
+ * Abonne `listener` aux sujets donnés : la valeur courante de chaque sujet lui
+ * est envoyée immédiatement, puis chaque nouveau payload publié.
+ * Retourne la fonction de désabonnement.
+ */
+export function subscribe(topics: StreamTopic[], listener: TopicListener): () => void {
+  const unique = Array.from(new Set(topics));
+  const detachers: Array<() => void> = [];
+  let active = true;
+
+  for (const topic of unique) {
+    detachers.push(onTopic(topic, listener));
+    const count = (subscriberCounts.get(topic) ?? 0) + 1;
+    subscriberCounts.set(topic, count);
+    if (count === 1) {
+      startTicker(topic);
+    }
+
+    loadTopic(topic)
+      .then((payload) => {
+        // Un MISS vient d'être publié par le cache : l'abonné l'a déjà reçu.
+        if (active && cacheStatusOf(payload) !== 'MISS') {
+          listener(topic, payload);
+        }
+      })
+      .catch((err: any) => {
+        logWarn('stream_initial_load_failed', { topic, error: err?.message ?? String(err) });
+      });
+  }
+
+  return () => {
+    if (!active) {
+      return;
+    }
+    active = false;
+    detachers.forEach((detach) => detach());
+    for (const topic of unique) {
+      const count = (subscriberCounts.get(topic) ?? 1) - 1;
+      if (count <= 0) {
+        subscriberCounts.delete(topic);
+        stopTicker(topic);
+      } else {
+        subscriberCounts.set(topic, count);
+      }
+    }
+  };
+}
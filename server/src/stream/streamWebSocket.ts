@@ -0,0 +1,104 @@
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { WebSocket, WebSocketServer } from 'ws';
+
+import { logInfo, logWarn } from '../observability/logger';
+import { recordStreamClient } from '../observability/metrics';
+import { StreamTopic } from './streamEvents';
+import { parseTopic, subscribe } from './streamHub';
+
+const STREAM_PATH = '/api/stream';
+
+/**
+ * Messages client → serveur :
+ *   { "type": "subscribe", "topics": ["planets:full", "body:sun"] }
+ *   { "type": "unsubscribe", "topics": ["body:sun"] }
+ * Messages serveur → client :
+ *   { "type": "update", "topic": "...", "data": {...} }
+ *   { "type": "error", "error": "..." }
+ */
+function attachClient(socket: WebSocket, initialTopics: StreamTopic[]): void {
+  const subscriptions = new Map<StreamTopic, () => void>();
+
+  const send = (message: unknown) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+
+  const add = (topics: StreamTopic[]) => {
+    for (const topic of topics) {
+      if (!subscriptions.has(topic)) {
+        subscriptions.set(
+          topic,
+          subscribe([topic], (t, data) => send({ type: 'update', topic: t, data }))
+        );
+      }
+    }
+  };
+
+  const remove = (topics: StreamTopic[]) => {
+    for (const topic of topics) {
+      subscriptions.get(topic)?.();
+      subscriptions.delete(topic);
+    }
+  };
+
+  socket.on('message', (raw) => {
+    let message: { type?: string; topics?: unknown };
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      send({ type: 'error', error: 'Invalid JSON message' });
+      return;
+    }
+    const rawTopics = Array.isArray(message.topics) ? message.topics : [];
+    const topics = rawTopics.map((t) => (typeof t === 'string' ? parseTopic(t) : null));
+    if (topics.some((t) => t === null)) {
+      send({ type: 'error', error: 'Unknown topic' });
+      return;
+    }
+    if (message.type === 'subscribe') {
+      add(topics as StreamTopic[]);
+    } else if (message.type === 'unsubscribe') {
+      remove(topics as StreamTopic[]);
+    } else {
+      send({ type: 'error', error: 'Unknown message type' });
+    }
+  });
+
+  socket.on('close', () => {
+    remove(Array.from(subscriptions.keys()));
+    recordStreamClient('websocket', -1);
+    logInfo('stream_client_disconnected', { transport: 'websocket' });
+  });
+
+  recordStreamClient('websocket', 1);
+  logInfo('stream_client_connected', { transport: 'websocket', topics: initialTopics });
+  add(initialTopics);
+}
+
+/** Accepte les upgrades WebSocket sur /api/stream (même sujets que le flux SSE). */
+export function attachStreamWebSocket(server: Server): void {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== STREAM_PATH) {
+      socket.destroy();
+      return;
+    }
+
+    const initialTopics: StreamTopic[] = [];
+    for (const raw of url.searchParams.getAll('topics').flatMap((v) => v.split(','))) {
+      const topic = raw.trim() ? parseTopic(raw) : null;
+      if (topic) {
+        initialTopics.push(topic);
+      } else if (raw.trim()) {
+        logWarn('stream_unknown_topic', { transport: 'websocket', topic: raw });
+      }
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => attachClient(ws, initialTopics));
+  });
+}
@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+
+import { RunningSimulator, startSimulator } from './helpers/simulator';
+
+delete process.env.REDIS_URL;
+
+type BodyCacheModule = typeof import('../src/cache/bodyEphemerisCache');
+
+let running: RunningSimulator;
+let bodies: BodyCacheModule;
+
+describe('getBodiesEphemeris', () => {
+  before(async () => {
+    running = await startSimulator();
+    bodies = await import('../src/cache/bodyEphemerisCache');
+  });
+
+  after(async () => {
+    await running.close();
+  });
+
+  it("renvoie chaque corps dans l'ordre, isole les échecs et réutilise le cache par corps", async () => {
+    running.simulator.setFailure({ mode: 'http500', commands: ['503'] });
+    const first = await bodies.getBodiesEphemeris({
+      ids: ['io', 'europa', 'ganymede', 'io'],
+      correlationId: 'batch-1'
+    });
+    running.simulator.clearFailure();
+
+    assert.deepEqual(first.bodies.map((b) => b.id), ['io', 'europa']);
+    assert.deepEqual(first.errors.map((e) => e.id), ['ganymede']);
+    assert.deepEqual(first.metadata.cacheStatus, { MISS: 2 });
+    assert.equal(first.requestId, 'batch-1');
+    const counts = running.simulator.requestCounts();
+    assert.ok(counts['501'] >= 1 && counts['502'] >= 1);
+
+    running.simulator.resetCounts();
+    const second = await bodies.getBodiesEphemeris({ ids: ['io', 'europa', 'ganymede'] });
+    assert.deepEqual(second.bodies.map((b) => [b.id, b.metadata?.cacheStatus]), [
+      ['io', 'HIT'],
+      ['europa', 'HIT'],
+      ['ganymede', 'MISS']
+    ]);
+    assert.deepEqual(second.errors, []);
+    assert.deepEqual(Object.keys(running.simulator.requestCounts()), ['503']);
+  });
+});
@@ -0,0 +1,132 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+
+const DSN_FIXTURE = fs.readFileSync(path.join(__dirname, 'fixtures', 'dsn', 'dsn-now.xml'), 'utf8');
+
+// Faux flux DSN Now servant l'enregistrement ; DSN_URL est lu au chargement
+// du client DSN, d'où les imports dynamiques après son démarrage.
+let server: http.Server;
+let upstreamCalls = 0;
+let upstreamDown = false;
+let parseDsnXml: typeof import('../src/nasa/dsnClient').parseDsnXml;
+let service: typeof import('../src/services/dsnService');
+
+before(async () => {
+  server = http.createServer((_req, res) => {
+    upstreamCalls += 1;
+    if (upstreamDown) {
+      res.writeHead(503).end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/xml' }).end(DSN_FIXTURE);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  process.env.DSN_URL = `http://127.0.0.1:${port}/dsn/data/dsn.xml`;
+  ({ parseDsnXml } = await import('../src/nasa/dsnClient'));
+  service = await import('../src/services/dsnService');
+});
+
+after(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+describe('parseDsnXml', () => {
+  it('rattache les antennes à leur complexe et type signaux et cibles', () => {
+    const document = parseDsnXml(DSN_FIXTURE);
+
+    assert.equal(document.timestamp, '2025-10-18T08:00:00.000Z');
+    assert.deepEqual(
+      document.stations.map((s) => [s.id, s.friendlyName, s.dishes.map((d) => d.name)]),
+      [
+        ['gdscc', 'Goldstone', ['DSS14', 'DSS26']],
+        ['cdscc', 'Canberra', ['DSS43']],
+        ['mdscc', 'Madrid', ['DSS63']]
+      ]
+    );
+
+    const dss14 = document.stations[0].dishes[0];
+    assert.equal(dss14.azimuthDeg, 157.2);
+    assert.deepEqual(dss14.downSignals[0], {
+      direction: 'down',
+      active: true,
+      signalType: 'data',
+      dataRateBps: 159.9999,
+      frequencyHz: 8420430000,
+      band: 'X',
+      power: -158.2,
+      spacecraft: 'VGR1',
+      spacecraftId: -31,
+      registryId: 'voyager1'
+    });
+    assert.equal(dss14.upSignals[0].direction, 'up');
+    assert.deepEqual(dss14.targets[0], {
+      name: 'VGR1',
+      spacecraftId: -31,
+      registryId: 'voyager1',
+      uplegRangeKm: 2.5268e10,
+      downlegRangeKm: 2.5268e10,
+      rtltSeconds: 168557.3
+    });
+
+    const dss43 = document.stations[1].dishes[0];
+    assert.equal(dss43.activity, 'Downlink & ranging');
+    assert.equal(dss43.isMspa, true);
+    assert.equal(dss43.targets[0].registryId, 'juno');
+    // Sonde hors registre : conservée, sans registryId ; -1 = inconnu.
+    assert.equal(dss43.targets[1].registryId, undefined);
+    assert.equal(dss43.targets[1].spacecraftId, -999);
+    assert.equal(dss43.targets[1].uplegRangeKm, null);
+    assert.equal(dss43.targets[1].rtltSeconds, null);
+  });
+
+  it('ramène à null les valeurs vides, -1 ou none', () => {
+    const idle = parseDsnXml(DSN_FIXTURE).stations[0].dishes[1];
+    assert.equal(idle.azimuthDeg, null);
+    assert.equal(idle.windSpeedKmh, null);
+    assert.equal(idle.activity, null);
+    assert.equal(idle.downSignals[0].active, false);
+    assert.equal(idle.downSignals[0].band, null);
+    assert.equal(idle.downSignals[0].spacecraftId, null);
+    assert.deepEqual(idle.targets, []);
+  });
+
+  it('rejette un document tronqué ou sans <dsn>', () => {
+    assert.throws(() => parseDsnXml('<dsn><station name="gdscc" />'), /tronqué/);
+    assert.throws(() => parseDsnXml('<html></html>'), /sans élément <dsn>/);
+  });
+});
+
+describe('getDsnSnapshot', () => {
+  it('cache le document, filtre par sonde et sert une copie périmée si la NASA tombe', async () => {
+    const first = await service.getDsnSnapshot({ correlationId: 'req-1' });
+    assert.equal(first.metadata.cacheStatus, 'MISS');
+    assert.equal(first.requestId, 'req-1');
+    assert.equal(first.stations.length, 3);
+
+    const juno = await service.getDsnSnapshot({ spacecraft: 'juno' });
+    assert.equal(juno.metadata.cacheStatus, 'HIT');
+    assert.equal(upstreamCalls, 1);
+    assert.deepEqual(
+      juno.stations.map((s) => s.dishes.map((d) => d.name)),
+      [[], ['DSS43'], []]
+    );
+    assert.deepEqual(juno.stations[1].dishes[0].downSignals.map((s) => s.spacecraft), ['JNO']);
+
+    const byDsnName = await service.getDsnSnapshot({ spacecraft: 'vgr1' });
+    assert.deepEqual(
+      byDsnName.stations.map((s) => s.dishes.map((d) => d.name)),
+      [['DSS14'], [], ['DSS63']]
+    );
+
+    upstreamDown = true;
+    const stale = await service.getDsnSnapshot({ forceRefresh: true });
+    assert.equal(stale.metadata.cacheStatus, 'STALE');
+    assert.match(stale.metadata.error ?? '', /503/);
+    assert.equal(stale.stations.length, 3);
+  });
+});
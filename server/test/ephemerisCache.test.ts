@@ -0,0 +1,158 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+
+import { RunningSimulator, startSimulator } from './helpers/simulator';
+
+// TTL courts et prewarm désactivé : l'horloge est pilotée via Date.now.
+process.env.CACHE_TTL_MS = '1000';
+process.env.CACHE_STALE_MS = '1000';
+process.env.CACHE_WARM_INTERVAL_MS = '0';
+delete process.env.REDIS_URL;
+// Pas d'archive disque : couverte par snapshotArchive.test.ts.
+process.env.SNAPSHOT_ARCHIVE = '0';
+
+type CacheModule = typeof import('../src/cache/ephemerisCache');
+
+const realNow = Date.now;
+let clock = realNow();
+let running: RunningSimulator;
+let cache: CacheModule;
+
+// Valeurs de test/fixtures/horizons/simulator/499.VECTORS.txt (première ligne).
+const MARS_FIXTURE = { x_au: 5.547312064108553e-1, y_au: -1.286379958838447 };
+
+function advance(ms: number): void {
+  clock += ms;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function mars(result: Awaited<ReturnType<CacheModule['getSnapshot']>>) {
+  return result.payload.bodies.find((b) => b.name === 'mars');
+}
+
+describe('getSnapshot', () => {
+  before(async () => {
+    running = await startSimulator();
+    Date.now = () => clock;
+    cache = await import('../src/cache/ephemerisCache');
+  });
+
+  after(async () => {
+    Date.now = realNow;
+    await running.close();
+  });
+
+  it('MISS : interroge Horizons pour chaque planète et met en cache', async () => {
+    const result = await cache.getSnapshot();
+
+    assert.equal(result.cacheState, 'MISS');
+    assert.equal(result.payload.bodies.length, 9);
+    assert.equal(result.payload.metadata.partial, false);
+    assert.deepEqual(
+      { x_au: mars(result)?.x_au, y_au: mars(result)?.y_au },
+      MARS_FIXTURE
+    );
+    assert.equal(running.simulator.requestCounts()['499'], 1);
+  });
+
+  it('HIT : sert le cache sans nouvelle requête tant que le TTL court', async () => {
+    advance(500);
+    const result = await cache.getSnapshot();
+
+    assert.equal(result.cacheState, 'HIT');
+    assert.equal(result.cacheAgeMs, 500);
+    assert.equal(result.payload.metadata.cacheExpiresInMs, 500);
+    assert.equal(running.simulator.requestCounts()['499'], 1);
+  });
+
+  it('STALE : sert l’ancien snapshot et revalide en arrière-plan', async () => {
+    advance(700); // âge 1200 ms : au-delà du TTL, dans la fenêtre stale
+    const stale = await cache.getSnapshot();
+
+    assert.equal(stale.cacheState, 'STALE');
+    assert.equal(stale.payload.metadata.cacheStale, true);
+
+    let revalidated = stale;
+    for (let i = 0; i < 100 && revalidated.cacheState !== 'HIT'; i += 1) {
+      await sleep(20);
+      revalidated = await cache.getSnapshot();
+    }
+    assert.equal(revalidated.cacheState, 'HIT');
+    assert.equal(revalidated.cacheAgeMs, 0);
+    assert.equal(running.simulator.requestCounts()['499'], 2);
+  });
+
+  it('fallback par corps : un corps en échec reprend sa dernière valeur connue', async () => {
+    running.simulator.setFailure({ mode: 'http500', commands: ['499'] });
+    try {
+      const result = await cache.getSnapshot({ forceRefresh: true });
+
+      assert.equal(result.cacheState, 'MISS');
+      assert.equal(result.payload.bodies.length, 9);
+      assert.equal(result.payload.metadata.partial, true);
+      assert.deepEqual(result.payload.metadata.fallbackBodies, ['mars']);
+      assert.equal(result.payload.metadata.missingBodies, undefined);
+      assert.equal(mars(result)?.x_au, MARS_FIXTURE.x_au);
+    } finally {
+      running.simulator.clearFailure();
+    }
+  });
+
+  it('missingBodies : sans valeur connue, le corps est omis du snapshot', async () => {
+    running.simulator.setFailure({ mode: 'http500', commands: ['499'] });
+    try {
+      const result = await cache.getSnapshot({ at: new Date('2024-03-01T00:00:00Z') });
+
+      assert.equal(result.cacheState, 'MISS');
+      assert.equal(result.payload.bodies.length, 8);
+      assert.equal(mars(result), undefined);
+      assert.equal(result.payload.metadata.partial, true);
+      assert.deepEqual(result.payload.metadata.missingBodies, ['mars']);
+      assert.equal(result.payload.metadata.epoch, '2024-03-01T00:00Z');
+    } finally {
+      running.simulator.clearFailure();
+    }
+  });
+
+  it('époque : corps datés en ISO à l’instant demandé, que le client n’avance pas une seconde fois', async () => {
+    const at = new Date('1950-01-01T00:00:00Z');
+    const result = await cache.getSnapshot({ at });
+    const jupiter = result.payload.bodies.find((b) => b.name === 'jupiter');
+
+    assert.equal(jupiter?.timestamp, at.toISOString());
+    assert.equal(result.payload.timestamp, at.toISOString());
+  });
+
+  it('FROZEN : panne totale, l’ancien snapshot est servi gelé', async () => {
+    const before = await cache.getSnapshot();
+    running.simulator.setFailure({ mode: 'http500' });
+    try {
+      advance(5_000); // au-delà de TTL + stale : refresh obligatoire
+      const result = await cache.getSnapshot();
+
+      assert.equal(result.cacheState, 'FROZEN');
+      assert.equal(result.payload.metadata.frozenSnapshot, true);
+      assert.equal(result.payload.metadata.cacheExpiresInMs, 0);
+      assert.match(result.payload.metadata.freezeReason ?? '', /No Horizons data available/);
+      assert.equal(result.payload.metadata.generatedAt, before.payload.metadata.generatedAt);
+      assert.deepEqual(result.payload.bodies, before.payload.bodies);
+    } finally {
+      running.simulator.clearFailure();
+    }
+  });
+
+  it('échoue sans snapshot en cache à geler', async () => {
+    running.simulator.setFailure({ mode: 'malformed' });
+    try {
+      await assert.rejects(
+        cache.getSnapshot({ at: new Date('2030-01-01T00:00:00Z') }),
+        /No Horizons data available/
+      );
+    } finally {
+      running.simulator.clearFailure();
+    }
+  });
+});
@@ -0,0 +1,218 @@
+import assert from 'node:assert/strict';
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { after, before, describe, it } from 'node:test';
+
+import { AU_IN_KM, SECONDS_PER_DAY } from '@solar-system/shared';
+import { RunningSimulator, startSimulator } from './helpers/simulator';
+
+process.env.CACHE_WARM_INTERVAL_MS = '0';
+process.env.SNAPSHOT_ARCHIVE = '0';
+// Sous la taille de CZML_DEFAULT_TARGETS (10) : la limite vaut aussi sans `bodies`.
+process.env.EXPORT_MAX_BODIES = '9';
+delete process.env.REDIS_URL;
+
+type ExportModule = typeof import('../src/services/exportService');
+type CzmlModule = typeof import('../src/services/czmlService');
+type CzmlPacket = import('../src/services/czmlService').CzmlPacket;
+
+// Champs des paquets lus par les tests.
+type DocumentPacket = CzmlPacket & { version: string; clock: { interval: string } };
+type BodyPacket = CzmlPacket & {
+  position: { referenceFrame: string; interpolationAlgorithm: string; interpolationDegree: number; cartesian: number[] };
+  point: { color: { rgba: number[] } };
+  path: { trailTime: number; resolution: number };
+  orientation?: { velocityReference: string };
+};
+
+const WINDOW = { start: new Date('2024-03-01T00:00:00Z'), stop: new Date('2024-03-03T00:00:00Z'), step: '1d' };
+
+let running: RunningSimulator;
+let exporter: ExportModule;
+let czml: CzmlModule;
+let server: http.Server;
+let baseUrl: string;
+
+function getJson(path: string): Promise<{ status: number; body: { details?: { name: string; message: string }[] } }> {
+  return new Promise((resolve, reject) => {
+    http
+      .get(`${baseUrl}${path}`, (res) => {
+        let raw = '';
+        res.setEncoding('utf8');
+        res.on('data', (chunk: string) => (raw += chunk));
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, body: JSON.parse(raw) }));
+      })
+      .on('error', reject);
+  });
+}
+
+function targets(...ids: string[]) {
+  return ids.map((id) => {
+    const target = exporter.EXPORT_TARGET_BY_ID.get(id);
+    assert.ok(target, `cible ${id} absente`);
+    return target;
+  });
+}
+
+describe('export des éphémérides (CSV, JSON Lines, OEM)', () => {
+  before(async () => {
+    running = await startSimulator();
+    exporter = await import('../src/services/exportService');
+    czml = await import('../src/services/czmlService');
+    const { default: exportRouter } = await import('../src/routes/export');
+    const { applyRequestTracing } = await import('../src/observability/requestTracing');
+
+    const app = express();
+    app.use(applyRequestTracing());
+    app.use('/api/export', exportRouter);
+    server = app.listen(0);
+    await new Promise<void>((resolve) => server.once('listening', () => resolve()));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    await running.close();
+  });
+
+  it('CSV et JSON Lines : en-têtes de repère et d’unités, une ligne par échantillon', async () => {
+    const data = await exporter.collectEphemerisExport({ targets: targets('earth', 'europa', 'voyager1'), window: WINDOW });
+    assert.deepEqual(
+      data.tracks.map((t) => [t.target.kind, t.samples.length]),
+      [
+        ['planet', 3],
+        ['moon', 3],
+        ['spacecraft', 3]
+      ]
+    );
+
+    const csv = exporter.formatCsv(data).trimEnd().split('\n');
+    assert.ok(csv.includes('# reference_frame: J2000-ECLIPTIC'));
+    assert.ok(csv.includes('# center: ssb'));
+    assert.ok(csv.includes('# time_scale: TDB'));
+    const headerIndex = csv.findIndex((line) => line.startsWith('body,'));
+    assert.equal(csv[headerIndex], 'body,name,time_tdb,julian_day_tdb,x_au,y_au,z_au,vx_au_per_day,vy_au_per_day,vz_au_per_day');
+    const rows = csv.slice(headerIndex + 1).map((line) => line.split(','));
+    assert.equal(rows.length, 9);
+    assert.ok(rows.every((cells) => cells.length === 10));
+    assert.equal(Number(rows[0][4]), data.tracks[0].samples[0].x_au);
+
+    const [header, ...samples] = exporter.formatJsonl(data).trimEnd().split('\n').map((line) => JSON.parse(line));
+    assert.equal(header.type, 'header');
+    assert.equal(header.distanceUnit, 'AU');
+    assert.equal(header.velocityUnit, 'AU/day');
+    assert.deepEqual(header.bodies.map((b: { id: string }) => b.id), ['earth', 'europa', 'voyager1']);
+    assert.equal(samples.length, 9);
+    assert.deepEqual(samples[3], { type: 'sample', body: 'europa', ...data.tracks[1].samples[0] });
+  });
+
+  it('OEM : un segment par cible, km et km/s, époques TDB sans fuseau', async () => {
+    const data = await exporter.collectEphemerisExport({
+      targets: targets('mars', 'voyager2'),
+      window: WINDOW,
+      reference: { center: 'sun', frame: 'equatorial' }
+    });
+    const oem = exporter.formatOem(data);
+    const lines = oem.trimEnd().split('\n');
+
+    assert.equal(lines[0], 'CCSDS_OEM_VERS = 2.0');
+    assert.ok(/^[\x20-\x7e\n]*$/.test(oem), 'KVN en ASCII');
+    assert.equal(lines.filter((l) => l === 'META_START').length, 2);
+    assert.ok(lines.includes('OBJECT_NAME = VOYAGER2'));
+    assert.ok(lines.includes('CENTER_NAME = SUN'));
+    assert.ok(lines.includes('REF_FRAME = ICRF'));
+    assert.ok(lines.includes('TIME_SYSTEM = TDB'));
+    assert.ok(lines.includes('START_TIME = 2024-03-01T00:00:00.000'));
+
+    const first = lines[lines.indexOf('META_STOP') + 3].split(' ');
+    const sample = data.tracks[0].samples[0];
+    assert.equal(first[0], '2024-03-01T00:00:00.000');
+    assert.ok(Math.abs(Number(first[1]) - sample.x_au * AU_IN_KM) < 1e-3);
+    assert.ok(Math.abs(Number(first[4]) - ((sample.vx as number) * AU_IN_KM) / SECONDS_PER_DAY) < 1e-9);
+    assert.equal(exporter.exportFilename(data, 'oem'), 'ephemeris-mars-voyager2-20240301.oem');
+  });
+
+  it('cible en échec : listée dans missingBodies, les autres restent exportées', async () => {
+    running.simulator.setFailure({ mode: 'http500', commands: ['599'] });
+    try {
+      const data = await exporter.collectEphemerisExport({
+        targets: targets('jupiter', 'saturn'),
+        window: WINDOW,
+        forceRefresh: true
+      });
+      assert.deepEqual(data.missingBodies, ['jupiter']);
+      assert.deepEqual(data.tracks.map((t) => t.target.id), ['saturn']);
+      assert.ok(exporter.formatCsv(data).includes('# missing_bodies: jupiter\n'));
+
+      await assert.rejects(
+        exporter.collectEphemerisExport({ targets: targets('jupiter'), window: WINDOW, forceRefresh: true }),
+        /No Horizons data available/
+      );
+    } finally {
+      running.simulator.clearFailure();
+    }
+  });
+
+  it('CZML : horloge sur l’intervalle, positions en mètres (UTC), couleurs du catalogue', async () => {
+    const { data, czml: packets } = await czml.exportCzml({ targets: targets('mars', 'moon', 'voyager1'), window: WINDOW });
+    assert.deepEqual(data.reference, czml.CZML_REFERENCE);
+
+    const document = packets[0] as DocumentPacket;
+    const [mars, moon, voyager] = packets.slice(1) as BodyPacket[];
+    assert.equal(document.id, 'document');
+    assert.equal(document.version, '1.0');
+    // 2024 : TDB - UTC = 37 s + 32,184 s
+    assert.equal(document.clock.interval, '2024-02-29T23:58:50.816Z/2024-03-02T23:58:50.816Z');
+
+    assert.deepEqual(packets.slice(1).map((p) => p.id), ['mars', 'moon', 'voyager1']);
+    assert.equal(mars.position.referenceFrame, 'INERTIAL');
+    assert.equal(mars.position.interpolationAlgorithm, 'LAGRANGE');
+    assert.equal(mars.position.interpolationDegree, 2);
+    assert.equal(mars.position.cartesian.length, 12);
+    assert.deepEqual([mars.position.cartesian[0], mars.position.cartesian[4]], [0, SECONDS_PER_DAY]);
+    const sample = data.tracks[0].samples[0];
+    assert.ok(Math.abs(mars.position.cartesian[1] - sample.x_au * AU_IN_KM * 1000) < 1e-3);
+
+    assert.deepEqual(mars.point.color.rgba, [0xc1, 0x44, 0x0e, 255]);
+    assert.deepEqual(moon.point.color.rgba, [0x4a, 0x90, 0xe2, 255], 'couleur de la Terre');
+    assert.equal(mars.path.trailTime, 2 * SECONDS_PER_DAY);
+    assert.equal(mars.path.resolution, SECONDS_PER_DAY);
+    assert.deepEqual(voyager.orientation, { velocityReference: '#position' });
+    assert.equal(czml.czmlFilename(data), 'solar-system-20240301.czml');
+  });
+
+  it('CZML : cibles par défaut limitées au Soleil et aux planètes, soumises à EXPORT_MAX_BODIES', async () => {
+    assert.deepEqual(
+      czml.CZML_DEFAULT_TARGETS.map((t) => t.id),
+      ['mercury', 'venus', 'earth', 'mars', 'jupiter', 'saturn', 'uranus', 'neptune', 'pluto', 'sun']
+    );
+    running.simulator.resetCounts();
+    const { status, body } = await getJson('/api/export/czml?start=2024-03-01&stop=2024-03-03&step=1d');
+    assert.equal(status, 400);
+    assert.equal(body.details?.[0].name, 'bodies');
+    assert.match(body.details?.[0].message ?? '', /max 9/);
+    assert.deepEqual(running.simulator.requestCounts(), {}, 'aucune requête Horizons');
+  });
+
+  it('CZML : sans aucun échantillon, horloge sur la fenêtre demandée', () => {
+    const data = {
+      generatedAt: '2024-03-01T00:00:00.000Z',
+      start: '2024-03-01T00:00Z',
+      stop: '2024-03-03T00:00Z',
+      step: '1d',
+      timeScale: 'TDB' as const,
+      reference: czml.CZML_REFERENCE,
+      referenceFrame: 'ICRF',
+      distanceUnit: 'AU' as const,
+      velocityUnit: 'AU/d',
+      source: 'test',
+      tracks: targets('mars').map((target) => ({ target, samples: [] })),
+      missingBodies: []
+    };
+    const packets = czml.buildCzml(data, new Map());
+    assert.deepEqual(packets.map((p) => p.id), ['document']);
+    assert.equal((packets[0] as DocumentPacket).clock.interval, '2024-03-01T00:00:00.000Z/2024-03-03T00:00:00.000Z');
+  });
+});
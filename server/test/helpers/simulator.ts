@@ -0,0 +1,46 @@
+import { AddressInfo } from 'net';
+import path from 'path';
+
+import { createHorizonsSimulator, HorizonsSimulator } from '../../src/simulator/horizonsSimulator';
+
+export const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures', 'horizons');
+
+export interface RunningSimulator {
+  simulator: HorizonsSimulator;
+  url: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Démarre le simulateur Horizons sur un port libre et configure l'environnement
+ * du client Horizons pour ne parler qu'à lui. À appeler AVANT d'importer les
+ * modules qui lisent ces variables au chargement (horizonsClient, caches).
+ */
+export async function startSimulator(): Promise<RunningSimulator> {
+  const simulator = createHorizonsSimulator({
+    fixturesDir: path.join(FIXTURES_DIR, 'simulator'),
+    timeoutHoldMs: 2_000
+  });
+  const server = simulator.app.listen(0);
+  await new Promise<void>((resolve) => server.once('listening', () => resolve()));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/horizons.api`;
+
+  process.env.HORIZONS_OFFLINE = '1';
+  process.env.HORIZONS_API_URL = url;
+  process.env.HORIZONS_RETRIES = '0';
+  process.env.HORIZONS_TIMEOUT_MS = '1000';
+  // Les pannes simulées ne doivent pas ouvrir le disjoncteur d'un test à l'autre ;
+  // l'ordonnanceur est couvert par horizonsScheduler.test.ts.
+  process.env.HORIZONS_BREAKER_THRESHOLD = '0';
+  process.env.HORIZONS_RATE_PER_SEC = '0';
+
+  return {
+    simulator,
+    url,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      })
+  };
+}
@@ -0,0 +1,186 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { describe, it } from 'node:test';
+
+import {
+  parseElementsFromResult,
+  parseObserverFromResult,
+  parseRiseTransitSet,
+  parseTopocentricFromResult,
+  parseVectorFromResult
+} from '../src/nasa/horizonsClient';
+import { stepSizeToMinutes } from '../src/nasa/horizonsStepSize';
+import { FIXTURES_DIR } from './helpers/simulator';
+
+const AU_IN_KM = 149_597_870.7;
+const EPOCH = new Date('2024-03-01T00:00:00Z');
+
+function fixture(name: string): string {
+  return fs.readFileSync(path.join(FIXTURES_DIR, name), 'utf8');
+}
+
+describe('parseVectorFromResult', () => {
+  it('lit le format "X = ..." et convertit KM / KM-S en AU / AU/jour', () => {
+    const vec = parseVectorFromResult(fixture('vectors-xyz-km.txt'), 'earth', EPOCH);
+
+    assert.ok(Math.abs(vec.x_au - -1.379526019497688e8 / AU_IN_KM) < 1e-12);
+    assert.ok(Math.abs(vec.y_au - 5.262041047318768e7 / AU_IN_KM) < 1e-12);
+    assert.ok(Math.abs(vec.z_au - -2.48554017432034e3 / AU_IN_KM) < 1e-15);
+    assert.ok(Math.abs((vec.vx_au_per_day ?? NaN) - (-1.110487669437624e1 * 86_400) / AU_IN_KM) < 1e-12);
+    assert.ok(Math.abs((vec.vy_au_per_day ?? NaN) - (-2.78143158455653e1 * 86_400) / AU_IN_KM) < 1e-12);
+    assert.ok(Math.abs((vec.vz_au_per_day ?? NaN) - (1.573093707009186e-3 * 86_400) / AU_IN_KM) < 1e-15);
+    // Ordre de grandeur : la Terre est à ~1 AU et ~0.017 AU/jour.
+    assert.ok(Math.abs(Math.hypot(vec.x_au, vec.y_au, vec.z_au) - 0.99) < 0.02);
+    assert.equal(vec.velocityUnit, 'AU/day');
+    assert.equal(vec.timestamp, '2024-03-01T00:00:00.000Z', 'ISO du JD, pas la ligne brute');
+  });
+
+  it('lit la première ligne CSV (champs 2 à 7) sans conversion en AU-D', () => {
+    const vec = parseVectorFromResult(fixture('vectors-csv-au.txt'), 'mars', new Date(0));
+
+    assert.equal(vec.name, 'mars');
+    assert.equal(vec.timestamp, '2024-03-01T00:00:00.000Z', 'daté par le JD de la ligne, pas par l’époque demandée');
+    assert.equal(vec.x_au, 5.547312064108553e-1);
+    assert.equal(vec.y_au, -1.286379958838447);
+    assert.equal(vec.z_au, -4.031283710622386e-2);
+    assert.equal(vec.vx_au_per_day, 1.313519766802224e-2);
+    assert.equal(vec.vy_au_per_day, 6.789005426564322e-3);
+    assert.equal(vec.vz_au_per_day, -1.784094316219371e-4);
+    assert.equal(vec.referenceFrame, 'J2000-ECLIPTIC');
+  });
+
+  it('convertit aussi le CSV quand Horizons répond en KM-S', () => {
+    const text = fixture('vectors-csv-au.txt').replace('Output units    : AU-D', 'Output units    : KM-S');
+    const vec = parseVectorFromResult(text, 'mars', EPOCH);
+
+    assert.ok(Math.abs(vec.x_au - 5.547312064108553e-1 / AU_IN_KM) < 1e-18);
+    assert.ok(Math.abs((vec.vx_au_per_day ?? NaN) - (1.313519766802224e-2 * 86_400) / AU_IN_KM) < 1e-15);
+  });
+
+  it('rejette une réponse sans bloc $$SOE/$$EOE', () => {
+    const truncated = fixture('vectors-csv-au.txt').split('$$EOE')[0];
+    assert.throws(() => parseVectorFromResult(truncated, 'mars', EPOCH), /\$\$SOE\/\$\$EOE/);
+  });
+
+  it('rejette un bloc sans coordonnées', () => {
+    assert.throws(
+      () => parseVectorFromResult('$$SOE\nNo ephemeris for target\n$$EOE', 'mars', EPOCH),
+      /X\/Y\/Z manquantes/
+    );
+  });
+});
+
+describe('parseObserverFromResult', () => {
+  it('associe les colonnes CSV de QUANTITIES=1,9,10,20,21,23,24', () => {
+    const obs = parseObserverFromResult(fixture('observer-csv.txt'));
+
+    assert.deepEqual(obs, {
+      apparent_magnitude: 1.224, // fields[5]
+      illumination_fraction: 0.9777683, // fields[7] / 100
+      range_au: 2.24316735651553, // fields[8]
+      range_rate_km_s: 4.721201, // fields[9]
+      light_time_minutes: 18.655993, // fields[10]
+      solar_elongation_deg: 20.7064, // fields[11]
+      phase_angle_deg: 14.8346 // fields[13]
+    });
+  });
+
+  it('laisse undefined les colonnes "n.a."', () => {
+    const text = fixture('observer-csv.txt').replace('  1.224,   4.097', ' n.a.,  n.a.');
+    const obs = parseObserverFromResult(text);
+
+    assert.equal(obs.apparent_magnitude, undefined);
+    assert.equal(obs.range_au, 2.24316735651553);
+  });
+
+  it('rejette une réponse OBSERVER sans bloc', () => {
+    assert.throws(() => parseObserverFromResult('No matches found.'), /OBSERVER sans bloc/);
+  });
+});
+
+describe('parseTopocentricFromResult', () => {
+  it('associe les colonnes de QUANTITIES=1,4,8,9,10,20,21,23,24 en degrés décimaux', () => {
+    const obs = parseTopocentricFromResult(fixture('observer-topocentric.txt'));
+
+    assert.deepEqual(obs.topocentric, {
+      ra_deg: 322.85671,
+      dec_deg: -15.36042,
+      azimuth_deg: 131.207754,
+      elevation_deg: 10.418921,
+      airmass: 5.496,
+      above_horizon: true
+    });
+    assert.equal(obs.apparent_magnitude, 1.224); // fields[9]
+    assert.equal(obs.illumination_fraction, 0.9777683);
+    assert.equal(obs.range_au, 2.24316739172312);
+    assert.equal(obs.phase_angle_deg, 14.8346);
+  });
+
+  it('signale une cible sous l\'horizon (masse d\'air "n.a.")', () => {
+    const text = fixture('observer-topocentric.txt').replace('  10.418921,   5.496,  1.099', ' -3.500000,  n.a.,  n.a.');
+    const obs = parseTopocentricFromResult(text);
+
+    assert.equal(obs.topocentric.elevation_deg, -3.5);
+    assert.equal(obs.topocentric.airmass, undefined);
+    assert.equal(obs.topocentric.above_horizon, false);
+  });
+});
+
+describe('parseRiseTransitSet', () => {
+  it('garde le premier lever, transit et coucher en ISO UTC', () => {
+    assert.deepEqual(parseRiseTransitSet(fixture('rise-transit-set.txt')), {
+      rise: '2024-03-01T05:06:00Z',
+      transit: '2024-03-01T09:42:00Z',
+      set: '2024-03-01T14:19:00Z'
+    });
+  });
+
+  it('laisse les évènements absents (cible circumpolaire)', () => {
+    const text = fixture('rise-transit-set.txt')
+      .split('\n')
+      .filter((line) => !/, [rs],/.test(line))
+      .join('\n');
+
+    assert.deepEqual(parseRiseTransitSet(text), { transit: '2024-03-01T09:42:00Z' });
+  });
+});
+
+describe('parseElementsFromResult', () => {
+  it('associe les colonnes EC, QR, IN, OM, W, Tp, N, MA, TA, A, AD, PR', () => {
+    const el = parseElementsFromResult(fixture('elements-csv.txt'));
+
+    assert.equal(el.julian_day_tdb, 2460370.5);
+    assert.equal(el.eccentricity, 9.33983701254187e-2);
+    assert.equal(el.periapsis_au, 1.381303466633318);
+    assert.equal(el.inclination_deg, 1.847854226185946);
+    assert.equal(el.ascending_node_deg, 49.48921542698578);
+    assert.equal(el.argument_of_periapsis_deg, 286.6187770307095);
+    assert.equal(el.mean_anomaly_deg, 62.44431131393395);
+    assert.equal(el.semi_major_axis_au, 1.523656329386364);
+    assert.equal(el.apoapsis_au, 1.66600919213941);
+    assert.equal(el.period_days, 686.9417232298628);
+  });
+
+  it('laisse apoapse et période indéfinies pour une hyperbole (9.999E+99)', () => {
+    const text = fixture('elements-csv.txt').replace(
+      '1.666009192139410E+00,  6.869417232298628E+02',
+      '9.999999999999998E+99,  9.999999999999998E+99'
+    );
+    const el = parseElementsFromResult(text);
+
+    assert.equal(el.apoapsis_au, undefined);
+    assert.equal(el.period_days, undefined);
+  });
+
+  it('rejette une réponse ELEMENTS sans bloc', () => {
+    assert.throws(() => parseElementsFromResult('No matches found.'), /ELEMENTS sans bloc/);
+  });
+});
+
+describe('stepSizeToMinutes', () => {
+  it('convertit minutes, heures et jours ; refuse mois, zéro et texte libre', () => {
+    assert.deepEqual(['30m', '6 h', '1D'].map(stepSizeToMinutes), [30, 360, 1440]);
+    assert.deepEqual(['1mo', '0d', 'daily', ''].map(stepSizeToMinutes), [null, null, null, null]);
+  });
+});
@@ -0,0 +1,134 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { createHorizonsScheduler, HorizonsSchedulerError } from '../src/nasa/horizonsScheduler';
+
+function deferred<T = void>() {
+  let resolve!: (value: T) => void;
+  let reject!: (err: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+function httpError(status: number): Error {
+  return Object.assign(new Error(`HTTP ${status}`), { response: { status } });
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+const UNLIMITED = { ratePerSecond: 0, breakerThreshold: 0, queueTimeoutMs: 0 };
+
+describe('createHorizonsScheduler', () => {
+  it('plafonne la concurrence et sert la file interactive avant prewarm', async () => {
+    const scheduler = createHorizonsScheduler({ ...UNLIMITED, maxConcurrency: 2, prewarmMaxConcurrency: 1 });
+    const gates = [deferred(), deferred()];
+    const started: string[] = [];
+    const task = (label: string, gate?: Promise<void>) => () => {
+      started.push(label);
+      return gate ?? Promise.resolve();
+    };
+
+    const running = [
+      scheduler.schedule(task('a', gates[0].promise)),
+      scheduler.schedule(task('b', gates[1].promise))
+    ];
+    const queued = [scheduler.schedule(task('prewarm'), 'prewarm'), scheduler.schedule(task('c'))];
+    await sleep(5);
+    assert.deepEqual(started, ['a', 'b']);
+    assert.deepEqual(scheduler.state().queued, { interactive: 1, prewarm: 1 });
+
+    gates[0].resolve();
+    await sleep(5);
+    assert.deepEqual(started, ['a', 'b', 'c', 'prewarm']);
+    gates[1].resolve();
+    await Promise.all([...running, ...queued]);
+    assert.equal(scheduler.state().inFlight, 0);
+  });
+
+  it('limite le débit au seau à jetons', async () => {
+    const scheduler = createHorizonsScheduler({
+      ...UNLIMITED,
+      maxConcurrency: 10,
+      ratePerSecond: 50,
+      burst: 2
+    });
+    const startedAt: number[] = [];
+    const began = Date.now();
+    await Promise.all(
+      Array.from({ length: 4 }, () =>
+        scheduler.schedule(async () => {
+          startedAt.push(Date.now() - began);
+        })
+      )
+    );
+    // 2 jetons immédiats, puis un toutes les 20 ms.
+    assert.ok(startedAt[1] < 15, `rafale : ${startedAt}`);
+    assert.ok(startedAt[3] >= 30, `débit : ${startedAt}`);
+  });
+
+  it('ouvre le disjoncteur après des 5xx/429 répétés puis le referme via une sonde', async () => {
+    const scheduler = createHorizonsScheduler({
+      ...UNLIMITED,
+      maxConcurrency: 1,
+      breakerThreshold: 3,
+      breakerCooldownMs: 40
+    });
+    let calls = 0;
+    const failing = (status: number) => () => {
+      calls += 1;
+      return Promise.reject(httpError(status));
+    };
+
+    await assert.rejects(scheduler.schedule(failing(503)), /HTTP 503/);
+    // Une 404 est une réponse d'Horizons : le compteur repart de zéro.
+    await assert.rejects(scheduler.schedule(failing(404)), /HTTP 404/);
+    for (const status of [500, 429, 502]) {
+      await assert.rejects(scheduler.schedule(failing(status)));
+    }
+    assert.equal(scheduler.state().circuit, 'open');
+
+    const before = calls;
+    await assert.rejects(
+      scheduler.schedule(failing(500)),
+      (err: unknown) => err instanceof HorizonsSchedulerError && err.reason === 'circuit_open'
+    );
+    assert.equal(calls, before);
+
+    await sleep(50);
+    assert.equal(await scheduler.schedule(async () => 'ok'), 'ok');
+    assert.equal(scheduler.state().circuit, 'closed');
+    assert.equal(scheduler.state().consecutiveFailures, 0);
+  });
+
+  it('rouvre le disjoncteur si la sonde échoue et refuse quand la file est pleine', async () => {
+    const scheduler = createHorizonsScheduler({
+      ...UNLIMITED,
+      maxConcurrency: 1,
+      breakerThreshold: 1,
+      breakerCooldownMs: 20,
+      queueMax: 1
+    });
+    await assert.rejects(scheduler.schedule(() => Promise.reject(httpError(500))));
+    await sleep(30);
+    await assert.rejects(scheduler.schedule(() => Promise.reject(httpError(429))), /HTTP 429/);
+    assert.equal(scheduler.state().circuit, 'open');
+
+    await sleep(30);
+    const gate = deferred();
+    const probe = scheduler.schedule(() => gate.promise);
+    const waiting = scheduler.schedule(async () => undefined);
+    await assert.rejects(
+      scheduler.schedule(async () => undefined),
+      (err: unknown) => err instanceof HorizonsSchedulerError && err.reason === 'queue_full'
+    );
+    gate.resolve();
+    await probe;
+    await waiting;
+    assert.equal(scheduler.state().circuit, 'closed');
+  });
+});
@@ -0,0 +1,126 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { AU_IN_KM, evaluateChebyshevSegment, findChebyshevSegment } from '@solar-system/shared';
+import {
+  chebyshevBasis,
+  defaultInterpolationWindow,
+  fitSegments,
+  INTERPOLATION_TOLERANCE_KM,
+  TimedSample,
+  validateInterpolationWindow
+} from '../src/services/interpolationService';
+
+const DAY_MS = 86_400_000;
+const HOUR_MS = 3_600_000;
+const START = Date.parse('2024-03-01T00:00:00Z');
+
+interface Orbit {
+  radiusAu: number;
+  periodDays: number;
+}
+
+/** Somme d'orbites circulaires coplanaires (planète, puis lune autour d'elle) : position UA, vitesse UA/j. */
+function stateAt(orbits: Orbit[], tMs: number) {
+  const days = (tMs - START) / DAY_MS;
+  const state = { x: 0, y: 0, z: 0, vx: 0, vy: 0, vz: 0 };
+  orbits.forEach(({ radiusAu, periodDays }, i) => {
+    const omega = (2 * Math.PI) / periodDays;
+    const phase = omega * days + i;
+    state.x += radiusAu * Math.cos(phase);
+    state.y += radiusAu * Math.sin(phase);
+    state.z += 0.01 * radiusAu * Math.sin(phase);
+    state.vx -= radiusAu * omega * Math.sin(phase);
+    state.vy += radiusAu * omega * Math.cos(phase);
+    state.vz += 0.01 * radiusAu * omega * Math.cos(phase);
+  });
+  return state;
+}
+
+function sampleOrbit(orbits: Orbit[], count: number, stepMs: number): TimedSample[] {
+  return Array.from({ length: count }, (_, i) => {
+    const tMs = START + i * stepMs;
+    const s = stateAt(orbits, tMs);
+    return {
+      tMs,
+      sample: {
+        timestamp: new Date(tMs).toISOString(),
+        x_au: s.x,
+        y_au: s.y,
+        z_au: s.z,
+        vx_au_per_day: s.vx,
+        vy_au_per_day: s.vy,
+        vz_au_per_day: s.vz
+      }
+    };
+  });
+}
+
+/** Écart maximal (km) entre l'ajustement et la vérité aux milieux des échantillons, jamais vus par le fit. */
+function midpointErrorKm(orbits: Orbit[], samples: TimedSample[], segmentMs: number): number {
+  const { segments } = fitSegments(samples, segmentMs, 7);
+  let maxKm = 0;
+  for (let i = 0; i + 1 < samples.length; i += 1) {
+    const tMs = (samples[i].tMs + samples[i + 1].tMs) / 2;
+    const segment = findChebyshevSegment(segments, tMs);
+    assert.ok(segment, `aucun segment à ${new Date(tMs).toISOString()}`);
+    const fitted = evaluateChebyshevSegment(segment, tMs);
+    const truth = stateAt(orbits, tMs);
+    const km = Math.hypot(fitted.x - truth.x, fitted.y - truth.y, fitted.z - truth.z) * AU_IN_KM;
+    maxKm = Math.max(maxKm, km);
+  }
+  return maxKm;
+}
+
+describe('interpolation de Chebyshev', () => {
+  it('chebyshevBasis : T_n(cos θ) = cos nθ et dérivées associées', () => {
+    for (const tau of [-0.9, -0.3, 0.2, 0.75]) {
+      const theta = Math.acos(tau);
+      const { values, derivatives } = chebyshevBasis(tau, 7);
+      assert.equal(values.length, 8);
+      values.forEach((v, n) => assert.ok(Math.abs(v - Math.cos(n * theta)) < 1e-12, `T_${n}(${tau})`));
+      derivatives.forEach((d, n) =>
+        assert.ok(Math.abs(d - (n * Math.sin(n * theta)) / Math.sin(theta)) < 1e-9, `T'_${n}(${tau})`)
+      );
+    }
+  });
+
+  it('planète au pas journalier : sous la tolérance entre les échantillons', () => {
+    const mars = [{ radiusAu: 1.524, periodDays: 686.98 }];
+    const error = midpointErrorKm(mars, sampleOrbit(mars, 121, DAY_MS), 16 * DAY_MS);
+    assert.ok(error < INTERPOLATION_TOLERANCE_KM, `${error.toFixed(1)} km`);
+  });
+
+  it('lune au pas horaire : sous la tolérance entre les échantillons, vitesse cohérente', () => {
+    const io = [
+      { radiusAu: 5.2, periodDays: 4332.6 },
+      { radiusAu: 421_700 / AU_IN_KM, periodDays: 1.769 }
+    ];
+    const samples = sampleOrbit(io, 4 * 24 + 1, HOUR_MS);
+    const error = midpointErrorKm(io, samples, DAY_MS);
+    assert.ok(error < INTERPOLATION_TOLERANCE_KM, `${error.toFixed(1)} km`);
+
+    const { segments } = fitSegments(samples, DAY_MS, 7);
+    const tMs = START + 30.5 * HOUR_MS;
+    const fitted = evaluateChebyshevSegment(findChebyshevSegment(segments, tMs)!, tMs);
+    const truth = stateAt(io, tMs);
+    const speedError = Math.hypot(fitted.vx - truth.vx, fitted.vy - truth.vy, fitted.vz - truth.vz);
+    assert.ok(speedError / Math.hypot(truth.vx, truth.vy, truth.vz) < 1e-3);
+  });
+
+  it('fenêtre par défaut : raccourcie pour les lunes, erreurs rapportées sur start/stop', () => {
+    const now = new Date('2024-03-01T15:00:00Z');
+    const planets = defaultInterpolationWindow(['earth', 'mars'], now);
+    assert.equal(planets.start.toISOString(), '2023-03-01T00:00:00.000Z');
+    assert.equal(validateInterpolationWindow(['earth', 'mars'], planets.start, planets.stop), null);
+
+    const withMoon = defaultInterpolationWindow(['earth', 'io'], now);
+    assert.equal(withMoon.start.toISOString(), '2024-01-01T00:00:00.000Z');
+    assert.equal(withMoon.stop.toISOString(), '2024-03-03T00:00:00.000Z');
+    assert.equal(validateInterpolationWindow(['earth', 'io'], withMoon.start, withMoon.stop), null);
+
+    assert.equal(validateInterpolationWindow(['io'], planets.start, planets.stop)?.param, 'start');
+    assert.equal(validateInterpolationWindow(['io'], planets.stop, planets.start)?.param, 'stop');
+    assert.equal(validateInterpolationWindow(['vulcan'], planets.start, planets.stop)?.param, 'ids');
+  });
+});
@@ -0,0 +1,178 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import type { Request, Response } from 'express';
+
+import { RunningSimulator, startSimulator } from './helpers/simulator';
+
+process.env.CACHE_WARM_INTERVAL_MS = '0';
+process.env.SNAPSHOT_ARCHIVE = '0';
+delete process.env.REDIS_URL;
+
+type DocumentModule = typeof import('../src/openapi/document');
+type ValidationModule = typeof import('../src/openapi/validateRequest');
+type SchemaModule = typeof import('../src/openapi/jsonSchema');
+type ParameterIssue = import('../src/openapi/validateRequest').ParameterIssue;
+
+interface ErrorBody {
+  error: string;
+  requestId?: string;
+  details: ParameterIssue[];
+}
+
+const AT = new Date('2024-03-01T00:00:00Z');
+
+let running: RunningSimulator;
+let doc: DocumentModule;
+let validation: ValidationModule;
+let schema: SchemaModule;
+
+function operation(operationId: string) {
+  const op = doc.OPERATION_BY_ID.get(operationId);
+  assert.ok(op, `opération ${operationId} absente`);
+  return op;
+}
+
+function check(operationId: string, name: string, raw: unknown): string | null {
+  const spec = operation(operationId).parameters.find((p) => p.name === name);
+  assert.ok(spec, `paramètre ${name} absent de ${operationId}`);
+  return validation.checkParameter(spec, raw);
+}
+
+/** Exécute le middleware de validation sur une requête factice. */
+function runValidator(operationId: string, query: Record<string, unknown>, params: Record<string, string> = {}) {
+  let status = 200;
+  let body: ErrorBody | undefined;
+  let nextCalled = false;
+  const res = {
+    status(code: number) {
+      status = code;
+      return this;
+    },
+    json(payload: ErrorBody) {
+      body = payload;
+      return this;
+    }
+  };
+  const req = { query, params, requestId: 'req-openapi' };
+  validation.validateRequest(operationId)(req as unknown as Request, res as unknown as Response, () => {
+    nextCalled = true;
+  });
+  return { status, body, nextCalled };
+}
+
+function collectRefs(value: unknown, refs: string[] = []): string[] {
+  if (Array.isArray(value)) {
+    value.forEach((v) => collectRefs(v, refs));
+  } else if (value && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      if (key === '$ref' && typeof child === 'string') refs.push(child);
+      else collectRefs(child, refs);
+    }
+  }
+  return refs;
+}
+
+describe('spécification OpenAPI et validation des paramètres', () => {
+  before(async () => {
+    running = await startSimulator();
+    doc = await import('../src/openapi/document');
+    validation = await import('../src/openapi/validateRequest');
+    schema = await import('../src/openapi/jsonSchema');
+  });
+
+  after(async () => {
+    await running.close();
+  });
+
+  it('document : opérations uniques, paramètres de chemin déclarés, références résolues', () => {
+    const document = doc.buildOpenApiDocument();
+    assert.equal(document.openapi, '3.0.3');
+    assert.equal(new Set(doc.OPERATIONS.map((op) => op.operationId)).size, doc.OPERATIONS.length);
+
+    for (const op of doc.OPERATIONS) {
+      const declared = op.parameters.filter((p) => p.in === 'path').map((p) => p.name);
+      const inPath = Array.from(op.path.matchAll(/\{(\w+)\}/g), (m) => m[1]);
+      assert.deepEqual(declared.sort(), inPath.sort(), op.path);
+      assert.ok(document.paths[op.path].get.responses['200'], op.path);
+    }
+
+    const names = Object.keys(document.components.schemas);
+    for (const ref of collectRefs(document)) {
+      assert.ok(names.includes(ref.replace('#/components/schemas/', '')), ref);
+    }
+  });
+
+  it('contrat partagé : identifiants alignés sur la configuration du serveur', async () => {
+    const shared = await import('@solar-system/shared');
+    const { PLANETS } = await import('../src/config/planets');
+    const { BODIES } = await import('../src/config/bodies');
+    assert.deepEqual(PLANETS.map((p) => p.name), [...shared.PLANET_NAMES]);
+    assert.deepEqual(BODIES.map((b) => b.id).sort(), [...shared.BODY_IDS].sort());
+    assert.equal(shared.isBodyId('europa'), true);
+    assert.equal(shared.isPlanetName('vulcan'), false);
+  });
+
+  it('paramètres : types, bornes, listes, casse et valeurs vides', () => {
+    assert.equal(check('getPlanets', 'at', '2024-03-01T00:00Z'), null);
+    assert.equal(check('getPlanets', 'at', 'hier'), 'Invalid "at" parameter (ISO-8601 expected)');
+    assert.equal(check('getPlanets', 'at', ''), null, 'vide = absent, la route applique son défaut');
+    assert.equal(check('getPlanets', 'at', ['2024-01-01', '2024-01-02']), 'Invalid "at" parameter (single value expected)');
+    assert.equal(check('getPlanets', 'center', 'Jupiter'), null);
+    assert.match(check('getPlanets', 'frame', 'galactic') ?? '', /expected one of: ecliptic, equatorial/);
+    assert.equal(check('getPlanetsFull', 'lat', '91'), 'Invalid "lat" parameter (number in [-90, 90] expected)');
+    assert.equal(check('getHistory', 'limit', '2.5')?.startsWith('Invalid "limit" parameter (integer in [1, '), true);
+    assert.equal(check('getBodySeries', 'start', undefined), 'Missing "start" parameter (ISO-8601 expected)');
+
+    assert.equal(check('getBodies', 'ids', 'io, Europa'), null);
+    assert.equal(check('getBodies', 'ids', ['io', 'europa,callisto']), null);
+    assert.match(check('getBodies', 'ids', 'io,vulcan') ?? '', /^Invalid "ids" parameter \("vulcan": expected one of: /);
+    assert.equal(check('getBodies', 'ids', ' , '), 'Missing "ids" parameter (comma-separated list expected)');
+    const tooMany = Array.from({ length: 40 }, () => 'io').join(',');
+    assert.match(check('getBodies', 'ids', tooMany) ?? '', /at most \d+ values expected, got 40/);
+  });
+
+  it('middleware : 400 structuré avec un détail par paramètre, sinon passe la main', () => {
+    const rejected = runValidator('getBodies', { at: 'demain', frame: 'galactic' });
+    assert.equal(rejected.status, 400);
+    assert.equal(rejected.nextCalled, false);
+    assert.equal(rejected.body?.requestId, 'req-openapi');
+    assert.deepEqual(
+      rejected.body?.details.map((d) => `${d.in}:${d.name}`),
+      ['query:ids', 'query:at', 'query:frame']
+    );
+    assert.equal(rejected.body?.error, rejected.body?.details.map((d) => d.message).join('; '));
+    assert.deepEqual(schema.validateSchema(doc.COMPONENT_SCHEMAS.Error, rejected.body, doc.COMPONENT_SCHEMAS), []);
+
+    const path = runValidator('getBody', {}, { id: '../etc' });
+    assert.equal(path.status, 400);
+    assert.equal(path.body?.details[0].in, 'path');
+
+    const accepted = runValidator('getBody', { at: '2024-03-01', center: 'JUPITER', refresh: '1' }, { id: 'io' });
+    assert.equal(accepted.nextCalled, true);
+  });
+
+  it('réponses réelles conformes aux schémas publiés', async () => {
+    const { getSnapshot } = await import('../src/cache/ephemerisCache');
+    const { getBodiesEphemeris } = await import('../src/cache/bodyEphemerisCache');
+    const { getBodySeries } = await import('../src/cache/seriesCache');
+    const components = doc.COMPONENT_SCHEMAS;
+
+    const snapshot = await getSnapshot({ at: AT, includeObserver: true, observer: { lat: 48.8, lon: 2.3, altKm: 0 } });
+    assert.deepEqual(schema.validateSchema(components.EphemerisSnapshot, snapshot.payload, components), []);
+
+    const batch = await getBodiesEphemeris({ ids: ['io', 'sun'], at: AT });
+    assert.deepEqual(schema.validateSchema(components.BodyBatch, batch, components), []);
+
+    const series = await getBodySeries({
+      id: 'europa',
+      window: { start: AT, stop: new Date(AT.getTime() + 86_400_000), step: '6h' },
+      reference: { center: 'jupiter', frame: 'ecliptic' }
+    });
+    assert.deepEqual(schema.validateSchema(components.BodySeries, series, components), []);
+
+    // Le validateur détecte bien une dérive (champ renommé).
+    const { x_au, ...renamed } = batch.bodies[0];
+    const issues = schema.validateSchema(components.BodyEphemeris, { ...renamed, x_km: x_au }, components);
+    assert.deepEqual(issues, [{ path: '$.x_au', message: 'required property missing' }]);
+  });
+});
@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+
+import { RunningSimulator, startSimulator } from './helpers/simulator';
+
+process.env.CACHE_WARM_INTERVAL_MS = '0';
+process.env.SNAPSHOT_ARCHIVE = '0';
+delete process.env.REDIS_URL;
+
+type CacheModule = typeof import('../src/cache/ephemerisCache');
+type BodyCacheModule = typeof import('../src/cache/bodyEphemerisCache');
+type SeriesCacheModule = typeof import('../src/cache/seriesCache');
+
+const AT = new Date('2024-03-01T00:00:00Z');
+const OBLIQUITY_RAD = (23.4392911 * Math.PI) / 180;
+
+let running: RunningSimulator;
+let cache: CacheModule;
+let bodies: BodyCacheModule;
+let series: SeriesCacheModule;
+
+function body(result: Awaited<ReturnType<CacheModule['getSnapshot']>>, name: string) {
+  const found = result.payload.bodies.find((b) => b.name === name);
+  assert.ok(found, `${name} absent du snapshot`);
+  return found;
+}
+
+describe('repère des vecteurs (center / frame)', () => {
+  before(async () => {
+    running = await startSimulator();
+    cache = await import('../src/cache/ephemerisCache');
+    bodies = await import('../src/cache/bodyEphemerisCache');
+    series = await import('../src/cache/seriesCache');
+  });
+
+  after(async () => {
+    await running.close();
+  });
+
+  it('géocentrique équatorial : Terre à l’origine, Jupiter = rotation de (Jupiter − Terre)', async () => {
+    const ecliptic = await cache.getSnapshot({ at: AT });
+    const geocentric = await cache.getSnapshot({ at: AT, reference: { center: 'earth', frame: 'equatorial' } });
+
+    assert.equal(ecliptic.payload.metadata.referenceFrame, 'J2000-ECLIPTIC');
+    assert.equal(ecliptic.payload.metadata.center, 'ssb');
+    assert.equal(geocentric.cacheState, 'MISS');
+    assert.equal(geocentric.payload.metadata.referenceFrame, 'ICRF-EQUATORIAL');
+    assert.equal(geocentric.payload.metadata.center, 'earth');
+    assert.equal(geocentric.payload.metadata.partial, false);
+
+    const earth = body(geocentric, 'earth');
+    assert.deepEqual([earth.x_au, earth.y_au, earth.z_au], [0, 0, 0]);
+
+    const e = body(ecliptic, 'earth');
+    const j = body(ecliptic, 'jupiter');
+    const [dx, dy, dz] = [j.x_au - e.x_au, j.y_au - e.y_au, j.z_au - e.z_au];
+    const expected = [
+      dx,
+      dy * Math.cos(OBLIQUITY_RAD) - dz * Math.sin(OBLIQUITY_RAD),
+      dy * Math.sin(OBLIQUITY_RAD) + dz * Math.cos(OBLIQUITY_RAD)
+    ];
+    const jupiter = body(geocentric, 'jupiter');
+    [jupiter.x_au, jupiter.y_au, jupiter.z_au].forEach((value, i) => {
+      assert.ok(Math.abs(value - expected[i]) < 1e-9, `composante ${i} : ${value} ≠ ${expected[i]}`);
+    });
+
+    // Clés de cache distinctes : le snapshot par défaut reste servi tel quel.
+    const again = await cache.getSnapshot({ at: AT });
+    assert.equal(again.cacheState, 'HIT');
+    assert.equal(again.payload.metadata.center, 'ssb');
+  });
+
+  it('lunes centrées sur leur planète', async () => {
+    const batch = await bodies.getBodiesEphemeris({
+      ids: ['io', 'europa'],
+      at: AT,
+      reference: { center: 'jupiter', frame: 'ecliptic' }
+    });
+
+    assert.equal(batch.metadata.center, 'jupiter');
+    assert.deepEqual(batch.errors, []);
+    for (const moon of batch.bodies) {
+      assert.equal(moon.center, 'jupiter');
+      assert.equal(moon.referenceFrame, 'J2000-ECLIPTIC');
+      const distance = Math.hypot(moon.x_au, moon.y_au, moon.z_au);
+      assert.ok(distance > 0.002 && distance < 0.006, `${moon.id} à ${distance} AU de Jupiter`);
+    }
+  });
+
+  it('série géocentrique : la Terre à l’origine à chaque pas, sans appel Horizons', async () => {
+    running.simulator.resetCounts();
+    const window = { start: AT, stop: new Date('2024-03-03T00:00:00Z'), step: '1d' };
+    const payload = await series.getPlanetSeries({
+      window,
+      names: ['earth', 'mars'],
+      reference: { center: 'earth', frame: 'equatorial' }
+    });
+
+    assert.equal(running.simulator.requestCounts()['399'], undefined);
+    assert.equal(running.simulator.requestCounts()['499'], 1);
+    const [earth, mars] = payload.bodies;
+    assert.equal(earth.name, 'earth');
+    assert.equal(earth.samples.length, mars.samples.length);
+    earth.samples.forEach((s, i) => {
+      assert.deepEqual([s.x_au, s.y_au, s.z_au, s.vx, s.vy, s.vz], [0, 0, 0, 0, 0, 0]);
+      assert.equal(s.timestamp, mars.samples[i].timestamp);
+      assert.equal(s.julian_day_tdb, mars.samples[i].julian_day_tdb);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+
+import type { ArchivedSnapshot } from '../src/cache/snapshotArchive';
+
+type ArchiveModule = typeof import('../src/cache/snapshotArchive');
+
+let dir: string;
+let archive: ArchiveModule;
+
+function entry(archivedAt: string, extra?: Partial<ArchivedSnapshot>): ArchivedSnapshot {
+  return {
+    archivedAt,
+    reason: 'request',
+    mode: 'state-vectors',
+    snapshot: {
+      timestamp: archivedAt,
+      metadata: { source: 'NASA-JPL-Horizons' },
+      bodies: [
+        { name: 'earth', x_au: 1, y_au: 0, z_au: 0 },
+        { name: 'mars', x_au: 1.5, y_au: 0.2, z_au: 0 }
+      ]
+    },
+    ...extra
+  };
+}
+
+describe('snapshotArchive', () => {
+  before(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'snapshot-archive-'));
+    // Lu au chargement du module.
+    process.env.SNAPSHOT_ARCHIVE_DIR = dir;
+    archive = await import('../src/cache/snapshotArchive');
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('ajoute une ligne par snapshot dans le fichier du jour et relit la fenêtre demandée', async () => {
+    await archive.archiveSnapshot(entry('2025-03-01T23:58:00.000Z'));
+    await archive.archiveSnapshot(entry('2025-03-02T00:01:00.000Z'));
+    await archive.archiveSnapshot(entry('2025-03-02T00:01:30.000Z', { epoch: '1990-01-01T00:00Z' }));
+    await archive.archiveSnapshot(entry('2025-03-02T12:00:00.000Z'));
+    // Ligne tronquée (arrêt pendant une écriture) : ignorée.
+    fs.appendFileSync(path.join(dir, 'snapshots-2025-03-02.jsonl'), '{"archivedAt":"2025-03');
+
+    assert.deepEqual(fs.readdirSync(dir).sort(), ['snapshots-2025-03-01.jsonl', 'snapshots-2025-03-02.jsonl']);
+
+    const live = await archive.readHistory({
+      from: new Date('2025-03-01T23:00:00Z'),
+      to: new Date('2025-03-02T06:00:00Z')
+    });
+    assert.deepEqual(
+      live.entries.map((e) => e.archivedAt),
+      ['2025-03-01T23:58:00.000Z', '2025-03-02T00:01:00.000Z']
+    );
+    assert.equal(live.truncated, false);
+
+    const all = await archive.readHistory({
+      from: new Date('2025-03-01T00:00:00Z'),
+      to: new Date('2025-03-03T00:00:00Z'),
+      includeScoped: true
+    });
+    assert.equal(all.entries.length, 4);
+    assert.equal(all.entries[2].epoch, '1990-01-01T00:00Z');
+  });
+
+  it('filtre par corps et signale la troncature', async () => {
+    const result = await archive.readHistory({
+      from: new Date('2025-03-01T00:00:00Z'),
+      to: new Date('2025-03-03T00:00:00Z'),
+      body: 'mars',
+      limit: 2
+    });
+    assert.equal(result.entries.length, 2);
+    assert.equal(result.truncated, true);
+    assert.ok(result.entries.every((e) => e.snapshot.bodies.map((b) => b.name).join() === 'mars'));
+
+    const none = await archive.readHistory({
+      from: new Date('2025-03-01T00:00:00Z'),
+      to: new Date('2025-03-03T00:00:00Z'),
+      body: 'pluto'
+    });
+    assert.deepEqual(none.entries, []);
+  });
+});
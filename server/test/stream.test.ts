@@ -0,0 +1,169 @@
+import assert from 'node:assert/strict';
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { after, before, describe, it } from 'node:test';
+import { WebSocket } from 'ws';
+
+import { RunningSimulator, startSimulator } from './helpers/simulator';
+
+// Pas de ticker : seuls les rafraîchissements déclenchés par les tests publient.
+process.env.STREAM_TICK_MS = '0';
+process.env.STREAM_HEARTBEAT_MS = '60000';
+process.env.CACHE_WARM_INTERVAL_MS = '0';
+process.env.SNAPSHOT_ARCHIVE = '0';
+delete process.env.REDIS_URL;
+
+type HubModule = typeof import('../src/stream/streamHub');
+type StreamTopic = import('../src/stream/streamEvents').StreamTopic;
+
+let running: RunningSimulator;
+let hub: HubModule;
+let server: http.Server;
+let baseUrl: string;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function waitFor(predicate: () => boolean, timeoutMs = 3_000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!predicate()) {
+    assert.ok(Date.now() < deadline, 'délai dépassé');
+    await sleep(10);
+  }
+}
+
+function cacheStatusOf(payload: unknown): string | undefined {
+  return (payload as { metadata?: { cacheStatus?: string } }).metadata?.cacheStatus;
+}
+
+/** Lit le flux SSE jusqu'au premier évènement nommé, puis coupe la connexion. */
+function readFirstEvent(path: string): Promise<{ status: number; contentType?: string; raw: string }> {
+  return new Promise((resolve, reject) => {
+    const req = http.get(`${baseUrl}${path}`, (res) => {
+      let raw = '';
+      res.setEncoding('utf8');
+      res.on('data', (chunk: string) => {
+        raw += chunk;
+        if (res.statusCode !== 200 || /event: .*\ndata: .*\n\n/.test(raw)) {
+          resolve({ status: res.statusCode ?? 0, contentType: res.headers['content-type'], raw });
+          req.destroy();
+        }
+      });
+    });
+    req.on('error', (err: NodeJS.ErrnoException) => {
+      if (err.code !== 'ECONNRESET') reject(err);
+    });
+  });
+}
+
+describe('flux live (hub, SSE, WebSocket)', () => {
+  before(async () => {
+    running = await startSimulator();
+    hub = await import('../src/stream/streamHub');
+    const { default: streamRouter } = await import('../src/routes/stream');
+    const { applyRequestTracing } = await import('../src/observability/requestTracing');
+    const { attachStreamWebSocket } = await import('../src/stream/streamWebSocket');
+
+    const app = express();
+    app.use(applyRequestTracing());
+    app.use('/api/stream', streamRouter);
+    server = app.listen(0);
+    await new Promise<void>((resolve) => server.once('listening', () => resolve()));
+    attachStreamWebSocket(server);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    await running.close();
+  });
+
+  it('parseTopic : sujets connus, centre facultatif, inconnus refusés', () => {
+    assert.equal(hub.parseTopic(' Planets:Full '), 'planets:full');
+    assert.equal(hub.parseTopic('body:io'), 'body:io');
+    assert.equal(hub.parseTopic('body:io@jupiter'), 'body:io@jupiter');
+    assert.equal(hub.parseTopic('body:io@ssb'), 'body:io');
+    assert.equal(hub.parseTopic('body:io@vulcan'), null);
+    assert.equal(hub.parseTopic('body:vulcan'), null);
+    assert.equal(hub.parseTopic('spacecraft:voyager1'), 'spacecraft:voyager1');
+    assert.equal(hub.parseTopic('weather'), null);
+  });
+
+  it('subscribe : compteur par sujet, désabonnement idempotent', () => {
+    const topic: StreamTopic = 'body:phobos';
+    const first = hub.subscribe([topic, topic], () => undefined);
+    const second = hub.subscribe([topic], () => undefined);
+    assert.equal(hub.subscriberCount(topic), 2, 'un sujet répété compte une fois');
+
+    first();
+    first();
+    assert.equal(hub.subscriberCount(topic), 1);
+    second();
+    assert.equal(hub.subscriberCount(topic), 0);
+  });
+
+  it('valeur initiale : un MISS arrive une seule fois (publié par le cache), un HIT est envoyé', async () => {
+    const topic: StreamTopic = 'body:deimos';
+    const received: unknown[] = [];
+    const unsubscribe = hub.subscribe([topic], (_t, payload) => received.push(payload));
+    await waitFor(() => received.length > 0);
+    await sleep(100);
+    assert.deepEqual(received.map(cacheStatusOf), ['MISS']);
+
+    const late: unknown[] = [];
+    const unsubscribeLate = hub.subscribe([topic], (_t, payload) => late.push(payload));
+    await waitFor(() => late.length > 0);
+    await sleep(100);
+    assert.deepEqual(late.map(cacheStatusOf), ['HIT']);
+    assert.equal(received.length, 1, 'le premier abonné ne reçoit pas le HIT du second');
+
+    unsubscribe();
+    unsubscribeLate();
+  });
+
+  it('SSE : évènement nommé par sujet, payload JSON dans data', async () => {
+    const { status, contentType, raw } = await readFirstEvent('/api/stream?topics=body:sun');
+    assert.equal(status, 200);
+    assert.equal(contentType, 'text/event-stream');
+    assert.ok(raw.startsWith('retry: 5000\n\n'));
+
+    const match = /event: (.*)\ndata: (.*)\n\n/.exec(raw);
+    assert.ok(match, raw);
+    assert.equal(match[1], 'body:sun');
+    assert.equal(JSON.parse(match[2]).id, 'sun');
+
+    await waitFor(() => hub.subscriberCount('body:sun') === 0);
+  });
+
+  it('SSE : sujet inconnu → 400', async () => {
+    const { status, raw } = await readFirstEvent('/api/stream?topics=body:vulcan');
+    assert.equal(status, 400);
+    assert.equal(JSON.parse(raw).details[0].name, 'topics');
+  });
+
+  it('WebSocket : upgrade accepté sur /api/stream, refusé ailleurs', async () => {
+    const wsUrl = baseUrl.replace('http', 'ws');
+
+    const socket = new WebSocket(`${wsUrl}/api/stream?topics=body:moon`);
+    const message = await new Promise<{ type: string; topic: string; data: { id: string } }>((resolve, reject) => {
+      socket.once('message', (raw) => resolve(JSON.parse(raw.toString())));
+      socket.once('error', reject);
+    });
+    assert.equal(message.type, 'update');
+    assert.equal(message.topic, 'body:moon');
+    assert.equal(message.data.id, 'moon');
+    socket.close();
+
+    const rejected = new WebSocket(`${wsUrl}/api/other`);
+    const outcome = await new Promise<string>((resolve) => {
+      rejected.once('open', () => resolve('open'));
+      rejected.once('error', () => resolve('error'));
+    });
+    assert.equal(outcome, 'error');
+
+    await waitFor(() => hub.subscriberCount('body:moon') === 0);
+  });
+});
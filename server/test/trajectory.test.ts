@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+  locateFlybys,
+  mergeSamples,
+  planRefinedWindows,
+  TrajectorySample
+} from '../src/services/trajectoryService';
+
+const DAY_MS = 86_400_000;
+const START = Date.parse('1977-09-06T00:00:00Z');
+
+/** Échantillons tous les `stepDays` : ligne droite, puis virage de 90° à l'index `bendAt`. */
+function track(count: number, stepDays: number, bendAt?: number): TrajectorySample[] {
+  const samples: TrajectorySample[] = [];
+  let x = 0;
+  let y = 0;
+  for (let i = 0; i < count; i += 1) {
+    samples.push({
+      timestamp: new Date(START + i * stepDays * DAY_MS).toISOString(),
+      x_au: x,
+      y_au: y,
+      z_au: 0
+    });
+    if (bendAt !== undefined && i >= bendAt) y += 1;
+    else x += 1;
+  }
+  return samples;
+}
+
+describe('planRefinedWindows', () => {
+  it('raffine le départ, les survols connus et les virages détectés, fenêtres fusionnées', () => {
+    const coarse = track(40, 30, 20);
+    const stop = new Date(coarse[coarse.length - 1].timestamp);
+    const flybyDate = new Date(START + 300 * DAY_MS).toISOString().slice(0, 10);
+
+    const windows = planRefinedWindows(coarse, [{ body: 'jupiter', date: flybyDate }], {
+      start: new Date(START),
+      stop,
+      includeLaunch: true
+    });
+
+    assert.equal(windows.length, 3);
+    assert.equal(windows[0].start.getTime(), START);
+    assert.equal(windows[0].stop.getTime(), START + 60 * DAY_MS);
+    assert.ok(windows[1].start.getTime() <= Date.parse(flybyDate));
+    assert.ok(windows[1].stop.getTime() >= Date.parse(flybyDate));
+    // Virage à l'index 20 : fenêtre [19, 21] en pas grossiers.
+    assert.equal(windows[2].start.toISOString(), coarse[19].timestamp);
+    assert.equal(windows[2].stop.toISOString(), coarse[21].timestamp);
+    assert.ok(windows.every((w) => w.step === '12h'));
+  });
+
+  it("élargit le pas d'une fenêtre trop longue", () => {
+    // Orbite serrée : chaque pas grossier tourne, tout est fusionné en une fenêtre.
+    const zigzag: TrajectorySample[] = track(200, 30).map((s, i) => ({ ...s, y_au: i % 2 }));
+    const windows = planRefinedWindows(zigzag, [], {
+      start: new Date(START),
+      stop: new Date(zigzag[zigzag.length - 1].timestamp),
+      includeLaunch: false
+    });
+
+    assert.equal(windows.length, 1);
+    assert.notEqual(windows[0].step, '12h');
+  });
+});
+
+describe('mergeSamples / locateFlybys', () => {
+  it('remplace les points grossiers couverts et place le survol sur le point le plus proche', () => {
+    const coarse = track(10, 30);
+    const window = {
+      start: new Date(coarse[3].timestamp),
+      stop: new Date(coarse[5].timestamp),
+      step: '12h'
+    };
+    const fine = [3, 4, 4.5, 5].map((i) => ({
+      timestamp: new Date(START + i * 30 * DAY_MS).toISOString(),
+      x_au: i,
+      y_au: 0.5,
+      z_au: 0
+    }));
+
+    const merged = mergeSamples(coarse, [{ window, samples: fine }]);
+    assert.equal(merged.length, 10 - 3 + 4);
+    assert.deepEqual(
+      merged.map((s) => s.timestamp),
+      [...merged].sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp)).map((s) => s.timestamp)
+    );
+
+    const flybyDate = new Date(START + 4.5 * 30 * DAY_MS).toISOString();
+    const [flyby] = locateFlybys(merged, [{ body: 'saturn', date: flybyDate }]);
+    assert.equal(flyby.body, 'saturn');
+    assert.deepEqual(flyby.positionAu, { x: 4.5, y: 0.5, z: 0 });
+    assert.deepEqual(locateFlybys(merged, [{ body: 'neptune', date: '2030-01-01' }]), []);
+  });
+});
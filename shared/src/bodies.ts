@@ -0,0 +1,52 @@
+/** Planètes principales + Pluton, dans l'ordre des distances au Soleil. */
+export const PLANET_NAMES = [
+  'mercury',
+  'venus',
+  'earth',
+  'mars',
+  'jupiter',
+  'saturn',
+  'uranus',
+  'neptune',
+  'pluto'
+] as const;
+
+export type PlanetName = (typeof PLANET_NAMES)[number];
+
+/** Corps servis par `/api/ephemeris/body/:id` : le Soleil et les lunes suivies. */
+export const BODY_IDS = [
+  'sun',
+  'moon',
+  'phobos',
+  'deimos',
+  'io',
+  'europa',
+  'ganymede',
+  'callisto',
+  'titan',
+  'enceladus',
+  'rhea',
+  'iapetus',
+  'miranda',
+  'ariel',
+  'umbriel',
+  'titania',
+  'oberon',
+  'triton',
+  'nereid',
+  'charon',
+  'styx',
+  'nix',
+  'kerberos',
+  'hydra'
+] as const;
+
+export type BodyId = (typeof BODY_IDS)[number];
+
+export function isPlanetName(value: string): value is PlanetName {
+  return (PLANET_NAMES as readonly string[]).includes(value);
+}
+
+export function isBodyId(value: string): value is BodyId {
+  return (BODY_IDS as readonly string[]).includes(value);
+}
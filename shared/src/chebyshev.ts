@@ -0,0 +1,81 @@
+import { SECONDS_PER_DAY } from './units';
+
+/**
+ * Segment de Chebyshev ajusté côté serveur sur les échantillons Horizons.
+ * `x`, `y`, `z` : coefficients (UA) par degré croissant, variable réduite
+ * τ ∈ [-1, 1] sur [startMs, stopMs] (ms epoch UTC).
+ */
+export interface ChebyshevSegment {
+  startMs: number;
+  stopMs: number;
+  x: number[];
+  y: number[];
+  z: number[];
+}
+
+/** Position (UA) et vitesse (UA/j) évaluées sur un segment. */
+export interface ChebyshevState {
+  x: number;
+  y: number;
+  z: number;
+  vx: number;
+  vy: number;
+  vz: number;
+}
+
+/** Série de Chebyshev et sa dérivée en τ (récurrence sur T_n et dT_n/dτ). */
+export function evaluateChebyshev(coeffs: number[], tau: number): { value: number; derivative: number } {
+  let t0 = 1;
+  let t1 = tau;
+  let d0 = 0;
+  let d1 = 1;
+  let value = coeffs[0] ?? 0;
+  let derivative = 0;
+  if (coeffs.length > 1) {
+    value += coeffs[1] * t1;
+    derivative += coeffs[1] * d1;
+  }
+  for (let n = 2; n < coeffs.length; n += 1) {
+    const t2 = 2 * tau * t1 - t0;
+    const d2 = 2 * t1 + 2 * tau * d1 - d0;
+    value += coeffs[n] * t2;
+    derivative += coeffs[n] * d2;
+    t0 = t1;
+    t1 = t2;
+    d0 = d1;
+    d1 = d2;
+  }
+  return { value, derivative };
+}
+
+/** Segment couvrant `timeMs` (segments triés et contigus), ou `null`. */
+export function findChebyshevSegment(segments: ChebyshevSegment[], timeMs: number): ChebyshevSegment | null {
+  let lo = 0;
+  let hi = segments.length - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    const s = segments[mid];
+    if (timeMs < s.startMs) hi = mid - 1;
+    else if (timeMs > s.stopMs) lo = mid + 1;
+    else return s;
+  }
+  return null;
+}
+
+/** Position et vitesse à `timeMs`, supposé dans [startMs, stopMs]. */
+export function evaluateChebyshevSegment(segment: ChebyshevSegment, timeMs: number): ChebyshevState {
+  const halfMs = (segment.stopMs - segment.startMs) / 2;
+  const tau = (timeMs - (segment.startMs + halfMs)) / halfMs;
+  const dTauPerDay = (SECONDS_PER_DAY * 1000) / halfMs;
+  const x = evaluateChebyshev(segment.x, tau);
+  const y = evaluateChebyshev(segment.y, tau);
+  const z = evaluateChebyshev(segment.z, tau);
+  return {
+    x: x.value,
+    y: y.value,
+    z: z.value,
+    vx: x.derivative * dTauPerDay,
+    vy: y.derivative * dTauPerDay,
+    vz: z.derivative * dTauPerDay
+  };
+}
@@ -0,0 +1,141 @@
+import type { BodyId, PlanetName } from './bodies';
+
+/**
+ * États de cache annoncés dans `metadata.cacheStatus` (et l'en-tête
+ * X-Horizons-Cache). FROZEN : dernière copie servie faute d'Horizons.
+ */
+export type SnapshotCacheStatus = 'HIT' | 'MISS' | 'STALE' | 'FROZEN';
+export type BodyCacheStatus = 'HIT' | 'MISS' | 'FROZEN';
+export type CacheBackend = 'memory' | 'redis';
+
+/**
+ * Lieu d'observation terrestre (coordonnées géodésiques WGS-84).
+ * Longitude positive vers l'Est, altitude en km (convention SITE_COORD Horizons).
+ */
+export interface ObserverLocation {
+  lat: number;
+  lon: number;
+  altKm: number;
+  /** Identifiant du site nommé, si l'emplacement vient de `?site=`. */
+  site?: string;
+}
+
+/** Position apparente vue depuis le lieu d'observation. */
+export interface TopocentricObservation {
+  site: ObserverLocation;
+  /** Ascension droite / déclinaison (degrés, ICRF). */
+  ra_deg?: number;
+  dec_deg?: number;
+  /** Azimut compté depuis le Nord vers l'Est, élévation au-dessus de l'horizon (degrés). */
+  azimuth_deg?: number;
+  elevation_deg?: number;
+  /** Absente (n.a.) quand la cible est sous l'horizon. */
+  airmass?: number;
+  above_horizon?: boolean;
+  /** Prochains lever / passage au méridien / coucher dans les 24 h (ISO UTC). */
+  rise?: string;
+  transit?: string;
+  set?: string;
+}
+
+/**
+ * Vecteur d'état et grandeurs observateur communs à une planète d'un
+ * snapshot et à un corps de `/body/:id`. Distances en UA, vitesses dans
+ * `velocityUnit` (UA/jour).
+ */
+export interface EphemerisVectorFields {
+  x_au: number;
+  y_au: number;
+  z_au: number;
+  vx?: number;
+  vy?: number;
+  vz?: number;
+  velocityUnit?: string;
+  range_au?: number;
+  range_rate_km_s?: number;
+  light_time_minutes?: number;
+  solar_elongation_deg?: number;
+  phase_angle_deg?: number;
+  illumination_fraction?: number;
+  apparent_magnitude?: number;
+  /** Présent quand un lieu d'observation est demandé (OBSERVER topocentrique). */
+  topocentric?: TopocentricObservation;
+}
+
+/** Une planète dans un snapshot `/api/ephemeris/planets*`. */
+export interface EphemerisBody extends EphemerisVectorFields {
+  name: PlanetName;
+  /** Époque telle que l'écrit Horizons (jour julien et date TDB), ISO à défaut. */
+  timestamp?: string;
+}
+
+export interface EphemerisSnapshotMetadata {
+  source?: string;
+  referenceFrame?: string;
+  /** Origine des vecteurs (`ssb`, `sun` ou une planète). */
+  center?: string;
+  distanceUnit?: string;
+  velocityUnit?: string;
+  responseTimeMs?: number;
+  cacheStatus?: SnapshotCacheStatus;
+  cacheBackend?: CacheBackend;
+  cacheAgeMs?: number;
+  cacheExpiresInMs?: number;
+  cacheStale?: boolean;
+  generatedAt?: string;
+  epoch?: string;
+  observer?: ObserverLocation;
+  frozenSnapshot?: boolean;
+  freezeReason?: string;
+  requestId?: string;
+  /** Au moins une planète manque ou vient d'une copie de secours. */
+  partial?: boolean;
+  fallbackBodies?: string[];
+  missingBodies?: string[];
+}
+
+/** Jeu cohérent de positions planétaires à un instant donné. */
+export interface EphemerisSnapshot {
+  timestamp: string;
+  metadata: EphemerisSnapshotMetadata;
+  bodies: EphemerisBody[];
+}
+
+/** Réponse de `/api/ephemeris/body/:id`. */
+export interface BodyEphemerisPayload extends EphemerisVectorFields {
+  id: BodyId;
+  timestamp: string;
+  referenceFrame?: string;
+  /** Origine des vecteurs (`ssb`, `sun` ou une planète). */
+  center?: string;
+  source?: string;
+  metadata?: {
+    cacheStatus?: BodyCacheStatus;
+    cacheAgeMs?: number;
+    cacheExpiresInMs?: number;
+    responseTimeMs?: number;
+    requestId?: string;
+    epoch?: string;
+    observer?: ObserverLocation;
+    frozenSnapshot?: boolean;
+    freezeReason?: string;
+  };
+}
+
+/** Réponse de `/api/ephemeris/bodies?ids=` : plusieurs corps en une requête. */
+export interface BodyEphemerisBatch {
+  timestamp: string;
+  requestId?: string;
+  /** Dans l'ordre des ids demandés ; `metadata.cacheStatus` donne l'état de chacun. */
+  bodies: BodyEphemerisPayload[];
+  errors: { id: BodyId; error: string }[];
+  metadata: {
+    responseTimeMs: number;
+    /** Nombre de corps servis par état de cache. */
+    cacheStatus: Partial<Record<BodyCacheStatus, number>>;
+    epoch?: string;
+    observer?: ObserverLocation;
+    referenceFrame: string;
+    center: string;
+  };
+}
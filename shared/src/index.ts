@@ -0,0 +1,10 @@
+/**
+ * Contrat d'échange entre l'API (`server/`) et le client Angular (`client/`) :
+ * les deux builds importent ces types, un champ renommé casse donc la
+ * compilation des deux côtés.
+ */
+export * from './bodies';
+export * from './chebyshev';
+export * from './ephemeris';
+export * from './sites';
+export * from './units';
@@ -0,0 +1,50 @@
+import type { ObserverLocation } from './ephemeris';
+
+/**
+ * Site d'observation nommé (`?site=`) : `displayName` pour l'API, `shortName`
+ * pour le sélecteur du client.
+ */
+export interface ObservingSite extends ObserverLocation {
+  site: string;
+  displayName: string;
+  shortName: string;
+}
+
+export const OBSERVING_SITES: ObservingSite[] = [
+  { site: 'paris', displayName: 'Observatoire de Paris', shortName: 'Paris', lat: 48.8362, lon: 2.3364, altKm: 0.067 },
+  {
+    site: 'greenwich',
+    displayName: 'Royal Observatory Greenwich',
+    shortName: 'Greenwich',
+    lat: 51.4769,
+    lon: -0.0005,
+    altKm: 0.046
+  },
+  {
+    site: 'haute-provence',
+    displayName: 'Observatoire de Haute-Provence',
+    shortName: 'Haute-Provence',
+    lat: 43.9317,
+    lon: 5.7122,
+    altKm: 0.65
+  },
+  {
+    site: 'pic-du-midi',
+    displayName: 'Observatoire du Pic du Midi',
+    shortName: 'Pic du Midi',
+    lat: 42.9364,
+    lon: 0.1425,
+    altKm: 2.877
+  },
+  { site: 'mauna-kea', displayName: 'Mauna Kea', shortName: 'Mauna Kea', lat: 19.8207, lon: -155.4681, altKm: 4.207 },
+  { site: 'kitt-peak', displayName: 'Kitt Peak', shortName: 'Kitt Peak', lat: 31.9583, lon: -111.5967, altKm: 2.096 },
+  { site: 'la-silla', displayName: 'La Silla (ESO)', shortName: 'La Silla', lat: -29.2563, lon: -70.738, altKm: 2.4 },
+  {
+    site: 'paranal',
+    displayName: 'Cerro Paranal (ESO)',
+    shortName: 'Paranal',
+    lat: -24.6272,
+    lon: -70.4042,
+    altKm: 2.635
+  }
+];
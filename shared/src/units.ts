@@ -0,0 +1,9 @@
+/** Unité astronomique (km, définition IAU 2012). */
+export const AU_IN_KM = 149_597_870.7;
+
+export const SECONDS_PER_DAY = 86_400;
+
+/** Vitesse de la lumière dans le vide (km/s). */
+export const SPEED_OF_LIGHT_KM_S = 299_792.458;
+
+export const KM_TO_MILES = 0.621371;